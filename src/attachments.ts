@@ -0,0 +1,134 @@
+/**
+ * Attachments
+ * Photos, screenshots, PDFs and other files sent with inbound SMS/MMS and
+ * WhatsApp messages. They are downloaded into a directory per conversation
+ * and recorded on the message (Message.attachments), so spawned Claude
+ * sessions can read them from disk.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import type { InboundMedia } from "./messaging.js";
+
+export interface MessageAttachment {
+  contentType: string;
+  /** Name the sender gave the file (documents), if any */
+  fileName?: string;
+  /** Absolute path of the downloaded file */
+  file?: string;
+  size?: number;
+  /** Why the file couldn't be downloaded */
+  error?: string;
+}
+
+export interface AttachmentStoreOptions {
+  /** Where attachments are kept, one directory per conversation */
+  dir: string;
+}
+
+export interface AttachmentStoreHandlers {
+  /** Fetch media from the provider's URL */
+  download: (url: string) => Promise<Buffer>;
+}
+
+/** File extensions for common MIME types; others use the subtype */
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "application/pdf": "pdf",
+  "text/plain": "txt",
+  "text/csv": "csv",
+  "application/json": "json",
+  "application/zip": "zip",
+  "audio/ogg": "ogg",
+  "audio/mpeg": "mp3",
+  "audio/amr": "amr",
+  "video/mp4": "mp4",
+  "video/3gpp": "3gp",
+};
+
+/**
+ * File extension for a MIME type ("image/png" -> "png", "audio/ogg; codecs=opus" -> "ogg")
+ */
+export function extensionFor(contentType: string): string {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  const subtype = type.split("/")[1] ?? "";
+  return EXTENSIONS[type] ?? (/^[a-z0-9]{1,8}$/.test(subtype) ? subtype : "bin");
+}
+
+/**
+ * Point spawned Claude at the files that came with a message
+ */
+export function describeAttachments(attachments: MessageAttachment[]): string {
+  return attachments
+    .map((attachment) =>
+      attachment.file
+        ? `- ${attachment.file} (${attachment.contentType})`
+        : `- ${attachment.fileName || attachment.contentType}: could not be downloaded (${attachment.error})`
+    )
+    .join("\n");
+}
+
+export class AttachmentStore {
+  private handlers: AttachmentStoreHandlers;
+  private dir: string;
+
+  constructor(handlers: AttachmentStoreHandlers, options: AttachmentStoreOptions) {
+    this.handlers = handlers;
+    // Spawned sessions run in other directories, so paths must be absolute
+    this.dir = resolve(options.dir);
+  }
+
+  /**
+   * Download and store the media sent with a message
+   * Failures are recorded on the attachment rather than thrown.
+   */
+  async save(conversationId: string, messageId: string, media: InboundMedia[]): Promise<MessageAttachment[]> {
+    const attachments: MessageAttachment[] = [];
+
+    for (const [index, item] of media.entries()) {
+      const attachment: MessageAttachment = { contentType: item.contentType };
+      if (item.fileName) {
+        attachment.fileName = item.fileName;
+      }
+
+      try {
+        const data = item.data ?? (item.url ? await this.handlers.download(item.url) : undefined);
+        if (!data) {
+          throw new Error("No media to download");
+        }
+        attachment.file = this.write(conversationId, messageId, index, item, data);
+        attachment.size = data.length;
+        console.error(`[Attachments] Saved ${item.contentType} (${data.length} bytes) for ${conversationId.slice(0, 8)}`);
+      } catch (error) {
+        console.error(`[Attachments] Failed to save ${item.contentType} for ${conversationId.slice(0, 8)}:`, error);
+        attachment.error = String(error);
+      }
+      attachments.push(attachment);
+    }
+
+    return attachments;
+  }
+
+  private write(conversationId: string, messageId: string, index: number, media: InboundMedia, data: Buffer): string {
+    const dir = join(this.dir, safeName(conversationId));
+    mkdirSync(dir, { recursive: true });
+    // Keep the sender's file name where there is one, after a prefix that keeps it unique
+    const name = media.fileName
+      ? media.fileName.replace(/[^A-Za-z0-9._-]/g, "_").replace(/^\.+/, "")
+      : `attachment.${extensionFor(media.contentType)}`;
+    const file = join(dir, `${safeName(messageId)}-${index}-${name}`);
+    writeFileSync(file, data);
+    return file;
+  }
+}
+
+/**
+ * Provider IDs as file names (no path separators or dots)
+ */
+function safeName(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, "_");
+}
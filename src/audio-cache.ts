@@ -0,0 +1,106 @@
+/**
+ * Audio Cache
+ * Content-addressed store of synthesized speech, served to the phone provider
+ * from signed /audio/:hash.mp3 URLs so <Play> and Telnyx playback can use our
+ * OpenAI voice. The same text and voice always map to the same file, so fixed
+ * prompts are only synthesized once.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+export interface AudioCacheOptions {
+  /** Where MP3 files are kept */
+  dir: string;
+  /** Signs audio URLs (default: random per process, so URLs die with the server) */
+  signingKey?: string;
+}
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export class AudioCache {
+  private dir: string;
+  private signingKey: string;
+  private getPublicUrl: () => string;
+  /** Synthesis in progress, so concurrent requests for one prompt share it */
+  private inFlight: Map<string, Promise<string>> = new Map();
+
+  constructor(getPublicUrl: () => string, options: AudioCacheOptions) {
+    this.getPublicUrl = getPublicUrl;
+    this.dir = options.dir;
+    this.signingKey = options.signingKey || randomBytes(32).toString("hex");
+    mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * Content hash for a prompt spoken in a voice
+   */
+  hashFor(text: string, voice: string): string {
+    return createHash("sha256").update(`${voice}\n${text}`).digest("hex");
+  }
+
+  /**
+   * Hash of the cached audio for a prompt, if it has been synthesized
+   */
+  lookup(text: string, voice: string): string | undefined {
+    const hash = this.hashFor(text, voice);
+    return existsSync(this.pathFor(hash)) ? hash : undefined;
+  }
+
+  /**
+   * Make sure a prompt's audio is cached, synthesizing it if needed
+   * @returns The audio's hash
+   */
+  async ensure(text: string, voice: string, synthesize: (text: string) => Promise<Buffer>): Promise<string> {
+    const cached = this.lookup(text, voice);
+    if (cached) return cached;
+
+    const hash = this.hashFor(text, voice);
+    let pending = this.inFlight.get(hash);
+    if (!pending) {
+      pending = synthesize(text)
+        .then((audio) => {
+          writeFileSync(this.pathFor(hash), audio);
+          console.error(`[AudioCache] Cached ${hash.slice(0, 12)} (${audio.length} bytes)`);
+          return hash;
+        })
+        .finally(() => this.inFlight.delete(hash));
+      this.inFlight.set(hash, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Cached MP3 for a hash, if it exists
+   */
+  read(hash: string): Buffer | undefined {
+    if (!HASH_PATTERN.test(hash)) return undefined;
+    const path = this.pathFor(hash);
+    return existsSync(path) ? readFileSync(path) : undefined;
+  }
+
+  /**
+   * Signed public URL the provider can fetch the audio from
+   */
+  url(hash: string): string {
+    return `${this.getPublicUrl()}/audio/${hash}.mp3?sig=${this.sign(hash)}`;
+  }
+
+  /**
+   * Check a signature from an audio URL
+   */
+  verify(hash: string, signature: string): boolean {
+    const expected = Buffer.from(this.sign(hash));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private sign(hash: string): string {
+    return createHmac("sha256", this.signingKey).update(hash).digest("hex");
+  }
+
+  private pathFor(hash: string): string {
+    return join(this.dir, `${hash}.mp3`);
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Audio
+ * Telephony audio helpers for media streaming: G.711 mu-law codec, resampling,
+ * WAV packaging for Whisper, and an energy-based voice activity detector.
+ * PCM is 16-bit signed mono throughout.
+ */
+
+/** Sample rate of phone audio on Twilio and Telnyx media streams */
+export const PHONE_SAMPLE_RATE = 8000;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+/**
+ * Decode G.711 mu-law bytes to PCM samples
+ */
+export function mulawDecode(bytes: Uint8Array): Int16Array {
+  const samples = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    const u = ~bytes[i] & 0xff;
+    const exponent = (u >> 4) & 0x07;
+    const magnitude = ((((u & 0x0f) << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+    samples[i] = u & 0x80 ? -magnitude : magnitude;
+  }
+  return samples;
+}
+
+/**
+ * Encode PCM samples as G.711 mu-law bytes
+ */
+export function mulawEncode(samples: Int16Array): Uint8Array {
+  const bytes = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    let sample = samples[i];
+    const sign = sample < 0 ? 0x80 : 0;
+    if (sign) sample = -sample;
+    sample = Math.min(sample, MULAW_CLIP) + MULAW_BIAS;
+
+    let exponent = 7;
+    for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) {
+      exponent--;
+    }
+    const mantissa = (sample >> (exponent + 3)) & 0x0f;
+    bytes[i] = ~(sign | (exponent << 4) | mantissa) & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Downsample by averaging each output sample's window of input samples
+ * Averaging doubles as a crude low-pass filter, which is plenty for speech.
+ */
+export function downsample(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) return samples;
+  if (toRate > fromRate) {
+    throw new Error(`Cannot upsample from ${fromRate}Hz to ${toRate}Hz`);
+  }
+
+  const ratio = fromRate / toRate;
+  const out = new Int16Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += samples[j];
+    }
+    out[i] = Math.round(sum / (end - start));
+  }
+  return out;
+}
+
+/**
+ * Read little-endian 16-bit PCM bytes into samples
+ */
+export function pcmFromBytes(bytes: Uint8Array): Int16Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Int16Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true);
+  }
+  return samples;
+}
+
+/**
+ * Wrap PCM samples in a WAV container (what Whisper expects for raw audio)
+ */
+export function pcmToWav(samples: Int16Array, sampleRate: number): Buffer {
+  const dataSize = samples.length * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+  wav.write("RIFF", 0, "ascii");
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write("WAVE", 8, "ascii");
+  wav.write("fmt ", 12, "ascii");
+  wav.writeUInt32LE(16, 16); // fmt chunk size
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  wav.writeUInt16LE(2, 32); // block align
+  wav.writeUInt16LE(16, 34); // bits per sample
+  wav.write("data", 36, "ascii");
+  wav.writeUInt32LE(dataSize, 40);
+  for (let i = 0; i < samples.length; i++) {
+    wav.writeInt16LE(samples[i], 44 + i * 2);
+  }
+  return wav;
+}
+
+/**
+ * Root mean square level of a block of samples
+ */
+export function rms(samples: Int16Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+export interface VadOptions {
+  /** RMS level above which a frame counts as speech (default: 500) */
+  threshold?: number;
+  /** Speech needed before an utterance starts, so clicks are ignored (default: 120ms) */
+  minSpeechMs?: number;
+  /** Silence that ends an utterance (default: 800ms) */
+  silenceMs?: number;
+  /** Utterances are cut off at this length (default: 30s) */
+  maxUtteranceMs?: number;
+  sampleRate?: number;
+}
+
+/**
+ * Energy-based voice activity detector
+ * Feed it audio frames as they arrive; it returns the audio of a complete
+ * utterance once the speaker has been quiet for silenceMs.
+ */
+export class VoiceActivityDetector {
+  private threshold: number;
+  private minSpeechMs: number;
+  private silenceMs: number;
+  private maxUtteranceMs: number;
+  private sampleRate: number;
+
+  private frames: Int16Array[] = [];
+  private speaking = false;
+  private speechMs = 0;
+  private quietMs = 0;
+  private totalMs = 0;
+
+  constructor(options: VadOptions = {}) {
+    this.threshold = options.threshold ?? 500;
+    this.minSpeechMs = options.minSpeechMs ?? 120;
+    this.silenceMs = options.silenceMs ?? 800;
+    this.maxUtteranceMs = options.maxUtteranceMs ?? 30000;
+    this.sampleRate = options.sampleRate ?? PHONE_SAMPLE_RATE;
+  }
+
+  /**
+   * Whether the speaker is currently mid-utterance
+   */
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Add a frame of audio
+   * @returns The finished utterance, or null while listening
+   */
+  push(frame: Int16Array): Int16Array | null {
+    const frameMs = (frame.length / this.sampleRate) * 1000;
+    const loud = rms(frame) >= this.threshold;
+
+    if (!this.speaking) {
+      if (!loud) {
+        // Not enough consecutive speech yet; start over
+        this.reset();
+        return null;
+      }
+      this.frames.push(frame);
+      this.speechMs += frameMs;
+      this.totalMs += frameMs;
+      if (this.speechMs >= this.minSpeechMs) {
+        this.speaking = true;
+      }
+      return null;
+    }
+
+    this.frames.push(frame);
+    this.totalMs += frameMs;
+    this.quietMs = loud ? 0 : this.quietMs + frameMs;
+
+    if (this.quietMs >= this.silenceMs || this.totalMs >= this.maxUtteranceMs) {
+      return this.flush();
+    }
+    return null;
+  }
+
+  /**
+   * End the current utterance now (e.g. the stream stopped)
+   * @returns The utterance so far, or null if nobody was speaking
+   */
+  flush(): Int16Array | null {
+    const utterance = this.speaking ? concatSamples(this.frames) : null;
+    this.reset();
+    return utterance;
+  }
+
+  private reset(): void {
+    this.frames = [];
+    this.speaking = false;
+    this.speechMs = 0;
+    this.quietMs = 0;
+    this.totalMs = 0;
+  }
+}
+
+function concatSamples(frames: Int16Array[]): Int16Array {
+  const out = new Int16Array(frames.reduce((n, f) => n + f.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    out.set(frame, offset);
+    offset += frame.length;
+  }
+  return out;
+}
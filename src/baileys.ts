@@ -9,17 +9,20 @@ import {
   useMultiFileAuthState,
   fetchLatestBaileysVersion,
   makeCacheableSignalKeyStore,
+  downloadMediaMessage,
   DisconnectReason,
   Browsers,
   type WASocket,
   type BaileysEventMap,
+  type WAMessage,
   type proto,
 } from "@whiskeysockets/baileys";
 import { Boom } from "@hapi/boom";
 import pino from "pino";
 import qrcode from "qrcode-terminal";
 import { mkdir } from "fs/promises";
-import type { InboundMessageData } from "./messaging.js";
+import type { InboundMedia, InboundMessageData } from "./messaging.js";
+import { MAX_MEDIA_BYTES } from "./provider-download.js";
 
 /**
  * Convert E.164 phone number (+1234567890) to WhatsApp JID (1234567890@s.whatsapp.net)
@@ -47,10 +50,31 @@ export function extractMessageText(msg: proto.IMessage | null | undefined): stri
     msg.extendedTextMessage?.text ||
     msg.imageMessage?.caption ||
     msg.videoMessage?.caption ||
+    msg.documentMessage?.caption ||
+    msg.documentWithCaptionMessage?.message?.documentMessage?.caption ||
     null
   );
 }
 
+/**
+ * Describe the photo, video or document a Baileys message carries (the bytes are downloaded separately)
+ */
+export function extractMessageMedia(msg: proto.IMessage | null | undefined): Omit<InboundMedia, "data" | "url"> | null {
+  if (!msg) return null;
+  const document = msg.documentMessage || msg.documentWithCaptionMessage?.message?.documentMessage;
+  if (document) {
+    return {
+      contentType: document.mimetype || "application/octet-stream",
+      ...(document.fileName && { fileName: document.fileName }),
+    };
+  }
+  const media = msg.imageMessage || msg.videoMessage;
+  if (media) {
+    return { contentType: media.mimetype || (msg.imageMessage ? "image/jpeg" : "video/mp4") };
+  }
+  return null;
+}
+
 type InboundHandler = (message: InboundMessageData) => void;
 
 export interface BaileysClientOptions {
@@ -209,8 +233,9 @@ export class BaileysClient {
           // WhatsApp uses phone-number JIDs or LID (Linked Identity) JIDs.
           if (!msg.key.fromMe) continue;
 
-          const text = extractMessageText(msg.message);
-          if (!text) continue;
+          const text = extractMessageText(msg.message) || "";
+          const media = extractMessageMedia(msg.message);
+          if (!text && !media) continue;
 
           // Mark as processed to prevent duplicate handling
           if (msg.key.id) {
@@ -232,8 +257,14 @@ export class BaileysClient {
               : new Date(),
           };
 
-          console.error(`[Baileys] Inbound from ${from}: ${text.slice(0, 80)}`);
-          this.inboundHandler?.(inbound);
+          console.error(`[Baileys] Inbound from ${from}: ${text.slice(0, 80) || `(${media?.contentType})`}`);
+          if (!media) {
+            this.inboundHandler?.(inbound);
+            continue;
+          }
+          this.downloadMedia(msg, media).then((item) => {
+            this.inboundHandler?.({ ...inbound, media: [item] });
+          });
         }
       });
     });
@@ -253,6 +284,29 @@ export class BaileysClient {
     return messageId;
   }
 
+  /**
+   * Download a message's media; a failed download is passed on without data so it's recorded as failed
+   */
+  private async downloadMedia(msg: WAMessage, media: Omit<InboundMedia, "data" | "url">): Promise<InboundMedia> {
+    const content = msg.message?.documentMessage ||
+      msg.message?.documentWithCaptionMessage?.message?.documentMessage ||
+      msg.message?.imageMessage ||
+      msg.message?.videoMessage;
+    const size = Number(content?.fileLength ?? 0);
+    if (size > MAX_MEDIA_BYTES) {
+      console.error(`[Baileys] Not downloading ${size} byte media for ${msg.key.id} (limit ${MAX_MEDIA_BYTES})`);
+      return media;
+    }
+
+    try {
+      const data = await downloadMediaMessage(msg, "buffer", {});
+      return { ...media, data };
+    } catch (err) {
+      console.error(`[Baileys] Media download failed for ${msg.key.id}:`, err);
+      return media;
+    }
+  }
+
   onInboundMessage(handler: InboundHandler): void {
     this.inboundHandler = handler;
   }
@@ -0,0 +1,193 @@
+/**
+ * Call Events
+ * What the call status webhook does with what the provider posts to it.
+ * Status changes move the conversation along and tell callbacks under
+ * escalation how they went. Telnyx posts its in-call events to the same
+ * webhook (see TelnyxCallFlow): barge-in, transcripts, gathers and the end
+ * of prompts. Events that are neither (call.speak.started and the like) are
+ * acknowledged and otherwise ignored.
+ */
+
+import { ConversationState, type ConversationManager } from "./conversation-manager.js";
+import type { CallerAuth, CallerAuthResult } from "./caller-auth.js";
+import type { SpeechConfirmation } from "./speech-confirmation.js";
+import type { CallOutcome } from "./callback-escalation.js";
+import type { PhoneCallManager } from "./phone-call.js";
+import type { CallerTurn, TelnyxCallFlow } from "./telnyx-call-flow.js";
+
+export interface CallEventHandlers {
+  /** Archive the recording a webhook reports; false if it isn't about a recording */
+  recording: (provider: "telnyx" | "twilio", conversationId: string, body: any) => boolean;
+  /** Handle something the caller said on a call the flow isn't driving */
+  speech: (conversationId: string, transcript: string, confidence: number | undefined, interrupted: boolean) => CallerTurn;
+  /** A key the caller pressed while on hold, not over a prompt */
+  keypress: (conversationId: string, providerCallId: string, digit: string) => Promise<unknown>;
+  /** Language the conversation is held in */
+  language: (conversationId: string) => string;
+  /** An answering machine's greeting is over: leave the voicemail */
+  voicemail: (conversationId: string, providerCallId: string) => Promise<unknown>;
+  /** How a call turned out, for callbacks under escalation */
+  callOutcome: (conversationId: string, outcome: CallOutcome) => Promise<unknown>;
+  /** The call is over */
+  ended: (conversationId: string) => void;
+}
+
+type CallControl = Pick<
+  PhoneCallManager,
+  | "parseStatusWebhook"
+  | "parseTelnyxCallEvent"
+  | "speakToCall"
+  | "stopSpeaking"
+  | "speechEnded"
+  | "takeInterruption"
+  | "endCall"
+>;
+
+export class CallEvents {
+  private phoneCallManager: CallControl;
+  private conversationManager: ConversationManager;
+  private callerAuth: CallerAuth;
+  private speechConfirmation: SpeechConfirmation;
+  private handlers: CallEventHandlers;
+  private telnyxCallFlow: TelnyxCallFlow | null = null;
+
+  constructor(
+    phoneCallManager: CallControl,
+    conversationManager: ConversationManager,
+    callerAuth: CallerAuth,
+    speechConfirmation: SpeechConfirmation,
+    handlers: CallEventHandlers
+  ) {
+    this.phoneCallManager = phoneCallManager;
+    this.conversationManager = conversationManager;
+    this.callerAuth = callerAuth;
+    this.speechConfirmation = speechConfirmation;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Drive Telnyx calls without media streams through their call flow
+   */
+  setTelnyxCallFlow(telnyxCallFlow: TelnyxCallFlow): void {
+    this.telnyxCallFlow = telnyxCallFlow;
+  }
+
+  /**
+   * Handle a call status webhook
+   */
+  async handleStatus(provider: "telnyx" | "twilio", conversationId: string, body: any): Promise<void> {
+    // Recording callbacks come here too, and aren't call status changes
+    if (this.handlers.recording(provider, conversationId, body)) {
+      return;
+    }
+
+    // Barge-in and gather events are not call status changes
+    if (provider === "telnyx" && (await this.handleTelnyxEvent(conversationId, body))) {
+      return;
+    }
+
+    const status = this.phoneCallManager.parseStatusWebhook(provider, body);
+    if (status.state === "unknown") {
+      return;
+    }
+
+    // An answering machine picked up: leave a voicemail after the beep and text the details
+    if (status.state === "answered" && status.answeredBy === "machine") {
+      if (status.greetingEnded && status.providerCallId) {
+        await this.handlers.voicemail(conversationId, status.providerCallId);
+      }
+      return;
+    }
+
+    // Callbacks from /api/complete retry or fall back to messaging when they don't get through
+    if (status.state !== "ringing") {
+      await this.handlers.callOutcome(conversationId, status.state);
+    }
+
+    if (status.state === "completed" || status.state === "failed" || status.state === "busy" || status.state === "no-answer") {
+      this.conversationManager.updateState(conversationId, ConversationState.ENDED);
+      this.speechConfirmation.clear(conversationId);
+      this.handlers.ended(conversationId);
+    } else if (status.state === "answered") {
+      this.conversationManager.updateState(conversationId, ConversationState.ACTIVE);
+    }
+  }
+
+  /**
+   * Handle Telnyx in-call events: move the call flow along, stop speaking when the
+   * caller barges in, and treat a transcript or finished gather as the caller's turn
+   * (Twilio posts those to the gather webhook)
+   * @returns false if the event is not one of these, or is a status change the
+   *   status webhook should also record
+   */
+  async handleTelnyxEvent(conversationId: string, body: any): Promise<boolean> {
+    const event = this.phoneCallManager.parseTelnyxCallEvent(body);
+    switch (event.type) {
+      case "caller_input": {
+        const stopped = await this.phoneCallManager.stopSpeaking(event.providerCallId).catch((error) => {
+          console.error(`[Telnyx] Failed to stop speaking on ${event.providerCallId}:`, error);
+          return true;
+        });
+        // A key pressed while on hold (not over a prompt) goes to the hold menu
+        if (!stopped && event.digit) {
+          await this.handlers.keypress(conversationId, event.providerCallId, event.digit);
+        }
+        return true;
+      }
+      case "speech_ended":
+        await this.phoneCallManager.speechEnded(event.providerCallId);
+        return true;
+      case "answered":
+      case "hangup":
+        // Answered calls get their greeting; the status webhook still records the change
+        await this.telnyxCallFlow?.handleEvent(conversationId, event);
+        return false;
+      case "transcript":
+      case "gather_ended": {
+        // Until the caller authenticates, what they say or key in is the secret
+        if (event.transcript && !this.callerAuth.isVerified(conversationId)) {
+          const result = await this.callerAuth.attempt(conversationId, event.transcript, this.handlers.language(conversationId));
+          await this.applyAuthResult(event.providerCallId, result);
+          return true;
+        }
+        // Read back what we aren't sure we heard before acting on it
+        let turn = event;
+        if (event.transcript) {
+          const speech = this.speechConfirmation.check(
+            conversationId,
+            { transcript: event.transcript, confidence: event.confidence, interrupted: false },
+            this.handlers.language(conversationId)
+          );
+          if ("prompt" in speech) {
+            await this.phoneCallManager.speakToCall(event.providerCallId, speech.prompt, true);
+            return true;
+          }
+          turn = { ...event, transcript: speech.transcript, confidence: speech.confidence };
+        }
+        if (await this.telnyxCallFlow?.handleEvent(conversationId, turn)) {
+          return true;
+        }
+        // Calls the flow isn't driving (e.g. placed before a restart) still get their turn
+        if (turn.transcript) {
+          console.error(`[Gather] Transcript: "${turn.transcript}"`);
+          const interrupted = this.phoneCallManager.takeInterruption(turn.providerCallId);
+          this.handlers.speech(conversationId, turn.transcript, turn.confidence, interrupted);
+        }
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Tell the caller how authentication went on a call we drive with API commands
+   * (Telnyx, media streams), and hang up on callers who are now locked out
+   */
+  async applyAuthResult(providerCallId: string, result: CallerAuthResult): Promise<void> {
+    await this.phoneCallManager.speakToCall(providerCallId, result.message, result.next === "gather");
+    if (result.next === "hangup") {
+      await this.phoneCallManager.endCall(providerCallId);
+    }
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Callback Escalation
+ * Keeps trying to deliver a task summary after the user hung up: calls back,
+ * retries calls that come back busy, unanswered or failed after a delay, then
+ * falls back to SMS and WhatsApp in turn. Call outcomes come from the call
+ * status webhook.
+ */
+
+export type EscalationChannel = "sms" | "whatsapp";
+
+export interface EscalationPolicy {
+  /** Calls placed after the first one goes unanswered */
+  retries: number;
+  /** Wait between unanswered calls */
+  retryDelayMs: number;
+  /** Messaging channels tried in order once the calls run out */
+  fallbacks: EscalationChannel[];
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  retries: 2,
+  retryDelayMs: 120000,
+  fallbacks: ["sms", "whatsapp"],
+};
+
+/** How a callback call ended up, as reported by the status webhook */
+export type CallOutcome = "answered" | "completed" | "voicemail" | "busy" | "no-answer" | "failed";
+
+export interface EscalationStep {
+  action: "call" | EscalationChannel;
+  at: Date;
+  /** The callback conversation, for calls */
+  conversationId?: string;
+  outcome?: CallOutcome | "sent";
+  error?: string;
+}
+
+export interface Escalation {
+  /** The conversation whose task finished */
+  originalConversationId: string;
+  recipient: string;
+  phoneNumber: string;
+  summary: string;
+  /**
+   * calling: waiting on a call's outcome
+   * waiting: the next call is scheduled for nextAttemptAt
+   */
+  state: "calling" | "waiting" | "delivered" | "failed";
+  /** Calls placed so far */
+  calls: number;
+  steps: EscalationStep[];
+  nextAttemptAt?: Date;
+  deliveredVia?: "call" | "voicemail" | EscalationChannel;
+}
+
+export interface EscalationTarget {
+  name: string;
+  phoneNumber: string;
+}
+
+export interface EscalationHandlers {
+  /** Place a callback and return its new conversation ID */
+  call: (escalation: Escalation) => Promise<string>;
+  /** Send the summary over a messaging channel */
+  send: (channel: EscalationChannel, escalation: Escalation) => Promise<unknown>;
+}
+
+export class CallbackEscalation {
+  readonly policy: EscalationPolicy;
+  private handlers: EscalationHandlers;
+  /** Escalations by original conversation ID */
+  private escalations: Map<string, Escalation> = new Map();
+  /** Callback conversation ID -> original conversation ID */
+  private callbacks: Map<string, string> = new Map();
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(policy: EscalationPolicy, handlers: EscalationHandlers) {
+    this.policy = policy;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Start reaching a user with a summary, beginning with a callback
+   * Replaces any escalation still running for the same conversation.
+   * Resolves once the first step has been taken.
+   */
+  async start(originalConversationId: string, target: EscalationTarget, summary: string): Promise<Escalation> {
+    this.cancel(originalConversationId);
+
+    const escalation: Escalation = {
+      originalConversationId,
+      recipient: target.name,
+      phoneNumber: target.phoneNumber,
+      summary,
+      state: "calling",
+      calls: 0,
+      steps: [],
+    };
+    this.escalations.set(originalConversationId, escalation);
+
+    await this.placeCall(escalation);
+    return escalation;
+  }
+
+  /**
+   * Record a callback's outcome and take the next step if it didn't get through
+   * @returns false if the conversation is not a callback under escalation
+   */
+  async handleCallOutcome(callbackConversationId: string, outcome: CallOutcome): Promise<boolean> {
+    const escalation = this.get(callbackConversationId);
+    if (!escalation || escalation.originalConversationId === callbackConversationId) {
+      return false;
+    }
+
+    // Only the latest call moves the escalation; late webhooks for earlier calls are ignored
+    const step = escalation.steps[escalation.steps.length - 1];
+    if (step?.conversationId !== callbackConversationId) {
+      return true;
+    }
+
+    if (outcome === "voicemail") {
+      step.outcome = outcome;
+      escalation.state = "delivered";
+      escalation.deliveredVia = "voicemail";
+      return true;
+    }
+
+    if (escalation.state !== "calling") {
+      return true;
+    }
+    step.outcome = outcome;
+
+    if (outcome === "answered" || outcome === "completed") {
+      escalation.state = "delivered";
+      escalation.deliveredVia = "call";
+      return true;
+    }
+
+    console.error(`[Escalation] Callback to ${escalation.recipient} ${outcome} (call ${escalation.calls})`);
+    await this.escalate(escalation);
+    return true;
+  }
+
+  /**
+   * Look up an escalation by its original conversation or any of its callbacks
+   */
+  get(conversationId: string): Escalation | undefined {
+    return this.escalations.get(this.callbacks.get(conversationId) ?? conversationId);
+  }
+
+  /**
+   * Stop a pending retry; the escalation keeps its current state
+   */
+  cancel(originalConversationId: string): void {
+    const timer = this.timers.get(originalConversationId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(originalConversationId);
+    }
+  }
+
+  private async placeCall(escalation: Escalation): Promise<void> {
+    escalation.calls++;
+    escalation.state = "calling";
+    escalation.nextAttemptAt = undefined;
+    const step: EscalationStep = { action: "call", at: new Date() };
+    escalation.steps.push(step);
+
+    try {
+      step.conversationId = await this.handlers.call(escalation);
+      this.callbacks.set(step.conversationId, escalation.originalConversationId);
+    } catch (error) {
+      console.error(`[Escalation] Callback to ${escalation.recipient} could not be placed: ${error}`);
+      step.outcome = "failed";
+      step.error = String(error);
+      await this.escalate(escalation);
+    }
+  }
+
+  /**
+   * The latest call didn't get through: schedule a retry, or move on to messaging
+   */
+  private async escalate(escalation: Escalation): Promise<void> {
+    if (escalation.calls <= this.policy.retries) {
+      escalation.state = "waiting";
+      escalation.nextAttemptAt = new Date(Date.now() + this.policy.retryDelayMs);
+      this.timers.set(
+        escalation.originalConversationId,
+        setTimeout(() => {
+          this.timers.delete(escalation.originalConversationId);
+          this.placeCall(escalation).catch((error) => {
+            console.error(`[Escalation] Retry failed for ${escalation.originalConversationId}:`, error);
+          });
+        }, this.policy.retryDelayMs)
+      );
+      return;
+    }
+
+    for (const channel of this.policy.fallbacks) {
+      const step: EscalationStep = { action: channel, at: new Date() };
+      escalation.steps.push(step);
+      try {
+        await this.handlers.send(channel, escalation);
+        step.outcome = "sent";
+        escalation.state = "delivered";
+        escalation.deliveredVia = channel;
+        console.error(`[Escalation] Summary for ${escalation.recipient} sent by ${channel}`);
+        return;
+      } catch (error) {
+        console.error(`[Escalation] ${channel} fallback failed for ${escalation.recipient}: ${error}`);
+        step.error = String(error);
+      }
+    }
+
+    escalation.state = "failed";
+    console.error(`[Escalation] Could not reach ${escalation.recipient}; summary not delivered`);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Caller Authentication
+ * Caller ID is easy to spoof, so with a secret configured, inbound callers
+ * must say a passphrase or key in a PIN (ending with #) before anything they
+ * say reaches Claude. The secret is kept as a Bun.password hash (argon2 or
+ * bcrypt). Repeated failures lock the calling number out for a while; every
+ * failure is logged and emitted as a security.auth_failed event.
+ */
+
+import { ConversationDirection, type ConversationManager } from "./conversation-manager.js";
+import { phrasesFor } from "./language.js";
+
+export interface CallerAuthOptions {
+  /** Bun.password hash of the PIN or passphrase; empty turns authentication off */
+  secretHash: string;
+  /** Failed attempts before the number is locked out (default: 3) */
+  maxAttempts?: number;
+  /** How long a locked out number is turned away (default: 15 minutes) */
+  lockoutMs?: number;
+}
+
+export interface CallerAuthResult {
+  verified: boolean;
+  /** What to say to the caller */
+  message: string;
+  /** What the call does next: listen (for a request, or another try) or hang up */
+  next: "gather" | "hangup";
+}
+
+interface Failures {
+  count: number;
+  lockedUntil?: number;
+}
+
+/**
+ * Spoken passphrases come back with capitals and punctuation, and spoken PINs
+ * as "1 2 3 4"; compare them without either
+ */
+export function normalizeSecret(input: string): string {
+  const words = input.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, "").trim().split(/\s+/).filter(Boolean);
+  return words.every((word) => /^\d+$/.test(word)) ? words.join("") : words.join(" ");
+}
+
+export class CallerAuth {
+  private conversationManager: ConversationManager;
+  private secretHash: string;
+  private maxAttempts: number;
+  private lockoutMs: number;
+  /** Failed attempts by calling number, across calls */
+  private failures: Map<string, Failures> = new Map();
+  /** Keys pressed so far on calls that report DTMF one digit at a time */
+  private digits: Map<string, string> = new Map();
+
+  constructor(conversationManager: ConversationManager, options: CallerAuthOptions) {
+    this.conversationManager = conversationManager;
+    this.secretHash = options.secretHash;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.lockoutMs = options.lockoutMs ?? 900000;
+  }
+
+  /**
+   * Whether inbound callers have to authenticate
+   */
+  get required(): boolean {
+    return !!this.secretHash;
+  }
+
+  /**
+   * Whether a conversation may hand the caller's requests to Claude
+   * Calls we placed reach the number we dialed, so only inbound calls are checked.
+   */
+  isVerified(conversationId: string): boolean {
+    if (!this.required) {
+      return true;
+    }
+    const conversation = this.conversationManager.getConversation(conversationId);
+    return conversation?.direction === ConversationDirection.OUTBOUND || conversation?.metadata?.authenticated === true;
+  }
+
+  /**
+   * Whether a number is locked out after too many failed attempts
+   */
+  isLocked(phoneNumber: string, now: number = Date.now()): boolean {
+    const lockedUntil = this.failures.get(phoneNumber)?.lockedUntil;
+    if (lockedUntil === undefined) {
+      return false;
+    }
+    if (lockedUntil <= now) {
+      this.failures.delete(phoneNumber);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Record that a locked out number was turned away
+   */
+  rejectLocked(phoneNumber: string, conversationId?: string): void {
+    this.securityEvent(phoneNumber, conversationId, this.failures.get(phoneNumber)?.count ?? 0, true);
+  }
+
+  /**
+   * Check what the caller said or keyed in against the secret
+   */
+  async attempt(conversationId: string, input: string, language?: string): Promise<CallerAuthResult> {
+    const phrases = phrasesFor(language);
+    const from = this.conversationManager.getConversation(conversationId)?.metadata?.from || "";
+    this.digits.delete(conversationId);
+
+    if (from && this.isLocked(from)) {
+      this.rejectLocked(from, conversationId);
+      return { verified: false, message: phrases.authLocked, next: "hangup" };
+    }
+
+    const secret = normalizeSecret(input);
+    const matches = !!secret && (await Bun.password.verify(secret, this.secretHash).catch(() => false));
+    if (matches) {
+      this.failures.delete(from);
+      this.conversationManager.updateMetadata(conversationId, { authenticated: true });
+      console.error(`[Security] Caller ${from} authenticated on ${conversationId.slice(0, 8)}`);
+      return { verified: true, message: phrases.authVerified, next: "gather" };
+    }
+
+    const failures = this.failures.get(from) ?? { count: 0 };
+    failures.count++;
+    const locked = failures.count >= this.maxAttempts;
+    if (locked) {
+      failures.lockedUntil = Date.now() + this.lockoutMs;
+    }
+    this.failures.set(from, failures);
+    this.securityEvent(from, conversationId, failures.count, locked);
+
+    return locked
+      ? { verified: false, message: phrases.authLocked, next: "hangup" }
+      : { verified: false, message: phrases.authRetry, next: "gather" };
+  }
+
+  /**
+   * Collect a PIN keyed in one digit at a time (media streams report each key)
+   * @returns The attempt once # is pressed, otherwise null
+   */
+  press(conversationId: string, digit: string, language?: string): Promise<CallerAuthResult> | null {
+    if (digit !== "#") {
+      this.digits.set(conversationId, (this.digits.get(conversationId) ?? "") + digit);
+      return null;
+    }
+    return this.attempt(conversationId, this.digits.get(conversationId) ?? "", language);
+  }
+
+  private securityEvent(from: string, conversationId: string | undefined, failures: number, locked: boolean): void {
+    const where = conversationId ? ` on ${conversationId.slice(0, 8)}` : "";
+    console.error(
+      `[Security] Caller authentication failed for ${from || "unknown number"}${where} ` +
+      `(${failures}/${this.maxAttempts}${locked ? ", locked out" : ""})`
+    );
+    this.conversationManager.events.emit("security.auth_failed", {
+      conversationId,
+      from,
+      failures,
+      locked,
+    });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Cancellable Wait
+ * Shared plumbing for long-polling waits (replies, inbound conversations, queue
+ * claims) that end on a value, a timeout, or an aborted tool call.
+ */
+
+/**
+ * Promise that settles with a value, or null on timeout or abort
+ * @param register Adds the waiter and returns a function that removes it again
+ */
+export function waitWithCancellation<T>(
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  register: (settle: (value: T | null) => void) => () => void
+): Promise<T | null> {
+  if (signal?.aborted) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    let unregister: () => void = () => {};
+    const settle = (value: T | null) => {
+      clearTimeout(timeout);
+      signal?.removeEventListener("abort", onAbort);
+      unregister();
+      resolve(value);
+    };
+    const onAbort = () => settle(null);
+    const timeout = setTimeout(() => settle(null), timeoutMs);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    unregister = register(settle);
+  });
+}
@@ -3,6 +3,11 @@
  * Loads and validates app configuration from environment variables
  */
 
+import { readFileSync } from "fs";
+import { parseContacts, type Contact } from "./contacts.js";
+import type { EscalationChannel, EscalationPolicy } from "./callback-escalation.js";
+import { DEFAULT_LANGUAGE, normalizeLanguage } from "./language.js";
+
 export interface AppConfig {
   phoneProvider: "telnyx" | "twilio";
   whatsappProvider?: "baileys";
@@ -11,6 +16,7 @@ export interface AppConfig {
   phoneNumber: string;
   whatsappNumber: string;
   userPhoneNumber: string;
+  contacts: Contact[];
   openaiApiKey: string;
   port: number;
   ttsVoice: string;
@@ -20,6 +26,69 @@ export interface AppConfig {
   telnyxPublicKey: string;
   baileysAuthDir: string;
   whatsappChatHistorySize: number;
+  conversationStore: "memory" | "sqlite";
+  conversationDbPath: string;
+  conversationRetentionMs: number;
+  smsIdleTimeoutMs: number;
+  whatsappIdleTimeoutMs: number;
+  newTopicKeywords: string[];
+  sessionTimeoutMs: number;
+  inboundVisibilityTimeoutMs: number;
+  voiceMode: "gather" | "stream";
+  ttsPlayback: boolean;
+  audioCacheDir: string;
+  callbackEscalation: EscalationPolicy;
+  holdNarrationIntervalMs: number;
+  holdMusicUrl: string;
+  holdEarconUrl: string;
+  language: string;
+  detectLanguage: boolean;
+  recordCalls: boolean;
+  recordingDir: string;
+  recordingRetentionMs: number;
+  callerSecretHash: string;
+  authMaxAttempts: number;
+  authLockoutMs: number;
+  confidenceThreshold: number;
+  schedulePath: string;
+  attachmentDir: string;
+  eventsToken: string;
+}
+
+/**
+ * Load contacts from BETTERCALLCLAUDE_CONTACTS (inline JSON) or BETTERCALLCLAUDE_CONTACTS_FILE
+ */
+function loadContacts(): Contact[] {
+  if (process.env.BETTERCALLCLAUDE_CONTACTS) {
+    return parseContacts(process.env.BETTERCALLCLAUDE_CONTACTS);
+  }
+  if (process.env.BETTERCALLCLAUDE_CONTACTS_FILE) {
+    return parseContacts(readFileSync(process.env.BETTERCALLCLAUDE_CONTACTS_FILE, "utf8"));
+  }
+  return [];
+}
+
+/**
+ * Parse the messaging channels a failed callback falls back to, in order
+ */
+function parseFallbacks(value: string): EscalationChannel[] {
+  const channels = value.split(",").map((channel) => channel.trim().toLowerCase()).filter(Boolean);
+  for (const channel of channels) {
+    if (channel !== "sms" && channel !== "whatsapp") {
+      throw new Error(`Invalid BETTERCALLCLAUDE_CALLBACK_FALLBACKS channel: ${channel} (expected sms or whatsapp)`);
+    }
+  }
+  return channels as EscalationChannel[];
+}
+
+/**
+ * Read the caller secret's hash; only Bun.password hashes (argon2 or bcrypt) are accepted
+ */
+function parseSecretHash(value: string): string {
+  if (value && !value.startsWith("$argon2") && !value.startsWith("$2")) {
+    throw new Error("Invalid BETTERCALLCLAUDE_CALLER_SECRET_HASH (expected an argon2 or bcrypt hash from Bun.password.hash)");
+  }
+  return value;
 }
 
 export function loadConfig(): AppConfig {
@@ -32,6 +101,7 @@ export function loadConfig(): AppConfig {
     phoneNumber: process.env.BETTERCALLCLAUDE_PHONE_NUMBER || "",
     whatsappNumber: process.env.BETTERCALLCLAUDE_WHATSAPP_NUMBER || "",
     userPhoneNumber: process.env.BETTERCALLCLAUDE_USER_PHONE_NUMBER || "",
+    contacts: loadContacts(),
     openaiApiKey: process.env.BETTERCALLCLAUDE_OPENAI_API_KEY || "",
     port: parseInt(process.env.BETTERCALLCLAUDE_PORT || "3333"),
     ttsVoice: process.env.BETTERCALLCLAUDE_TTS_VOICE || "onyx",
@@ -41,6 +111,40 @@ export function loadConfig(): AppConfig {
     telnyxPublicKey: process.env.BETTERCALLCLAUDE_TELNYX_PUBLIC_KEY || "",
     baileysAuthDir: process.env.BETTERCALLCLAUDE_BAILEYS_AUTH_DIR || "data/baileys-auth",
     whatsappChatHistorySize: parseInt(process.env.BETTERCALLCLAUDE_WHATSAPP_CHAT_HISTORY_SIZE || "50"),
+    conversationStore: process.env.BETTERCALLCLAUDE_CONVERSATION_STORE === "sqlite" ? "sqlite" : "memory",
+    conversationDbPath: process.env.BETTERCALLCLAUDE_CONVERSATION_DB_PATH || "data/conversations.db",
+    conversationRetentionMs: parseInt(process.env.BETTERCALLCLAUDE_CONVERSATION_RETENTION_MS || "2592000000"),
+    smsIdleTimeoutMs: parseInt(process.env.BETTERCALLCLAUDE_SMS_IDLE_TIMEOUT_MS || "3600000"),
+    whatsappIdleTimeoutMs: parseInt(process.env.BETTERCALLCLAUDE_WHATSAPP_IDLE_TIMEOUT_MS || "3600000"),
+    newTopicKeywords: (process.env.BETTERCALLCLAUDE_NEW_TOPIC_KEYWORDS ?? "new topic,/new")
+      .split(",")
+      .map((keyword) => keyword.trim().toLowerCase())
+      .filter(Boolean),
+    sessionTimeoutMs: parseInt(process.env.BETTERCALLCLAUDE_SESSION_TIMEOUT_MS || "14400000"),
+    inboundVisibilityTimeoutMs: parseInt(process.env.BETTERCALLCLAUDE_INBOUND_VISIBILITY_TIMEOUT_MS || "300000"),
+    voiceMode: process.env.BETTERCALLCLAUDE_VOICE_MODE === "stream" ? "stream" : "gather",
+    ttsPlayback: process.env.BETTERCALLCLAUDE_TTS_PLAYBACK === "true",
+    audioCacheDir: process.env.BETTERCALLCLAUDE_AUDIO_CACHE_DIR || "data/audio",
+    language: normalizeLanguage(process.env.BETTERCALLCLAUDE_LANGUAGE || DEFAULT_LANGUAGE),
+    detectLanguage: process.env.BETTERCALLCLAUDE_DETECT_LANGUAGE === "true",
+    holdNarrationIntervalMs: parseInt(process.env.BETTERCALLCLAUDE_HOLD_NARRATION_INTERVAL_MS || "30000"),
+    holdMusicUrl: process.env.BETTERCALLCLAUDE_HOLD_MUSIC_URL || "",
+    holdEarconUrl: process.env.BETTERCALLCLAUDE_HOLD_EARCON_URL || "",
+    recordCalls: process.env.BETTERCALLCLAUDE_RECORD_CALLS === "true",
+    recordingDir: process.env.BETTERCALLCLAUDE_RECORDING_DIR || "data/recordings",
+    recordingRetentionMs: parseInt(process.env.BETTERCALLCLAUDE_RECORDING_RETENTION_MS || "2592000000"),
+    callerSecretHash: parseSecretHash(process.env.BETTERCALLCLAUDE_CALLER_SECRET_HASH || ""),
+    authMaxAttempts: parseInt(process.env.BETTERCALLCLAUDE_AUTH_MAX_ATTEMPTS || "3"),
+    authLockoutMs: parseInt(process.env.BETTERCALLCLAUDE_AUTH_LOCKOUT_MS || "900000"),
+    confidenceThreshold: parseFloat(process.env.BETTERCALLCLAUDE_CONFIDENCE_THRESHOLD || "0.5"),
+    schedulePath: process.env.BETTERCALLCLAUDE_SCHEDULE_PATH || "data/schedule.json",
+    attachmentDir: process.env.BETTERCALLCLAUDE_ATTACHMENT_DIR || "data/attachments",
+    eventsToken: process.env.BETTERCALLCLAUDE_EVENTS_TOKEN || "",
+    callbackEscalation: {
+      retries: parseInt(process.env.BETTERCALLCLAUDE_CALLBACK_RETRIES || "2"),
+      retryDelayMs: parseInt(process.env.BETTERCALLCLAUDE_CALLBACK_RETRY_DELAY_MS || "120000"),
+      fallbacks: parseFallbacks(process.env.BETTERCALLCLAUDE_CALLBACK_FALLBACKS ?? "sms,whatsapp"),
+    },
   };
 }
 
@@ -49,8 +153,11 @@ export function validateConfig(config: AppConfig): void {
   const isBaileysOnly = config.whatsappProvider === "baileys" &&
     !config.phoneAccountSid && !config.phoneAuthToken && !config.phoneNumber;
 
+  // A contacts list can stand in for the single user phone number
+  const hasRecipient = !!config.userPhoneNumber || config.contacts.length > 0;
+
   if (isBaileysOnly) {
-    if (!config.userPhoneNumber) {
+    if (!hasRecipient) {
       throw new Error("Missing required environment variable: BETTERCALLCLAUDE_USER_PHONE_NUMBER");
     }
     return;
@@ -61,7 +168,6 @@ export function validateConfig(config: AppConfig): void {
     "phoneAccountSid",
     "phoneAuthToken",
     "phoneNumber",
-    "userPhoneNumber",
     "openaiApiKey",
   ];
 
@@ -70,4 +176,8 @@ export function validateConfig(config: AppConfig): void {
       throw new Error(`Missing required environment variable: BETTERCALLCLAUDE_${key.replace(/([A-Z])/g, '_$1').toUpperCase()}`);
     }
   }
+
+  if (!hasRecipient) {
+    throw new Error("Missing required environment variable: BETTERCALLCLAUDE_USER_PHONE_NUMBER (or BETTERCALLCLAUDE_CONTACTS)");
+  }
 }
@@ -0,0 +1,142 @@
+/**
+ * Contacts Registry
+ * The people allowed to talk to Claude, with per-user numbers, preferred
+ * channel, working directory and language. Unknown numbers are rejected.
+ */
+
+import { normalizeLanguage } from "./language.js";
+
+export type PreferredChannel = "voice" | "sms" | "whatsapp";
+
+export interface Contact {
+  /** Short handle used as `recipient` by MCP tools and the phone API */
+  name: string;
+  displayName?: string;
+  phoneNumber: string;
+  preferredChannel?: PreferredChannel;
+  /** Directory spawned Claude sessions work in for this user */
+  workingDir?: string;
+  /** Language calls with this user are held in (BCP-47, e.g. "es-ES") */
+  language?: string;
+}
+
+/**
+ * Normalize a phone number for comparison (digits only, US numbers get a leading 1)
+ */
+export function normalizeNumber(phone: string): string {
+  const stripped = phone.replace(/^whatsapp:/, "").trim();
+  const digits = stripped.replace(/[^\d]/g, "");
+  if (!stripped.startsWith("+") && digits.length === 10) {
+    return `1${digits}`;
+  }
+  return digits;
+}
+
+/**
+ * Parse a JSON contacts list (from BETTERCALLCLAUDE_CONTACTS or a contacts file)
+ */
+export function parseContacts(json: string): Contact[] {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Contacts must be a JSON array");
+  }
+
+  return parsed.map((entry: any, index: number) => {
+    if (!entry?.name || !entry?.phoneNumber) {
+      throw new Error(`Contact #${index + 1} is missing "name" or "phoneNumber"`);
+    }
+    if (entry.preferredChannel && !["voice", "sms", "whatsapp"].includes(entry.preferredChannel)) {
+      throw new Error(`Contact "${entry.name}" has invalid preferredChannel: ${entry.preferredChannel}`);
+    }
+    let language: string | undefined;
+    try {
+      language = entry.language ? normalizeLanguage(String(entry.language)) : undefined;
+    } catch {
+      throw new Error(`Contact "${entry.name}" has invalid language: ${entry.language}`);
+    }
+    return {
+      name: String(entry.name),
+      displayName: entry.displayName,
+      phoneNumber: String(entry.phoneNumber),
+      preferredChannel: entry.preferredChannel,
+      workingDir: entry.workingDir,
+      language,
+    };
+  });
+}
+
+export class ContactRegistry {
+  private contacts: Contact[];
+
+  /**
+   * @param contacts Registered contacts; the first one is the default recipient
+   */
+  constructor(contacts: Contact[]) {
+    this.contacts = contacts;
+  }
+
+  list(): readonly Contact[] {
+    return this.contacts;
+  }
+
+  /**
+   * The primary user (first contact), used when no recipient is given
+   */
+  getDefault(): Contact | undefined {
+    return this.contacts[0];
+  }
+
+  findByNumber(phone: string): Contact | undefined {
+    const normalized = normalizeNumber(phone);
+    if (!normalized) return undefined;
+    return this.contacts.find((contact) => normalizeNumber(contact.phoneNumber) === normalized);
+  }
+
+  findByName(name: string): Contact | undefined {
+    const lower = name.toLowerCase();
+    return this.contacts.find((contact) => contact.name.toLowerCase() === lower);
+  }
+
+  /**
+   * Check if a number belongs to a registered contact
+   */
+  isAllowed(phone: string): boolean {
+    return this.findByNumber(phone) !== undefined;
+  }
+
+  /**
+   * Resolve a recipient (contact name or phone number) to a registered contact
+   * Falls back to the default contact when no recipient is given
+   */
+  resolve(recipient?: string): Contact {
+    if (!recipient) {
+      const fallback = this.getDefault();
+      if (!fallback) {
+        throw new Error("No contacts configured");
+      }
+      return fallback;
+    }
+
+    const contact = this.findByName(recipient) || this.findByNumber(recipient);
+    if (!contact) {
+      throw new Error(`Unknown recipient: ${recipient}`);
+    }
+    return contact;
+  }
+}
+
+/**
+ * Build the registry from config
+ * The legacy single user phone number stays the default contact ("user" if not listed)
+ */
+export function createContactRegistry(contacts: Contact[], userPhoneNumber?: string): ContactRegistry {
+  const all = [...contacts];
+  if (userPhoneNumber) {
+    const index = all.findIndex((c) => normalizeNumber(c.phoneNumber) === normalizeNumber(userPhoneNumber));
+    const primary = index === -1
+      ? { name: "user", phoneNumber: userPhoneNumber }
+      : all.splice(index, 1)[0];
+    all.unshift(primary);
+  }
+  return new ContactRegistry(all);
+}
@@ -0,0 +1,221 @@
+/**
+ * Conversation Export
+ * Renders a conversation as Markdown, JSON, WebVTT or plain text for pasting
+ * into PRs and issues
+ */
+
+import type { Conversation, Message } from "./conversation-manager.js";
+import type { TaskContext } from "./task-executor.js";
+
+export type ExportFormat = "md" | "json" | "vtt" | "txt";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["md", "json", "vtt", "txt"];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Render a conversation in the requested format
+ * @param task Linked task (from TaskExecutor.getTaskContext), if any
+ */
+export function exportConversation(
+  conversation: Conversation,
+  format: ExportFormat,
+  task?: TaskContext
+): string {
+  switch (format) {
+    case "md":
+      return toMarkdown(conversation, task);
+    case "json":
+      return toJson(conversation, task);
+    case "vtt":
+      return toVtt(conversation, task);
+    case "txt":
+      return toText(conversation, task);
+  }
+}
+
+function durationMs(conversation: Conversation): number {
+  const end = conversation.endedAt ?? new Date();
+  return Math.max(0, end.getTime() - conversation.startedAt.getTime());
+}
+
+/**
+ * Milliseconds from the start of the conversation to a message (never negative)
+ */
+function offsetMs(conversation: Conversation, message: Message): number {
+  return Math.max(0, message.timestamp.getTime() - conversation.startedAt.getTime());
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+function speaker(message: Message): string {
+  return message.role === "user" ? "User" : "Assistant";
+}
+
+/**
+ * Header fields shared by the Markdown and plain text formats
+ */
+function headerFields(conversation: Conversation): [string, string][] {
+  const fields: [string, string][] = [
+    ["Conversation", conversation.id],
+    ["Channel", conversation.channel],
+    ["Direction", conversation.direction],
+  ];
+  if (conversation.metadata?.from) fields.push(["From", conversation.metadata.from]);
+  if (conversation.metadata?.to) fields.push(["To", conversation.metadata.to]);
+  fields.push(["Started", conversation.startedAt.toISOString()]);
+  if (conversation.endedAt) fields.push(["Ended", conversation.endedAt.toISOString()]);
+  fields.push([conversation.endedAt ? "Duration" : "Duration so far", formatDuration(durationMs(conversation))]);
+  return fields;
+}
+
+function toMarkdown(conversation: Conversation, task?: TaskContext): string {
+  const lines = [`# ${conversation.channel} conversation ${conversation.id.slice(0, 8)}`, ""];
+  for (const [label, value] of headerFields(conversation)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+
+  if (task) {
+    lines.push("", "## Task", "");
+    lines.push(`- **Request:** ${task.originalTask}`);
+    lines.push(`- **Result:** ${task.completionSummary}`);
+    lines.push(`- **Working directory:** \`${task.workingDir}\``);
+  }
+
+  lines.push("", "## Transcript", "");
+  if (conversation.messages.length === 0) {
+    lines.push("_No messages._");
+  }
+  for (const message of conversation.messages) {
+    // Blockquote continuation keeps multi-line messages together
+    const content = message.content.split("\n").join("\n> ");
+    const cutOff = message.interrupted ? " _(cut off)_" : "";
+    lines.push(`**${speaker(message)}** _${message.timestamp.toISOString()}_${cutOff}`, `> ${content}`, "");
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+function toText(conversation: Conversation, task?: TaskContext): string {
+  const lines = headerFields(conversation).map(([label, value]) => `${label}: ${value}`);
+
+  if (task) {
+    lines.push("", `Task: ${task.originalTask}`, `Result: ${task.completionSummary}`, `Working directory: ${task.workingDir}`);
+  }
+
+  lines.push("");
+  for (const message of conversation.messages) {
+    const cutOff = message.interrupted ? " [cut off]" : "";
+    lines.push(`[${message.timestamp.toISOString()}] ${speaker(message)}: ${message.content}${cutOff}`);
+  }
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+function toJson(conversation: Conversation, task?: TaskContext): string {
+  return JSON.stringify(
+    {
+      conversation_id: conversation.id,
+      channel: conversation.channel,
+      direction: conversation.direction,
+      state: conversation.state,
+      from: conversation.metadata?.from,
+      to: conversation.metadata?.to,
+      started_at: conversation.startedAt,
+      ended_at: conversation.endedAt,
+      duration_seconds: Math.round(durationMs(conversation) / 1000),
+      task: task
+        ? {
+            request: task.originalTask,
+            summary: task.completionSummary,
+            working_dir: task.workingDir,
+          }
+        : null,
+      messages: conversation.messages.map((message) => ({
+        ...message,
+        offset_seconds: offsetMs(conversation, message) / 1000,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function vttTimestamp(ms: number): string {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+}
+
+/**
+ * Escape cue text; blank lines would end the cue early
+ */
+function vttEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n\s*\n/g, "\n");
+}
+
+/**
+ * Rough time to speak a message (about 150 words per minute, at least 2 seconds)
+ */
+function speakingTimeMs(message: Message): number {
+  const words = message.content.split(/\s+/).filter(Boolean).length;
+  return Math.max(2000, words * 400);
+}
+
+function toVtt(conversation: Conversation, task?: TaskContext): string {
+  const lines = ["WEBVTT", ""];
+
+  // NOTE blocks must not contain "-->"
+  const note = [
+    `${conversation.channel} ${conversation.direction} conversation ${conversation.id}`,
+    `Started ${conversation.startedAt.toISOString()}, duration ${formatDuration(durationMs(conversation))}`,
+  ];
+  if (task) {
+    note.push(`Task: ${task.originalTask}`, `Result: ${task.completionSummary}`);
+  }
+  lines.push(`NOTE ${note.join("\n").replace(/-->/g, "->").replace(/\n\s*\n/g, "\n")}`, "");
+
+  conversation.messages.forEach((message, index) => {
+    const start = offsetMs(conversation, message);
+    const next = conversation.messages[index + 1];
+    // A cue lasts until the next message, but not through long silences (e.g. hold time)
+    let end = start + speakingTimeMs(message);
+    if (next) {
+      end = Math.min(end, offsetMs(conversation, next));
+    }
+    end = Math.max(end, start + 500);
+
+    lines.push(
+      String(index + 1),
+      `${vttTimestamp(start)} --> ${vttTimestamp(end)}`,
+      `<v ${speaker(message)}>${vttEscape(message.content)}`,
+      ""
+    );
+  });
+
+  return lines.join("\n");
+}
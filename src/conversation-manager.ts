@@ -3,6 +3,13 @@
  * Tracks active conversations across all channels: Voice, SMS, WhatsApp
  */
 
+import { InMemoryConversationStore, type ConversationStore } from "./conversation-store.js";
+import { normalizeNumber } from "./contacts.js";
+import { EventBus, type ConversationEvents } from "./events.js";
+import { waitWithCancellation } from "./cancellable-wait.js";
+import type { CallRecording } from "./recording-archive.js";
+import type { MessageAttachment } from "./attachments.js";
+
 export enum ChannelType {
   VOICE = "voice",
   SMS = "sms",
@@ -21,12 +28,36 @@ export enum ConversationDirection {
   OUTBOUND = "outbound",
 }
 
+export type DeliveryStatus = "queued" | "sent" | "delivered" | "read" | "failed";
+
+export interface DeliveryStatusUpdate {
+  status: DeliveryStatus;
+  timestamp: Date;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
 export interface Message {
   role: "user" | "assistant";
   content: string;
   timestamp: Date;
+  /** Provider message ID (SMS/WhatsApp) */
+  providerMessageId?: string;
+  /** Delivery receipts for outbound messages, oldest first */
+  deliveryStatus?: DeliveryStatusUpdate[];
+  /** Speech recognition confidence for voice turns (0-1) */
+  confidence?: number;
+  /** The caller talked over this spoken message before it finished (barge-in) */
+  interrupted?: boolean;
+  /** Key the caller pressed in the hold menu; such messages log an action rather than a reply */
+  keypress?: string;
+  /** Files sent with an inbound message, downloaded to disk (see AttachmentStore) */
+  attachments?: MessageAttachment[];
 }
 
+/** Optional details recorded alongside a message */
+export type MessageDetails = Pick<Message, "providerMessageId" | "confidence" | "keypress" | "attachments">;
+
 export interface Conversation {
   id: string;
   providerConversationId: string;
@@ -39,20 +70,125 @@ export interface Conversation {
   metadata?: {
     from?: string;
     to?: string;
+    /** The caller moved the conversation to another channel; results go there */
+    continueOn?: "whatsapp";
+    /** What an outbound call is about; read into a voicemail and texted if a machine answers */
+    summary?: string;
+    /** An answering machine picked up the call and we left a voicemail */
+    voicemail?: boolean;
+    /** Language the conversation is held in (BCP-47), set per user, per call or detected */
+    language?: string;
+    /** Archived call recordings and their transcripts (see RecordingArchive) */
+    recordings?: CallRecording[];
+    /** The caller said the passphrase or keyed in the PIN (see CallerAuth) */
+    authenticated?: boolean;
   };
 }
 
+export interface ConversationFilter {
+  channel?: ChannelType;
+  state?: ConversationState;
+  direction?: ConversationDirection;
+  /** Only conversations started at or after this time */
+  since?: Date;
+  /** Only conversations started at or before this time */
+  until?: Date;
+  /** Phone number of the other party (matches metadata.from or metadata.to) */
+  counterpart?: string;
+  /** Full-text query: every word must appear in the conversation's messages */
+  text?: string;
+}
+
+/**
+ * Split a full-text query into lowercase search terms
+ */
+export function searchTerms(text: string | undefined): string[] {
+  return (text || "").toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Check whether a conversation matches every field set on a filter
+ */
+export function matchesFilter(conversation: Conversation, filter: ConversationFilter): boolean {
+  if (filter.channel !== undefined && conversation.channel !== filter.channel) return false;
+  if (filter.state !== undefined && conversation.state !== filter.state) return false;
+  if (filter.direction !== undefined && conversation.direction !== filter.direction) return false;
+  if (filter.since && conversation.startedAt < filter.since) return false;
+  if (filter.until && conversation.startedAt > filter.until) return false;
+
+  if (filter.counterpart) {
+    const wanted = normalizeNumber(filter.counterpart);
+    const numbers = [conversation.metadata?.from, conversation.metadata?.to]
+      .filter((n): n is string => !!n)
+      .map(normalizeNumber);
+    if (!numbers.includes(wanted)) return false;
+  }
+
+  const terms = searchTerms(filter.text);
+  if (terms.length > 0) {
+    const haystack = conversation.messages.map((m) => m.content.toLowerCase()).join("\n");
+    if (!terms.every((term) => haystack.includes(term))) return false;
+  }
+
+  return true;
+}
+
+/** Why a conversation was ended by the manager rather than by a provider */
+export type ConversationEndReason = "idle_timeout" | "new_topic";
+
+/**
+ * Check whether a message starts with one of the "new topic" keywords
+ * The keyword must be followed by the end of the message or a non-word character.
+ */
+export function startsNewTopic(content: string, keywords: string[]): boolean {
+  const text = content.trim().toLowerCase();
+  return keywords.some((keyword) => {
+    if (!text.startsWith(keyword)) return false;
+    const next = text.charAt(keyword.length);
+    return next === "" || !/\w/.test(next);
+  });
+}
+
+export interface ConversationManagerOptions {
+  /** Storage backend (default: in-memory only, nothing survives a restart) */
+  store?: ConversationStore;
+  /** How long ended conversations are kept in the store (0 = forever) */
+  retentionMs?: number;
+  /** End SMS/WhatsApp conversations after this long without a message (0 or unset = never) */
+  idleTimeoutMs?: Partial<Record<ChannelType.SMS | ChannelType.WHATSAPP, number>>;
+  /** Messages starting with one of these (lowercase) force a fresh conversation */
+  newTopicKeywords?: string[];
+}
+
 export class ConversationManager {
+  /** Conversation lifecycle events (created, message added, state changed) */
+  readonly events = new EventBus<ConversationEvents>();
   private conversations: Map<string, Conversation> = new Map();
+  private store: ConversationStore;
+  private retentionMs: number;
+  private idleTimeoutMs: Partial<Record<ChannelType, number>>;
+  private newTopicKeywords: string[];
   private inboundWaiters: Array<{
     resolve: (conversation: Conversation | null) => void;
-    timeout: Timer;
     channel?: ChannelType;
   }> = [];
-  private responseWaiters: Map<
-    string,
-    { resolve: (response: string | null) => void; timeout: Timer }
-  > = new Map();
+  /** Every caller waiting on a conversation gets the next user reply */
+  private responseWaiters: Map<string, Set<(response: string | null) => void>> = new Map();
+
+  constructor(options: ConversationManagerOptions = {}) {
+    this.store = options.store ?? new InMemoryConversationStore();
+    this.retentionMs = options.retentionMs ?? 0;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? {};
+    this.newTopicKeywords = options.newTopicKeywords ?? [];
+
+    // Rehydrate conversations that were still open when the server last stopped
+    for (const conversation of this.store.loadActive()) {
+      this.conversations.set(conversation.id, conversation);
+    }
+    if (this.conversations.size > 0) {
+      console.error(`[Conversation] Restored ${this.conversations.size} open conversation(s) from store`);
+    }
+  }
 
   /**
    * Create a new conversation record
@@ -62,7 +198,7 @@ export class ConversationManager {
     channel: ChannelType,
     direction: ConversationDirection,
     providerConversationId: string,
-    metadata?: { from?: string; to?: string }
+    metadata?: Conversation["metadata"]
   ): Conversation {
     const conversation: Conversation = {
       id,
@@ -76,18 +212,30 @@ export class ConversationManager {
     };
 
     this.conversations.set(id, conversation);
+    this.store.saveConversation(conversation);
     console.error(
       `[Conversation] Created ${channel} ${direction} conversation ${id} (provider: ${providerConversationId})`
     );
+    this.events.emit("conversation.created", { conversation });
 
     return conversation;
   }
 
   /**
    * Get a conversation by ID
+   * Falls back to the store for ended conversations already evicted from memory
    */
   getConversation(id: string): Conversation | undefined {
-    return this.conversations.get(id);
+    const cached = this.conversations.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const stored = this.store.get(id);
+    if (stored) {
+      this.conversations.set(id, stored);
+    }
+    return stored;
   }
 
   /**
@@ -104,13 +252,17 @@ export class ConversationManager {
 
   /**
    * Find or create a conversation for an inbound message
-   * For messaging, we track by the sender's phone number to maintain thread continuity
+   * For messaging, we track by the sender's phone number to maintain thread continuity.
+   * An idle thread, or a message starting with a "new topic" keyword, is ended and
+   * replaced by a fresh conversation.
+   * @param content Message text, checked for "new topic" keywords
    */
   findOrCreateConversation(
     channel: ChannelType,
     providerMessageId: string,
     from: string,
-    to: string
+    to: string,
+    content?: string
   ): Conversation {
     // For messaging, look for an existing active conversation from the same number
     if (channel === ChannelType.SMS || channel === ChannelType.WHATSAPP) {
@@ -120,7 +272,14 @@ export class ConversationManager {
           conversation.state !== ConversationState.ENDED &&
           conversation.metadata?.from === from
         ) {
-          return conversation;
+          if (this.isIdle(conversation, Date.now())) {
+            this.updateState(conversation.id, ConversationState.ENDED, "idle_timeout");
+          } else if (content && startsNewTopic(content, this.newTopicKeywords)) {
+            this.updateState(conversation.id, ConversationState.ENDED, "new_topic");
+          } else {
+            return conversation;
+          }
+          break;
         }
       }
     }
@@ -133,61 +292,225 @@ export class ConversationManager {
     });
   }
 
+  /**
+   * Time of the last message (or the start, if there are none)
+   */
+  private lastActivity(conversation: Conversation): number {
+    const last = conversation.messages[conversation.messages.length - 1];
+    return (last?.timestamp ?? conversation.startedAt).getTime();
+  }
+
+  /**
+   * Check whether an open messaging conversation has passed its channel's idle timeout
+   */
+  private isIdle(conversation: Conversation, now: number): boolean {
+    const timeoutMs = this.idleTimeoutMs[conversation.channel];
+    return (
+      !!timeoutMs &&
+      conversation.channel !== ChannelType.VOICE &&
+      conversation.state !== ConversationState.ENDED &&
+      now - this.lastActivity(conversation) > timeoutMs
+    );
+  }
+
+  /**
+   * End messaging conversations that have been idle longer than their channel's timeout
+   * (call periodically so threads close even when the sender never writes again)
+   * @returns IDs of the conversations that were ended
+   */
+  closeIdle(now: number = Date.now()): string[] {
+    const closed: string[] = [];
+    for (const conversation of this.conversations.values()) {
+      if (this.isIdle(conversation, now)) {
+        this.updateState(conversation.id, ConversationState.ENDED, "idle_timeout");
+        closed.push(conversation.id);
+      }
+    }
+    return closed;
+  }
+
   /**
    * Update conversation state
+   * @param reason Set when the manager itself ends the conversation
    */
-  updateState(id: string, state: ConversationState): void {
-    const conversation = this.conversations.get(id);
+  updateState(id: string, state: ConversationState, reason?: ConversationEndReason): void {
+    const conversation = this.getConversation(id);
     if (!conversation) {
       console.warn(`[Conversation] Conversation ${id} not found for state update`);
       return;
     }
 
+    const previousState = conversation.state;
     conversation.state = state;
     if (state === ConversationState.ENDED) {
       conversation.endedAt = new Date();
     }
+    this.store.saveConversation(conversation);
 
-    console.error(`[Conversation] ${id} state updated to ${state}`);
+    console.error(`[Conversation] ${id} state updated to ${state}${reason ? ` (${reason})` : ""}`);
+    this.emitStateChange(conversation, previousState, reason);
   }
 
   /**
    * Add a message to the conversation
+   * @param details Provider message ID, speech confidence and/or attachments
    */
-  addMessage(id: string, role: "user" | "assistant", content: string): void {
-    const conversation = this.conversations.get(id);
+  addMessage(id: string, role: "user" | "assistant", content: string, details: MessageDetails = {}): void {
+    const conversation = this.getConversation(id);
     if (!conversation) {
       console.warn(`[Conversation] Conversation ${id} not found for message`);
       return;
     }
 
-    conversation.messages.push({
+    const message: Message = {
       role,
       content,
       timestamp: new Date(),
-    });
+    };
+    if (details.providerMessageId) {
+      message.providerMessageId = details.providerMessageId;
+    }
+    if (details.confidence !== undefined) {
+      message.confidence = details.confidence;
+    }
+    if (details.keypress) {
+      message.keypress = details.keypress;
+    }
+    if (details.attachments?.length) {
+      message.attachments = details.attachments;
+    }
+    conversation.messages.push(message);
+    this.store.saveMessage(id, conversation.messages.length - 1, message);
 
     console.error(
       `[Conversation] ${id} [${conversation.channel}] message added: [${role}] ${content.slice(0, 50)}...`
     );
-
-    // If this is a user message and we have a waiter, resolve it
-    if (role === "user") {
-      const waiter = this.responseWaiters.get(id);
-      if (waiter) {
-        clearTimeout(waiter.timeout);
+    this.events.emit("message.added", { conversationId: id, channel: conversation.channel, message });
+
+    // A user message answers everyone who was waiting on this conversation
+    // (menu keypresses are logged for the record, they aren't replies)
+    if (role === "user" && !message.keypress) {
+      const waiters = this.responseWaiters.get(id);
+      if (waiters) {
+        // Detach first so waiters registered while resolving wait for the next reply
         this.responseWaiters.delete(id);
-        waiter.resolve(content);
+        for (const resolve of waiters) {
+          resolve(content);
+        }
       }
 
       // Also check for inbound conversation waiters
       if (conversation.direction === ConversationDirection.INBOUND) {
+        const previousState = conversation.state;
         conversation.state = ConversationState.PENDING_RESPONSE;
+        this.store.saveConversation(conversation);
+        this.emitStateChange(conversation, previousState);
         this.notifyInboundWaiters(conversation);
       }
     }
   }
 
+  /**
+   * Record a delivery receipt on the message with the given provider message ID
+   * Looks in the given conversation first, then in every conversation in memory.
+   * @returns The updated message, or undefined if no message matched
+   */
+  updateDeliveryStatus(
+    conversationId: string | undefined,
+    providerMessageId: string,
+    update: Omit<DeliveryStatusUpdate, "timestamp">
+  ): Message | undefined {
+    if (!providerMessageId) {
+      return undefined;
+    }
+
+    const preferred = conversationId ? this.getConversation(conversationId) : undefined;
+    const candidates = preferred
+      ? [preferred, ...this.conversations.values()]
+      : this.conversations.values();
+
+    for (const conversation of candidates) {
+      const index = conversation.messages.findIndex((m) => m.providerMessageId === providerMessageId);
+      if (index === -1) continue;
+
+      const message = conversation.messages[index];
+      const history = message.deliveryStatus ?? [];
+      const last = history[history.length - 1];
+      // Providers retry webhooks; skip repeats of the current status
+      if (last?.status !== update.status || last?.errorCode !== update.errorCode) {
+        message.deliveryStatus = [...history, { ...update, timestamp: new Date() }];
+        this.store.saveMessage(conversation.id, index, message);
+        console.error(`[Conversation] ${conversation.id} message ${providerMessageId} ${update.status}`);
+        this.events.emit("message.updated", { conversationId: conversation.id, channel: conversation.channel, message });
+      }
+      return message;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Merge fields into a conversation's metadata
+   */
+  updateMetadata(id: string, metadata: NonNullable<Conversation["metadata"]>): void {
+    const conversation = this.getConversation(id);
+    if (!conversation) {
+      console.warn(`[Conversation] Conversation ${id} not found for metadata update`);
+      return;
+    }
+
+    conversation.metadata = { ...conversation.metadata, ...metadata };
+    this.store.saveConversation(conversation);
+  }
+
+  /**
+   * Record that the caller cut off the last assistant message
+   * @returns The interrupted message, or undefined if there is none
+   */
+  markInterrupted(conversationId: string): Message | undefined {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      return undefined;
+    }
+
+    let index = conversation.messages.length - 1;
+    while (index >= 0 && conversation.messages[index].role !== "assistant") {
+      index--;
+    }
+    if (index === -1) {
+      return undefined;
+    }
+
+    const message = conversation.messages[index];
+    if (!message.interrupted) {
+      message.interrupted = true;
+      this.store.saveMessage(conversation.id, index, message);
+      console.error(`[Conversation] ${conversation.id} caller interrupted the assistant`);
+      this.events.emit("message.updated", { conversationId: conversation.id, channel: conversation.channel, message });
+    }
+    return message;
+  }
+
+  /**
+   * Emit state.changed unless the state stayed the same
+   */
+  private emitStateChange(
+    conversation: Conversation,
+    previousState: ConversationState,
+    reason?: ConversationEndReason
+  ): void {
+    if (conversation.state === previousState) {
+      return;
+    }
+    this.events.emit("state.changed", {
+      conversationId: conversation.id,
+      channel: conversation.channel,
+      previousState,
+      state: conversation.state,
+      ...(reason && { reason }),
+    });
+  }
+
   /**
    * Get a pending inbound conversation (has message but no response yet)
    * Optionally filter by channel
@@ -209,8 +532,9 @@ export class ConversationManager {
   /**
    * Wait for an inbound conversation with a message
    * Optionally filter by channel
+   * @param signal Aborting it stops waiting and resolves null
    */
-  waitForInbound(timeoutMs: number, channel?: ChannelType): Promise<Conversation | null> {
+  waitForInbound(timeoutMs: number, channel?: ChannelType, signal?: AbortSignal): Promise<Conversation | null> {
     // First check if there's already a pending conversation
     const pending = this.getPendingInbound(channel);
     if (pending) {
@@ -218,16 +542,15 @@ export class ConversationManager {
     }
 
     // Otherwise, wait for one
-    return new Promise((resolve) => {
-      const timeout = setTimeout(() => {
-        const index = this.inboundWaiters.findIndex((w) => w.resolve === resolve);
+    return waitWithCancellation<Conversation>(timeoutMs, signal, (settle) => {
+      const waiter = { resolve: settle, channel };
+      this.inboundWaiters.push(waiter);
+      return () => {
+        const index = this.inboundWaiters.indexOf(waiter);
         if (index !== -1) {
           this.inboundWaiters.splice(index, 1);
         }
-        resolve(null);
-      }, timeoutMs);
-
-      this.inboundWaiters.push({ resolve, timeout, channel });
+      };
     });
   }
 
@@ -242,15 +565,17 @@ export class ConversationManager {
 
     if (waiterIndex !== -1) {
       const waiter = this.inboundWaiters.splice(waiterIndex, 1)[0];
-      clearTimeout(waiter.timeout);
       waiter.resolve(conversation);
     }
   }
 
   /**
    * Wait for a user response in an active conversation
+   * Any number of callers may wait on the same conversation; the next user
+   * message is delivered to all of them.
+   * @param signal Aborting it (e.g. a cancelled tool call) stops waiting and resolves null
    */
-  waitForResponse(conversationId: string, timeoutMs: number): Promise<string | null> {
+  waitForResponse(conversationId: string, timeoutMs: number, signal?: AbortSignal): Promise<string | null> {
     const conversation = this.conversations.get(conversationId);
     if (!conversation) {
       return Promise.resolve(null);
@@ -262,16 +587,30 @@ export class ConversationManager {
       return Promise.resolve(lastMessage.content);
     }
 
-    return new Promise((resolve) => {
-      const timeout = setTimeout(() => {
-        this.responseWaiters.delete(conversationId);
-        resolve(null);
-      }, timeoutMs);
-
-      this.responseWaiters.set(conversationId, { resolve, timeout });
+    return waitWithCancellation<string>(timeoutMs, signal, (settle) => {
+      let waiters = this.responseWaiters.get(conversationId);
+      if (!waiters) {
+        waiters = new Set();
+        this.responseWaiters.set(conversationId, waiters);
+      }
+      waiters.add(settle);
+      return () => {
+        const current = this.responseWaiters.get(conversationId);
+        current?.delete(settle);
+        if (current?.size === 0) {
+          this.responseWaiters.delete(conversationId);
+        }
+      };
     });
   }
 
+  /**
+   * Number of callers waiting for a reply on a conversation
+   */
+  getResponseWaiterCount(conversationId: string): number {
+    return this.responseWaiters.get(conversationId)?.size ?? 0;
+  }
+
   /**
    * Get all active conversations, optionally filtered by channel
    */
@@ -284,7 +623,36 @@ export class ConversationManager {
   }
 
   /**
-   * Clean up old ended conversations (call periodically to prevent memory leaks)
+   * Find conversations matching a filter, newest first
+   * Open conversations come from memory; ended ones are also looked up in the store.
+   */
+  findConversations(filter: ConversationFilter = {}): Conversation[] {
+    const onlyOpen = filter.state !== undefined && filter.state !== ConversationState.ENDED;
+    const candidates = new Map<string, Conversation>();
+
+    const inMemory = onlyOpen
+      ? this.getActiveConversations(filter.channel)
+      : Array.from(this.conversations.values());
+    for (const conversation of inMemory) {
+      candidates.set(conversation.id, conversation);
+    }
+
+    if (!onlyOpen) {
+      for (const stored of this.store.find(filter)) {
+        if (!candidates.has(stored.id)) {
+          candidates.set(stored.id, stored);
+        }
+      }
+    }
+
+    return Array.from(candidates.values())
+      .filter((conversation) => matchesFilter(conversation, filter))
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  /**
+   * Evict old ended conversations from memory (call periodically to prevent memory leaks)
+   * Evicted conversations stay in the store until they fall outside the retention window.
    */
   cleanupOld(maxAgeMs: number = 3600000): void {
     const now = Date.now();
@@ -298,6 +666,20 @@ export class ConversationManager {
         console.error(`[Conversation] Cleaned up old conversation ${id}`);
       }
     }
+
+    if (this.retentionMs > 0) {
+      const deleted = this.store.deleteEndedBefore(new Date(now - this.retentionMs));
+      if (deleted > 0) {
+        console.error(`[Conversation] Retention removed ${deleted} stored conversation(s)`);
+      }
+    }
+  }
+
+  /**
+   * Close the underlying store (used during graceful shutdown)
+   */
+  close(): void {
+    this.store.close();
   }
 
   // ============================================
@@ -0,0 +1,71 @@
+/**
+ * Conversation Store
+ * Storage backends behind ConversationManager. The manager keeps live
+ * conversations in its own map and writes every change through to a store.
+ */
+
+import type { Conversation, ConversationFilter, Message } from "./conversation-manager.js";
+
+export interface ConversationStore {
+  /**
+   * Load conversations that have not ended (used to rehydrate at startup)
+   */
+  loadActive(): Conversation[];
+
+  /**
+   * Load a single conversation, including ended ones evicted from memory
+   */
+  get(id: string): Conversation | undefined;
+
+  /**
+   * Find stored conversations matching a filter
+   * May return extra candidates; the manager re-checks every field.
+   */
+  find(filter: ConversationFilter): Conversation[];
+
+  /**
+   * Insert or update a conversation record (state, metadata, endedAt, ...)
+   */
+  saveConversation(conversation: Conversation): void;
+
+  /**
+   * Insert or update the message at `index` in a conversation
+   */
+  saveMessage(conversationId: string, index: number, message: Message): void;
+
+  /**
+   * Delete ended conversations whose endedAt is before the cutoff
+   * @returns Number of conversations deleted
+   */
+  deleteEndedBefore(cutoff: Date): number;
+
+  close(): void;
+}
+
+/**
+ * Default store: nothing outlives the manager's in-memory map,
+ * so evicting a conversation from memory deletes it.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  loadActive(): Conversation[] {
+    return [];
+  }
+
+  get(_id: string): Conversation | undefined {
+    return undefined;
+  }
+
+  find(_filter: ConversationFilter): Conversation[] {
+    return [];
+  }
+
+  saveConversation(_conversation: Conversation): void {}
+
+  saveMessage(_conversationId: string, _index: number, _message: Message): void {}
+
+  deleteEndedBefore(_cutoff: Date): number {
+    return 0;
+  }
+
+  close(): void {}
+}
@@ -0,0 +1,126 @@
+/**
+ * Event Bus
+ * Typed publish/subscribe used by ConversationManager and TaskExecutor so other
+ * parts of the server (e.g. the /api/events SSE stream) can follow activity
+ * without polling.
+ */
+
+import type {
+  ChannelType,
+  Conversation,
+  ConversationEndReason,
+  ConversationState,
+  Message,
+} from "./conversation-manager.js";
+
+export interface ConversationEvents {
+  "conversation.created": {
+    conversation: Conversation;
+  };
+  "message.added": {
+    conversationId: string;
+    channel: ChannelType;
+    message: Message;
+  };
+  "message.updated": {
+    conversationId: string;
+    channel: ChannelType;
+    message: Message;
+  };
+  "state.changed": {
+    conversationId: string;
+    channel: ChannelType;
+    previousState: ConversationState;
+    state: ConversationState;
+    /** Set when the manager auto-closed the conversation */
+    reason?: ConversationEndReason;
+  };
+  "security.auth_failed": {
+    /** Unset when a locked out number is turned away before a conversation starts */
+    conversationId?: string;
+    from: string;
+    /** Failed attempts from this number since its last success or lockout */
+    failures: number;
+    locked: boolean;
+  };
+}
+
+export interface TaskEvents {
+  "task.spawned": {
+    conversationId: string;
+    task: string;
+    workingDir: string;
+    pid?: number;
+  };
+  "task.exited": {
+    conversationId: string;
+    code: number | null;
+    status: "completed" | "failed";
+  };
+}
+
+export type Listener<T> = (payload: T) => void;
+export type AnyListener<E> = <K extends keyof E>(type: K, payload: E[K]) => void;
+
+export class EventBus<E extends object> {
+  private listeners = new Map<keyof E, Set<Listener<any>>>();
+  private anyListeners = new Set<AnyListener<E>>();
+
+  /**
+   * Subscribe to one event type
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof E>(type: K, listener: Listener<E[K]>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof E>(type: K, listener: Listener<E[K]>): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  /**
+   * Subscribe to every event type
+   * @returns Function that removes the listener
+   */
+  onAny(listener: AnyListener<E>): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Deliver an event to its listeners synchronously
+   * A throwing listener is logged and does not stop delivery to the others.
+   */
+  emit<K extends keyof E>(type: K, payload: E[K]): void {
+    for (const listener of this.listeners.get(type) ?? []) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[Events] Listener for ${String(type)} failed:`, error);
+      }
+    }
+    for (const listener of this.anyListeners) {
+      try {
+        listener(type, payload);
+      } catch (error) {
+        console.error(`[Events] Listener for ${String(type)} failed:`, error);
+      }
+    }
+  }
+
+  listenerCount(): number {
+    let count = this.anyListeners.size;
+    for (const set of this.listeners.values()) {
+      count += set.size;
+    }
+    return count;
+  }
+}
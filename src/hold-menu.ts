@@ -0,0 +1,140 @@
+/**
+ * Hold Menu
+ * Keypad menu for callers on hold while a task runs:
+ * 1 reads the latest progress, 2 cancels the task, 3 repeats the last thing
+ * Claude said, 9 ends the call and continues on WhatsApp.
+ * Every key pressed is logged into the conversation.
+ */
+
+import { ConversationDirection, type Conversation, type ConversationManager } from "./conversation-manager.js";
+import type { TaskExecutor } from "./task-executor.js";
+import { DEFAULT_LANGUAGE, phrasesFor, type CallPhrases } from "./language.js";
+
+export type HoldMenuAction = "status" | "cancel" | "repeat" | "whatsapp";
+
+export const HOLD_MENU_KEYS: Record<string, HoldMenuAction> = {
+  "1": "status",
+  "2": "cancel",
+  "3": "repeat",
+  "9": "whatsapp",
+};
+
+export interface HoldMenuResult {
+  /** What the key did (undefined for keys outside the menu) */
+  action?: HoldMenuAction;
+  /** What to say to the caller */
+  message: string;
+  /** What the call does next: stay on hold, listen for a new request, or hang up */
+  next: "hold" | "gather" | "hangup";
+}
+
+export interface HoldMenuOptions {
+  /** Sends a WhatsApp message to the caller (the 9 key is unavailable without it) */
+  sendWhatsApp?: (to: string, text: string) => Promise<unknown>;
+}
+
+export class HoldMenu {
+  private conversationManager: ConversationManager;
+  private taskExecutor: TaskExecutor;
+  private sendWhatsApp?: (to: string, text: string) => Promise<unknown>;
+
+  constructor(conversationManager: ConversationManager, taskExecutor: TaskExecutor, options: HoldMenuOptions = {}) {
+    this.conversationManager = conversationManager;
+    this.taskExecutor = taskExecutor;
+    this.sendWhatsApp = options.sendWhatsApp;
+  }
+
+  /**
+   * Handle a key the caller pressed on hold, answering in the call's language
+   */
+  async press(conversationId: string, digit: string, language: string = DEFAULT_LANGUAGE): Promise<HoldMenuResult> {
+    const phrases = phrasesFor(language);
+    const action = HOLD_MENU_KEYS[digit];
+    if (!action) {
+      return { message: phrases.holdMenu, next: "hold" };
+    }
+
+    console.error(`[HoldMenu] ${conversationId.slice(0, 8)} pressed ${digit} (${action})`);
+    this.conversationManager.addMessage(conversationId, "user", `Pressed ${digit} (${action})`, { keypress: digit });
+
+    switch (action) {
+      case "status":
+        return { action, message: this.status(conversationId, language), next: "hold" };
+      case "cancel":
+        return this.cancel(conversationId, phrases);
+      case "repeat":
+        return { action, message: this.lastAssistantMessage(conversationId) ?? phrases.nothingSaid, next: "hold" };
+      case "whatsapp":
+        return this.continueOnWhatsApp(conversationId, phrases);
+    }
+  }
+
+  private status(conversationId: string, language: string): string {
+    const phrases = phrasesFor(language);
+    const execution = this.taskExecutor.getExecution(conversationId);
+    if (!execution) {
+      return phrases.notWorking;
+    }
+    if (execution.status === "completed") {
+      return phrases.taskFinished;
+    }
+    if (execution.status === "failed") {
+      return phrases.taskStopped;
+    }
+
+    const stillWorking = phrases.stillWorking(describeElapsed(execution.startedAt, language));
+    return `${stillWorking} ${execution.progress ? phrases.latestUpdate(execution.progress) : phrases.noUpdates}`;
+  }
+
+  private cancel(conversationId: string, phrases: CallPhrases): HoldMenuResult {
+    if (!this.taskExecutor.killTask(conversationId)) {
+      return { action: "cancel", message: phrases.nothingToCancel, next: "hold" };
+    }
+    return { action: "cancel", message: phrases.cancelled, next: "gather" };
+  }
+
+  private lastAssistantMessage(conversationId: string): string | undefined {
+    const messages = this.conversationManager.getConversation(conversationId)?.messages ?? [];
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === "assistant") {
+        return messages[i].content;
+      }
+    }
+    return undefined;
+  }
+
+  private async continueOnWhatsApp(conversationId: string, phrases: CallPhrases): Promise<HoldMenuResult> {
+    const conversation = this.conversationManager.getConversation(conversationId);
+    const number = conversation && counterpart(conversation);
+    if (!this.sendWhatsApp || !number) {
+      return { action: "whatsapp", message: phrases.whatsAppUnavailable, next: "hold" };
+    }
+
+    try {
+      await this.sendWhatsApp(number, phrases.whatsAppContinuing(this.taskExecutor.isRunning(conversationId)));
+    } catch (error) {
+      console.error(`[HoldMenu] WhatsApp handoff failed for ${conversationId.slice(0, 8)}:`, error);
+      return { action: "whatsapp", message: phrases.whatsAppFailed, next: "hold" };
+    }
+
+    // The task's result now goes to WhatsApp instead of a callback
+    this.conversationManager.updateMetadata(conversationId, { continueOn: "whatsapp" });
+    return { action: "whatsapp", message: phrases.whatsAppHandoff, next: "hangup" };
+  }
+}
+
+/**
+ * How long a task has been running, as spoken to the caller
+ */
+export function describeElapsed(startedAt: Date, language: string = DEFAULT_LANGUAGE): string {
+  return phrasesFor(language).elapsed(Math.floor((Date.now() - startedAt.getTime()) / 60000));
+}
+
+/**
+ * The caller's number: who called us, or who we called
+ */
+function counterpart(conversation: Conversation): string | undefined {
+  return conversation.direction === ConversationDirection.INBOUND
+    ? conversation.metadata?.from
+    : conversation.metadata?.to;
+}
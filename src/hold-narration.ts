@@ -0,0 +1,94 @@
+/**
+ * Hold Narration
+ * Short "still working" updates for callers on hold, made from the spawned
+ * session's latest stdout, so the caller hears something even when the
+ * session never calls /api/say.
+ */
+
+import { describeElapsed } from "./hold-menu.js";
+import type { TaskExecutor } from "./task-executor.js";
+import { DEFAULT_LANGUAGE, phrasesFor } from "./language.js";
+
+/** Longest output line read to the caller */
+const NARRATION_CHARS = 120;
+
+export interface HoldNarrationOptions {
+  /** Time between updates; 0 turns narration off (default: 30 seconds) */
+  intervalMs?: number;
+}
+
+/**
+ * Turn a line of process output into something worth saying out loud
+ * Drops terminal escapes, Markdown punctuation and URLs, and cuts long lines at a word.
+ * @returns undefined if nothing speakable is left
+ */
+export function speakableOutput(line: string): string | undefined {
+  const text = line
+    .replace(/\x1b\[[0-9;]*[A-Za-z]/g, "")
+    .replace(/https?:\/\/\S+/g, "a link")
+    .replace(/[`*_#>|~]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!/[a-z]{2}/i.test(text)) {
+    return undefined;
+  }
+  return text.length <= NARRATION_CHARS ? text : `${text.slice(0, NARRATION_CHARS).replace(/\s+\S*$/, "")}...`;
+}
+
+export class HoldNarrator {
+  private taskExecutor: TaskExecutor;
+  private intervalMs: number;
+  /** When each conversation last heard an update, and which output line it was */
+  private narrated: Map<string, { at: number; line?: string }> = new Map();
+
+  constructor(taskExecutor: TaskExecutor, options: HoldNarrationOptions = {}) {
+    this.taskExecutor = taskExecutor;
+    this.intervalMs = options.intervalMs ?? 30000;
+  }
+
+  /**
+   * How long each hold cycle waits before checking back (at most 30 seconds)
+   */
+  get waitSeconds(): number {
+    return this.intervalMs > 0 ? Math.min(30, Math.max(5, Math.round(this.intervalMs / 1000))) : 30;
+  }
+
+  /**
+   * The update to speak on this hold cycle
+   * @returns undefined when narration is off, nothing is running, or the caller
+   *   heard from us (an update or /api/say) within the interval
+   */
+  next(conversationId: string, language: string = DEFAULT_LANGUAGE): string | undefined {
+    const execution = this.taskExecutor.getExecution(conversationId);
+    if (this.intervalMs <= 0 || execution?.status !== "running") {
+      this.narrated.delete(conversationId);
+      return undefined;
+    }
+
+    const last = this.narrated.get(conversationId);
+    const lastSpoke = Math.max(
+      last?.at ?? 0,
+      execution.startedAt.getTime(),
+      execution.progressAt?.getTime() ?? 0
+    );
+    if (Date.now() - lastSpoke < this.intervalMs) {
+      return undefined;
+    }
+
+    const line = latestSpeakableLine(execution.output);
+    this.narrated.set(conversationId, { at: Date.now(), line });
+
+    const stillWorking = phrasesFor(language).stillWorking(describeElapsed(execution.startedAt, language));
+    return line && line !== last?.line ? `${stillWorking} ${line}` : stillWorking;
+  }
+}
+
+function latestSpeakableLine(output: string[]): string | undefined {
+  for (let i = output.length - 1; i >= 0; i--) {
+    const line = speakableOutput(output[i]);
+    if (line) {
+      return line;
+    }
+  }
+  return undefined;
+}
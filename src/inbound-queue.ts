@@ -0,0 +1,271 @@
+/**
+ * Inbound Queue
+ * FIFO queue of user messages on inbound conversations for receive_inbound_call
+ * and receive_inbound_message. A message is claimed by one session at a time,
+ * stays invisible to other sessions until it is acked, released or its
+ * visibility timeout runs out, and is then gone for good once acked.
+ * A reply to a conversation acks everything it received before the reply,
+ * claimed or not: sessions spawned for a message answer it without claiming it.
+ */
+
+import { waitWithCancellation } from "./cancellable-wait.js";
+import type { MessageAttachment } from "./attachments.js";
+import {
+  ConversationDirection,
+  ConversationState,
+  type ChannelType,
+  type ConversationManager,
+} from "./conversation-manager.js";
+
+export interface InboundQueueOptions {
+  /** How long a claimed message stays hidden from other sessions (default: 5 minutes) */
+  visibilityTimeoutMs?: number;
+}
+
+export interface InboundClaim {
+  /** Pass to ack/release; only valid while the claim is held */
+  token: string;
+  conversationId: string;
+  channel: ChannelType;
+  content: string;
+  /** Files sent with the message */
+  attachments: MessageAttachment[];
+  receivedAt: Date;
+  /** When the message becomes visible to other sessions again */
+  expiresAt: Date;
+  /** How many times the message has been claimed, including this one */
+  deliveryCount: number;
+}
+
+interface QueueItem {
+  conversationId: string;
+  channel: ChannelType;
+  content: string;
+  attachments: MessageAttachment[];
+  receivedAt: Date;
+  deliveryCount: number;
+  claim?: {
+    token: string;
+    expiresAt: Date;
+    timer: ReturnType<typeof setTimeout>;
+  };
+}
+
+interface ClaimWaiter {
+  channels?: ChannelType[];
+  visibilityTimeoutMs: number;
+  resolve: (claim: InboundClaim | null) => void;
+}
+
+export class InboundQueue {
+  /** Unacked messages in arrival order */
+  private items: QueueItem[] = [];
+  private byToken: Map<string, QueueItem> = new Map();
+  private waiters: ClaimWaiter[] = [];
+  private visibilityTimeoutMs: number;
+
+  constructor(conversationManager: ConversationManager, options: InboundQueueOptions = {}) {
+    this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 300000;
+
+    // Conversations restored from the store still owe a reply to their last message
+    for (const conversation of conversationManager.getActiveConversations()) {
+      const last = conversation.messages[conversation.messages.length - 1];
+      if (
+        conversation.direction === ConversationDirection.INBOUND &&
+        conversation.state === ConversationState.PENDING_RESPONSE &&
+        last?.role === "user" &&
+        !last.keypress
+      ) {
+        this.enqueue(conversation.id, conversation.channel, last.content, last.timestamp, last.attachments);
+      }
+    }
+
+    conversationManager.events.on("message.added", ({ conversationId, channel, message }) => {
+      if (message.role === "assistant") {
+        // Replying to a conversation answers everything it had received so far
+        this.ackConversation(conversationId);
+        return;
+      }
+      const conversation = conversationManager.getConversation(conversationId);
+      if (conversation?.direction === ConversationDirection.INBOUND && !message.keypress) {
+        this.enqueue(conversationId, channel, message.content, message.timestamp, message.attachments);
+      }
+    });
+    conversationManager.events.on("state.changed", ({ conversationId, state }) => {
+      if (state === ConversationState.ENDED) {
+        this.drop(conversationId);
+      }
+    });
+  }
+
+  /**
+   * Claim the oldest visible message, optionally limited to some channels
+   * Messages of a conversation are handed out in order: while one is claimed,
+   * later ones from the same conversation stay queued.
+   */
+  claim(channels?: ChannelType[], visibilityTimeoutMs: number = this.visibilityTimeoutMs): InboundClaim | undefined {
+    const busy = new Set<string>();
+    for (const item of this.items) {
+      if (item.claim) {
+        busy.add(item.conversationId);
+        continue;
+      }
+      if (busy.has(item.conversationId) || (channels && !channels.includes(item.channel))) {
+        continue;
+      }
+
+      const token = crypto.randomUUID();
+      const expiresAt = new Date(Date.now() + visibilityTimeoutMs);
+      item.deliveryCount++;
+      item.claim = {
+        token,
+        expiresAt,
+        timer: setTimeout(() => this.expire(item, token), visibilityTimeoutMs),
+      };
+      this.byToken.set(token, item);
+      console.error(`[InboundQueue] Claimed message on ${item.conversationId} (delivery ${item.deliveryCount})`);
+
+      return {
+        token,
+        conversationId: item.conversationId,
+        channel: item.channel,
+        content: item.content,
+        attachments: item.attachments,
+        receivedAt: item.receivedAt,
+        expiresAt,
+        deliveryCount: item.deliveryCount,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Claim a message, waiting up to timeoutMs for one to arrive
+   * @param signal Aborting it stops waiting and resolves null
+   */
+  waitForClaim(
+    timeoutMs: number,
+    channels?: ChannelType[],
+    signal?: AbortSignal,
+    visibilityTimeoutMs: number = this.visibilityTimeoutMs
+  ): Promise<InboundClaim | null> {
+    const claim = signal?.aborted ? undefined : this.claim(channels, visibilityTimeoutMs);
+    if (claim) {
+      return Promise.resolve(claim);
+    }
+
+    return waitWithCancellation<InboundClaim>(timeoutMs, signal, (settle) => {
+      const waiter: ClaimWaiter = { channels, visibilityTimeoutMs, resolve: settle };
+      this.waiters.push(waiter);
+      return () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+      };
+    });
+  }
+
+  /**
+   * Mark a claimed message as handled so it is never delivered again
+   * @returns false if the claim is unknown or has expired
+   */
+  ack(token: string): boolean {
+    const item = this.byToken.get(token);
+    if (!item) return false;
+
+    this.remove(item);
+    console.error(`[InboundQueue] Acked message on ${item.conversationId}`);
+    this.dispatch();
+    return true;
+  }
+
+  /**
+   * Give a claimed message back so another session can take it
+   * @returns false if the claim is unknown or has expired
+   */
+  release(token: string): boolean {
+    const item = this.byToken.get(token);
+    if (!item) return false;
+
+    this.unclaim(item);
+    console.error(`[InboundQueue] Released message on ${item.conversationId}`);
+    this.dispatch();
+    return true;
+  }
+
+  /**
+   * Number of unacked messages (claimed or not), optionally for some channels
+   */
+  size(channels?: ChannelType[]): number {
+    return this.items.filter((item) => !channels || channels.includes(item.channel)).length;
+  }
+
+  private enqueue(
+    conversationId: string,
+    channel: ChannelType,
+    content: string,
+    receivedAt: Date,
+    attachments: MessageAttachment[] = []
+  ): void {
+    this.items.push({ conversationId, channel, content, attachments, receivedAt, deliveryCount: 0 });
+    this.dispatch();
+  }
+
+  /**
+   * Hand visible messages to waiting sessions, oldest waiter first
+   */
+  private dispatch(): void {
+    for (const waiter of [...this.waiters]) {
+      const claim = this.claim(waiter.channels, waiter.visibilityTimeoutMs);
+      if (claim) {
+        waiter.resolve(claim);
+      }
+    }
+  }
+
+  private expire(item: QueueItem, token: string): void {
+    if (item.claim?.token !== token) return;
+    this.unclaim(item);
+    console.error(`[InboundQueue] Claim on ${item.conversationId} expired, message is visible again`);
+    this.dispatch();
+  }
+
+  private unclaim(item: QueueItem): void {
+    if (!item.claim) return;
+    clearTimeout(item.claim.timer);
+    this.byToken.delete(item.claim.token);
+    item.claim = undefined;
+  }
+
+  private remove(item: QueueItem): void {
+    this.unclaim(item);
+    const index = this.items.indexOf(item);
+    if (index !== -1) {
+      this.items.splice(index, 1);
+    }
+  }
+
+  /**
+   * Forget the messages of a conversation that a reply answers, whoever claimed them
+   * (everything queued so far: messages are queued as they arrive, so later ones aren't here yet)
+   */
+  private ackConversation(conversationId: string): void {
+    const answered = this.items.filter((item) => item.conversationId === conversationId);
+    for (const item of answered) {
+      this.remove(item);
+    }
+    if (answered.length > 0) {
+      this.dispatch();
+    }
+  }
+
+  /**
+   * Forget every message of a conversation that has ended
+   */
+  private drop(conversationId: string): void {
+    for (const item of this.items.filter((i) => i.conversationId === conversationId)) {
+      this.remove(item);
+    }
+  }
+}
@@ -10,16 +10,20 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { getConnInfo, upgradeWebSocket, websocket } from "hono/bun";
 import { serve } from "bun";
 
 import { TransportManager } from "./transport.js";
-import { PhoneCallManager } from "./phone-call.js";
+import { PhoneCallManager, describeCallWebhook } from "./phone-call.js";
 import {
   ConversationManager,
   ConversationState,
   ConversationDirection,
   ChannelType,
+  searchTerms,
+  type Conversation,
+  type ConversationFilter,
 } from "./conversation-manager.js";
 import { MessagingManager } from "./messaging.js";
 import { WebhookSecurity } from "./webhook-security.js";
@@ -28,8 +32,25 @@ import { TaskExecutor } from "./task-executor.js";
 import { updateTwilioWebhooks } from "./twilio-webhook-updater.js";
 import { loadConfig, validateConfig } from "./config.js";
 import { WhatsAppChatManager } from "./whatsapp-chat.js";
+import { createContactRegistry } from "./contacts.js";
+import { SessionManager } from "./session-manager.js";
+import { InboundQueue, type InboundClaim } from "./inbound-queue.js";
+import { AudioCache } from "./audio-cache.js";
+import { normalizeLanguage, phrasesFor } from "./language.js";
+import { HoldMenu, type HoldMenuResult } from "./hold-menu.js";
+import { HoldNarrator } from "./hold-narration.js";
+import { TelnyxCallFlow } from "./telnyx-call-flow.js";
+import { RecordingArchive } from "./recording-archive.js";
+import { AttachmentStore, describeAttachments, type MessageAttachment } from "./attachments.js";
+import { CallerAuth } from "./caller-auth.js";
+import { CallEvents } from "./call-events.js";
+import { SpeechConfirmation } from "./speech-confirmation.js";
+import { Scheduler, isScheduledChannel, type ScheduledChannel } from "./scheduler.js";
+import { MediaStreamManager, type MediaProvider, type MediaStreamConnection } from "./media-stream.js";
+import { exportConversation, isExportFormat, EXPORT_FORMATS } from "./conversation-export.js";
 import type { InboundMessageData } from "./messaging.js";
 import type { BaileysClient } from "./baileys.js";
+import type { ConversationStore } from "./conversation-store.js";
 
 // Configuration
 const config = loadConfig();
@@ -39,9 +60,38 @@ const isBaileysOnly = config.whatsappProvider === "baileys" &&
   !config.phoneAccountSid && !config.phoneAuthToken && !config.phoneNumber;
 const hasPhoneProvider = !!config.phoneAccountSid && !!config.phoneAuthToken && !!config.phoneNumber;
 
+/**
+ * Pick the conversation storage backend
+ * SQLite is loaded lazily so bun:sqlite is only required when it's configured
+ */
+async function createConversationStore(): Promise<ConversationStore | undefined> {
+  if (config.conversationStore !== "sqlite") {
+    return undefined;
+  }
+  const { SqliteConversationStore } = await import("./sqlite-conversation-store.js");
+  return new SqliteConversationStore(config.conversationDbPath);
+}
+
 // Initialize managers
-const conversationManager = new ConversationManager();
+const conversationManager = new ConversationManager({
+  store: await createConversationStore(),
+  retentionMs: config.conversationRetentionMs,
+  idleTimeoutMs: {
+    [ChannelType.SMS]: config.smsIdleTimeoutMs,
+    [ChannelType.WHATSAPP]: config.whatsappIdleTimeoutMs,
+  },
+  newTopicKeywords: config.newTopicKeywords,
+});
+const sessionManager = new SessionManager(conversationManager, { timeoutMs: config.sessionTimeoutMs });
+const inboundQueue = new InboundQueue(conversationManager, { visibilityTimeoutMs: config.inboundVisibilityTimeoutMs });
 const webhookSecurity = new WebhookSecurity(config);
+const contacts = createContactRegistry(config.contacts, config.userPhoneNumber);
+const callerAuth = new CallerAuth(conversationManager, {
+  secretHash: config.callerSecretHash,
+  maxAttempts: config.authMaxAttempts,
+  lockoutMs: config.authLockoutMs,
+});
+const speechConfirmation = new SpeechConfirmation({ threshold: config.confidenceThreshold });
 
 let phoneCallManager: PhoneCallManager;
 let messagingManager: MessagingManager;
@@ -51,6 +101,15 @@ let taskExecutor: TaskExecutor;
 let phoneAPI: ReturnType<typeof createPhoneAPI>;
 let baileysClient: BaileysClient | null = null;
 let whatsappChatManager: WhatsAppChatManager | null = null;
+let mediaStreams: MediaStreamManager | null = null;
+let audioCache: AudioCache | null = null;
+let holdMenu: HoldMenu;
+let holdNarrator: HoldNarrator;
+let telnyxCallFlow: TelnyxCallFlow | null = null;
+let callEvents: CallEvents;
+let recordingArchive: RecordingArchive | null = null;
+let attachmentStore: AttachmentStore;
+let scheduler: Scheduler;
 
 // Hono app for webhooks
 const app = new Hono();
@@ -90,16 +149,122 @@ app.use("/webhook/*", async (c, next) => {
 // VOICE WEBHOOKS
 // ============================================
 
+/**
+ * The language a conversation is spoken in: the contact's, or whatever Whisper
+ * detected, falling back to the configured default
+ */
+function conversationLanguage(conversationId: string): string {
+  return conversationManager.getConversation(conversationId)?.metadata?.language || config.language;
+}
+
+/**
+ * Switch a conversation (and its call, if it has one) to a language
+ */
+function setConversationLanguage(conversationId: string, language: string): void {
+  conversationManager.updateMetadata(conversationId, { language });
+  const providerCallId = conversationManager.getConversation(conversationId)?.providerConversationId;
+  if (providerCallId) {
+    phoneCallManager.setCallLanguage(providerCallId, language);
+  }
+}
+
+/**
+ * Archive the recording a status webhook reports, in the background
+ * @returns false if the webhook isn't about a recording
+ */
+function handleRecordingWebhook(provider: "telnyx" | "twilio", conversationId: string, body: any): boolean {
+  const recording = phoneCallManager.parseRecordingWebhook(provider, body);
+  if (!recording) {
+    return false;
+  }
+  if (!recordingArchive) {
+    console.error(`[Recording] Ignoring recording ${recording.recordingId}: recording is off`);
+    return true;
+  }
+  recordingArchive.archive(conversationId, recording).catch((error) => {
+    console.error(`[Recording] Failed to archive ${recording.recordingId}:`, error);
+  });
+  return true;
+}
+
+/**
+ * Answer an inbound call with a greeting, then listen via Gather or a media stream
+ */
+async function answerInboundCall(
+  c: Context,
+  provider: "telnyx" | "twilio",
+  conversationId: string,
+  providerCallId: string,
+  greeting: string,
+  language: string
+): Promise<Response> {
+  // Twilio reports the recording to the status webhook (Telnyx records from the answer command)
+  const recordingUrl = recordingArchive ? `${publicUrl}/webhook/${provider}/status/${conversationId}` : undefined;
+
+  if (mediaStreams) {
+    const streamUrl = mediaStreams.streamUrl(provider, conversationId, greeting);
+    if (provider === "telnyx") {
+      await phoneCallManager.answerWithStream(providerCallId, streamUrl);
+      return c.text("OK", 200);
+    }
+    return c.text(phoneCallManager.generateStreamTwiML(streamUrl, recordingUrl), 200, { "Content-Type": "text/xml" });
+  }
+
+  // Telnyx calls are answered with a command; the greeting follows on call.answered
+  if (provider === "telnyx" && telnyxCallFlow) {
+    if (!telnyxCallFlow.state(providerCallId)) {
+      await telnyxCallFlow.answer(providerCallId, greeting, `${publicUrl}/webhook/${provider}/status/${conversationId}`);
+    }
+    return c.text("OK", 200);
+  }
+
+  await phoneCallManager.prepareSpeech(greeting, phrasesFor(language).gatherHint);
+  const twiml = phoneCallManager.generateAnswerTwiML(
+    greeting,
+    `${publicUrl}/webhook/${provider}/gather/${conversationId}`,
+    language,
+    recordingUrl
+  );
+  return c.text(twiml, 200, { "Content-Type": "text/xml" });
+}
+
 // Inbound call webhook - user is calling Claude
 app.post("/webhook/:provider/inbound", async (c) => {
   const provider = c.req.param("provider") as "telnyx" | "twilio";
   const body = (c as any).parsedBody || (await c.req.json());
-  console.error(`[Inbound] Received call from ${provider}:`, JSON.stringify(body).slice(0, 200));
+  console.error(`[Inbound] Received call from ${provider}: ${describeCallWebhook(body)}`);
 
   try {
     const callData = phoneCallManager.parseInboundWebhook(provider, body);
 
     if (callData.type === "call.initiated") {
+      // Only registered contacts may call in
+      const caller = contacts.findByNumber(callData.from);
+      if (!caller) {
+        console.error(`[Inbound] Rejected call from unknown number ${callData.from}`);
+        if (provider === "telnyx") {
+          await phoneCallManager.rejectCall(callData.providerCallId);
+          return c.text("OK", 200);
+        }
+        const message = "Sorry, this number is not authorized.";
+        await phoneCallManager.prepareSpeech(message);
+        const twiml = phoneCallManager.generateHangupTwiML(message);
+        return c.text(twiml, 200, { "Content-Type": "text/xml" });
+      }
+
+      // Numbers that failed to authenticate too often are turned away for a while
+      if (callerAuth.isLocked(callData.from)) {
+        callerAuth.rejectLocked(callData.from);
+        if (provider === "telnyx") {
+          await phoneCallManager.rejectCall(callData.providerCallId);
+          return c.text("OK", 200);
+        }
+        const message = phrasesFor(caller.language || config.language).authLocked;
+        await phoneCallManager.prepareSpeech(message);
+        const twiml = phoneCallManager.generateHangupTwiML(message, caller.language || config.language);
+        return c.text(twiml, 200, { "Content-Type": "text/xml" });
+      }
+
       // Reset WhatsApp chat session — voice call is the only reset trigger
       whatsappChatManager?.resetForVoiceCall();
 
@@ -108,11 +273,10 @@ app.post("/webhook/:provider/inbound", async (c) => {
       if (existingConversation) {
         console.error(`[Inbound] Using existing conversation: ${existingConversation.id}`);
         // Use existing conversation ID for the response
-        const twiml = phoneCallManager.generateAnswerTwiML(
-          "Hello! This is Claude. What would you like me to work on?",
-          `${publicUrl}/webhook/${provider}/gather/${existingConversation.id}`
-        );
-        return c.text(twiml, 200, { "Content-Type": "text/xml" });
+        const language = conversationLanguage(existingConversation.id);
+        const phrases = phrasesFor(language);
+        const greeting = callerAuth.isVerified(existingConversation.id) ? phrases.greeting() : phrases.authPrompt();
+        return answerInboundCall(c, provider, existingConversation.id, callData.providerCallId, greeting, language);
       }
 
       // Create a new conversation for inbound call
@@ -122,17 +286,23 @@ app.post("/webhook/:provider/inbound", async (c) => {
         ChannelType.VOICE,
         ConversationDirection.INBOUND,
         callData.providerCallId,
-        { from: callData.from, to: callData.to }
+        { from: callData.from, to: callData.to, language: caller.language }
       );
+      const language = caller.language || config.language;
+      phoneCallManager.setCallLanguage(callData.providerCallId, language);
 
-      // Answer the call with greeting
-      const twiml = phoneCallManager.generateAnswerTwiML(
-        "Hello! This is Claude. What would you like me to work on?",
-        `${publicUrl}/webhook/${provider}/gather/${conversationId}`
-      );
-
-      return c.text(twiml, 200, { "Content-Type": "text/xml" });
+      // Answer the call with greeting, asking for the secret first when one is set
+      const phrases = phrasesFor(language);
+      const greeting = callerAuth.required ? phrases.authPrompt(caller.displayName) : phrases.greeting(caller.displayName);
+      return answerInboundCall(c, provider, conversationId, callData.providerCallId, greeting, language);
     } else {
+      // Telnyx sends in-call events for inbound calls to the connection webhook
+      if (provider === "telnyx") {
+        const conversation = conversationManager.getConversationByProviderId(callData.providerCallId);
+        if (conversation && !handleRecordingWebhook(provider, conversation.id, body)) {
+          await callEvents.handleTelnyxEvent(conversation.id, body);
+        }
+      }
       return c.text("OK", 200);
     }
   } catch (error) {
@@ -141,6 +311,66 @@ app.post("/webhook/:provider/inbound", async (c) => {
   }
 });
 
+/**
+ * Handle something the caller said, from a Gather webhook or a media stream
+ * @param interrupted - The caller cut off the prompt we were speaking
+ * @returns "answered" if it answered a pending question, "spawned" if it started
+ *   a new task, "follow_up" if a task is already running and will pick it up
+ */
+function handleCallerSpeech(
+  conversationId: string,
+  transcript: string,
+  confidence?: number,
+  interrupted: boolean = false
+): "answered" | "spawned" | "follow_up" {
+  // Callers authenticate first (see CallerAuth); this is the last line of defence
+  if (!callerAuth.isVerified(conversationId)) {
+    throw new Error(`Caller on ${conversationId} has not authenticated`);
+  }
+
+  // The caller talked over what we were saying (barge-in)
+  if (interrupted) {
+    conversationManager.markInterrupted(conversationId);
+  }
+
+  // Store the message
+  conversationManager.addMessage(conversationId, "user", transcript, { confidence });
+
+  // Check if there's a pending question from spawned Claude
+  if (phoneAPI.resolveQuestion(conversationId, transcript)) {
+    console.error(`[Gather] Resolved pending question for ${conversationId}`);
+    return "answered";
+  }
+
+  // Claude already running but no pending question - maybe follow-up
+  if (taskExecutor.isRunning(conversationId)) {
+    return "follow_up";
+  }
+
+  // First message - spawn Claude Code session
+  console.error(`[Gather] Spawning Claude for: ${transcript}`);
+
+  // Check if there's context from a previous task (callback follow-up or
+  // earlier work with the same person on another channel)
+  const context = taskExecutor.getTaskContext(conversationId) ?? sessionManager.getTaskContext(conversationId);
+  if (context) {
+    console.error(`[Gather] Found prior context: ${context.completionSummary.slice(0, 50)}...`);
+  }
+
+  // Prefer the original task's directory, then the caller's own
+  const caller = contacts.findByNumber(conversationManager.getConversation(conversationId)?.metadata?.from || "");
+
+  taskExecutor.executeTask(
+    conversationId,
+    transcript,
+    context?.workingDir || caller?.workingDir || process.cwd(),
+    context,  // Pass context for follow-ups
+    "voice",
+    conversationLanguage(conversationId)
+  );
+  return "spawned";
+}
+
 // Gather user speech webhook
 app.post("/webhook/:provider/gather/:conversationId", async (c) => {
   const provider = c.req.param("provider") as "telnyx" | "twilio";
@@ -149,70 +379,61 @@ app.post("/webhook/:provider/gather/:conversationId", async (c) => {
   console.error(`[Gather] Speech input for conversation ${conversationId}`);
 
   try {
+    const language = conversationLanguage(conversationId);
     const speechResult = phoneCallManager.parseSpeechResult(provider, body);
 
+    // Until the caller authenticates, what they say or key in is the secret (never logged or stored)
+    if (speechResult.transcript && !callerAuth.isVerified(conversationId)) {
+      const result = await callerAuth.attempt(conversationId, speechResult.transcript, language);
+      await phoneCallManager.prepareSpeech(result.message);
+      const twiml = result.next === "hangup"
+        ? phoneCallManager.generateHangupTwiML(result.message, language)
+        : phoneCallManager.generateGatherTwiML(result.message, `${publicUrl}/webhook/${provider}/gather/${conversationId}`, language);
+      return c.text(twiml, 200, { "Content-Type": "text/xml" });
+    }
+
     if (speechResult.transcript) {
       console.error(`[Gather] Transcript: "${speechResult.transcript}"`);
 
-      // Store the message
-      conversationManager.addMessage(conversationId, "user", speechResult.transcript);
-
-      // Check if there's a pending question from spawned Claude
-      const wasQuestionPending = phoneAPI.resolveQuestion(conversationId, speechResult.transcript);
-
-      if (wasQuestionPending) {
-        // Claude asked a question, we resolved it - keep call on hold
-        console.error(`[Gather] Resolved pending question for ${conversationId}`);
-        const twiml = phoneCallManager.generateHoldTwiML(
-          "",  // No message, Claude will speak via API
-          `${publicUrl}/webhook/${provider}/hold/${conversationId}`,
-          30
-        );
-        return c.text(twiml, 200, { "Content-Type": "text/xml" });
-      }
-
-      // Check if we've already spawned Claude for this conversation
-      const existingExecution = taskExecutor.getExecution(conversationId);
-
-      if (!existingExecution) {
-        // First message - spawn Claude Code session
-        console.error(`[Gather] Spawning Claude for: ${speechResult.transcript}`);
-
-        // Check if there's context from a previous task (callback follow-up)
-        const context = taskExecutor.getTaskContext(conversationId);
-        if (context) {
-          console.error(`[Gather] Found prior context: ${context.completionSummary.slice(0, 50)}...`);
-        }
+      const providerCallId = conversationManager.getConversation(conversationId)?.providerConversationId;
+      const interrupted = providerCallId ? phoneCallManager.takeInterruption(providerCallId) : false;
 
-        taskExecutor.executeTask(
-          conversationId,
-          speechResult.transcript,
-          context?.workingDir || process.cwd(),  // Use original working dir if available
-          context  // Pass context for follow-ups
-        );
-
-        // Tell user we're starting and put on hold
-        const twiml = phoneCallManager.generateHoldTwiML(
-          "Got it. Let me think about that...",
-          `${publicUrl}/webhook/${provider}/hold/${conversationId}`,
-          10  // Short initial wait
+      // Read back what we aren't sure we heard, and act on it once the caller confirms
+      const speech = speechConfirmation.check(
+        conversationId,
+        { transcript: speechResult.transcript, confidence: speechResult.confidence, interrupted },
+        language
+      );
+      if ("prompt" in speech) {
+        await phoneCallManager.prepareSpeech(speech.prompt);
+        const twiml = phoneCallManager.generateGatherTwiML(
+          speech.prompt,
+          `${publicUrl}/webhook/${provider}/gather/${conversationId}`,
+          language
         );
         return c.text(twiml, 200, { "Content-Type": "text/xml" });
       }
 
-      // Claude already running but no pending question - maybe follow-up
-      // Keep on hold, Claude will handle it
+      const outcome = handleCallerSpeech(conversationId, speech.transcript, speech.confidence, speech.interrupted);
+      // Tell the caller we're starting; otherwise Claude will speak via the API
+      const message = outcome === "spawned" ? `${phrasesFor(language).thinking} ${phrasesFor(language).holdMenu}` : "";
+      await phoneCallManager.prepareSpeech(message);
       const twiml = phoneCallManager.generateHoldTwiML(
-        "",
+        message,
         `${publicUrl}/webhook/${provider}/hold/${conversationId}`,
-        30
+        outcome === "spawned" ? 10 : holdNarrator.waitSeconds,  // Short initial wait
+        `${publicUrl}/webhook/${provider}/hold-menu/${conversationId}`,
+        language
       );
       return c.text(twiml, 200, { "Content-Type": "text/xml" });
     } else {
       // No speech detected, prompt again
+      const message = phrasesFor(language).didNotCatch;
+      await phoneCallManager.prepareSpeech(message);
       const twiml = phoneCallManager.generateGatherTwiML(
-        "I didn't catch that. Could you please repeat?",
-        `${publicUrl}/webhook/${provider}/gather/${conversationId}`
+        message,
+        `${publicUrl}/webhook/${provider}/gather/${conversationId}`,
+        language
       );
       return c.text(twiml, 200, { "Content-Type": "text/xml" });
     }
@@ -227,41 +448,73 @@ app.post("/webhook/:provider/hold/:conversationId", async (c) => {
   const provider = c.req.param("provider") as "telnyx" | "twilio";
   const conversationId = c.req.param("conversationId");
 
-  // Keep waiting - Claude will use /api/* endpoints to communicate
+  // Keep waiting - Claude will use /api/* endpoints to communicate, and
+  // between those we narrate progress from the session's output
+  const language = conversationLanguage(conversationId);
+  const message = holdNarrator.next(conversationId, language) ?? "";
+  await phoneCallManager.prepareSpeech(message);
   const twiml = phoneCallManager.generateHoldTwiML(
-    "",
+    message,
     `${publicUrl}/webhook/${provider}/hold/${conversationId}`,
-    30
+    holdNarrator.waitSeconds,
+    `${publicUrl}/webhook/${provider}/hold-menu/${conversationId}`,
+    language
   );
   return c.text(twiml, 200, { "Content-Type": "text/xml" });
 });
 
-// Call status webhook
-app.post("/webhook/:provider/status/:conversationId", async (c) => {
+// Hold menu webhook - the caller pressed a key while on hold
+app.post("/webhook/:provider/hold-menu/:conversationId", async (c) => {
   const provider = c.req.param("provider") as "telnyx" | "twilio";
   const conversationId = c.req.param("conversationId");
   const body = (c as any).parsedBody || (await c.req.json());
-  console.error(`[Status] Conversation ${conversationId} status update:`, body);
 
   try {
-    const status = phoneCallManager.parseStatusWebhook(provider, body);
+    const digit = phoneCallManager.parseSpeechResult(provider, body).transcript || "";
+    const language = conversationLanguage(conversationId);
+    const result = await holdMenu.press(conversationId, digit, language);
+    await phoneCallManager.prepareSpeech(result.message);
+
+    let twiml: string;
+    if (result.next === "hangup") {
+      twiml = phoneCallManager.generateHangupTwiML(result.message, language);
+    } else if (result.next === "gather") {
+      twiml = phoneCallManager.generateGatherTwiML(result.message, `${publicUrl}/webhook/${provider}/gather/${conversationId}`, language);
+    } else {
+      twiml = phoneCallManager.generateHoldTwiML(
+        result.message,
+        `${publicUrl}/webhook/${provider}/hold/${conversationId}`,
+        holdNarrator.waitSeconds,
+        `${publicUrl}/webhook/${provider}/hold-menu/${conversationId}`,
+        language
+      );
+    }
+    return c.text(twiml, 200, { "Content-Type": "text/xml" });
+  } catch (error) {
+    console.error("[HoldMenu] Error:", error);
+    return c.text("Error", 500);
+  }
+});
 
-    if (status.state === "completed" || status.state === "failed") {
-      conversationManager.updateState(conversationId, ConversationState.ENDED);
+/**
+ * Carry out a hold menu result on a call we drive with API commands (Telnyx, media streams)
+ */
+async function applyHoldMenuResult(providerCallId: string, result: HoldMenuResult): Promise<void> {
+  await phoneCallManager.speakToCall(providerCallId, result.message, false);
+  if (result.next === "hangup") {
+    await phoneCallManager.endCall(providerCallId);
+  }
+}
 
-      // Seed voice call context into WhatsApp chat for cross-channel continuity
-      if (whatsappChatManager) {
-        const taskContext = taskExecutor?.getTaskContext(conversationId);
-        if (taskContext) {
-          whatsappChatManager.setVoiceContext(
-            `Task: "${taskContext.originalTask}"\nResult: "${taskContext.completionSummary}"\nWorking dir: ${taskContext.workingDir}`
-          );
-        }
-      }
-    } else if (status.state === "answered") {
-      conversationManager.updateState(conversationId, ConversationState.ACTIVE);
-    }
+// Call status webhook
+app.post("/webhook/:provider/status/:conversationId", async (c) => {
+  const provider = c.req.param("provider") as "telnyx" | "twilio";
+  const conversationId = c.req.param("conversationId");
+  const body = (c as any).parsedBody || (await c.req.json());
+  console.error(`[Status] Conversation ${conversationId} status update: ${describeCallWebhook(body)}`);
 
+  try {
+    await callEvents.handleStatus(provider, conversationId, body);
     return c.text("OK", 200);
   } catch (error) {
     console.error("[Status] Error:", error);
@@ -269,6 +522,58 @@ app.post("/webhook/:provider/status/:conversationId", async (c) => {
   }
 });
 
+// Media stream WebSocket - the provider streams call audio here in stream voice mode
+// Only URLs handed out by MediaStreamManager.streamUrl are accepted
+app.get(
+  "/media/:provider/:conversationId/:token",
+  async (c, next) => {
+    const { provider, conversationId, token } = c.req.param();
+    if (!mediaStreams?.isGranted(provider, conversationId, token)) {
+      console.error(`[MediaStream] Rejected socket for ${conversationId}`);
+      return c.text("Forbidden", 403);
+    }
+    await next();
+  },
+  upgradeWebSocket((c) => {
+    const { provider, conversationId, token } = c.req.param();
+    let connection: MediaStreamConnection | undefined;
+    return {
+      onOpen(_event, ws) {
+        connection = mediaStreams?.connect(provider as MediaProvider, conversationId, token, {
+          send: (data) => ws.send(data),
+          close: () => ws.close(),
+        });
+        if (!connection) {
+          ws.close();
+        }
+      },
+      onMessage(event) {
+        connection?.receive(String(event.data));
+      },
+      onClose() {
+        connection?.close();
+      },
+    };
+  })
+);
+
+// Cached TTS audio for <Play> and Telnyx playback
+// URLs are signed by AudioCache.url, so only prompts we generated can be fetched
+app.get("/audio/:file", (c) => {
+  const hash = c.req.param("file").replace(/\.mp3$/, "");
+  if (!audioCache?.verify(hash, c.req.query("sig") || "")) {
+    return c.text("Forbidden", 403);
+  }
+  const audio = audioCache.read(hash);
+  if (!audio) {
+    return c.text("Not found", 404);
+  }
+  return c.body(new Uint8Array(audio), 200, {
+    "Content-Type": "audio/mpeg",
+    "Cache-Control": "public, max-age=86400, immutable",
+  });
+});
+
 // ============================================
 // SMS WEBHOOKS
 // ============================================
@@ -282,16 +587,26 @@ app.post("/webhook/:provider/sms", async (c) => {
     const message = messagingManager.parseInboundMessage(provider, body);
 
     if (message && message.type === "sms") {
+      if (!contacts.isAllowed(message.from)) {
+        console.error(`[SMS] Rejected message from unknown number ${message.from}`);
+        return c.text("OK", 200);
+      }
+
       // Find or create conversation for this sender
       const conversation = conversationManager.findOrCreateConversation(
         ChannelType.SMS,
         message.messageId,
         message.from,
-        message.to
+        message.to,
+        message.content
       );
 
-      // Add the message
-      conversationManager.addMessage(conversation.id, "user", message.content);
+      // Add the message, with any MMS media downloaded first
+      const attachments = await saveAttachments(conversation.id, message);
+      conversationManager.addMessage(conversation.id, "user", message.content, {
+        providerMessageId: message.messageId,
+        attachments,
+      });
       console.error(`[SMS] Added message to conversation ${conversation.id}`);
     }
 
@@ -302,26 +617,52 @@ app.post("/webhook/:provider/sms", async (c) => {
   }
 });
 
+/**
+ * Download the media sent with an inbound message into the conversation's attachments
+ */
+async function saveAttachments(conversationId: string, message: InboundMessageData): Promise<MessageAttachment[]> {
+  if (!message.media?.length) {
+    return [];
+  }
+  return attachmentStore.save(conversationId, message.messageId, message.media);
+}
+
+/**
+ * Message text for sessions that only take text, with the paths of its attachments
+ */
+function withAttachments(content: string, attachments: MessageAttachment[]): string {
+  if (attachments.length === 0) {
+    return content;
+  }
+  return `${content}\n\nAttachments:\n${describeAttachments(attachments)}`.trim();
+}
+
 // ============================================
 // SHARED WHATSAPP INBOUND HANDLER
 // ============================================
 
-function handleInboundWhatsApp(message: InboundMessageData): void {
+async function handleInboundWhatsApp(message: InboundMessageData): Promise<void> {
   // Find or create conversation for this sender
   const conversation = conversationManager.findOrCreateConversation(
     ChannelType.WHATSAPP,
     message.messageId,
     message.from,
-    message.to
+    message.to,
+    message.content
   );
 
-  // Add the message
-  conversationManager.addMessage(conversation.id, "user", message.content);
+  // Add the message, with any photos or documents downloaded first
+  const attachments = await saveAttachments(conversation.id, message);
+  conversationManager.addMessage(conversation.id, "user", message.content, {
+    providerMessageId: message.messageId,
+    attachments,
+  });
   console.error(`[WhatsApp] Added message to conversation ${conversation.id}`);
+  const content = withAttachments(message.content, attachments);
 
   // Priority 1: Check if there's a Claude session waiting for WhatsApp messages
   if (phoneAPI?.hasPendingWhatsAppWait()) {
-    const wasResolved = phoneAPI.resolveWhatsAppWait(message.content);
+    const wasResolved = phoneAPI.resolveWhatsAppWait(content);
     if (wasResolved) {
       console.error(`[WhatsApp] Routed message to waiting Claude session`);
       return;
@@ -329,7 +670,7 @@ function handleInboundWhatsApp(message: InboundMessageData): void {
   }
 
   // Priority 2: Check if there's a pending question from spawned Claude
-  const wasQuestionPending = phoneAPI?.resolveQuestion(conversation.id, message.content);
+  const wasQuestionPending = phoneAPI?.resolveQuestion(conversation.id, content);
 
   if (!wasQuestionPending) {
     // No pending question - check if we should spawn Claude
@@ -342,22 +683,26 @@ function handleInboundWhatsApp(message: InboundMessageData): void {
       // Priority 4: Route to WhatsApp Chat Manager (always-on conversation)
       if (whatsappChatManager) {
         console.error(`[WhatsApp] Routing to ChatManager (session ${whatsappChatManager.getSessionId().slice(0, 8)}): ${message.content}`);
-        whatsappChatManager.handleMessage(message.content);
+        whatsappChatManager.handleMessage(content);
       } else {
         // Fallback: original one-shot behavior (non-baileys mode)
-        const voiceContext = taskExecutor?.getLatestTaskContext();
+        // Context comes from this person's session, so a "new topic" starts clean
+        const voiceContext = sessionManager.getTaskContext(conversation.id);
 
         if (voiceContext) {
           console.error(`[WhatsApp] Found voice context from ${voiceContext.conversationId?.slice(0, 8)}: ${voiceContext.originalTask.slice(0, 50)}...`);
         }
 
         console.error(`[WhatsApp] Spawning Claude for: ${message.content}`);
+        const sender = contacts.findByNumber(message.from);
         taskExecutor?.executeTask(
           conversation.id,
           message.content,
-          voiceContext?.workingDir || process.cwd(),
+          voiceContext?.workingDir || sender?.workingDir || process.cwd(),
           voiceContext,
-          "whatsapp"
+          "whatsapp",
+          sender?.language || config.language,
+          attachments
         );
       }
     } else {
@@ -381,7 +726,12 @@ app.post("/webhook/:provider/whatsapp", async (c) => {
     const message = messagingManager.parseInboundMessage(provider, body);
 
     if (message && message.type === "whatsapp") {
-      handleInboundWhatsApp(message);
+      // Baileys only relays the owner's self-chat; provider webhooks need the allowlist
+      if (!contacts.isAllowed(message.from)) {
+        console.error(`[WhatsApp] Rejected message from unknown number ${message.from}`);
+        return c.text("OK", 200);
+      }
+      await handleInboundWhatsApp(message);
     }
 
     return c.text("OK", 200);
@@ -391,6 +741,13 @@ app.post("/webhook/:provider/whatsapp", async (c) => {
   }
 });
 
+/**
+ * Delivery receipt webhook for messages sent on a conversation
+ */
+function messageStatusUrl(conversationId: string): string {
+  return `${publicUrl}/webhook/${config.phoneProvider}/message-status/${conversationId}`;
+}
+
 // Message delivery status webhook
 app.post("/webhook/:provider/message-status/:conversationId", async (c) => {
   const provider = c.req.param("provider") as "telnyx" | "twilio";
@@ -402,6 +759,14 @@ app.post("/webhook/:provider/message-status/:conversationId", async (c) => {
     const status = messagingManager.parseStatusWebhook(provider, body);
     if (status) {
       console.error(`[MessageStatus] Message ${status.messageId} status: ${status.status}`);
+      const updated = conversationManager.updateDeliveryStatus(conversationId, status.messageId, {
+        status: status.status,
+        errorCode: status.errorCode,
+        errorMessage: status.errorMessage,
+      });
+      if (!updated) {
+        console.error(`[MessageStatus] No message ${status.messageId} found in conversation ${conversationId}`);
+      }
     }
     return c.text("OK", 200);
   } catch (error) {
@@ -461,7 +826,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "receive_inbound_call",
         description:
-          "Check for and receive an incoming phone call from the user. Returns the user's spoken message if a call is waiting.",
+          "Check for and receive an incoming phone call from the user. Returns the user's spoken message if a call is waiting, with a claim_token: other sessions won't receive that message until you reply, call ack_inbound, call release_inbound, or the visibility timeout passes.",
         inputSchema: {
           type: "object",
           properties: {
@@ -469,6 +834,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "number",
               description: "How long to wait for an incoming call (default: 5000ms)",
             },
+            visibility_timeout_ms: {
+              type: "number",
+              description: "How long the message stays claimed before other sessions can receive it (default: 300000ms)",
+            },
           },
         },
       },
@@ -483,6 +852,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "The message to speak when the user answers",
             },
+            recipient: {
+              type: "string",
+              description: "Contact name or phone number from the contacts registry (default: primary user)",
+            },
+            language: {
+              type: "string",
+              description: "Language to speak and listen in, as a tag like es-ES or fr (default: the contact's, then BETTERCALLCLAUDE_LANGUAGE)",
+            },
           },
           required: ["message"],
         },
@@ -549,7 +926,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "receive_inbound_message",
         description:
-          "Check for incoming SMS or WhatsApp messages from the user. Returns the message content if one is waiting.",
+          "Check for incoming SMS or WhatsApp messages from the user. Returns the oldest waiting message with a claim_token: other sessions won't receive that message until you reply, call ack_inbound, call release_inbound, or the visibility timeout passes.",
         inputSchema: {
           type: "object",
           properties: {
@@ -562,7 +939,41 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "number",
               description: "How long to wait for an incoming message (default: 5000ms)",
             },
+            visibility_timeout_ms: {
+              type: "number",
+              description: "How long the message stays claimed before other sessions can receive it (default: 300000ms)",
+            },
+          },
+        },
+      },
+      {
+        name: "ack_inbound",
+        description:
+          "Mark a message received with receive_inbound_call or receive_inbound_message as handled so it is never delivered again. Replying to the conversation does this automatically.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            claim_token: {
+              type: "string",
+              description: "The claim_token returned by the receive tool",
+            },
+          },
+          required: ["claim_token"],
+        },
+      },
+      {
+        name: "release_inbound",
+        description:
+          "Give back a message received with receive_inbound_call or receive_inbound_message without handling it, so another session can receive it.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            claim_token: {
+              type: "string",
+              description: "The claim_token returned by the receive tool",
+            },
           },
+          required: ["claim_token"],
         },
       },
       {
@@ -576,6 +987,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "The message to send",
             },
+            recipient: {
+              type: "string",
+              description: "Contact name or phone number from the contacts registry (default: primary user)",
+            },
             wait_for_reply: {
               type: "boolean",
               description: "Wait for user to reply (default: true)",
@@ -599,6 +1014,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: "string",
               description: "The message to send",
             },
+            recipient: {
+              type: "string",
+              description: "Contact name or phone number from the contacts registry (default: primary user)",
+            },
             wait_for_reply: {
               type: "boolean",
               description: "Wait for user to reply (default: true)",
@@ -641,7 +1060,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: "get_conversation_history",
         description:
-          "Get the full message history for a conversation, including all messages exchanged.",
+          "Get the full message history for a conversation, including all messages exchanged, delivery status of sent SMS/WhatsApp messages and speech recognition confidence of voice turns.",
         inputSchema: {
           type: "object",
           properties: {
@@ -653,12 +1072,353 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["conversation_id"],
         },
       },
+      {
+        name: "get_recording_transcript",
+        description:
+          "Get the transcript of a recorded call (when call recording is on). Recordings are transcribed with Whisper after the call ends; without recording_id, returns all of the conversation's recordings.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            conversation_id: {
+              type: "string",
+              description: "The ID of the call's conversation",
+            },
+            recording_id: {
+              type: "string",
+              description: "A specific recording (default: all of them)",
+            },
+          },
+          required: ["conversation_id"],
+        },
+      },
+      {
+        name: "export_conversation",
+        description:
+          "Export a conversation transcript as Markdown, JSON, WebVTT or plain text, with timestamps, channel, direction, duration and the linked task summary. Useful for pasting a call into a PR or issue.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            conversation_id: {
+              type: "string",
+              description: "The ID of the conversation",
+            },
+            format: {
+              type: "string",
+              enum: ["md", "json", "vtt", "txt"],
+              description: "Output format (default: md)",
+            },
+          },
+          required: ["conversation_id"],
+        },
+      },
+      {
+        name: "list_conversations",
+        description:
+          "List conversations (voice, SMS, WhatsApp), newest first, filtered by channel, state, direction, date range or phone number.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            channel: {
+              type: "string",
+              enum: ["voice", "sms", "whatsapp"],
+              description: "Only conversations on this channel",
+            },
+            state: {
+              type: "string",
+              enum: ["ringing", "active", "pending_response", "ended"],
+              description: "Only conversations in this state",
+            },
+            direction: {
+              type: "string",
+              enum: ["inbound", "outbound"],
+              description: "Only inbound or outbound conversations",
+            },
+            since: {
+              type: "string",
+              description: "Only conversations started at or after this ISO 8601 time",
+            },
+            until: {
+              type: "string",
+              description: "Only conversations started at or before this ISO 8601 time",
+            },
+            counterpart: {
+              type: "string",
+              description: "Only conversations with this phone number",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of conversations to return (default: 20)",
+            },
+            offset: {
+              type: "number",
+              description: "Number of conversations to skip, for paging (default: 0)",
+            },
+          },
+        },
+      },
+      {
+        name: "search_conversations",
+        description:
+          "Full-text search over conversation messages. Every word in the query must appear in the conversation. Returns matching conversations with the messages that matched.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: "Words to search for in message content",
+            },
+            channel: {
+              type: "string",
+              enum: ["voice", "sms", "whatsapp"],
+              description: "Only conversations on this channel",
+            },
+            state: {
+              type: "string",
+              enum: ["ringing", "active", "pending_response", "ended"],
+              description: "Only conversations in this state",
+            },
+            direction: {
+              type: "string",
+              enum: ["inbound", "outbound"],
+              description: "Only inbound or outbound conversations",
+            },
+            since: {
+              type: "string",
+              description: "Only conversations started at or after this ISO 8601 time",
+            },
+            until: {
+              type: "string",
+              description: "Only conversations started at or before this ISO 8601 time",
+            },
+            counterpart: {
+              type: "string",
+              description: "Only conversations with this phone number",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of conversations to return (default: 20)",
+            },
+            offset: {
+              type: "number",
+              description: "Number of conversations to skip, for paging (default: 0)",
+            },
+          },
+          required: ["query"],
+        },
+      },
+      {
+        name: "get_session_timeline",
+        description:
+          "Get the merged timeline of everything exchanged with one person across voice, SMS and WhatsApp in their current session, plus the task being worked on.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            conversation_id: {
+              type: "string",
+              description: "Any conversation in the session",
+            },
+            recipient: {
+              type: "string",
+              description: "Contact name or phone number (used when conversation_id is not given, defaults to the primary user)",
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of most recent timeline entries to return (default: 50)",
+            },
+          },
+        },
+      },
+      // ============================================
+      // SCHEDULING TOOLS
+      // ============================================
+      {
+        name: "schedule_call",
+        description:
+          "Call the user later, e.g. \"call me at 6pm with the test results\". Give either a time (at or delay_minutes) for a one-off call, or a cron expression for a repeating one. Scheduled calls survive restarts.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            message: {
+              type: "string",
+              description: "The message to speak when the user answers",
+            },
+            at: {
+              type: "string",
+              description: "When to call, as an ISO 8601 time with an offset (e.g. 2026-10-19T18:00:00+02:00)",
+            },
+            delay_minutes: {
+              type: "number",
+              description: "Call this many minutes from now instead of at a set time",
+            },
+            cron: {
+              type: "string",
+              description: "Repeat on this cron schedule in the server's local time (minute hour day month weekday, e.g. \"0 9 * * 1-5\")",
+            },
+            recipient: {
+              type: "string",
+              description: "Contact name or phone number from the contacts registry (default: primary user)",
+            },
+            language: {
+              type: "string",
+              description: "Language to speak and listen in, as a tag like es-ES or fr (default: the contact's)",
+            },
+          },
+          required: ["message"],
+        },
+      },
+      {
+        name: "schedule_message",
+        description:
+          "Send the user an SMS or WhatsApp message later, e.g. \"remind me tomorrow at 9 on WhatsApp\". Give either a time (at or delay_minutes) for a one-off message, or a cron expression for a repeating one.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            message: {
+              type: "string",
+              description: "The message to send",
+            },
+            channel: {
+              type: "string",
+              enum: ["sms", "whatsapp"],
+              description: "Channel to send on (default: the contact's preferred messaging channel, else sms)",
+            },
+            at: {
+              type: "string",
+              description: "When to send, as an ISO 8601 time with an offset (e.g. 2026-10-20T09:00:00+02:00)",
+            },
+            delay_minutes: {
+              type: "number",
+              description: "Send this many minutes from now instead of at a set time",
+            },
+            cron: {
+              type: "string",
+              description: "Repeat on this cron schedule in the server's local time (minute hour day month weekday, e.g. \"0 9 * * 1-5\")",
+            },
+            recipient: {
+              type: "string",
+              description: "Contact name or phone number from the contacts registry (default: primary user)",
+            },
+          },
+          required: ["message"],
+        },
+      },
+      {
+        name: "list_scheduled",
+        description: "List scheduled calls and messages that have yet to run, soonest first.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "cancel_scheduled",
+        description: "Cancel a scheduled call or message.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            job_id: {
+              type: "string",
+              description: "The ID of the scheduled job",
+            },
+          },
+          required: ["job_id"],
+        },
+      },
     ],
   };
-});
+});
+
+/**
+ * Build a conversation filter from list/search tool arguments
+ */
+function parseConversationFilter(args: Record<string, unknown> | undefined): ConversationFilter {
+  const filter: ConversationFilter = {};
+
+  const channel = args?.channel as string | undefined;
+  if (channel) {
+    if (!Object.values(ChannelType).includes(channel as ChannelType)) {
+      throw new Error(`Invalid channel: ${channel}`);
+    }
+    filter.channel = channel as ChannelType;
+  }
+
+  const state = args?.state as string | undefined;
+  if (state) {
+    if (!Object.values(ConversationState).includes(state as ConversationState)) {
+      throw new Error(`Invalid state: ${state}`);
+    }
+    filter.state = state as ConversationState;
+  }
+
+  const direction = args?.direction as string | undefined;
+  if (direction) {
+    if (!Object.values(ConversationDirection).includes(direction as ConversationDirection)) {
+      throw new Error(`Invalid direction: ${direction}`);
+    }
+    filter.direction = direction as ConversationDirection;
+  }
+
+  for (const key of ["since", "until"] as const) {
+    const value = args?.[key] as string | undefined;
+    if (value) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new Error(`Invalid ${key} date: ${value}`);
+      }
+      filter[key] = date;
+    }
+  }
+
+  if (args?.counterpart) {
+    filter.counterpart = args.counterpart as string;
+  }
+
+  return filter;
+}
+
+/**
+ * Summarize a conversation for list/search tool results
+ */
+function summarizeConversation(conversation: Conversation) {
+  const duration = conversation.endedAt
+    ? (conversation.endedAt.getTime() - conversation.startedAt.getTime()) / 1000
+    : (Date.now() - conversation.startedAt.getTime()) / 1000;
+  const lastMessage = conversation.messages[conversation.messages.length - 1];
+
+  return {
+    conversation_id: conversation.id,
+    channel: conversation.channel,
+    state: conversation.state,
+    direction: conversation.direction,
+    from: conversation.metadata?.from,
+    to: conversation.metadata?.to,
+    started_at: conversation.startedAt,
+    ended_at: conversation.endedAt,
+    duration_seconds: Math.round(duration),
+    message_count: conversation.messages.length,
+    last_message: lastMessage,
+  };
+}
+
+/**
+ * Result of the receive_inbound_* tools for a claimed message
+ */
+function claimResult(claim: InboundClaim) {
+  return {
+    success: true,
+    conversation_id: claim.conversationId,
+    channel: claim.channel,
+    user_message: claim.content,
+    ...(claim.attachments.length > 0 && { attachments: claim.attachments }),
+    direction: "inbound",
+    claim_token: claim.token,
+    claim_expires_at: claim.expiresAt,
+    delivery_count: claim.deliveryCount,
+  };
+}
 
 // Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
   const { name, arguments: args } = request.params;
 
   try {
@@ -668,42 +1428,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       // ============================================
       case "receive_inbound_call": {
         const timeoutMs = (args?.timeout_ms as number) || 5000;
+        const visibilityTimeoutMs = (args?.visibility_timeout_ms as number) || config.inboundVisibilityTimeoutMs;
 
-        const pendingConversation = conversationManager.getPendingInbound(ChannelType.VOICE);
-
-        if (pendingConversation) {
-          const lastMessage = pendingConversation.messages[pendingConversation.messages.length - 1];
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  success: true,
-                  conversation_id: pendingConversation.id,
-                  channel: "voice",
-                  user_message: lastMessage?.content || "",
-                  direction: "inbound",
-                }),
-              },
-            ],
-          };
-        }
-
-        const conversation = await conversationManager.waitForInbound(timeoutMs, ChannelType.VOICE);
+        const claim = await inboundQueue.waitForClaim(timeoutMs, [ChannelType.VOICE], extra.signal, visibilityTimeoutMs);
 
-        if (conversation) {
-          const lastMessage = conversation.messages[conversation.messages.length - 1];
+        if (claim) {
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify({
-                  success: true,
-                  conversation_id: conversation.id,
-                  channel: "voice",
-                  user_message: lastMessage?.content || "",
-                  direction: "inbound",
-                }),
+                text: JSON.stringify(claimResult(claim)),
               },
             ],
           };
@@ -728,13 +1462,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("Message is required");
         }
 
+        const contact = contacts.resolve(args?.recipient as string | undefined);
+        const language = args?.language ? normalizeLanguage(args.language as string) : contact.language;
         const conversationId = crypto.randomUUID();
 
         const providerCallId = await phoneCallManager.initiateCall(
-          config.userPhoneNumber,
+          contact.phoneNumber,
           message,
           `${publicUrl}/webhook/${config.phoneProvider}/status/${conversationId}`,
-          `${publicUrl}/webhook/${config.phoneProvider}/gather/${conversationId}`
+          `${publicUrl}/webhook/${config.phoneProvider}/gather/${conversationId}`,
+          mediaStreams?.streamUrl(config.phoneProvider, conversationId, message),
+          language
         );
 
         conversationManager.createConversation(
@@ -742,13 +1480,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           ChannelType.VOICE,
           ConversationDirection.OUTBOUND,
           providerCallId,
-          { to: config.userPhoneNumber }
+          { to: contact.phoneNumber, language }
         );
         conversationManager.addMessage(conversationId, "assistant", message);
 
         const response = await conversationManager.waitForResponse(
           conversationId,
-          config.transcriptTimeoutMs
+          config.transcriptTimeoutMs,
+          extra.signal
         );
 
         return {
@@ -793,7 +1532,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
         const response = await conversationManager.waitForResponse(
           conversationId,
-          config.transcriptTimeoutMs
+          config.transcriptTimeoutMs,
+          extra.signal
         );
 
         return {
@@ -886,57 +1626,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case "receive_inbound_message": {
         const channelArg = (args?.channel as string) || "any";
         const timeoutMs = (args?.timeout_ms as number) || 5000;
+        const visibilityTimeoutMs = (args?.visibility_timeout_ms as number) || config.inboundVisibilityTimeoutMs;
 
-        let channelFilter: ChannelType | undefined;
-        if (channelArg === "sms") channelFilter = ChannelType.SMS;
-        else if (channelArg === "whatsapp") channelFilter = ChannelType.WHATSAPP;
-        // "any" leaves channelFilter undefined, but we only want messaging channels
-        const messagingChannels = [ChannelType.SMS, ChannelType.WHATSAPP];
-
-        // Check for pending messages
-        let pendingConversation = conversationManager.getPendingInbound(channelFilter);
-        if (!pendingConversation && channelArg === "any") {
-          // Check both SMS and WhatsApp
-          pendingConversation = conversationManager.getPendingInbound(ChannelType.SMS);
-          if (!pendingConversation) {
-            pendingConversation = conversationManager.getPendingInbound(ChannelType.WHATSAPP);
-          }
-        }
-
-        if (pendingConversation && messagingChannels.includes(pendingConversation.channel)) {
-          const lastMessage = pendingConversation.messages[pendingConversation.messages.length - 1];
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({
-                  success: true,
-                  conversation_id: pendingConversation.id,
-                  channel: pendingConversation.channel,
-                  user_message: lastMessage?.content || "",
-                  direction: "inbound",
-                }),
-              },
-            ],
-          };
-        }
+        // "any" means any messaging channel, never voice
+        let channels = [ChannelType.SMS, ChannelType.WHATSAPP];
+        if (channelArg === "sms") channels = [ChannelType.SMS];
+        else if (channelArg === "whatsapp") channels = [ChannelType.WHATSAPP];
 
-        // Wait for a message
-        const conversation = await conversationManager.waitForInbound(timeoutMs, channelFilter);
+        const claim = await inboundQueue.waitForClaim(timeoutMs, channels, extra.signal, visibilityTimeoutMs);
 
-        if (conversation && messagingChannels.includes(conversation.channel)) {
-          const lastMessage = conversation.messages[conversation.messages.length - 1];
+        if (claim) {
           return {
             content: [
               {
                 type: "text",
-                text: JSON.stringify({
-                  success: true,
-                  conversation_id: conversation.id,
-                  channel: conversation.channel,
-                  user_message: lastMessage?.content || "",
-                  direction: "inbound",
-                }),
+                text: JSON.stringify(claimResult(claim)),
               },
             ],
           };
@@ -955,6 +1659,33 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "ack_inbound":
+      case "release_inbound": {
+        const claimToken = args?.claim_token as string;
+
+        if (!claimToken) {
+          throw new Error("claim_token is required");
+        }
+
+        const done = name === "ack_inbound" ? inboundQueue.ack(claimToken) : inboundQueue.release(claimToken);
+        if (!done) {
+          throw new Error(`Claim ${claimToken} not found or expired`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                claim_token: claimToken,
+                status: name === "ack_inbound" ? "acked" : "released",
+              }),
+            },
+          ],
+        };
+      }
+
       case "send_sms": {
         const message = args?.message as string;
         const waitForReply = args?.wait_for_reply !== false; // Default true
@@ -964,20 +1695,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("Message is required");
         }
 
+        const contact = contacts.resolve(args?.recipient as string | undefined);
         const conversationId = crypto.randomUUID();
-        const messageId = await messagingManager.sendSMS(config.userPhoneNumber, message);
+        const messageId = await messagingManager.sendSMS(contact.phoneNumber, message, messageStatusUrl(conversationId));
 
         conversationManager.createConversation(
           conversationId,
           ChannelType.SMS,
           ConversationDirection.OUTBOUND,
           messageId,
-          { to: config.userPhoneNumber }
+          { to: contact.phoneNumber }
         );
-        conversationManager.addMessage(conversationId, "assistant", message);
+        conversationManager.addMessage(conversationId, "assistant", message, { providerMessageId: messageId });
 
         if (waitForReply) {
-          const response = await conversationManager.waitForResponse(conversationId, timeoutMs);
+          const response = await conversationManager.waitForResponse(conversationId, timeoutMs, extra.signal);
           return {
             content: [
               {
@@ -1017,20 +1749,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error("Message is required");
         }
 
+        const contact = contacts.resolve(args?.recipient as string | undefined);
         const conversationId = crypto.randomUUID();
-        const messageId = await messagingManager.sendWhatsApp(config.userPhoneNumber, message);
+        const messageId = await messagingManager.sendWhatsApp(contact.phoneNumber, message, messageStatusUrl(conversationId));
 
         conversationManager.createConversation(
           conversationId,
           ChannelType.WHATSAPP,
           ConversationDirection.OUTBOUND,
           messageId,
-          { to: config.userPhoneNumber }
+          { to: contact.phoneNumber }
         );
-        conversationManager.addMessage(conversationId, "assistant", message);
+        conversationManager.addMessage(conversationId, "assistant", message, { providerMessageId: messageId });
 
         if (waitForReply) {
-          const response = await conversationManager.waitForResponse(conversationId, timeoutMs);
+          const response = await conversationManager.waitForResponse(conversationId, timeoutMs, extra.signal);
           return {
             content: [
               {
@@ -1080,7 +1813,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           throw new Error(`Conversation ${conversationId} has ended`);
         }
 
+        // Reply to whoever is on the other end of the thread
+        const counterpart = conversation.metadata?.from || conversation.metadata?.to || contacts.resolve().phoneNumber;
+
         // Send message based on channel
+        let providerMessageId: string | undefined;
         switch (conversation.channel) {
           case ChannelType.VOICE:
             const voiceGatherUrl = waitForReply
@@ -1089,17 +1826,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             await phoneCallManager.speakToCall(conversation.providerConversationId, message, waitForReply, voiceGatherUrl);
             break;
           case ChannelType.SMS:
-            await messagingManager.sendSMS(conversation.metadata?.from || config.userPhoneNumber, message);
+            providerMessageId = await messagingManager.sendSMS(counterpart, message, messageStatusUrl(conversationId));
             break;
           case ChannelType.WHATSAPP:
-            await messagingManager.sendWhatsApp(conversation.metadata?.from || config.userPhoneNumber, message);
+            providerMessageId = await messagingManager.sendWhatsApp(counterpart, message, messageStatusUrl(conversationId));
             break;
         }
 
-        conversationManager.addMessage(conversationId, "assistant", message);
+        conversationManager.addMessage(conversationId, "assistant", message, { providerMessageId });
 
         if (waitForReply) {
-          const response = await conversationManager.waitForResponse(conversationId, timeoutMs);
+          const response = await conversationManager.waitForResponse(conversationId, timeoutMs, extra.signal);
           return {
             content: [
               {
@@ -1163,6 +1900,249 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case "get_recording_transcript": {
+        const conversationId = args?.conversation_id as string;
+        const recordingId = args?.recording_id as string | undefined;
+
+        if (!conversationId) {
+          throw new Error("conversation_id is required");
+        }
+        if (!conversationManager.getConversation(conversationId)) {
+          throw new Error(`Conversation ${conversationId} not found`);
+        }
+        if (!recordingArchive) {
+          throw new Error("Call recording is off (set BETTERCALLCLAUDE_RECORD_CALLS=true)");
+        }
+
+        let recordings = recordingArchive.list(conversationId);
+        if (recordingId) {
+          recordings = recordings.filter((recording) => recording.id === recordingId);
+          if (recordings.length === 0) {
+            throw new Error(`Recording ${recordingId} not found`);
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                conversation_id: conversationId,
+                recordings: recordings.map((recording) => ({
+                  recording_id: recording.id,
+                  recorded_at: recording.recordedAt,
+                  duration_seconds: recording.durationSeconds,
+                  transcript: recording.transcript,
+                  audio_archived: !!recording.file,
+                  error: recording.error,
+                })),
+              }),
+            },
+          ],
+        };
+      }
+
+      case "export_conversation": {
+        const conversationId = args?.conversation_id as string;
+        const format = (args?.format as string) || "md";
+
+        if (!conversationId) {
+          throw new Error("conversation_id is required");
+        }
+        if (!isExportFormat(format)) {
+          throw new Error(`Invalid format: ${format} (expected ${EXPORT_FORMATS.join(", ")})`);
+        }
+
+        const conversation = conversationManager.getConversation(conversationId);
+        if (!conversation) {
+          throw new Error(`Conversation ${conversationId} not found`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: exportConversation(conversation, format, taskExecutor?.getTaskContext(conversationId)),
+            },
+          ],
+        };
+      }
+
+      case "list_conversations":
+      case "search_conversations": {
+        const filter = parseConversationFilter(args);
+        const limit = (args?.limit as number) || 20;
+        const offset = (args?.offset as number) || 0;
+
+        if (name === "search_conversations") {
+          const query = args?.query as string;
+          if (!query || searchTerms(query).length === 0) {
+            throw new Error("query is required");
+          }
+          filter.text = query;
+        }
+
+        const terms = searchTerms(filter.text);
+        const matches = conversationManager.findConversations(filter);
+        const page = matches.slice(offset, offset + limit).map((conversation) => {
+          const summary = summarizeConversation(conversation);
+          if (terms.length === 0) {
+            return summary;
+          }
+          return {
+            ...summary,
+            matches: conversation.messages.filter((m) =>
+              terms.some((term) => m.content.toLowerCase().includes(term))
+            ),
+          };
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                total: matches.length,
+                offset,
+                limit,
+                conversations: page,
+              }),
+            },
+          ],
+        };
+      }
+
+      case "get_session_timeline": {
+        const conversationId = args?.conversation_id as string | undefined;
+        const limit = (args?.limit as number) || 50;
+
+        const session = conversationId
+          ? sessionManager.getSessionForConversation(conversationId)
+          : sessionManager.findByNumber(contacts.resolve(args?.recipient as string | undefined).phoneNumber);
+        if (!session) {
+          throw new Error(conversationId ? `No session for conversation ${conversationId}` : "No recent session with this recipient");
+        }
+
+        const timeline = sessionManager.getTimeline(session.id);
+        const contact = contacts.findByNumber(session.counterpart);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                session_id: session.id,
+                contact: contact?.name,
+                counterpart: session.counterpart,
+                started_at: session.startedAt,
+                last_activity_at: session.lastActivityAt,
+                conversations: session.conversationIds,
+                active_task: sessionManager.getActiveTask(session.id),
+                last_task: session.task,
+                total: timeline.length,
+                timeline: timeline.slice(-limit).map((entry) => ({
+                  conversation_id: entry.conversationId,
+                  channel: entry.channel,
+                  role: entry.role,
+                  content: entry.content,
+                  timestamp: entry.timestamp,
+                })),
+              }),
+            },
+          ],
+        };
+      }
+
+      // ============================================
+      // SCHEDULING TOOL HANDLERS
+      // ============================================
+      case "schedule_call":
+      case "schedule_message": {
+        const contact = contacts.resolve(args?.recipient as string | undefined);
+        let channel: ScheduledChannel = "voice";
+        if (name === "schedule_message") {
+          const requested = (args?.channel as string | undefined) ??
+            (contact.preferredChannel === "whatsapp" ? "whatsapp" : "sms");
+          if (requested === "voice" || !isScheduledChannel(requested)) {
+            throw new Error(`Invalid channel: ${requested} (expected sms or whatsapp)`);
+          }
+          channel = requested;
+        }
+        const delayMinutes = args?.delay_minutes as number | undefined;
+
+        const job = scheduler.schedule({
+          channel,
+          recipient: contact.name,
+          message: args?.message as string,
+          language: args?.language ? normalizeLanguage(args.language as string) : undefined,
+          at: args?.at ? new Date(args.at as string) : delayMinutes ? new Date(Date.now() + delayMinutes * 60000) : undefined,
+          cron: args?.cron as string | undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                job_id: job.id,
+                channel: job.channel,
+                recipient: job.recipient,
+                next_run_at: job.nextRunAt,
+                cron: job.cron,
+              }),
+            },
+          ],
+        };
+      }
+
+      case "list_scheduled": {
+        const jobs = scheduler.list();
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                total: jobs.length,
+                jobs: jobs.map((job) => ({
+                  job_id: job.id,
+                  channel: job.channel,
+                  recipient: job.recipient,
+                  message: job.message,
+                  next_run_at: job.nextRunAt,
+                  cron: job.cron,
+                  runs: job.runs,
+                  last_error: job.lastError,
+                })),
+              }),
+            },
+          ],
+        };
+      }
+
+      case "cancel_scheduled": {
+        const jobId = args?.job_id as string;
+        if (!jobId) {
+          throw new Error("job_id is required");
+        }
+        if (!scheduler.cancel(jobId)) {
+          throw new Error(`Scheduled job ${jobId} not found`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, job_id: jobId, status: "cancelled" }),
+            },
+          ],
+        };
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -1254,6 +2234,31 @@ async function main(): Promise<void> {
   // Initialize managers — PhoneCallManager only if phone provider credentials exist
   if (hasPhoneProvider) {
     phoneCallManager = new PhoneCallManager(config);
+
+    // What the call status webhook does with status changes and Telnyx in-call events
+    callEvents = new CallEvents(phoneCallManager, conversationManager, callerAuth, speechConfirmation, {
+      recording: handleRecordingWebhook,
+      speech: handleCallerSpeech,
+      keypress: async (conversationId, providerCallId, digit) => {
+        if (taskExecutor.isRunning(conversationId)) {
+          await applyHoldMenuResult(providerCallId, await holdMenu.press(conversationId, digit, conversationLanguage(conversationId)));
+        }
+      },
+      language: conversationLanguage,
+      voicemail: (conversationId, providerCallId) => phoneAPI.leaveVoicemail(conversationId, providerCallId),
+      callOutcome: (conversationId, outcome) => phoneAPI.handleCallOutcome(conversationId, outcome),
+      ended: (conversationId) => {
+        // Seed voice call context into WhatsApp chat for cross-channel continuity
+        if (!whatsappChatManager) return;
+        const taskContext = sessionManager.getTaskContext(conversationId) ?? taskExecutor?.getTaskContext(conversationId);
+        if (taskContext) {
+          whatsappChatManager.setVoiceContext(
+            `Task: "${taskContext.originalTask}"\nResult: "${taskContext.completionSummary}"\nWorking dir: ${taskContext.workingDir}` +
+            (taskContext.transcript ? `\n\nConversation so far:\n${taskContext.transcript}` : "")
+          );
+        }
+      },
+    });
   }
 
   messagingManager = new MessagingManager({
@@ -1267,6 +2272,23 @@ async function main(): Promise<void> {
     messagingManager.setBaileysClient(baileysClient);
   }
 
+  // Photos and documents sent with inbound messages, saved for spawned sessions to read
+  attachmentStore = new AttachmentStore({
+    download: (url) => messagingManager.downloadMedia(url),
+  }, { dir: config.attachmentDir });
+
+  // Links in what Claude says on a call are sent to the caller on WhatsApp instead of read out
+  if (hasPhoneProvider) {
+    phoneCallManager.setLinkSender(async (providerCallId, links) => {
+      const conversation = conversationManager.getConversationByProviderId(providerCallId);
+      const to = conversation?.direction === ConversationDirection.INBOUND ? conversation.metadata?.from : conversation?.metadata?.to;
+      if (!to) {
+        throw new Error("No number to send the links to");
+      }
+      await messagingManager.sendWhatsApp(to, links.join("\n"));
+    });
+  }
+
   // Log channel status
   const channels: string[] = [];
   if (hasPhoneProvider) channels.push("Voice", "SMS");
@@ -1281,6 +2303,11 @@ async function main(): Promise<void> {
 
   // Initialize task executor and phone API for autonomous operation
   taskExecutor = new TaskExecutor(publicUrl);
+  sessionManager.trackTasks(taskExecutor);
+  holdNarrator = new HoldNarrator(taskExecutor, { intervalMs: config.holdNarrationIntervalMs });
+  holdMenu = new HoldMenu(conversationManager, taskExecutor, {
+    sendWhatsApp: (to, text) => messagingManager.sendWhatsApp(to, text),
+  });
 
   // Initialize WhatsApp Chat Manager for always-on conversation (Baileys mode only)
   if (config.whatsappProvider === "baileys") {
@@ -1291,14 +2318,173 @@ async function main(): Promise<void> {
       config.whatsappChatHistorySize,
     );
     console.error(`[Init] WhatsApp Chat Manager ready (session ${whatsappChatManager.getSessionId().slice(0, 8)})`);
+
+    // An auto-closed WhatsApp thread starts the next chat from a clean session
+    conversationManager.events.on("state.changed", (event) => {
+      if (event.reason && event.channel === ChannelType.WHATSAPP) {
+        whatsappChatManager?.resetSession(`WhatsApp ${event.reason.replace("_", " ")}`);
+      }
+    });
+  }
+
+  // Speak prompts in the configured OpenAI voice instead of Twilio's alice
+  if (hasPhoneProvider && config.ttsPlayback) {
+    audioCache = new AudioCache(() => publicUrl, { dir: config.audioCacheDir });
+    phoneCallManager.setAudioCache(audioCache);
+    console.error(`[Init] TTS playback: ${config.ttsVoice} voice, cached in ${config.audioCacheDir}`);
+  }
+
+  // Record calls and keep a transcript of each with its conversation
+  if (hasPhoneProvider && config.recordCalls) {
+    recordingArchive = new RecordingArchive(conversationManager, {
+      download: (recording) => phoneCallManager.downloadRecording(recording),
+      transcribe: (audio, conversationId) =>
+        phoneCallManager.speechToText(audio, "recording.mp3", conversationLanguage(conversationId)),
+    }, { dir: config.recordingDir, retentionMs: config.recordingRetentionMs });
+    console.error(`[Init] Call recording on, archived in ${config.recordingDir}`);
+  }
+
+  // Stream voice mode: call audio over WebSockets instead of Gather round-trips
+  if (hasPhoneProvider && config.voiceMode === "stream") {
+    mediaStreams = new MediaStreamManager(() => publicUrl, {
+      transcribe: async (wav, conversationId) => {
+        // With detection on, Whisper picks the language until a call has one
+        const language = conversationManager.getConversation(conversationId)?.metadata?.language;
+        if (language || !config.detectLanguage) {
+          return phoneCallManager.transcribe(wav, "audio.wav", language || config.language);
+        }
+        const transcription = await phoneCallManager.transcribe(wav, "audio.wav");
+        if (transcription.language) {
+          console.error(`[MediaStream] Detected ${transcription.language} on ${conversationId.slice(0, 8)}`);
+          setConversationLanguage(conversationId, transcription.language);
+        }
+        return transcription;
+      },
+      synthesize: (text) => phoneCallManager.streamSpeech(text),
+      vad: { silenceMs: config.sttSilenceDurationMs },
+    });
+    phoneCallManager.setMediaStreams(mediaStreams);
+
+    mediaStreams.events.on("dtmf", ({ conversationId, providerCallId, digit }) => {
+      // Keys pressed before authenticating are the PIN
+      if (!callerAuth.isVerified(conversationId)) {
+        callerAuth
+          .press(conversationId, digit, conversationLanguage(conversationId))
+          ?.then((result) => callEvents.applyAuthResult(providerCallId, result))
+          .catch((error) => {
+            console.error(`[MediaStream] Authentication failed for ${conversationId}:`, error);
+          });
+        return;
+      }
+      if (!taskExecutor.isRunning(conversationId)) return;
+      holdMenu
+        .press(conversationId, digit, conversationLanguage(conversationId))
+        .then((result) => applyHoldMenuResult(providerCallId, result))
+        .catch((error) => {
+          console.error(`[MediaStream] Hold menu failed for ${conversationId}:`, error);
+        });
+    });
+    mediaStreams.events.on("utterance", ({ conversationId, providerCallId, transcript, confidence, interrupted }) => {
+      if (!callerAuth.isVerified(conversationId)) {
+        callerAuth
+          .attempt(conversationId, transcript, conversationLanguage(conversationId))
+          .then((result) => callEvents.applyAuthResult(providerCallId, result))
+          .catch((error) => {
+            console.error(`[MediaStream] Authentication failed for ${conversationId}:`, error);
+          });
+        return;
+      }
+      console.error(`[MediaStream] Transcript: "${transcript}"`);
+      // Read back what Whisper isn't sure it heard before acting on it
+      const language = conversationLanguage(conversationId);
+      const speech = speechConfirmation.check(conversationId, { transcript, confidence, interrupted }, language);
+      if ("prompt" in speech) {
+        mediaStreams?.speak(providerCallId, speech.prompt).catch((error) => {
+          console.error(`[MediaStream] Failed to read back to ${conversationId}:`, error);
+        });
+        return;
+      }
+      if (handleCallerSpeech(conversationId, speech.transcript, speech.confidence, speech.interrupted) === "spawned") {
+        mediaStreams?.speak(providerCallId, phrasesFor(language).thinking).catch((error) => {
+          console.error(`[MediaStream] Failed to acknowledge ${conversationId}:`, error);
+        });
+      }
+    });
+    console.error("[Init] Voice mode: stream");
+  }
+
+  // Telnyx calls without media streams are driven by Call Control commands
+  if (hasPhoneProvider && config.phoneProvider === "telnyx" && !mediaStreams) {
+    telnyxCallFlow = new TelnyxCallFlow(phoneCallManager, {
+      speech: handleCallerSpeech,
+      acknowledgement: (conversationId) => {
+        const phrases = phrasesFor(conversationLanguage(conversationId));
+        return `${phrases.thinking} ${phrases.holdMenu}`;
+      },
+    });
+    phoneCallManager.setTelnyxCallFlow(telnyxCallFlow);
+    callEvents.setTelnyxCallFlow(telnyxCallFlow);
   }
 
+  // Scheduled calls and messages go out through the same paths as initiate_call, send_sms and send_whatsapp
+  scheduler = new Scheduler({
+    call: async (job) => {
+      if (!hasPhoneProvider) {
+        throw new Error("Voice calls are not configured");
+      }
+      const contact = contacts.resolve(job.recipient);
+      const language = job.language ?? contact.language;
+      const conversationId = crypto.randomUUID();
+      const providerCallId = await phoneCallManager.initiateCall(
+        contact.phoneNumber,
+        job.message,
+        `${publicUrl}/webhook/${config.phoneProvider}/status/${conversationId}`,
+        `${publicUrl}/webhook/${config.phoneProvider}/gather/${conversationId}`,
+        mediaStreams?.streamUrl(config.phoneProvider, conversationId, job.message),
+        language
+      );
+      conversationManager.createConversation(
+        conversationId,
+        ChannelType.VOICE,
+        ConversationDirection.OUTBOUND,
+        providerCallId,
+        { to: contact.phoneNumber, summary: job.message, language }
+      );
+      conversationManager.addMessage(conversationId, "assistant", job.message);
+    },
+    send: async (channel, job) => {
+      const contact = contacts.resolve(job.recipient);
+      const conversationId = crypto.randomUUID();
+      const messageId = channel === "sms"
+        ? await messagingManager.sendSMS(contact.phoneNumber, job.message, messageStatusUrl(conversationId))
+        : await messagingManager.sendWhatsApp(contact.phoneNumber, job.message, messageStatusUrl(conversationId));
+      conversationManager.createConversation(
+        conversationId,
+        channel === "sms" ? ChannelType.SMS : ChannelType.WHATSAPP,
+        ConversationDirection.OUTBOUND,
+        messageId,
+        { to: contact.phoneNumber }
+      );
+      conversationManager.addMessage(conversationId, "assistant", job.message, { providerMessageId: messageId });
+    },
+  }, { path: config.schedulePath });
+  scheduler.start();
+
   phoneAPI = createPhoneAPI(
     phoneCallManager,
     conversationManager,
     {
       phoneProvider: config.phoneProvider,
       userPhoneNumber: config.userPhoneNumber,
+      contacts,
+      streamUrl: mediaStreams
+        ? (conversationId, greeting) => mediaStreams?.streamUrl(config.phoneProvider, conversationId, greeting)
+        : undefined,
+      escalation: config.callbackEscalation,
+      language: config.language,
+      scheduler,
+      eventsToken: config.eventsToken,
+      remoteAddress: (c) => getConnInfo(c).remote.address,
     },
     () => publicUrl,
     taskExecutor,
@@ -1310,7 +2496,11 @@ async function main(): Promise<void> {
 
   // Register Baileys inbound message handler
   if (baileysClient) {
-    baileysClient.onInboundMessage(handleInboundWhatsApp);
+    baileysClient.onInboundMessage((message) => {
+      handleInboundWhatsApp(message).catch((error) => {
+        console.error("[WhatsApp] Error handling Baileys message:", error);
+      });
+    });
     console.error("[Init] Baileys inbound handler registered");
   }
 
@@ -1320,6 +2510,7 @@ async function main(): Promise<void> {
     httpServer = serve({
       port: config.port,
       fetch: app.fetch,
+      websocket,
     });
     console.error(`[Init] HTTP server listening on port ${config.port}`);
     if (hasPhoneProvider) {
@@ -1333,6 +2524,7 @@ async function main(): Promise<void> {
       console.error(`       Ask:      POST ${publicUrl}/api/ask/:conversationId`);
       console.error(`       Say:      POST ${publicUrl}/api/say/:conversationId`);
       console.error(`       Complete: POST ${publicUrl}/api/complete/:conversationId`);
+      console.error(`       Schedule: POST ${publicUrl}/api/schedule`);
     }
   } catch (e: any) {
     if (e?.code === "EADDRINUSE") {
@@ -1352,6 +2544,8 @@ async function main(): Promise<void> {
     console.error(`[Shutdown] ${reason}, cleaning up...`);
     baileysClient?.disconnect();
     taskExecutor.killAllRunning();
+    scheduler.stop();
+    conversationManager.close();
     httpServer?.stop();
     if (transportManager) await transportManager.stop();
     try { await server.close(); } catch {}
@@ -1368,8 +2562,15 @@ async function main(): Promise<void> {
   // Cleanup old conversations and task executions periodically
   setInterval(() => {
     conversationManager.cleanupOld();
+    sessionManager.cleanupOld();
     taskExecutor.cleanup();
+    recordingArchive?.prune();
   }, 3600000);
+
+  // End SMS/WhatsApp threads that have gone quiet so the next message starts fresh
+  setInterval(() => {
+    conversationManager.closeIdle();
+  }, 60000);
 }
 
 main().catch((error) => {
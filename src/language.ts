@@ -0,0 +1,411 @@
+/**
+ * Languages
+ * Call languages are BCP-47 tags ("es-ES"), as Twilio and Telnyx expect;
+ * Whisper takes the ISO 639-1 part ("es"). The fixed prompts we speak on
+ * calls are translated here; anything Claude says comes from the session.
+ */
+
+export const DEFAULT_LANGUAGE = "en-US";
+
+/** Region used when only a language is given */
+const DEFAULT_REGIONS: Record<string, string> = {
+  ar: "ar-SA",
+  da: "da-DK",
+  de: "de-DE",
+  en: "en-US",
+  es: "es-ES",
+  fr: "fr-FR",
+  hi: "hi-IN",
+  it: "it-IT",
+  ja: "ja-JP",
+  ko: "ko-KR",
+  nb: "nb-NO",
+  nl: "nl-NL",
+  pl: "pl-PL",
+  pt: "pt-BR",
+  ru: "ru-RU",
+  sv: "sv-SE",
+  tr: "tr-TR",
+  zh: "zh-CN",
+};
+
+/** Whisper reports detected languages by English name */
+const WHISPER_NAMES: Record<string, string> = {
+  norwegian: "nb",
+  ...Object.fromEntries(
+    Object.keys(DEFAULT_REGIONS).map((code) => [
+      new Intl.DisplayNames(["en"], { type: "language" }).of(code)!.toLowerCase(),
+      code,
+    ])
+  ),
+};
+
+/** Locales Twilio's alice voice speaks */
+const ALICE_LOCALES = new Set([
+  "ca-ES", "da-DK", "de-DE", "en-AU", "en-CA", "en-GB", "en-IN", "en-US", "es-ES", "es-MX",
+  "fi-FI", "fr-CA", "fr-FR", "it-IT", "ja-JP", "ko-KR", "nb-NO", "nl-NL", "pl-PL", "pt-BR",
+  "pt-PT", "ru-RU", "sv-SE", "zh-CN", "zh-HK", "zh-TW",
+]);
+
+/** Amazon Polly voices for languages alice doesn't speak */
+const POLLY_VOICES: Record<string, string> = {
+  ar: "Polly.Zeina",
+  cy: "Polly.Gwyneth",
+  hi: "Polly.Aditi",
+  is: "Polly.Dora",
+  ro: "Polly.Carmen",
+  tr: "Polly.Filiz",
+};
+
+export interface CallPhrases {
+  greeting: (name?: string) => string;
+  gatherHint: string;
+  thinking: string;
+  didNotCatch: string;
+  /** Spoken when a task finishes while the caller is still on the line */
+  finished: (summary: string) => string;
+  /** Opens a callback after the caller hung up */
+  callback: (summary: string) => string;
+  /** Greets inbound callers who have to authenticate first */
+  authPrompt: (name?: string) => string;
+  authVerified: string;
+  authRetry: string;
+  authLocked: string;
+  /** Reads back a transcript we aren't sure of */
+  confirmHeard: (transcript: string) => string;
+  sayAgain: string;
+  /** Replies that accept or reject a read-back (lowercase, no punctuation) */
+  yes: string[];
+  no: string[];
+  /** Said in place of a code block (see renderForSpeech) */
+  codeElided: (lines: number) => string;
+  /** Said in place of links sent to the caller by WhatsApp, or left out when they can't be */
+  linksSent: (count: number) => string;
+  linksOmitted: (count: number) => string;
+  /** Read to callers when they are put on hold, and after an unknown key (see HoldMenu) */
+  holdMenu: string;
+  /** How long a task has been running, fitted to follow stillWorking */
+  elapsed: (minutes: number) => string;
+  stillWorking: (elapsed: string) => string;
+  latestUpdate: (progress: string) => string;
+  noUpdates: string;
+  notWorking: string;
+  taskFinished: string;
+  taskStopped: string;
+  nothingSaid: string;
+  nothingToCancel: string;
+  cancelled: string;
+  /** Sent to WhatsApp when the caller moves the call there */
+  whatsAppContinuing: (running: boolean) => string;
+  whatsAppHandoff: string;
+  whatsAppUnavailable: string;
+  whatsAppFailed: string;
+  /** A finished task, told by Claude on a call and by text when it isn't */
+  taskDone: (summary: string) => string;
+  taskDoneMessage: (summary: string) => string;
+  /** Left on an answering machine, saying where the details went if they were sent */
+  voicemail: (summary: string, sentBy?: "sms" | "whatsapp") => string;
+  voicemailMessage: (summary: string) => string;
+  noUpdate: string;
+}
+
+const PHRASES: Record<string, CallPhrases> = {
+  en: {
+    greeting: (name) => `Hello${name ? ` ${name}` : ""}! This is Claude. What would you like me to work on?`,
+    gatherHint: "Press pound when you're finished speaking.",
+    thinking: "Got it. Let me think about that...",
+    didNotCatch: "I didn't catch that. Could you please repeat?",
+    finished: (summary) => `I've finished. ${summary}. Is there anything else you'd like me to do?`,
+    callback: (summary) => `Hi, this is Claude. I finished the task you requested. ${summary}. Would you like me to do anything else?`,
+    authPrompt: (name) => `Hello${name ? ` ${name}` : ""}! This is Claude. Please say your passphrase, or enter your PIN followed by pound.`,
+    authVerified: "Thanks, you're verified. What would you like me to work on?",
+    authRetry: "That didn't match. Please try again.",
+    authLocked: "Too many failed attempts. Goodbye.",
+    confirmHeard: (transcript) => `I heard: ${transcript}. Is that right? Say yes, or say it again.`,
+    sayAgain: "Sorry about that. Please say it again.",
+    yes: ["yes", "yeah", "yep", "yup", "correct", "right", "that's right", "yes please", "sure"],
+    no: ["no", "nope", "wrong", "no that's wrong", "that's wrong", "incorrect"],
+    codeElided: (lines) => `I've left out a code snippet of ${lines} ${lines === 1 ? "line" : "lines"}.`,
+    linksSent: (count) => `I've sent the ${count === 1 ? "link" : "links"} to WhatsApp.`,
+    linksOmitted: (count) => `I've left out ${count === 1 ? "a link" : `${count} links`}.`,
+    holdMenu: "While you wait, press 1 for status, 2 to cancel, 3 to repeat my last message, or 9 to continue on WhatsApp.",
+    elapsed: (minutes) => minutes < 1 ? "less than a minute" : minutes === 1 ? "1 minute" : `${minutes} minutes`,
+    stillWorking: (elapsed) => `Still working, ${elapsed} in.`,
+    latestUpdate: (progress) => `Latest update: ${progress}`,
+    noUpdates: "No updates yet.",
+    notWorking: "I'm not working on anything for this call yet.",
+    taskFinished: "The task is finished. I'll tell you the result in a moment.",
+    taskStopped: "The task stopped before it finished.",
+    nothingSaid: "I haven't said anything yet.",
+    nothingToCancel: "There's nothing running to cancel.",
+    cancelled: "Cancelled. What would you like me to do instead?",
+    whatsAppContinuing: (running) => `Continuing our call here. ${running ? "I'm still working on it and will send the result to this chat." : "Reply to pick up where we left off."}`,
+    whatsAppHandoff: "Okay, let's continue on WhatsApp. Goodbye!",
+    whatsAppUnavailable: "Sorry, I can't reach you on WhatsApp.",
+    whatsAppFailed: "Sorry, I couldn't reach you on WhatsApp.",
+    taskDone: (summary) => `I finished the task you requested. ${summary}`,
+    taskDoneMessage: (summary) => `Claude finished the task you requested. ${summary}`,
+    voicemail: (summary, sentBy) => `Hi, this is Claude. ${summary} ${sentBy ? `I've sent the details by ${sentBy === "whatsapp" ? "WhatsApp" : "text message"}.` : "Call me back for the details."}`,
+    voicemailMessage: (summary) => `Claude called and reached your voicemail. ${summary}`,
+    noUpdate: "I have an update for you.",
+  },
+  es: {
+    greeting: (name) => `¡Hola${name ? ` ${name}` : ""}! Soy Claude. ¿En qué quieres que trabaje?`,
+    gatherHint: "Pulsa la tecla de almohadilla cuando termines de hablar.",
+    thinking: "Entendido. Déjame pensarlo...",
+    didNotCatch: "No te he entendido. ¿Puedes repetirlo?",
+    finished: (summary) => `He terminado. ${summary}. ¿Quieres que haga algo más?`,
+    callback: (summary) => `Hola, soy Claude. He terminado la tarea que pediste. ${summary}. ¿Quieres que haga algo más?`,
+    authPrompt: (name) => `¡Hola${name ? ` ${name}` : ""}! Soy Claude. Di tu contraseña o marca tu PIN seguido de la almohadilla.`,
+    authVerified: "Gracias, estás verificado. ¿En qué quieres que trabaje?",
+    authRetry: "No coincide. Inténtalo de nuevo.",
+    authLocked: "Demasiados intentos fallidos. Adiós.",
+    confirmHeard: (transcript) => `He entendido: ${transcript}. ¿Es correcto? Di sí, o repítelo.`,
+    sayAgain: "Perdona. Repítelo, por favor.",
+    yes: ["sí", "si", "correcto", "eso es", "exacto", "vale"],
+    no: ["no", "incorrecto", "no es eso"],
+    codeElided: (lines) => `He omitido un fragmento de código de ${lines} ${lines === 1 ? "línea" : "líneas"}.`,
+    linksSent: (count) => `Te he enviado ${count === 1 ? "el enlace" : "los enlaces"} por WhatsApp.`,
+    linksOmitted: (count) => `He omitido ${count === 1 ? "un enlace" : `${count} enlaces`}.`,
+    holdMenu: "Mientras esperas, pulsa 1 para saber cómo va, 2 para cancelar, 3 para repetir mi último mensaje o 9 para seguir por WhatsApp.",
+    elapsed: (minutes) => minutes < 1 ? "menos de un minuto" : minutes === 1 ? "1 minuto" : `${minutes} minutos`,
+    stillWorking: (elapsed) => `Sigo trabajando, llevo ${elapsed}.`,
+    latestUpdate: (progress) => `Última novedad: ${progress}`,
+    noUpdates: "Aún no hay novedades.",
+    notWorking: "Todavía no estoy trabajando en nada para esta llamada.",
+    taskFinished: "La tarea ha terminado. Enseguida te cuento el resultado.",
+    taskStopped: "La tarea se detuvo antes de terminar.",
+    nothingSaid: "Todavía no he dicho nada.",
+    nothingToCancel: "No hay nada en marcha que cancelar.",
+    cancelled: "Cancelado. ¿Qué quieres que haga en su lugar?",
+    whatsAppContinuing: (running) => `Seguimos aquí nuestra llamada. ${running ? "Sigo trabajando y te enviaré el resultado a este chat." : "Responde para retomarlo donde lo dejamos."}`,
+    whatsAppHandoff: "Vale, seguimos por WhatsApp. ¡Adiós!",
+    whatsAppUnavailable: "Lo siento, no puedo contactarte por WhatsApp.",
+    whatsAppFailed: "Lo siento, no he podido contactarte por WhatsApp.",
+    taskDone: (summary) => `He terminado la tarea que pediste. ${summary}`,
+    taskDoneMessage: (summary) => `Claude ha terminado la tarea que pediste. ${summary}`,
+    voicemail: (summary, sentBy) => `Hola, soy Claude. ${summary} ${sentBy ? `Te he enviado los detalles por ${sentBy === "whatsapp" ? "WhatsApp" : "SMS"}.` : "Llámame para los detalles."}`,
+    voicemailMessage: (summary) => `Claude te ha llamado y ha saltado el buzón de voz. ${summary}`,
+    noUpdate: "Tengo novedades para ti.",
+  },
+  fr: {
+    greeting: (name) => `Bonjour${name ? ` ${name}` : ""} ! Ici Claude. Sur quoi voulez-vous que je travaille ?`,
+    gatherHint: "Appuyez sur dièse quand vous avez fini de parler.",
+    thinking: "Compris. Laissez-moi réfléchir...",
+    didNotCatch: "Je n'ai pas compris. Pouvez-vous répéter ?",
+    finished: (summary) => `J'ai terminé. ${summary}. Voulez-vous que je fasse autre chose ?`,
+    callback: (summary) => `Bonjour, ici Claude. J'ai terminé la tâche demandée. ${summary}. Voulez-vous que je fasse autre chose ?`,
+    authPrompt: (name) => `Bonjour${name ? ` ${name}` : ""} ! Ici Claude. Dites votre phrase secrète, ou tapez votre code suivi de dièse.`,
+    authVerified: "Merci, vous êtes vérifié. Sur quoi voulez-vous que je travaille ?",
+    authRetry: "Ça ne correspond pas. Veuillez réessayer.",
+    authLocked: "Trop de tentatives échouées. Au revoir.",
+    confirmHeard: (transcript) => `J'ai compris : ${transcript}. C'est bien ça ? Dites oui, ou répétez.`,
+    sayAgain: "Désolé. Pouvez-vous répéter ?",
+    yes: ["oui", "c'est ça", "c'est bien ça", "exact", "correct"],
+    no: ["non", "ce n'est pas ça", "incorrect"],
+    codeElided: (lines) => `J'ai omis un extrait de code de ${lines} ${lines === 1 ? "ligne" : "lignes"}.`,
+    linksSent: (count) => `Je vous ai envoyé ${count === 1 ? "le lien" : "les liens"} sur WhatsApp.`,
+    linksOmitted: (count) => `J'ai omis ${count === 1 ? "un lien" : `${count} liens`}.`,
+    holdMenu: "En attendant, appuyez sur 1 pour l'avancement, 2 pour annuler, 3 pour réécouter mon dernier message, ou 9 pour continuer sur WhatsApp.",
+    elapsed: (minutes) => minutes < 1 ? "moins d'une minute" : minutes === 1 ? "1 minute" : `${minutes} minutes`,
+    stillWorking: (elapsed) => `Je travaille encore, depuis ${elapsed}.`,
+    latestUpdate: (progress) => `Dernière nouvelle : ${progress}`,
+    noUpdates: "Pas encore de nouvelles.",
+    notWorking: "Je ne travaille encore sur rien pour cet appel.",
+    taskFinished: "La tâche est terminée. Je vous donne le résultat dans un instant.",
+    taskStopped: "La tâche s'est arrêtée avant la fin.",
+    nothingSaid: "Je n'ai encore rien dit.",
+    nothingToCancel: "Il n'y a rien en cours à annuler.",
+    cancelled: "Annulé. Que voulez-vous que je fasse à la place ?",
+    whatsAppContinuing: (running) => `Je poursuis notre appel ici. ${running ? "J'y travaille encore et j'enverrai le résultat dans cette conversation." : "Répondez pour reprendre là où nous en étions."}`,
+    whatsAppHandoff: "D'accord, continuons sur WhatsApp. Au revoir !",
+    whatsAppUnavailable: "Désolé, je ne peux pas vous joindre sur WhatsApp.",
+    whatsAppFailed: "Désolé, je n'ai pas pu vous joindre sur WhatsApp.",
+    taskDone: (summary) => `J'ai terminé la tâche demandée. ${summary}`,
+    taskDoneMessage: (summary) => `Claude a terminé la tâche demandée. ${summary}`,
+    voicemail: (summary, sentBy) => `Bonjour, ici Claude. ${summary} ${sentBy ? `Je vous ai envoyé les détails par ${sentBy === "whatsapp" ? "WhatsApp" : "SMS"}.` : "Rappelez-moi pour les détails."}`,
+    voicemailMessage: (summary) => `Claude vous a appelé et est tombé sur votre messagerie. ${summary}`,
+    noUpdate: "J'ai du nouveau pour vous.",
+  },
+  de: {
+    greeting: (name) => `Hallo${name ? ` ${name}` : ""}! Hier ist Claude. Woran soll ich arbeiten?`,
+    gatherHint: "Drücken Sie die Rautetaste, wenn Sie fertig sind.",
+    thinking: "Verstanden. Einen Moment, ich denke nach...",
+    didNotCatch: "Das habe ich nicht verstanden. Können Sie das bitte wiederholen?",
+    finished: (summary) => `Ich bin fertig. ${summary}. Soll ich noch etwas tun?`,
+    callback: (summary) => `Hallo, hier ist Claude. Ich habe die Aufgabe erledigt. ${summary}. Soll ich noch etwas tun?`,
+    authPrompt: (name) => `Hallo${name ? ` ${name}` : ""}! Hier ist Claude. Bitte sagen Sie Ihr Kennwort oder geben Sie Ihre PIN ein, gefolgt von der Rautetaste.`,
+    authVerified: "Danke, Sie sind verifiziert. Woran soll ich arbeiten?",
+    authRetry: "Das stimmt nicht. Bitte versuchen Sie es noch einmal.",
+    authLocked: "Zu viele Fehlversuche. Auf Wiederhören.",
+    confirmHeard: (transcript) => `Ich habe verstanden: ${transcript}. Stimmt das? Sagen Sie ja, oder wiederholen Sie es.`,
+    sayAgain: "Entschuldigung. Bitte wiederholen Sie es.",
+    yes: ["ja", "genau", "richtig", "stimmt", "ja genau"],
+    no: ["nein", "falsch", "stimmt nicht"],
+    codeElided: (lines) => `Ich habe ein Codebeispiel mit ${lines} ${lines === 1 ? "Zeile" : "Zeilen"} ausgelassen.`,
+    linksSent: (count) => `Ich habe Ihnen ${count === 1 ? "den Link" : "die Links"} per WhatsApp geschickt.`,
+    linksOmitted: (count) => `Ich habe ${count === 1 ? "einen Link" : `${count} Links`} ausgelassen.`,
+    holdMenu: "Während Sie warten: Drücken Sie 1 für den Stand, 2 zum Abbrechen, 3 für meine letzte Nachricht oder 9, um auf WhatsApp weiterzumachen.",
+    elapsed: (minutes) => minutes < 1 ? "weniger als einer Minute" : minutes === 1 ? "einer Minute" : `${minutes} Minuten`,
+    stillWorking: (elapsed) => `Ich arbeite noch daran, seit ${elapsed}.`,
+    latestUpdate: (progress) => `Letzter Stand: ${progress}`,
+    noUpdates: "Noch keine Neuigkeiten.",
+    notWorking: "Für diesen Anruf arbeite ich noch an nichts.",
+    taskFinished: "Die Aufgabe ist erledigt. Ich sage Ihnen gleich das Ergebnis.",
+    taskStopped: "Die Aufgabe wurde abgebrochen, bevor sie fertig war.",
+    nothingSaid: "Ich habe noch nichts gesagt.",
+    nothingToCancel: "Es läuft nichts, was ich abbrechen könnte.",
+    cancelled: "Abgebrochen. Was soll ich stattdessen tun?",
+    whatsAppContinuing: (running) => `Hier geht es mit unserem Anruf weiter. ${running ? "Ich arbeite noch daran und schicke das Ergebnis in diesen Chat." : "Antworten Sie, um dort weiterzumachen, wo wir aufgehört haben."}`,
+    whatsAppHandoff: "Gut, machen wir auf WhatsApp weiter. Auf Wiederhören!",
+    whatsAppUnavailable: "Leider kann ich Sie auf WhatsApp nicht erreichen.",
+    whatsAppFailed: "Leider konnte ich Sie auf WhatsApp nicht erreichen.",
+    taskDone: (summary) => `Ich habe die Aufgabe erledigt. ${summary}`,
+    taskDoneMessage: (summary) => `Claude hat die Aufgabe erledigt. ${summary}`,
+    voicemail: (summary, sentBy) => `Hallo, hier ist Claude. ${summary} ${sentBy ? `Ich habe Ihnen die Details per ${sentBy === "whatsapp" ? "WhatsApp" : "SMS"} geschickt.` : "Rufen Sie mich für die Details zurück."}`,
+    voicemailMessage: (summary) => `Claude hat angerufen und Ihre Mailbox erreicht. ${summary}`,
+    noUpdate: "Ich habe Neuigkeiten für Sie.",
+  },
+  it: {
+    greeting: (name) => `Ciao${name ? ` ${name}` : ""}! Sono Claude. Su cosa vuoi che lavori?`,
+    gatherHint: "Premi cancelletto quando hai finito di parlare.",
+    thinking: "Capito. Fammi pensare...",
+    didNotCatch: "Non ho capito. Puoi ripetere?",
+    finished: (summary) => `Ho finito. ${summary}. Vuoi che faccia qualcos'altro?`,
+    callback: (summary) => `Ciao, sono Claude. Ho finito il lavoro che mi hai chiesto. ${summary}. Vuoi che faccia qualcos'altro?`,
+    authPrompt: (name) => `Ciao${name ? ` ${name}` : ""}! Sono Claude. Di' la tua frase segreta, o digita il PIN seguito da cancelletto.`,
+    authVerified: "Grazie, sei verificato. Su cosa vuoi che lavori?",
+    authRetry: "Non corrisponde. Riprova.",
+    authLocked: "Troppi tentativi falliti. Arrivederci.",
+    confirmHeard: (transcript) => `Ho capito: ${transcript}. È giusto? Di' sì, o ripetilo.`,
+    sayAgain: "Scusa. Puoi ripeterlo?",
+    yes: ["sì", "si", "esatto", "giusto", "corretto"],
+    no: ["no", "sbagliato", "non è giusto"],
+    codeElided: (lines) => `Ho omesso un frammento di codice di ${lines} ${lines === 1 ? "riga" : "righe"}.`,
+    linksSent: (count) => `Ti ho mandato ${count === 1 ? "il link" : "i link"} su WhatsApp.`,
+    linksOmitted: (count) => `Ho omesso ${count === 1 ? "un link" : `${count} link`}.`,
+    holdMenu: "Mentre aspetti, premi 1 per lo stato, 2 per annullare, 3 per riascoltare il mio ultimo messaggio o 9 per continuare su WhatsApp.",
+    elapsed: (minutes) => minutes < 1 ? "meno di un minuto" : minutes === 1 ? "1 minuto" : `${minutes} minuti`,
+    stillWorking: (elapsed) => `Ci sto ancora lavorando, da ${elapsed}.`,
+    latestUpdate: (progress) => `Ultimo aggiornamento: ${progress}`,
+    noUpdates: "Ancora nessun aggiornamento.",
+    notWorking: "Non sto ancora lavorando a niente per questa chiamata.",
+    taskFinished: "Il lavoro è finito. Tra un attimo ti dico il risultato.",
+    taskStopped: "Il lavoro si è interrotto prima di finire.",
+    nothingSaid: "Non ho ancora detto niente.",
+    nothingToCancel: "Non c'è niente in corso da annullare.",
+    cancelled: "Annullato. Cosa vuoi che faccia invece?",
+    whatsAppContinuing: (running) => `Continuiamo qui la nostra chiamata. ${running ? "Ci sto ancora lavorando e manderò il risultato in questa chat." : "Rispondi per riprendere da dove eravamo rimasti."}`,
+    whatsAppHandoff: "Va bene, continuiamo su WhatsApp. Ciao!",
+    whatsAppUnavailable: "Mi dispiace, non riesco a raggiungerti su WhatsApp.",
+    whatsAppFailed: "Mi dispiace, non sono riuscito a raggiungerti su WhatsApp.",
+    taskDone: (summary) => `Ho finito il lavoro che mi hai chiesto. ${summary}`,
+    taskDoneMessage: (summary) => `Claude ha finito il lavoro che gli hai chiesto. ${summary}`,
+    voicemail: (summary, sentBy) => `Ciao, sono Claude. ${summary} ${sentBy ? `Ti ho mandato i dettagli ${sentBy === "whatsapp" ? "su WhatsApp" : "per SMS"}.` : "Richiamami per i dettagli."}`,
+    voicemailMessage: (summary) => `Claude ti ha chiamato ed è scattata la segreteria. ${summary}`,
+    noUpdate: "Ho delle novità per te.",
+  },
+  pt: {
+    greeting: (name) => `Olá${name ? ` ${name}` : ""}! Aqui é o Claude. Em que você quer que eu trabalhe?`,
+    gatherHint: "Aperte a tecla jogo da velha quando terminar de falar.",
+    thinking: "Entendi. Deixa eu pensar...",
+    didNotCatch: "Não entendi. Pode repetir?",
+    finished: (summary) => `Terminei. ${summary}. Quer que eu faça mais alguma coisa?`,
+    callback: (summary) => `Olá, aqui é o Claude. Terminei a tarefa que você pediu. ${summary}. Quer que eu faça mais alguma coisa?`,
+    authPrompt: (name) => `Olá${name ? ` ${name}` : ""}! Aqui é o Claude. Diga sua senha ou digite seu PIN seguido de jogo da velha.`,
+    authVerified: "Obrigado, você está verificado. Em que você quer que eu trabalhe?",
+    authRetry: "Não confere. Tente de novo.",
+    authLocked: "Tentativas demais sem sucesso. Tchau.",
+    confirmHeard: (transcript) => `Entendi: ${transcript}. Está certo? Diga sim, ou repita.`,
+    sayAgain: "Desculpe. Pode repetir?",
+    yes: ["sim", "isso", "certo", "correto", "isso mesmo"],
+    no: ["não", "nao", "errado", "não é isso"],
+    codeElided: (lines) => `Deixei de fora um trecho de código de ${lines} ${lines === 1 ? "linha" : "linhas"}.`,
+    linksSent: (count) => `Te mandei ${count === 1 ? "o link" : "os links"} pelo WhatsApp.`,
+    linksOmitted: (count) => `Deixei de fora ${count === 1 ? "um link" : `${count} links`}.`,
+    holdMenu: "Enquanto espera, aperte 1 para saber o andamento, 2 para cancelar, 3 para repetir minha última mensagem ou 9 para continuar no WhatsApp.",
+    elapsed: (minutes) => minutes < 1 ? "menos de um minuto" : minutes === 1 ? "1 minuto" : `${minutes} minutos`,
+    stillWorking: (elapsed) => `Ainda estou trabalhando, já faz ${elapsed}.`,
+    latestUpdate: (progress) => `Última atualização: ${progress}`,
+    noUpdates: "Ainda sem atualizações.",
+    notWorking: "Ainda não estou trabalhando em nada nesta ligação.",
+    taskFinished: "A tarefa terminou. Já te conto o resultado.",
+    taskStopped: "A tarefa parou antes de terminar.",
+    nothingSaid: "Ainda não disse nada.",
+    nothingToCancel: "Não tem nada em andamento para cancelar.",
+    cancelled: "Cancelado. O que você quer que eu faça no lugar?",
+    whatsAppContinuing: (running) => `Continuando nossa ligação aqui. ${running ? "Ainda estou trabalhando nisso e vou mandar o resultado neste chat." : "Responda para continuar de onde paramos."}`,
+    whatsAppHandoff: "Beleza, vamos continuar no WhatsApp. Tchau!",
+    whatsAppUnavailable: "Desculpe, não consigo falar com você pelo WhatsApp.",
+    whatsAppFailed: "Desculpe, não consegui falar com você pelo WhatsApp.",
+    taskDone: (summary) => `Terminei a tarefa que você pediu. ${summary}`,
+    taskDoneMessage: (summary) => `O Claude terminou a tarefa que você pediu. ${summary}`,
+    voicemail: (summary, sentBy) => `Olá, aqui é o Claude. ${summary} ${sentBy ? `Te mandei os detalhes ${sentBy === "whatsapp" ? "pelo WhatsApp" : "por SMS"}.` : "Me ligue de volta para os detalhes."}`,
+    voicemailMessage: (summary) => `O Claude ligou e caiu na sua caixa postal. ${summary}`,
+    noUpdate: "Tenho novidades para você.",
+  },
+};
+
+/**
+ * Canonical BCP-47 tag for a language ("es" -> "es-ES", "pt-br" -> "pt-BR")
+ * @throws Error for strings that are not language tags
+ */
+export function normalizeLanguage(tag: string): string {
+  const match = tag.trim().match(/^([a-z]{2,3})(?:[-_]([a-z0-9]{2,8}))?$/i);
+  if (!match) {
+    throw new Error(`Invalid language: ${tag} (expected a tag like en-US or es)`);
+  }
+  const language = match[1].toLowerCase();
+  if (!match[2]) {
+    return DEFAULT_REGIONS[language] ?? language;
+  }
+  return `${language}-${match[2].length === 2 ? match[2].toUpperCase() : match[2]}`;
+}
+
+/**
+ * The ISO 639-1 code Whisper takes for a language tag
+ */
+export function whisperLanguage(tag: string): string {
+  return tag.split("-")[0].toLowerCase();
+}
+
+/**
+ * The language tag for a language Whisper detected (a name like "spanish", or a code)
+ * @returns undefined for languages we can't place
+ */
+export function languageFromWhisper(detected: string): string | undefined {
+  const name = detected.trim().toLowerCase();
+  const code = WHISPER_NAMES[name] ?? (/^[a-z]{2}$/.test(name) ? name : undefined);
+  return code ? normalizeLanguage(code) : undefined;
+}
+
+/**
+ * English name of a language, for instructions to Claude ("es-ES" -> "Spanish")
+ */
+export function languageName(tag: string): string {
+  return new Intl.DisplayNames(["en"], { type: "language" }).of(whisperLanguage(tag)) ?? tag;
+}
+
+/**
+ * The Twilio <Say> voice for a language: alice where she speaks it, else a Polly voice
+ */
+export function sayVoice(tag: string): string {
+  if (ALICE_LOCALES.has(tag)) {
+    return "alice";
+  }
+  return POLLY_VOICES[whisperLanguage(tag)] ?? "alice";
+}
+
+/**
+ * Whether a language is English (Claude needs no language instructions then)
+ */
+export function isEnglish(tag: string): boolean {
+  return whisperLanguage(tag) === "en";
+}
+
+/**
+ * Fixed call prompts in a language, falling back to English
+ */
+export function phrasesFor(tag: string = DEFAULT_LANGUAGE): CallPhrases {
+  return PHRASES[whisperLanguage(tag)] ?? PHRASES.en;
+}
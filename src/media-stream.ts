@@ -0,0 +1,456 @@
+/**
+ * Media Streams
+ * Real-time call audio over WebSockets (Twilio Media Streams, Telnyx media
+ * streaming). Caller audio is split into utterances with voice activity
+ * detection and transcribed; speech is synthesized and streamed back into the
+ * call. Once a call is streaming, PhoneCallManager.speakToCall goes through
+ * here instead of TwiML/Call Control round-trips.
+ */
+
+import {
+  PHONE_SAMPLE_RATE,
+  VoiceActivityDetector,
+  downsample,
+  mulawDecode,
+  mulawEncode,
+  pcmFromBytes,
+  pcmToWav,
+  type VadOptions,
+} from "./audio.js";
+import { EventBus } from "./events.js";
+
+export type MediaProvider = "telnyx" | "twilio";
+
+/** Sample rate of synthesized speech (OpenAI "pcm" output) */
+export const TTS_SAMPLE_RATE = 24000;
+
+/** 20ms of phone audio, the frame size both providers use */
+const FRAME_BYTES = 160;
+
+/** mu-law encoding of silence, used to pad the last frame */
+const MULAW_SILENCE = 0xff;
+
+/** Extra time allowed for the provider to confirm playback finished */
+const PLAYBACK_GRACE_MS = 2000;
+
+export interface MediaStreamEvents {
+  "stream.started": {
+    conversationId: string;
+    providerCallId: string;
+    provider: MediaProvider;
+  };
+  "stream.stopped": {
+    conversationId: string;
+    providerCallId: string;
+  };
+  utterance: {
+    conversationId: string;
+    providerCallId: string;
+    transcript: string;
+    /** How sure the transcriber is of it (0-1), if it says */
+    confidence?: number;
+    /** The caller started this utterance over our speech, which was cut off */
+    interrupted: boolean;
+  };
+  dtmf: {
+    conversationId: string;
+    providerCallId: string;
+    digit: string;
+  };
+}
+
+/**
+ * Provider-neutral view of one WebSocket message from the provider
+ */
+export type MediaFrame =
+  | { event: "start"; streamId: string; providerCallId: string }
+  | { event: "media"; audio: Uint8Array }
+  | { event: "mark"; name: string }
+  | { event: "dtmf"; digit: string }
+  | { event: "stop" }
+  | { event: "other" };
+
+/**
+ * Messages we send to the provider
+ */
+export type OutboundMediaFrame =
+  | { event: "media"; audio: Uint8Array }
+  | { event: "mark"; name: string }
+  | { event: "clear" };
+
+/**
+ * Parse a WebSocket message from Twilio or Telnyx
+ */
+export function parseMediaFrame(provider: MediaProvider, raw: string): MediaFrame {
+  let msg: any;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    return { event: "other" };
+  }
+
+  switch (msg?.event) {
+    case "start":
+      return provider === "twilio"
+        ? { event: "start", streamId: msg.streamSid || msg.start?.streamSid || "", providerCallId: msg.start?.callSid || "" }
+        : { event: "start", streamId: msg.stream_id || "", providerCallId: msg.start?.call_control_id || "" };
+    case "media":
+      // Bidirectional Telnyx streams can echo our own audio on the outbound track
+      if (!msg.media?.payload || (msg.media.track && msg.media.track !== "inbound" && msg.media.track !== "inbound_track")) {
+        return { event: "other" };
+      }
+      return { event: "media", audio: new Uint8Array(Buffer.from(msg.media.payload, "base64")) };
+    case "mark":
+      return { event: "mark", name: msg.mark?.name || "" };
+    case "dtmf":
+      return msg.dtmf?.digit ? { event: "dtmf", digit: String(msg.dtmf.digit) } : { event: "other" };
+    case "stop":
+      return { event: "stop" };
+    default:
+      return { event: "other" };
+  }
+}
+
+/**
+ * Serialize a message for the provider's WebSocket
+ */
+export function formatMediaFrame(provider: MediaProvider, streamId: string, frame: OutboundMediaFrame): string {
+  // Twilio addresses every message to the stream; Telnyx infers it from the socket
+  const envelope = provider === "twilio" ? { event: frame.event, streamSid: streamId } : { event: frame.event };
+  switch (frame.event) {
+    case "media":
+      return JSON.stringify({ ...envelope, media: { payload: Buffer.from(frame.audio).toString("base64") } });
+    case "mark":
+      return JSON.stringify({ ...envelope, mark: { name: frame.name } });
+    case "clear":
+      return JSON.stringify(envelope);
+  }
+}
+
+export interface MediaSocket {
+  send(data: string): void;
+  close(): void;
+}
+
+export interface MediaStreamOptions {
+  /** Transcribe one utterance (WAV, 8kHz mono) */
+  transcribe: (wav: Buffer, conversationId: string) => Promise<{ text: string; confidence?: number }>;
+  /** Synthesize speech as 16-bit little-endian PCM at TTS_SAMPLE_RATE, chunk by chunk */
+  synthesize: (text: string) => AsyncIterable<Uint8Array>;
+  /** Voice activity detection settings */
+  vad?: VadOptions;
+}
+
+/**
+ * Handlers for one provider WebSocket
+ */
+export interface MediaStreamConnection {
+  receive(raw: string): void;
+  close(): void;
+}
+
+interface StreamGrant {
+  provider: MediaProvider;
+  conversationId: string;
+  greeting?: string;
+}
+
+/**
+ * One streaming call
+ */
+class MediaStreamSession {
+  providerCallId = "";
+  private streamId = "";
+  private vad: VoiceActivityDetector;
+  private playback: Promise<void> = Promise.resolve();
+  private pendingMarks: Map<string, () => void> = new Map();
+  private markCount = 0;
+  private closed = false;
+  private playing = false;
+  /** Set by barge-in to stop the turn being played */
+  private cutOff = false;
+  /** Barge-in happened and the utterance that caused it hasn't been transcribed yet */
+  private interrupted = false;
+
+  constructor(
+    readonly provider: MediaProvider,
+    readonly conversationId: string,
+    private socket: MediaSocket,
+    private options: MediaStreamOptions,
+    private events: EventBus<MediaStreamEvents>
+  ) {
+    this.vad = new VoiceActivityDetector(options.vad);
+  }
+
+  /**
+   * Handle a frame; returns true when the stream has just started
+   */
+  handle(frame: MediaFrame): boolean {
+    switch (frame.event) {
+      case "start":
+        this.streamId = frame.streamId;
+        this.providerCallId = frame.providerCallId;
+        return true;
+      case "media": {
+        if (!this.providerCallId) return false;
+        const wasSpeaking = this.vad.isSpeaking();
+        const utterance = this.vad.push(mulawDecode(frame.audio));
+        if (!wasSpeaking && this.vad.isSpeaking() && this.playing) {
+          this.bargeIn();
+        }
+        if (utterance) {
+          this.transcribe(utterance);
+        }
+        return false;
+      }
+      case "mark":
+        this.pendingMarks.get(frame.name)?.();
+        return false;
+      case "dtmf":
+        if (this.providerCallId) {
+          this.events.emit("dtmf", { conversationId: this.conversationId, providerCallId: this.providerCallId, digit: frame.digit });
+        }
+        return false;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Speak text into the call; resolves once the provider has played it
+   * or the caller cut it off. Calls made while something is playing queue up behind it.
+   */
+  speak(text: string): Promise<void> {
+    const turn = this.playback.then(() => this.play(text));
+    // A failed turn must not block the ones queued after it
+    this.playback = turn.catch(() => {});
+    return turn;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    // Whatever the caller said right before hanging up still counts
+    const utterance = this.vad.flush();
+    if (utterance) {
+      this.transcribe(utterance);
+    }
+    for (const resolve of this.pendingMarks.values()) {
+      resolve();
+    }
+    this.pendingMarks.clear();
+  }
+
+  /**
+   * The caller started talking over us: drop the audio the provider has buffered
+   */
+  private bargeIn(): void {
+    console.error(`[MediaStream] Caller interrupted ${this.conversationId}`);
+    this.cutOff = true;
+    this.interrupted = true;
+    this.send({ event: "clear" });
+    for (const resolve of this.pendingMarks.values()) {
+      resolve();
+    }
+  }
+
+  private transcribe(utterance: Int16Array): void {
+    const providerCallId = this.providerCallId;
+    const interrupted = this.interrupted;
+    this.interrupted = false;
+    this.options
+      .transcribe(pcmToWav(utterance, PHONE_SAMPLE_RATE), this.conversationId)
+      .then(({ text, confidence }) => {
+        const transcript = text.trim();
+        if (transcript) {
+          this.events.emit("utterance", { conversationId: this.conversationId, providerCallId, transcript, confidence, interrupted });
+        }
+      })
+      .catch((error) => {
+        console.error(`[MediaStream] Transcription failed for ${this.conversationId}:`, error);
+      });
+  }
+
+  private async play(text: string): Promise<void> {
+    if (this.closed) {
+      throw new Error(`Media stream for ${this.conversationId} is closed`);
+    }
+
+    this.playing = true;
+    this.cutOff = false;
+    try {
+      await this.stream(text);
+    } finally {
+      this.playing = false;
+    }
+  }
+
+  private async stream(text: string): Promise<void> {
+
+    let byteCarry: Uint8Array = new Uint8Array(0);
+    let sampleCarry: Int16Array = new Int16Array(0);
+    let pending: Uint8Array = new Uint8Array(0);
+    let sentBytes = 0;
+    const ratio = TTS_SAMPLE_RATE / PHONE_SAMPLE_RATE;
+
+    for await (const chunk of this.options.synthesize(text)) {
+      if (this.cutOff) return;
+      // Chunks can split a sample, and resampling needs whole windows
+      const bytes = concatBytes(byteCarry, chunk);
+      const evenLength = bytes.length - (bytes.length % 2);
+      byteCarry = bytes.slice(evenLength);
+
+      const samples = concatSamples(sampleCarry, pcmFromBytes(bytes.subarray(0, evenLength)));
+      const usable = samples.length - (samples.length % ratio);
+      sampleCarry = samples.slice(usable);
+
+      pending = concatBytes(pending, mulawEncode(downsample(samples.subarray(0, usable), TTS_SAMPLE_RATE, PHONE_SAMPLE_RATE)));
+      while (pending.length >= FRAME_BYTES) {
+        this.send({ event: "media", audio: pending.subarray(0, FRAME_BYTES) });
+        pending = pending.slice(FRAME_BYTES);
+        sentBytes += FRAME_BYTES;
+      }
+    }
+
+    if (pending.length > 0) {
+      const last = new Uint8Array(FRAME_BYTES).fill(MULAW_SILENCE);
+      last.set(pending);
+      this.send({ event: "media", audio: last });
+      sentBytes += FRAME_BYTES;
+    }
+
+    // The socket may have closed, or the caller barged in, while we were synthesizing
+    if (this.closed || this.cutOff) return;
+
+    // The provider echoes the mark back once everything before it has played
+    const name = `speech-${++this.markCount}`;
+    const durationMs = (sentBytes / PHONE_SAMPLE_RATE) * 1000;
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(done, durationMs + PLAYBACK_GRACE_MS);
+      function done() {
+        clearTimeout(timeout);
+        resolve();
+      }
+      this.pendingMarks.set(name, () => {
+        this.pendingMarks.delete(name);
+        done();
+      });
+      this.send({ event: "mark", name });
+    });
+  }
+
+  private send(frame: OutboundMediaFrame): void {
+    if (this.closed) return;
+    this.socket.send(formatMediaFrame(this.provider, this.streamId, frame));
+  }
+}
+
+export class MediaStreamManager {
+  /** Stream lifecycle, transcribed utterances and keypresses */
+  readonly events = new EventBus<MediaStreamEvents>();
+  private sessions: Map<string, MediaStreamSession> = new Map();
+  private grants: Map<string, StreamGrant> = new Map();
+  private getPublicUrl: () => string;
+  private options: MediaStreamOptions;
+
+  constructor(getPublicUrl: () => string, options: MediaStreamOptions) {
+    this.getPublicUrl = getPublicUrl;
+    this.options = options;
+  }
+
+  /**
+   * WebSocket URL for a call's media stream
+   * The URL carries a one-time token so only the provider we handed it to can connect.
+   * @param greeting Spoken as soon as the stream starts
+   */
+  streamUrl(provider: MediaProvider, conversationId: string, greeting?: string): string {
+    const token = crypto.randomUUID();
+    this.grants.set(token, { provider, conversationId, greeting });
+    const base = this.getPublicUrl().replace(/^http/, "ws");
+    return `${base}/media/${provider}/${conversationId}/${token}`;
+  }
+
+  /**
+   * Whether a WebSocket request for this path was granted by streamUrl
+   */
+  isGranted(provider: string, conversationId: string, token: string): boolean {
+    const grant = this.grants.get(token);
+    return grant?.provider === provider && grant.conversationId === conversationId;
+  }
+
+  /**
+   * Attach a provider WebSocket
+   * @returns Handlers for the socket, or undefined if the token is not valid
+   */
+  connect(provider: MediaProvider, conversationId: string, token: string, socket: MediaSocket): MediaStreamConnection | undefined {
+    if (!this.isGranted(provider, conversationId, token)) {
+      return undefined;
+    }
+    const { greeting } = this.grants.get(token)!;
+    this.grants.delete(token);
+
+    const session = new MediaStreamSession(provider, conversationId, socket, this.options, this.events);
+    console.error(`[MediaStream] ${provider} socket connected for ${conversationId}`);
+
+    return {
+      receive: (raw) => {
+        const frame = parseMediaFrame(provider, raw);
+        if (frame.event === "stop") {
+          this.detach(session);
+          return;
+        }
+        if (session.handle(frame)) {
+          this.sessions.set(session.providerCallId, session);
+          console.error(`[MediaStream] Streaming call ${session.providerCallId} (${conversationId})`);
+          this.events.emit("stream.started", { conversationId, providerCallId: session.providerCallId, provider });
+          if (greeting) {
+            session.speak(greeting).catch((error) => {
+              console.error(`[MediaStream] Greeting failed for ${conversationId}:`, error);
+            });
+          }
+        }
+      },
+      close: () => this.detach(session),
+    };
+  }
+
+  isStreaming(providerCallId: string): boolean {
+    return this.sessions.has(providerCallId);
+  }
+
+  /**
+   * Speak into a streaming call; resolves once it has been played
+   */
+  async speak(providerCallId: string, text: string): Promise<void> {
+    const session = this.sessions.get(providerCallId);
+    if (!session) {
+      throw new Error(`No media stream for call ${providerCallId}`);
+    }
+    await session.speak(text);
+  }
+
+  private detach(session: MediaStreamSession): void {
+    session.close();
+    if (session.providerCallId && this.sessions.get(session.providerCallId) === session) {
+      this.sessions.delete(session.providerCallId);
+      console.error(`[MediaStream] Stream ended for ${session.providerCallId}`);
+      this.events.emit("stream.stopped", { conversationId: session.conversationId, providerCallId: session.providerCallId });
+    }
+  }
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+function concatSamples(a: Int16Array, b: Int16Array): Int16Array {
+  if (a.length === 0) return b;
+  const out = new Int16Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
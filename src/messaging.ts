@@ -3,6 +3,8 @@
  * Handles SMS and WhatsApp messaging via Telnyx (primary) or Twilio
  */
 
+import { downloadFromProvider } from "./provider-download.js";
+
 export interface MessagingConfig {
   phoneProvider: "telnyx" | "twilio";
   whatsappProvider?: "baileys";
@@ -12,13 +14,24 @@ export interface MessagingConfig {
   whatsappNumber?: string;  // Separate WhatsApp number (e.g., Twilio Sandbox)
 }
 
+/** A file sent with an inbound message: a provider URL to download, or the bytes themselves (Baileys) */
+export interface InboundMedia {
+  contentType: string;
+  url?: string;
+  data?: Buffer;
+  fileName?: string;
+}
+
 export interface InboundMessageData {
   type: "sms" | "whatsapp";
   messageId: string;
   from: string;
   to: string;
+  /** Message text, or the caption of the media (may be empty for media alone) */
   content: string;
   timestamp?: Date;
+  /** Photos, documents and other files sent with the message (MMS, WhatsApp) */
+  media?: InboundMedia[];
 }
 
 export interface MessageStatusData {
@@ -63,20 +76,21 @@ export class MessagingManager {
 
   /**
    * Send an SMS message
+   * @param statusCallbackUrl Where the provider posts delivery receipts for this message
    * @returns The message ID from the provider
    */
-  async sendSMS(to: string, message: string): Promise<string> {
+  async sendSMS(to: string, message: string, statusCallbackUrl?: string): Promise<string> {
     const normalizedTo = this.normalizePhoneNumber(to);
     console.error(`[Messaging] Sending SMS to ${normalizedTo}: ${message.slice(0, 50)}...`);
 
     if (this.config.phoneProvider === "telnyx") {
-      return this.sendTelnyxSMS(normalizedTo, message);
+      return this.sendTelnyxSMS(normalizedTo, message, statusCallbackUrl);
     } else {
-      return this.sendTwilioSMS(normalizedTo, message);
+      return this.sendTwilioSMS(normalizedTo, message, statusCallbackUrl);
     }
   }
 
-  private async sendTelnyxSMS(to: string, message: string): Promise<string> {
+  private async sendTelnyxSMS(to: string, message: string, statusCallbackUrl?: string): Promise<string> {
     const response = await fetch("https://api.telnyx.com/v2/messages", {
       method: "POST",
       headers: {
@@ -88,6 +102,7 @@ export class MessagingManager {
         to,
         text: message,
         type: "SMS",
+        ...(statusCallbackUrl && { webhook_url: statusCallbackUrl }),
       }),
     });
 
@@ -102,7 +117,7 @@ export class MessagingManager {
     return messageId;
   }
 
-  private async sendTwilioSMS(to: string, message: string): Promise<string> {
+  private async sendTwilioSMS(to: string, message: string, statusCallbackUrl?: string): Promise<string> {
     const auth = Buffer.from(
       `${this.config.phoneAccountSid}:${this.config.phoneAuthToken}`
     ).toString("base64");
@@ -124,6 +139,7 @@ export class MessagingManager {
           From: normalizedFrom,
           To: to,
           Body: message,
+          ...(statusCallbackUrl && { StatusCallback: statusCallbackUrl }),
         }),
       }
     );
@@ -146,9 +162,10 @@ export class MessagingManager {
 
   /**
    * Send a WhatsApp message
+   * @param statusCallbackUrl Where the provider posts delivery receipts (ignored by Baileys)
    * @returns The message ID from the provider
    */
-  async sendWhatsApp(to: string, message: string): Promise<string> {
+  async sendWhatsApp(to: string, message: string, statusCallbackUrl?: string): Promise<string> {
     const normalizedTo = this.normalizePhoneNumber(to);
     console.error(`[Messaging] Sending WhatsApp to ${normalizedTo}: ${message.slice(0, 50)}...`);
 
@@ -158,9 +175,9 @@ export class MessagingManager {
     }
 
     if (this.config.phoneProvider === "telnyx") {
-      return this.sendTelnyxWhatsApp(normalizedTo, message);
+      return this.sendTelnyxWhatsApp(normalizedTo, message, statusCallbackUrl);
     } else {
-      return this.sendTwilioWhatsApp(normalizedTo, message);
+      return this.sendTwilioWhatsApp(normalizedTo, message, statusCallbackUrl);
     }
   }
 
@@ -190,7 +207,7 @@ export class MessagingManager {
     throw new Error("Baileys send failed after retries");
   }
 
-  private async sendTelnyxWhatsApp(to: string, message: string): Promise<string> {
+  private async sendTelnyxWhatsApp(to: string, message: string, statusCallbackUrl?: string): Promise<string> {
     // Telnyx WhatsApp API
     // Note: Requires WhatsApp Business setup in Telnyx portal
     const response = await fetch("https://api.telnyx.com/v2/messages", {
@@ -205,6 +222,7 @@ export class MessagingManager {
         text: message,
         type: "whatsapp", // Telnyx uses messaging profile for WhatsApp
         messaging_profile_id: this.config.phoneAccountSid, // Use account SID as messaging profile
+        ...(statusCallbackUrl && { webhook_url: statusCallbackUrl }),
       }),
     });
 
@@ -219,7 +237,7 @@ export class MessagingManager {
     return messageId;
   }
 
-  private async sendTwilioWhatsApp(to: string, message: string): Promise<string> {
+  private async sendTwilioWhatsApp(to: string, message: string, statusCallbackUrl?: string): Promise<string> {
     const auth = Buffer.from(
       `${this.config.phoneAccountSid}:${this.config.phoneAuthToken}`
     ).toString("base64");
@@ -249,6 +267,7 @@ export class MessagingManager {
           From: whatsappFrom,
           To: whatsappTo,
           Body: message,
+          ...(statusCallbackUrl && { StatusCallback: statusCallbackUrl }),
         }),
       }
     );
@@ -263,6 +282,13 @@ export class MessagingManager {
     return data.sid;
   }
 
+  /**
+   * Download media sent with an inbound message (Twilio media only from api.twilio.com; see provider-download.ts)
+   */
+  async downloadMedia(url: string): Promise<Buffer> {
+    return downloadFromProvider(url, this.config, "Media");
+  }
+
   /**
    * Parse an inbound message webhook
    */
@@ -284,6 +310,9 @@ export class MessagingManager {
     }
 
     const type = payload.type === "whatsapp" ? "whatsapp" : "sms";
+    const media: InboundMedia[] = (payload.media || [])
+      .filter((item: any) => item?.url)
+      .map((item: any) => ({ url: item.url, contentType: item.content_type || "application/octet-stream" }));
 
     return {
       type,
@@ -292,12 +321,22 @@ export class MessagingManager {
       to: payload.to?.[0]?.phone_number || payload.to || "",
       content: payload.text || "",
       timestamp: payload.received_at ? new Date(payload.received_at) : new Date(),
+      ...(media.length > 0 && { media }),
     };
   }
 
   private parseTwilioInboundMessage(body: any): InboundMessageData | null {
-    // Twilio sends form-encoded data for inbound messages
-    if (!body?.Body) {
+    // Twilio sends form-encoded data for inbound messages, with media as MediaUrl0..MediaUrlN
+    const media: InboundMedia[] = [];
+    for (let i = 0; i < parseInt(body?.NumMedia || "0"); i++) {
+      if (body[`MediaUrl${i}`]) {
+        media.push({
+          url: body[`MediaUrl${i}`],
+          contentType: body[`MediaContentType${i}`] || "application/octet-stream",
+        });
+      }
+    }
+    if (!body?.Body && media.length === 0) {
       return null;
     }
 
@@ -312,6 +351,7 @@ export class MessagingManager {
       to: (body.To || "").replace("whatsapp:", ""),
       content: body.Body || "",
       timestamp: new Date(),
+      ...(media.length > 0 && { media }),
     };
   }
 
@@ -4,12 +4,26 @@
  * Enables Claude to communicate with users during phone calls
  */
 
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { timingSafeEqual } from "crypto";
 import type { PhoneCallManager } from "./phone-call.js";
-import { ConversationManager, ChannelType, ConversationDirection, ConversationState } from "./conversation-manager.js";
+import { ConversationManager, ChannelType, ConversationDirection, ConversationState, type Conversation } from "./conversation-manager.js";
 import type { TaskExecutor } from "./task-executor.js";
 import type { MessagingManager } from "./messaging.js";
 import type { WhatsAppChatManager } from "./whatsapp-chat.js";
+import { createContactRegistry, type Contact, type ContactRegistry } from "./contacts.js";
+import {
+  CallbackEscalation,
+  DEFAULT_ESCALATION_POLICY,
+  type CallOutcome,
+  type Escalation,
+  type EscalationPolicy,
+} from "./callback-escalation.js";
+import { exportConversation, isExportFormat, EXPORT_CONTENT_TYPES, EXPORT_FORMATS } from "./conversation-export.js";
+import { DEFAULT_LANGUAGE, normalizeLanguage, phrasesFor } from "./language.js";
+import { isScheduledChannel, SCHEDULED_CHANNELS, type Scheduler } from "./scheduler.js";
+import type { ConversationEvents, TaskEvents } from "./events.js";
 
 export interface PendingQuestion {
   resolve: (answer: string) => void;
@@ -19,6 +33,42 @@ export interface PendingQuestion {
 export interface PhoneAPIConfig {
   phoneProvider: "telnyx" | "twilio";
   userPhoneNumber: string;
+  /** Registered contacts (default: just userPhoneNumber) */
+  contacts?: ContactRegistry;
+  /** Media stream URL for a new call, when calls stream audio instead of using Gather */
+  streamUrl?: (conversationId: string, greeting: string) => string | undefined;
+  /** How /complete keeps trying to reach a user who hung up (default: DEFAULT_ESCALATION_POLICY) */
+  escalation?: EscalationPolicy;
+  /** Language for users without one of their own (default: en-US) */
+  language?: string;
+  /** Scheduled calls and messages, for /schedule */
+  scheduler?: Scheduler;
+  /** Bearer token /events requires; without one, /events only serves requests made on this machine */
+  eventsToken?: string;
+  /** The address a request came from, when the server knows it */
+  remoteAddress?: (c: Context) => string | undefined;
+}
+
+/** How often an idle /api/events stream sends a keepalive comment */
+const EVENT_STREAM_KEEPALIVE_MS = 15000;
+
+/** Events the /api/events stream forwards */
+type StreamedEvents = ConversationEvents & TaskEvents;
+
+/** Headers a proxy such as Tailscale Funnel adds, marking requests that only look local */
+const FORWARDING_HEADERS = ["x-forwarded-for", "forwarded", "tailscale-funnel-request"];
+
+/** Longest summary read into a voicemail; the full text is sent as a message */
+const VOICEMAIL_SUMMARY_CHARS = 200;
+
+/**
+ * Shorten a summary for a voicemail, cutting at a word boundary
+ */
+export function voicemailSummary(summary: string): string {
+  if (summary.length <= VOICEMAIL_SUMMARY_CHARS) {
+    return summary;
+  }
+  return `${summary.slice(0, VOICEMAIL_SUMMARY_CHARS).replace(/\s+\S*$/, "")}...`;
 }
 
 export interface PendingWhatsAppWait {
@@ -38,6 +88,101 @@ export function createPhoneAPI(
   const api = new Hono();
   const pendingQuestions = new Map<string, PendingQuestion>();
   const pendingWhatsAppWaits = new Map<string, PendingWhatsAppWait>();
+  const contacts = config.contacts ?? createContactRegistry([], config.userPhoneNumber);
+
+  /**
+   * The language to speak to someone in: the conversation's, then the contact's
+   */
+  function languageFor(conversation?: Conversation, contact?: Contact): string {
+    return conversation?.metadata?.language || contact?.language || config.language || DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * The language to report a finished task in: the original conversation's, then the contact's
+   */
+  function escalationLanguage(escalation: Escalation): string {
+    return languageFor(
+      conversationManager.getConversation(escalation.originalConversationId),
+      contacts.findByNumber(escalation.phoneNumber)
+    );
+  }
+
+  const escalations = new CallbackEscalation(config.escalation ?? DEFAULT_ESCALATION_POLICY, {
+    call: async (escalation) => {
+      const publicUrl = getPublicUrl();
+      const newConversationId = crypto.randomUUID();
+      const language = escalationLanguage(escalation);
+
+      // Track the callback so its status webhooks and follow-ups reach the same person
+      conversationManager.createConversation(
+        newConversationId,
+        ChannelType.VOICE,
+        ConversationDirection.OUTBOUND,
+        "", // Provider ID will be updated when call is initiated
+        { to: escalation.phoneNumber, summary: phrasesFor(language).taskDone(escalation.summary), language }
+      );
+
+      // Link the callback conversation to the original so follow-ups have context
+      if (taskExecutor) {
+        taskExecutor.linkCallback(newConversationId, escalation.originalConversationId);
+      }
+
+      try {
+        const greeting = phrasesFor(language).callback(escalation.summary);
+        await phoneCallManager.initiateCall(
+          escalation.phoneNumber,
+          greeting,
+          `${publicUrl}/webhook/${config.phoneProvider}/status/${newConversationId}`,
+          `${publicUrl}/webhook/${config.phoneProvider}/gather/${newConversationId}`,
+          config.streamUrl?.(newConversationId, greeting),
+          language
+        );
+      } catch (error) {
+        conversationManager.updateState(newConversationId, ConversationState.ENDED);
+        throw error;
+      }
+      return newConversationId;
+    },
+    send: (channel, escalation) => {
+      if (!messagingManager) {
+        throw new Error("Messaging is not configured");
+      }
+      const text = phrasesFor(escalationLanguage(escalation)).taskDoneMessage(escalation.summary);
+      return channel === "sms"
+        ? messagingManager.sendSMS(escalation.phoneNumber, text)
+        : messagingManager.sendWhatsApp(escalation.phoneNumber, text);
+    },
+  });
+
+  /**
+   * Work out who a message should go to
+   * An explicit recipient wins, then whoever is on the other end of the conversation,
+   * then the default contact. Throws for recipients outside the contacts registry.
+   */
+  function resolveRecipient(recipient?: string, conversation?: Conversation): Contact {
+    if (recipient) {
+      return contacts.resolve(recipient);
+    }
+
+    const counterpart = conversation?.direction === ConversationDirection.INBOUND
+      ? conversation.metadata?.from
+      : conversation?.metadata?.to;
+    const contact = counterpart ? contacts.findByNumber(counterpart) : undefined;
+    return contact || contacts.resolve();
+  }
+
+  /**
+   * The messaging conversation an outbound /sms or /whatsapp message belongs to
+   * Only when it replies on the conversation's own channel to its own counterpart,
+   * so the message and its delivery receipts land in that thread.
+   */
+  function threadFor(conversationId: string | undefined, channel: ChannelType, recipient?: string): Conversation | undefined {
+    const conversation = conversationId ? conversationManager.getConversation(conversationId) : undefined;
+    if (!conversation || conversation.channel !== channel || recipient) {
+      return undefined;
+    }
+    return conversation;
+  }
 
   /**
    * POST /api/ask/:conversationId
@@ -80,6 +225,7 @@ export function createPhoneAPI(
         true,
         gatherUrl
       );
+      conversationManager.addMessage(conversationId, "assistant", message);
     } catch (error) {
       // Call may have ended - clean up and return
       console.error(`[PhoneAPI] Ask failed (call may have ended): ${error}`);
@@ -107,6 +253,8 @@ export function createPhoneAPI(
     const { message } = await c.req.json();
 
     console.error(`[PhoneAPI] Say: ${message}`);
+    // Say is how sessions report progress; the hold menu reads the latest back
+    taskExecutor?.recordProgress(conversationId, message);
 
     const conversation = conversationManager.getConversation(conversationId);
 
@@ -121,6 +269,7 @@ export function createPhoneAPI(
         message,
         false
       );
+      conversationManager.addMessage(conversationId, "assistant", message);
       return c.json({ success: true, delivered: true });
     } catch (error) {
       // Call may have ended
@@ -133,11 +282,12 @@ export function createPhoneAPI(
   /**
    * POST /api/complete/:conversationId
    * Report task completion - speaks if on call, calls back if not
+   * Unanswered callbacks escalate to retries, then SMS and WhatsApp (config.escalation)
    * Body: { "summary": "Created todo app in ./todo-app" }
    */
   api.post("/complete/:conversationId", async (c) => {
     const conversationId = c.req.param("conversationId");
-    const { summary } = await c.req.json();
+    const { summary, recipient } = await c.req.json();
     const publicUrl = getPublicUrl();
 
     console.error(`[PhoneAPI] Complete: ${summary}`);
@@ -153,12 +303,14 @@ export function createPhoneAPI(
     if (conversation && conversation.state !== "ended") {
       try {
         const gatherUrl = `${publicUrl}/webhook/${config.phoneProvider}/gather/${conversationId}`;
+        const message = phrasesFor(languageFor(conversation)).finished(summary);
         await phoneCallManager.speakToCall(
           conversation.providerConversationId,
-          `I've finished. ${summary}. Is there anything else you'd like me to do?`,
+          message,
           true,
           gatherUrl
         );
+        conversationManager.addMessage(conversationId, "assistant", message);
         return c.json({ delivered: "spoken" });
       } catch (error) {
         // Speaking failed - user probably hung up but we didn't get the status webhook
@@ -168,44 +320,85 @@ export function createPhoneAPI(
       }
     }
 
-    // User hung up (or speak failed) - call them back
-    console.error(`[PhoneAPI] Initiating callback to ${config.userPhoneNumber}`);
-    const newConversationId = crypto.randomUUID();
+    // User hung up (or speak failed) - reach whoever started the task
+    let contact: Contact;
+    try {
+      contact = resolveRecipient(recipient, conversation);
+    } catch (error) {
+      return c.json({ delivered: "failed", error: String(error), summary }, 400);
+    }
 
-    // Link the callback conversation to the original so follow-ups have context
-    if (taskExecutor) {
-      taskExecutor.linkCallback(newConversationId, conversationId);
+    // Users who prefer messaging, or moved the call to WhatsApp, get the summary as a text instead of a call
+    const channel = conversation?.metadata?.continueOn ?? contact.preferredChannel;
+    if (messagingManager && (channel === "sms" || channel === "whatsapp")) {
+      const text = phrasesFor(languageFor(conversation, contact)).taskDoneMessage(summary);
+      try {
+        const messageId = channel === "sms"
+          ? await messagingManager.sendSMS(contact.phoneNumber, text)
+          : await messagingManager.sendWhatsApp(contact.phoneNumber, text);
+        return c.json({ delivered: channel, messageId, recipient: contact.name });
+      } catch (error) {
+        console.error(`[PhoneAPI] ${channel} completion failed, calling instead: ${error}`);
+      }
     }
 
-    try {
-      await phoneCallManager.initiateCall(
-        config.userPhoneNumber,
-        `Hi, this is Claude. I finished the task you requested. ${summary}. Would you like me to do anything else?`,
-        `${publicUrl}/webhook/${config.phoneProvider}/status/${newConversationId}`,
-        `${publicUrl}/webhook/${config.phoneProvider}/gather/${newConversationId}`
-      );
-      return c.json({ delivered: "callback", newConversationId, originalConversationId: conversationId });
-    } catch (callError) {
-      console.error(`[PhoneAPI] Callback failed: ${callError}`);
+    console.error(`[PhoneAPI] Initiating callback to ${contact.name}`);
+    const escalation = await escalations.start(conversationId, contact, summary);
+
+    if (escalation.state === "failed") {
       return c.json({
         delivered: "failed",
         error: "Could not reach user",
         summary
       }, 500);
     }
+    if (escalation.deliveredVia === "sms" || escalation.deliveredVia === "whatsapp") {
+      return c.json({ delivered: escalation.deliveredVia, recipient: contact.name });
+    }
+
+    // The callback couldn't be placed and a retry is scheduled; /api/status on this conversation follows it
+    const call = escalation.steps[escalation.steps.length - 1];
+    if (!call.conversationId) {
+      return c.json({
+        delivered: "pending",
+        originalConversationId: conversationId,
+        recipient: contact.name,
+        escalation: escalation.state,
+        nextAttemptAt: escalation.nextAttemptAt,
+        error: call.error,
+      });
+    }
+
+    // Busy, unanswered and failed callbacks are retried, then fall back to messaging (see /api/status)
+    return c.json({
+      delivered: "callback",
+      newConversationId: call.conversationId,
+      originalConversationId: conversationId,
+      recipient: contact.name,
+      escalation: escalation.state,
+    });
   });
 
   /**
    * POST /api/call
    * Initiate a new call to the user
-   * Body: { "message": "Hi, I have a question about your request..." }
+   * Body: { "message": "Hi, I have a question about your request...", "recipient": "alice", "language": "es-ES" }
    */
   api.post("/call", async (c) => {
-    const { message } = await c.req.json();
+    const { message, recipient, language: requestedLanguage } = await c.req.json();
     const publicUrl = getPublicUrl();
 
     console.error(`[PhoneAPI] Initiating call: ${message}`);
 
+    let contact: Contact;
+    let language: string;
+    try {
+      contact = resolveRecipient(recipient);
+      language = requestedLanguage ? normalizeLanguage(requestedLanguage) : languageFor(undefined, contact);
+    } catch (error) {
+      return c.json({ error: String(error) }, 400);
+    }
+
     const conversationId = crypto.randomUUID();
 
     // Create conversation record BEFORE initiating call to track the conversation
@@ -214,41 +407,172 @@ export function createPhoneAPI(
       ChannelType.VOICE,
       ConversationDirection.OUTBOUND,
       "", // Provider ID will be updated when call is initiated
-      { to: config.userPhoneNumber }
+      { to: contact.phoneNumber, summary: message, language }
     );
 
     await phoneCallManager.initiateCall(
-      config.userPhoneNumber,
+      contact.phoneNumber,
       message,
       `${publicUrl}/webhook/${config.phoneProvider}/status/${conversationId}`,
-      `${publicUrl}/webhook/${config.phoneProvider}/gather/${conversationId}`
+      `${publicUrl}/webhook/${config.phoneProvider}/gather/${conversationId}`,
+      config.streamUrl?.(conversationId, message),
+      language
     );
 
     return c.json({ conversationId });
   });
 
+  /**
+   * POST /api/schedule
+   * Schedule a call or message for later, once or on a cron schedule (server local time)
+   * Body: { "channel": "voice", "message": "Your tests passed", "at": "2026-10-19T18:00:00+02:00", "conversationId": "..." }
+   * Use "delayMs" instead of "at" to run after a delay, or "cron": "0 9 * * 1-5" to repeat. Channel defaults to voice.
+   * Goes to the explicit recipient, else whoever is on the conversation, else the default contact
+   * Returns: { "job": { "id": "...", "nextRunAt": "..." } }
+   */
+  api.post("/schedule", async (c) => {
+    const { channel = "voice", message, recipient, conversationId, at, delayMs, cron, language } = await c.req.json();
+
+    if (!config.scheduler) {
+      return c.json({ error: "Scheduling not configured" }, 500);
+    }
+
+    try {
+      if (!isScheduledChannel(channel)) {
+        throw new Error(`Invalid channel: ${channel} (expected ${SCHEDULED_CHANNELS.join(", ")})`);
+      }
+      const job = config.scheduler.schedule({
+        channel,
+        recipient: resolveRecipient(recipient, conversationId ? conversationManager.getConversation(conversationId) : undefined).name,
+        message,
+        language: language ? normalizeLanguage(language) : undefined,
+        at: at ? new Date(at) : delayMs ? new Date(Date.now() + delayMs) : undefined,
+        cron,
+      });
+      return c.json({ job });
+    } catch (error) {
+      return c.json({ error: String(error) }, 400);
+    }
+  });
+
+  /**
+   * GET /api/schedule
+   * Scheduled calls and messages still to run, soonest first
+   */
+  api.get("/schedule", (c) => {
+    return c.json({ jobs: config.scheduler?.list() ?? [] });
+  });
+
+  /**
+   * DELETE /api/schedule/:jobId
+   * Cancel a scheduled call or message
+   */
+  api.delete("/schedule/:jobId", (c) => {
+    const jobId = c.req.param("jobId");
+    if (!config.scheduler?.cancel(jobId)) {
+      return c.json({ error: `Scheduled job ${jobId} not found` }, 404);
+    }
+    return c.json({ success: true });
+  });
+
   /**
    * GET /api/status/:conversationId
-   * Check if user is still on call
+   * Check if user is still on call, and how a /complete callback escalation is going
    */
   api.get("/status/:conversationId", (c) => {
     const conversationId = c.req.param("conversationId");
     const conversation = conversationManager.getConversation(conversationId);
 
+    const escalation = escalations.get(conversationId);
+
     return c.json({
       conversationId,
       active: conversation && conversation.state !== "ended",
-      state: conversation?.state || "not_found"
+      state: conversation?.state || "not_found",
+      ...(escalation && { escalation: { ...escalation, policy: escalations.policy } }),
+    });
+  });
+
+  /**
+   * GET /api/conversations/:conversationId/export?format=md|json|vtt|txt
+   * Render a conversation transcript (default: Markdown), including any linked task summary
+   */
+  api.get("/conversations/:conversationId/export", (c) => {
+    const conversationId = c.req.param("conversationId");
+    const format = c.req.query("format") || "md";
+
+    if (!isExportFormat(format)) {
+      return c.json({ error: `Invalid format: ${format} (expected ${EXPORT_FORMATS.join(", ")})` }, 400);
+    }
+
+    const conversation = conversationManager.getConversation(conversationId);
+    if (!conversation) {
+      return c.json({ error: `Conversation ${conversationId} not found` }, 404);
+    }
+
+    const body = exportConversation(conversation, format, taskExecutor?.getTaskContext(conversationId));
+    return c.body(body, 200, { "Content-Type": EXPORT_CONTENT_TYPES[format] });
+  });
+
+  /**
+   * GET /api/events
+   * Server-Sent Events stream of conversation and task events
+   * Query: ?types=message.added,state.changed to pick event types, ?conversationId=... for one conversation
+   * Each SSE message has `event` set to the event type and `data` set to the JSON payload
+   */
+  api.get("/events", (c) => {
+    if (!canReadEvents(c, config)) {
+      c.header("WWW-Authenticate", 'Bearer realm="events"');
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+
+    const types = new Set(
+      (c.req.query("types") || "").split(",").map((t) => t.trim()).filter(Boolean)
+    );
+    const conversationId = c.req.query("conversationId");
+
+    return streamSSE(c, async (stream) => {
+      let nextId = 0;
+      const forward = (type: keyof StreamedEvents, payload: StreamedEvents[keyof StreamedEvents]) => {
+        if (types.size > 0 && !types.has(type)) return;
+        if (conversationId && eventConversationId(payload) !== conversationId) return;
+        stream
+          .writeSSE({ event: type, data: JSON.stringify(payload), id: String(nextId++) })
+          .catch(() => {});
+      };
+
+      const unsubscribers = [conversationManager.events.onAny(forward)];
+      if (taskExecutor) {
+        unsubscribers.push(taskExecutor.events.onAny(forward));
+      }
+      const keepalive = setInterval(() => {
+        stream.write(": keepalive\n\n").catch(() => {});
+      }, EVENT_STREAM_KEEPALIVE_MS);
+      const disconnected = new Promise<void>((resolve) => {
+        stream.onAbort(() => {
+          clearInterval(keepalive);
+          unsubscribers.forEach((unsubscribe) => unsubscribe());
+          console.error("[PhoneAPI] Event stream closed");
+          resolve();
+        });
+      });
+      console.error(`[PhoneAPI] Event stream opened${conversationId ? ` for ${conversationId.slice(0, 8)}` : ""}`);
+
+      await stream.writeSSE({ event: "ready", data: JSON.stringify({ types: [...types], conversationId }) });
+
+      // Hold the stream open until the client disconnects
+      await disconnected;
     });
   });
 
   /**
    * POST /api/sms
    * Send an SMS to the user
-   * Body: { "message": "Here is the URL: https://..." }
+   * Body: { "message": "Here is the URL: https://...", "conversationId": "...", "recipient": "alice" }
+   * Goes to the explicit recipient, else whoever is on the conversation, else the default contact
    */
   api.post("/sms", async (c) => {
-    const { message } = await c.req.json();
+    const { message, recipient, conversationId } = await c.req.json();
 
     console.error(`[PhoneAPI] SMS: ${message}`);
 
@@ -256,8 +580,23 @@ export function createPhoneAPI(
       return c.json({ success: false, error: "Messaging not configured" }, 500);
     }
 
+    let contact: Contact;
     try {
-      const messageId = await messagingManager.sendSMS(config.userPhoneNumber, message);
+      contact = resolveRecipient(recipient, conversationId ? conversationManager.getConversation(conversationId) : undefined);
+    } catch (error) {
+      return c.json({ success: false, error: String(error) }, 400);
+    }
+
+    try {
+      const thread = threadFor(conversationId, ChannelType.SMS, recipient);
+      const messageId = await messagingManager.sendSMS(
+        contact.phoneNumber,
+        message,
+        thread && `${getPublicUrl()}/webhook/${config.phoneProvider}/message-status/${thread.id}`
+      );
+      if (thread) {
+        conversationManager.addMessage(thread.id, "assistant", message, { providerMessageId: messageId });
+      }
       return c.json({ success: true, messageId });
     } catch (error) {
       console.error(`[PhoneAPI] SMS failed: ${error}`);
@@ -268,10 +607,11 @@ export function createPhoneAPI(
   /**
    * POST /api/whatsapp
    * Send a WhatsApp message to the user
-   * Body: { "message": "Here is the URL: https://..." }
+   * Body: { "message": "Here is the URL: https://...", "conversationId": "...", "recipient": "alice" }
+   * Goes to the explicit recipient, else whoever is on the conversation, else the default contact
    */
   api.post("/whatsapp", async (c) => {
-    const { message } = await c.req.json();
+    const { message, recipient, conversationId } = await c.req.json();
 
     console.error(`[PhoneAPI] WhatsApp: ${message}`);
 
@@ -279,8 +619,23 @@ export function createPhoneAPI(
       return c.json({ success: false, error: "Messaging not configured" }, 500);
     }
 
+    let contact: Contact;
+    try {
+      contact = resolveRecipient(recipient, conversationId ? conversationManager.getConversation(conversationId) : undefined);
+    } catch (error) {
+      return c.json({ success: false, error: String(error) }, 400);
+    }
+
     try {
-      const messageId = await messagingManager.sendWhatsApp(config.userPhoneNumber, message);
+      const thread = threadFor(conversationId, ChannelType.WHATSAPP, recipient);
+      const messageId = await messagingManager.sendWhatsApp(
+        contact.phoneNumber,
+        message,
+        thread && `${getPublicUrl()}/webhook/${config.phoneProvider}/message-status/${thread.id}`
+      );
+      if (thread) {
+        conversationManager.addMessage(thread.id, "assistant", message, { providerMessageId: messageId });
+      }
       // Track outbound assistant messages in chat history
       whatsappChatManager?.recordAssistantMessage(message);
       return c.json({ success: true, messageId });
@@ -370,5 +725,76 @@ export function createPhoneAPI(
     return pendingWhatsAppWaits.size > 0;
   }
 
-  return { api, resolveQuestion, resolveWhatsAppWait, hasPendingWhatsAppWait };
+  /**
+   * An answering machine picked up one of our calls: leave a short voicemail,
+   * hang up, and send the full summary by the contact's messaging channel
+   */
+  async function leaveVoicemail(conversationId: string, providerCallId: string): Promise<void> {
+    const conversation = conversationManager.getConversation(conversationId);
+    if (!conversation || conversation.metadata?.voicemail) {
+      return;
+    }
+    conversationManager.updateMetadata(conversationId, { voicemail: true });
+
+    const contact = resolveRecipient(undefined, conversation);
+    const channel = contact.preferredChannel === "whatsapp" ? "whatsapp" : "sms";
+    const phrases = phrasesFor(languageFor(conversation, contact));
+    const summary = conversation.metadata?.summary || phrases.noUpdate;
+    const message = phrases.voicemail(voicemailSummary(summary), messagingManager ? channel : undefined);
+
+    console.error(`[PhoneAPI] Voicemail for ${contact.name} on ${conversationId}`);
+    await escalations.handleCallOutcome(conversationId, "voicemail");
+    try {
+      await phoneCallManager.leaveVoicemail(providerCallId, message);
+      conversationManager.addMessage(conversationId, "assistant", message);
+    } catch (error) {
+      console.error(`[PhoneAPI] Voicemail failed, hanging up: ${error}`);
+      await phoneCallManager.endCall(providerCallId).catch(() => {});
+    }
+
+    if (messagingManager) {
+      const text = phrases.voicemailMessage(summary);
+      try {
+        await (channel === "sms"
+          ? messagingManager.sendSMS(contact.phoneNumber, text)
+          : messagingManager.sendWhatsApp(contact.phoneNumber, text));
+      } catch (error) {
+        console.error(`[PhoneAPI] ${channel} after voicemail failed: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Feed a callback's call status into its escalation
+   * @returns false if the conversation is not a callback under escalation
+   */
+  function handleCallOutcome(conversationId: string, outcome: CallOutcome): Promise<boolean> {
+    return escalations.handleCallOutcome(conversationId, outcome);
+  }
+
+  return { api, resolveQuestion, resolveWhatsAppWait, hasPendingWhatsAppWait, leaveVoicemail, handleCallOutcome };
+}
+
+/**
+ * The conversation an event is about, if it is about one
+ */
+function eventConversationId(payload: StreamedEvents[keyof StreamedEvents]): string | undefined {
+  return "conversation" in payload ? payload.conversation.id : payload.conversationId;
+}
+
+/**
+ * Whether a request may read the event stream, which carries every conversation's content:
+ * with a token configured it must present it, otherwise it must come straight from this machine
+ */
+function canReadEvents(c: Context, config: PhoneAPIConfig): boolean {
+  if (config.eventsToken) {
+    const presented = Buffer.from(c.req.header("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "");
+    const expected = Buffer.from(config.eventsToken);
+    return presented.length === expected.length && timingSafeEqual(presented, expected);
+  }
+  if (FORWARDING_HEADERS.some((header) => c.req.header(header) !== undefined)) {
+    return false;
+  }
+  const address = config.remoteAddress?.(c);
+  return address !== undefined && /^(127\.|::1$|::ffff:127\.)/.test(address);
 }
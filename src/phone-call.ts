@@ -5,7 +5,17 @@
  */
 
 import Telnyx from "telnyx";
+import type { GoogleTranscriptionLanguage } from "telnyx/resources/calls/actions";
 import OpenAI from "openai";
+import type { MediaStreamManager } from "./media-stream.js";
+import type { AudioCache } from "./audio-cache.js";
+import type { TelnyxCallFlow } from "./telnyx-call-flow.js";
+import { DEFAULT_LANGUAGE, phrasesFor, sayVoice, whisperLanguage, languageFromWhisper } from "./language.js";
+import { renderForSpeech } from "./speech-rendering.js";
+import { downloadFromProvider } from "./provider-download.js";
+
+/** Spoken inside the answer Gather so callers know how to finish */
+export const GATHER_HINT = phrasesFor(DEFAULT_LANGUAGE).gatherHint;
 
 export interface PhoneCallConfig {
   phoneProvider: "telnyx" | "twilio";
@@ -16,6 +26,14 @@ export interface PhoneCallConfig {
   ttsVoice: string;
   telnyxVoice?: string;
   sttSilenceDurationMs: number;
+  /** Language for calls without one of their own (default: en-US) */
+  language?: string;
+  /** Played while callers wait on hold (a short clip; updates are checked each time it ends) */
+  holdMusicUrl?: string;
+  /** Played before each spoken hold update */
+  holdEarconUrl?: string;
+  /** Record calls; finished recordings are reported to the call's status webhook */
+  recordCalls?: boolean;
 }
 
 export interface InboundWebhookData {
@@ -25,19 +43,92 @@ export interface InboundWebhookData {
   to: string;
 }
 
+export interface Transcription {
+  text: string;
+  /** How sure Whisper is of the text (0-1), from its average token log-probability */
+  confidence?: number;
+  /** The language Whisper heard, when it was asked to detect it */
+  language?: string;
+}
+
 export interface SpeechResult {
   transcript: string | null;
   confidence?: number;
 }
 
 export interface StatusResult {
-  state: "ringing" | "answered" | "completed" | "failed" | "busy" | "no-answer";
+  /** unknown: the webhook says nothing about the call's state (e.g. Telnyx call.speak.started) */
+  state: "ringing" | "answered" | "completed" | "failed" | "busy" | "no-answer" | "unknown";
+  /** Answering machine detection result, on outbound calls */
+  answeredBy?: "human" | "machine" | "unknown";
+  /** The machine's greeting is over (after the beep), so a voicemail can be left now */
+  greetingEnded?: boolean;
+  providerCallId?: string;
+}
+
+/**
+ * A finished call recording, from the status webhook
+ */
+export interface RecordingWebhookData {
+  recordingId: string;
+  /** Where the provider keeps the audio (Twilio's URL has no extension; see downloadRecording) */
+  url: string;
+  durationSeconds?: number;
+  status: "completed" | "failed";
+}
+
+/**
+ * Telnyx Call Control events that drive a call (see TelnyxCallFlow) and barge-in
+ * answered / hangup: the call connected or ended
+ * caller_input: the caller pressed a key or started talking
+ * transcript: the caller finished saying something (a final transcription result)
+ * gather_ended: a gather finished with the caller's input
+ * speech_ended: our speak/playback command finished on its own
+ */
+export interface TelnyxCallEvent {
+  type: "answered" | "hangup" | "caller_input" | "transcript" | "gather_ended" | "speech_ended" | "other";
+  providerCallId: string;
+  /** Key pressed, for call.dtmf.received */
+  digit?: string;
+  /** What the caller said or keyed in, for transcript and gather_ended */
+  transcript?: string;
+  confidence?: number;
+}
+
+/**
+ * What a call webhook is about, for logging: the event and call ID only
+ * In-call events carry what the caller said or keyed in, which before they
+ * authenticate is their passphrase or PIN (see CallerAuth).
+ */
+export function describeCallWebhook(body: any): string {
+  const event = body?.data?.event_type || body?.CallStatus || body?.RecordingStatus || "unknown event";
+  const callId = body?.data?.payload?.call_control_id || body?.CallSid || "unknown call";
+  return `${event} (${callId})`;
+}
+
+/**
+ * Rough time to speak a prompt (about 150 words per minute, at least 2 seconds)
+ */
+function estimateSpeechMs(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(2000, words * 400);
 }
 
 export class PhoneCallManager {
   private config: PhoneCallConfig;
   private telnyx: Telnyx | null = null;
   private openai: OpenAI;
+  private mediaStreams: MediaStreamManager | null = null;
+  private audioCache: AudioCache | null = null;
+  private telnyxCallFlow: TelnyxCallFlow | null = null;
+  /** Sends links left out of speech to the caller */
+  private linkSender: ((providerCallId: string, links: string[]) => Promise<unknown>) | null = null;
+  /** Calls we are speaking to while listening for input */
+  private activeSpeech: Map<string, { until: number; interrupted: boolean }> = new Map();
+  /** Telnyx calls to hang up once the voicemail being spoken ends */
+  private voicemailCalls: Set<string> = new Set();
+  /** Language of each call that doesn't use the default */
+  private callLanguages: Map<string, string> = new Map();
 
   constructor(config: PhoneCallConfig) {
     this.config = config;
@@ -53,29 +144,100 @@ export class PhoneCallManager {
     }
   }
 
+  /**
+   * Route speech for streaming calls through their media stream
+   */
+  setMediaStreams(mediaStreams: MediaStreamManager): void {
+    this.mediaStreams = mediaStreams;
+  }
+
+  /**
+   * Speak prompts in the OpenAI voice, played from cached audio instead of <Say>
+   */
+  setAudioCache(audioCache: AudioCache): void {
+    this.audioCache = audioCache;
+  }
+
+  /**
+   * Speak each outbound Telnyx call's message once it is answered
+   */
+  setTelnyxCallFlow(telnyxCallFlow: TelnyxCallFlow): void {
+    this.telnyxCallFlow = telnyxCallFlow;
+  }
+
+  /**
+   * Send the links in what we speak to the caller (on WhatsApp) instead of reading them out
+   */
+  setLinkSender(linkSender: (providerCallId: string, links: string[]) => Promise<unknown>): void {
+    this.linkSender = linkSender;
+  }
+
+  /**
+   * Speak and listen to a call in a language (BCP-47) from now on
+   */
+  setCallLanguage(providerCallId: string, language: string): void {
+    this.callLanguages.set(providerCallId, language);
+  }
+
+  /**
+   * The language a call is spoken in
+   */
+  callLanguage(providerCallId: string): string {
+    return this.callLanguages.get(providerCallId) ?? this.defaultLanguage;
+  }
+
+  private get defaultLanguage(): string {
+    return this.config.language || DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Synthesize prompts into the audio cache so TwiML generated for them uses <Play>
+   * Prompts that fail to synthesize are left out and fall back to <Say voice="alice">.
+   */
+  async prepareSpeech(...messages: string[]): Promise<void> {
+    const audioCache = this.audioCache;
+    if (!audioCache) return;
+
+    await Promise.all(
+      messages.filter(Boolean).map((message) =>
+        audioCache.ensure(message, this.config.ttsVoice, (text) => this.textToSpeech(text)).catch((error) => {
+          console.error(`[PhoneCall] TTS failed, falling back to alice: ${error}`);
+        })
+      )
+    );
+  }
+
   /**
    * Initiate an outbound call
+   * @param streamUrl - Stream the call's audio to this WebSocket instead of using Gather
+   *   (the message is then spoken by the media stream)
+   * @param language - Language of the call (default: config.language)
    */
   async initiateCall(
     to: string,
     message: string,
     statusUrl: string,
-    gatherUrl: string
+    gatherUrl: string,
+    streamUrl?: string,
+    language?: string
   ): Promise<string> {
     console.error(`[PhoneCall] Initiating call to ${to}`);
 
-    if (this.config.phoneProvider === "telnyx") {
-      return this.initiateTelnyxCall(to, message, statusUrl, gatherUrl);
-    } else {
-      return this.initiateTwilioCall(to, message, statusUrl, gatherUrl);
+    const providerCallId = this.config.phoneProvider === "telnyx"
+      ? await this.initiateTelnyxCall(to, message, statusUrl, gatherUrl, streamUrl)
+      : await this.initiateTwilioCall(to, message, statusUrl, gatherUrl, streamUrl, language);
+    if (language) {
+      this.setCallLanguage(providerCallId, language);
     }
+    return providerCallId;
   }
 
   private async initiateTelnyxCall(
     to: string,
     message: string,
     statusUrl: string,
-    gatherUrl: string
+    gatherUrl: string,
+    streamUrl?: string
   ): Promise<string> {
     if (!this.telnyx) {
       throw new Error("Telnyx client not initialized");
@@ -87,8 +249,16 @@ export class PhoneCallManager {
         connection_id: this.config.phoneAccountSid,
         to,
         from: this.config.phoneNumber,
-        answering_machine_detection: "detect",
+        // Reports human or machine, then the beep that ends a voicemail greeting
+        answering_machine_detection: "detect_beep",
         webhook_url: statusUrl,
+        ...(this.config.recordCalls && { record: "record-from-answer", record_format: "mp3" }),
+        ...(streamUrl && {
+          stream_url: streamUrl,
+          stream_track: "inbound_track",
+          stream_bidirectional_mode: "rtp",
+          stream_bidirectional_codec: "PCMU",
+        }),
       });
 
       const callControlId = response.data?.call_control_id;
@@ -98,7 +268,10 @@ export class PhoneCallManager {
 
       console.error(`[PhoneCall] Telnyx call created: ${callControlId}`);
 
-      // The message will be spoken when the call is answered via webhook
+      // Streams speak the message themselves; otherwise the call flow does on call.answered
+      if (!streamUrl) {
+        this.telnyxCallFlow?.dial(callControlId, message);
+      }
       return callControlId;
     } catch (error) {
       console.error("[PhoneCall] Telnyx call error:", error);
@@ -110,14 +283,19 @@ export class PhoneCallManager {
     to: string,
     message: string,
     statusUrl: string,
-    gatherUrl: string
+    gatherUrl: string,
+    streamUrl?: string,
+    language?: string
   ): Promise<string> {
     // Twilio uses REST API
     const auth = Buffer.from(
       `${this.config.phoneAccountSid}:${this.config.phoneAuthToken}`
     ).toString("base64");
 
-    const twiml = this.generateTwiML(message, gatherUrl);
+    if (!streamUrl) {
+      await this.prepareSpeech(message);
+    }
+    const twiml = streamUrl ? this.generateStreamTwiML(streamUrl) : this.generateTwiML(message, gatherUrl, language);
 
     const response = await fetch(
       `https://api.twilio.com/2010-04-01/Accounts/${this.config.phoneAccountSid}/Calls.json`,
@@ -132,6 +310,15 @@ export class PhoneCallManager {
           From: this.config.phoneNumber,
           Twiml: twiml,
           StatusCallback: statusUrl,
+          // Detect voicemail without delaying the call; the result arrives once the greeting ends
+          MachineDetection: "DetectMessageEnd",
+          AsyncAmd: "true",
+          AsyncAmdStatusCallback: statusUrl,
+          ...(this.config.recordCalls && {
+            Record: "true",
+            RecordingStatusCallback: statusUrl,
+            RecordingStatusCallbackEvent: "completed absent",
+          }),
         }),
       }
     );
@@ -148,6 +335,7 @@ export class PhoneCallManager {
 
   /**
    * Speak to an active call
+   * The message is rendered for speech first (markdown, code and links; see renderForSpeech).
    * @param gatherUrl - Required for Twilio when waitForResponse is true
    */
   async speakToCall(
@@ -158,45 +346,87 @@ export class PhoneCallManager {
   ): Promise<void> {
     console.error(`[PhoneCall] Speaking to call ${providerCallId}: ${message.slice(0, 50)}...`);
 
+    const speech = renderForSpeech(message, {
+      language: this.callLanguage(providerCallId),
+      sendsLinks: !!this.linkSender,
+    });
+    if (speech.links.length > 0 && this.linkSender) {
+      this.linkSender(providerCallId, speech.links).catch((error) => {
+        console.error(`[PhoneCall] Failed to send links for ${providerCallId}:`, error);
+      });
+    }
+
+    // Streaming calls are always listening, so there is nothing to gather
+    if (this.mediaStreams?.isStreaming(providerCallId)) {
+      await this.mediaStreams.speak(providerCallId, speech.text);
+      return;
+    }
+
+    // Only send SSML when there are pauses or emphasis in it
+    const ssml = speech.ssml.includes("<") ? speech.ssml : undefined;
     if (this.config.phoneProvider === "telnyx") {
-      await this.speakToTelnyxCall(providerCallId, message, waitForResponse);
+      await this.speakToTelnyxCall(providerCallId, speech.text, waitForResponse, ssml);
     } else {
-      await this.speakToTwilioCall(providerCallId, message, waitForResponse, gatherUrl);
+      await this.speakToTwilioCall(providerCallId, speech.text, waitForResponse, gatherUrl, ssml);
     }
   }
 
+  /**
+   * @param ssml - The message as SSML elements, spoken instead of the plain text
+   */
   private async speakToTelnyxCall(
     callControlId: string,
     message: string,
-    waitForResponse: boolean
+    waitForResponse: boolean,
+    ssml?: string
   ): Promise<void> {
     if (!this.telnyx) {
       throw new Error("Telnyx client not initialized");
     }
 
     try {
-      // Use Telnyx TTS or generate audio via OpenAI
-      // For now, use Telnyx's built-in TTS
-      await this.telnyx.calls.speak({
-        call_control_id: callControlId,
-        payload: message,
-        voice: this.config.telnyxVoice || "female",
-        language: "en-US",
-      });
+      // Play our cached OpenAI audio when we have it, else Telnyx's built-in TTS
+      await this.prepareSpeech(message);
+      const audioUrl = this.cachedAudioUrl(message);
+      if (audioUrl) {
+        await this.telnyx.calls.actions.startPlayback(callControlId, { audio_url: audioUrl });
+      } else {
+        await this.telnyx.calls.speak({
+          call_control_id: callControlId,
+          payload: ssml ? `<speak>${ssml}</speak>` : message,
+          payload_type: ssml ? "ssml" : "text",
+          voice: this.config.telnyxVoice || "female",
+          language: this.callLanguage(callControlId),
+        });
+      }
 
       console.error(`[PhoneCall] Spoke to Telnyx call ${callControlId}`);
 
       if (waitForResponse) {
-        // Start gathering speech input
-        await this.telnyx.calls.gather_using_speak({
-          call_control_id: callControlId,
-          payload: "", // Empty payload since we just spoke
-          voice: "female",
-          language: "en-US",
-          minimum_digits: 1,
-          maximum_digits: 128,
-          timeout_millis: this.config.sttSilenceDurationMs,
-        });
+        // Input during the prompt stops it (see stopSpeaking)
+        this.activeSpeech.set(callControlId, { until: Date.now() + estimateSpeechMs(message), interrupted: false });
+
+        // Calls the flow transcribes already hear what the caller says; a speech
+        // gather would report the same utterance again, so only gather keys
+        const flowState = this.telnyxCallFlow?.state(callControlId);
+        if (flowState === "listening" || flowState === "working") {
+          await this.telnyx.calls.actions.gather(callControlId, {
+            minimum_digits: 1,
+            maximum_digits: 128,
+            timeout_millis: this.config.sttSilenceDurationMs,
+          });
+        } else {
+          // Start gathering speech input
+          await this.telnyx.calls.gather_using_speak({
+            call_control_id: callControlId,
+            payload: "", // Empty payload since we just spoke
+            voice: "female",
+            language: this.callLanguage(callControlId),
+            minimum_digits: 1,
+            maximum_digits: 128,
+            timeout_millis: this.config.sttSilenceDurationMs,
+          });
+        }
       }
     } catch (error) {
       console.error("[PhoneCall] Telnyx speak error:", error);
@@ -212,18 +442,21 @@ export class PhoneCallManager {
     callSid: string,
     message: string,
     waitForResponse: boolean,
-    gatherUrl?: string
+    gatherUrl?: string,
+    ssml?: string
   ): Promise<void> {
     const auth = Buffer.from(
       `${this.config.phoneAccountSid}:${this.config.phoneAuthToken}`
     ).toString("base64");
 
     // Generate appropriate TwiML
+    await this.prepareSpeech(message);
     let twiml: string;
     if (waitForResponse && gatherUrl) {
-      twiml = this.generateGatherTwiML(message, gatherUrl);
+      twiml = this.generateGatherTwiML(message, gatherUrl, this.callLanguage(callSid), ssml);
+      this.activeSpeech.set(callSid, { until: Date.now() + estimateSpeechMs(message), interrupted: false });
     } else {
-      twiml = this.generateSayTwiML(message);
+      twiml = this.generateSayTwiML(message, this.callLanguage(callSid), ssml);
     }
 
     // Use Twilio's call modify API to inject new TwiML
@@ -249,6 +482,176 @@ export class PhoneCallManager {
     console.error(`[PhoneCall] Spoke to Twilio call ${callSid}`);
   }
 
+  /**
+   * The caller started talking or pressed a key: stop any prompt still playing
+   * Twilio prompts are nested in a bargeIn Gather and stop by themselves;
+   * Telnyx speak commands have to be stopped explicitly.
+   * @returns Whether a prompt was cut short
+   */
+  async stopSpeaking(providerCallId: string): Promise<boolean> {
+    const speech = this.activeSpeech.get(providerCallId);
+    if (!speech || speech.interrupted || speech.until <= Date.now()) {
+      return false;
+    }
+    speech.interrupted = true;
+
+    if (this.config.phoneProvider === "telnyx" && this.telnyx) {
+      await this.telnyx.calls.actions.stopPlayback(providerCallId, { stop: "all" });
+      console.error(`[PhoneCall] Caller interrupted Telnyx call ${providerCallId}, stopped speaking`);
+    }
+    return true;
+  }
+
+  /**
+   * A prompt finished playing on its own
+   */
+  async speechEnded(providerCallId: string): Promise<void> {
+    // A prompt we stopped also reports that it ended; keep the interruption for the caller's turn
+    if (!this.activeSpeech.get(providerCallId)?.interrupted) {
+      this.activeSpeech.delete(providerCallId);
+    }
+
+    if (this.voicemailCalls.delete(providerCallId)) {
+      await this.endCall(providerCallId);
+    }
+  }
+
+  /**
+   * Called when the caller's turn arrives; consumes the call's prompt tracking
+   * @returns true if the caller spoke before the prompt had finished (barge-in)
+   */
+  takeInterruption(providerCallId: string): boolean {
+    const speech = this.activeSpeech.get(providerCallId);
+    this.activeSpeech.delete(providerCallId);
+    return !!speech && (speech.interrupted || speech.until > Date.now());
+  }
+
+  /**
+   * Answer an inbound Telnyx call
+   * @param webhookUrl - Where Telnyx sends the call's events from now on
+   */
+  async answerCall(callControlId: string, webhookUrl: string): Promise<void> {
+    if (!this.telnyx) {
+      throw new Error("Telnyx client not initialized");
+    }
+
+    await this.telnyx.calls.actions.answer(callControlId, { webhook_url: webhookUrl, ...this.telnyxRecording() });
+    console.error(`[PhoneCall] Answered Telnyx call ${callControlId}`);
+  }
+
+  /**
+   * Turn down an inbound Telnyx call without answering it
+   */
+  async rejectCall(callControlId: string): Promise<void> {
+    if (!this.telnyx) {
+      throw new Error("Telnyx client not initialized");
+    }
+
+    await this.telnyx.calls.actions.reject(callControlId, { cause: "CALL_REJECTED" });
+    console.error(`[PhoneCall] Rejected Telnyx call ${callControlId}`);
+  }
+
+  /**
+   * Transcribe what a Telnyx caller says, in the call's language
+   * Results arrive as call.transcription events (see parseTelnyxCallEvent).
+   */
+  async startListening(callControlId: string): Promise<void> {
+    if (!this.telnyx) {
+      throw new Error("Telnyx client not initialized");
+    }
+
+    await this.telnyx.calls.actions.startTranscription(callControlId, {
+      transcription_engine: "Google",
+      transcription_engine_config: {
+        language: whisperLanguage(this.callLanguage(callControlId)) as GoogleTranscriptionLanguage,
+        interim_results: true,
+      },
+      transcription_tracks: "inbound",
+    });
+  }
+
+  /**
+   * Answer an inbound Telnyx call with its audio streamed to a WebSocket
+   * (Twilio calls start streaming from generateStreamTwiML instead)
+   */
+  async answerWithStream(callControlId: string, streamUrl: string): Promise<void> {
+    if (!this.telnyx) {
+      throw new Error("Telnyx client not initialized");
+    }
+
+    await this.telnyx.calls.actions.answer(callControlId, {
+      stream_url: streamUrl,
+      stream_track: "inbound_track",
+      stream_bidirectional_mode: "rtp",
+      stream_bidirectional_codec: "PCMU",
+      ...this.telnyxRecording(),
+    });
+    console.error(`[PhoneCall] Answered Telnyx call ${callControlId} with media stream`);
+  }
+
+  /**
+   * Answer options that record a Telnyx call, when recording is on
+   */
+  private telnyxRecording(): { record?: "record-from-answer"; record_format?: "mp3" } {
+    return this.config.recordCalls ? { record: "record-from-answer", record_format: "mp3" } : {};
+  }
+
+  /**
+   * Fetch a finished recording's audio (MP3), with the same guards as message media
+   */
+  async downloadRecording(recording: RecordingWebhookData): Promise<Buffer> {
+    // Twilio serves recordings in any format by extension
+    const url = this.config.phoneProvider === "twilio" ? `${recording.url}.mp3` : recording.url;
+    return downloadFromProvider(url, this.config, "Recording");
+  }
+
+  /**
+   * Leave a voicemail on a call an answering machine picked up, then hang up
+   * Telnyx calls hang up when the speech ends (see speechEnded).
+   */
+  async leaveVoicemail(providerCallId: string, message: string): Promise<void> {
+    console.error(`[PhoneCall] Leaving voicemail on ${providerCallId}`);
+
+    if (this.mediaStreams?.isStreaming(providerCallId)) {
+      await this.mediaStreams.speak(providerCallId, message);
+      await this.endCall(providerCallId);
+      return;
+    }
+
+    if (this.config.phoneProvider === "telnyx") {
+      this.voicemailCalls.add(providerCallId);
+      await this.speakToTelnyxCall(providerCallId, message, false).catch((error) => {
+        this.voicemailCalls.delete(providerCallId);
+        throw error;
+      });
+      return;
+    }
+
+    const auth = Buffer.from(
+      `${this.config.phoneAccountSid}:${this.config.phoneAuthToken}`
+    ).toString("base64");
+
+    await this.prepareSpeech(message);
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.config.phoneAccountSid}/Calls/${providerCallId}.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${auth}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          Twiml: this.generateHangupTwiML(message, this.callLanguage(providerCallId)),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Twilio voicemail failed: ${error}`);
+    }
+  }
+
   /**
    * End an active call
    */
@@ -406,22 +809,58 @@ export class PhoneCallManager {
 
   private parseTelnyxStatusWebhook(body: any): StatusResult {
     const eventType = body?.data?.event_type || "";
+    const payload = body?.data?.payload;
+
+    // Detection reports human or machine; for machines the greeting event follows at the beep
+    if (eventType === "call.machine.detection.ended" || eventType === "call.machine.greeting.ended") {
+      const result = payload?.result || "";
+      const machine = eventType === "call.machine.greeting.ended" || result === "machine";
+      return {
+        state: "answered",
+        answeredBy: machine ? "machine" : result === "human" ? "human" : "unknown",
+        greetingEnded: eventType === "call.machine.greeting.ended",
+        providerCallId: payload?.call_control_id,
+      };
+    }
 
+    // Calls that never connected say why in the hangup cause
+    if (eventType === "call.hangup") {
+      const causeMap: Record<string, StatusResult["state"]> = {
+        user_busy: "busy",
+        call_rejected: "busy",
+        timeout: "no-answer",
+        not_found: "failed",
+      };
+      return { state: causeMap[payload?.hangup_cause] || "completed" };
+    }
+
+    // Telnyx posts every Call Control event here (speak, playback, transcription...);
+    // only hangups end a call
     const stateMap: Record<string, StatusResult["state"]> = {
       "call.initiated": "ringing",
       "call.answered": "answered",
-      "call.hangup": "completed",
-      "call.machine.detection.ended": "answered",
     };
 
     return {
-      state: stateMap[eventType] || "completed",
+      state: stateMap[eventType] || "unknown",
     };
   }
 
   private parseTwilioStatusWebhook(body: any): StatusResult {
     const status = body?.CallStatus || "";
 
+    // Async AMD callbacks carry AnsweredBy; DetectMessageEnd sends machine_end_* after the beep
+    const answeredBy: string = body?.AnsweredBy || "";
+    if (answeredBy && !["completed", "failed", "busy", "no-answer"].includes(status)) {
+      const machine = answeredBy.startsWith("machine") || answeredBy === "fax";
+      return {
+        state: "answered",
+        answeredBy: machine ? "machine" : answeredBy === "human" ? "human" : "unknown",
+        greetingEnded: machine && answeredBy !== "machine_start",
+        providerCallId: body?.CallSid,
+      };
+    }
+
     const stateMap: Record<string, StatusResult["state"]> = {
       queued: "ringing",
       ringing: "ringing",
@@ -430,23 +869,104 @@ export class PhoneCallManager {
       failed: "failed",
       busy: "busy",
       "no-answer": "no-answer",
+      canceled: "failed",
     };
 
     return {
-      state: stateMap[status] || "completed",
+      state: stateMap[status] || "unknown",
     };
   }
 
+  /**
+   * Parse a recording status webhook
+   * @returns null if the webhook isn't about a recording
+   */
+  parseRecordingWebhook(provider: "telnyx" | "twilio", body: any): RecordingWebhookData | null {
+    if (provider === "twilio") {
+      if (!body?.RecordingSid) {
+        return null;
+      }
+      const duration = parseInt(body.RecordingDuration, 10);
+      return {
+        recordingId: body.RecordingSid,
+        url: body.RecordingUrl || "",
+        durationSeconds: Number.isNaN(duration) ? undefined : duration,
+        status: body.RecordingStatus === "completed" ? "completed" : "failed",
+      };
+    }
+
+    const eventType = body?.data?.event_type || "";
+    const payload = body?.data?.payload || {};
+    if (eventType !== "call.recording.saved" && eventType !== "call.recording.error") {
+      return null;
+    }
+
+    const url = payload.recording_urls?.mp3 || payload.public_recording_urls?.mp3 || "";
+    let durationSeconds: number | undefined;
+    if (payload.recording_started_at && payload.recording_ended_at) {
+      durationSeconds = Math.round(
+        (Date.parse(payload.recording_ended_at) - Date.parse(payload.recording_started_at)) / 1000
+      );
+    }
+    return {
+      recordingId: payload.recording_id || payload.call_leg_id || payload.call_control_id || "",
+      url,
+      durationSeconds: Number.isNaN(durationSeconds) ? undefined : durationSeconds,
+      status: eventType === "call.recording.saved" && url ? "completed" : "failed",
+    };
+  }
+
+  /**
+   * Classify a Telnyx Call Control event
+   */
+  parseTelnyxCallEvent(body: any): TelnyxCallEvent {
+    const eventType = body?.data?.event_type || "";
+    const payload = body?.data?.payload || {};
+    const providerCallId = payload.call_control_id || "";
+
+    // Interim results mean the caller is still talking; the final one is their turn
+    if (eventType === "call.transcription") {
+      const data = payload.transcription_data || {};
+      if (!data.is_final) {
+        return { type: "caller_input", providerCallId };
+      }
+      return { type: "transcript", providerCallId, transcript: data.transcript?.trim() || undefined, confidence: data.confidence };
+    }
+
+    if (eventType === "call.gather.ended") {
+      const { transcript, confidence } = this.parseTelnyxSpeechResult(body);
+      return { type: "gather_ended", providerCallId, transcript: transcript || undefined, confidence };
+    }
+
+    const typeMap: Record<string, TelnyxCallEvent["type"]> = {
+      "call.answered": "answered",
+      "call.hangup": "hangup",
+      "call.dtmf.received": "caller_input",
+      "call.speak.ended": "speech_ended",
+      "call.playback.ended": "speech_ended",
+    };
+
+    const digit = payload.digit;
+    return { type: typeMap[eventType] || "other", providerCallId, ...(digit && { digit: String(digit) }) };
+  }
+
   /**
    * Generate TwiML for answering a call with a message and gathering input
    * Uses DTMF termination (press # when done) for better conversation flow
+   * The greeting is inside the Gather with bargeIn, so the caller can talk over it
+   * @param recordingUrl - Record the call and report the recording here
    */
-  generateAnswerTwiML(message: string, gatherUrl: string): string {
+  generateAnswerTwiML(
+    message: string,
+    gatherUrl: string,
+    language: string = this.defaultLanguage,
+    recordingUrl?: string
+  ): string {
     return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Say voice="alice">${this.escapeXml(message)}</Say>
-  <Gather input="speech dtmf" action="${this.escapeXml(gatherUrl)}" finishOnKey="#" speechTimeout="3" maxSpeechTime="60" language="en-US">
-    <Say voice="alice">Press pound when you're finished speaking.</Say>
+  ${this.recordingXml(recordingUrl)}<Gather input="speech dtmf" action="${this.escapeXml(gatherUrl)}" finishOnKey="#" speechTimeout="3" maxSpeechTime="60" language="${language}" bargeIn="true">
+    ${this.speechXml(message, language)}
+    ${this.speechXml(phrasesFor(language).gatherHint, language)}
   </Gather>
 </Response>`;
   }
@@ -454,22 +974,25 @@ export class PhoneCallManager {
   /**
    * Generate TwiML for gathering speech input
    * Uses DTMF termination (press # when done) for better conversation flow
+   * The prompt is inside the Gather with bargeIn, so the caller can talk over it
+   * @param ssml - The message as SSML elements, for voices that take them
    */
-  generateGatherTwiML(message: string, callbackUrl: string): string {
+  generateGatherTwiML(message: string, callbackUrl: string, language: string = this.defaultLanguage, ssml?: string): string {
     return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Say voice="alice">${this.escapeXml(message)}</Say>
-  <Gather input="speech dtmf" action="${this.escapeXml(callbackUrl)}" finishOnKey="#" speechTimeout="3" maxSpeechTime="60" language="en-US" />
+  <Gather input="speech dtmf" action="${this.escapeXml(callbackUrl)}" finishOnKey="#" speechTimeout="3" maxSpeechTime="60" language="${language}" bargeIn="true">
+    ${this.speechXml(message, language, ssml)}
+  </Gather>
 </Response>`;
   }
 
   /**
    * Generate TwiML for waiting/holding
    */
-  generateWaitTwiML(message: string, seconds: number): string {
+  generateWaitTwiML(message: string, seconds: number, language: string = this.defaultLanguage): string {
     return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Say voice="alice">${this.escapeXml(message)}</Say>
+  ${this.speechXml(message, language)}
   <Pause length="${seconds}"/>
 </Response>`;
   }
@@ -477,10 +1000,10 @@ export class PhoneCallManager {
   /**
    * Generate TwiML for hanging up with a message
    */
-  generateHangupTwiML(message: string): string {
+  generateHangupTwiML(message: string, language: string = this.defaultLanguage): string {
     return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Say voice="alice">${this.escapeXml(message)}</Say>
+  ${this.speechXml(message, language)}
   <Hangup/>
 </Response>`;
   }
@@ -488,42 +1011,112 @@ export class PhoneCallManager {
   /**
    * Generate TwiML for holding/waiting with redirect
    * Used to keep call alive while Claude works
+   * With hold music configured, the music replaces the wait; an earcon comes before the message.
+   * @param menuUrl - Listen for a hold menu keypress during the wait and post it here
    */
-  generateHoldTwiML(message: string, holdUrl: string, waitSeconds: number = 30): string {
+  generateHoldTwiML(
+    message: string,
+    holdUrl: string,
+    waitSeconds: number = 30,
+    menuUrl?: string,
+    language: string = this.defaultLanguage
+  ): string {
+    const { holdMusicUrl, holdEarconUrl } = this.config;
+    const earconPart = message && holdEarconUrl ? `<Play>${this.escapeXml(holdEarconUrl)}</Play>\n  ` : "";
     const sayPart = message
-      ? `<Say voice="alice">${this.escapeXml(message)}</Say>\n  `
+      ? `${earconPart}${this.speechXml(message, language)}\n  `
       : "";
+    const musicPart = holdMusicUrl ? `<Play>${this.escapeXml(holdMusicUrl)}</Play>` : "";
+    // A Gather with no input falls through to the Redirect once its timeout passes
+    // (Gather's timeout starts after the music, so it only needs to be short then)
+    const waitPart = menuUrl
+      ? musicPart
+        ? `<Gather input="dtmf" numDigits="1" action="${this.escapeXml(menuUrl)}" timeout="1">${musicPart}</Gather>`
+        : `<Gather input="dtmf" numDigits="1" action="${this.escapeXml(menuUrl)}" timeout="${waitSeconds}" />`
+      : musicPart || `<Pause length="${waitSeconds}"/>`;
 
     return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  ${sayPart}<Pause length="${waitSeconds}"/>
+  ${sayPart}${waitPart}
   <Redirect>${this.escapeXml(holdUrl)}</Redirect>
 </Response>`;
   }
 
+  /**
+   * Generate TwiML that connects the call to a bidirectional media stream
+   * The call stays on the stream until it ends; speech goes through the stream.
+   * @param recordingUrl - Record the call and report the recording here
+   */
+  generateStreamTwiML(streamUrl: string, recordingUrl?: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+  ${this.recordingXml(recordingUrl)}<Connect>
+    <Stream url="${this.escapeXml(streamUrl)}" />
+  </Connect>
+</Response>`;
+  }
+
   /**
    * Generate TwiML for speaking only (no gather)
+   * @param ssml - The message as SSML elements, for voices that take them
    */
-  generateSayTwiML(message: string): string {
+  generateSayTwiML(message: string, language: string = this.defaultLanguage, ssml?: string): string {
     return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Say voice="alice">${this.escapeXml(message)}</Say>
+  ${this.speechXml(message, language, ssml)}
 </Response>`;
   }
 
   /**
    * Generate generic TwiML with message and optional gather
    */
-  private generateTwiML(message: string, gatherUrl?: string): string {
+  private generateTwiML(message: string, gatherUrl?: string, language: string = this.defaultLanguage): string {
     if (gatherUrl) {
-      return this.generateGatherTwiML(message, gatherUrl);
+      return this.generateGatherTwiML(message, gatherUrl, language);
     }
     return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-  <Say voice="alice">${this.escapeXml(message)}</Say>
+  ${this.speechXml(message, language)}
 </Response>`;
   }
 
+  /**
+   * TwiML that starts recording the rest of an inbound call (outbound calls record via the Calls API)
+   */
+  private recordingXml(recordingUrl?: string): string {
+    if (!recordingUrl) {
+      return "";
+    }
+    return `<Start>
+    <Recording recordingStatusCallback="${this.escapeXml(recordingUrl)}" recordingStatusCallbackEvent="completed absent" />
+  </Start>
+  `;
+  }
+
+  /**
+   * Signed URL of a prompt's cached audio, if it has been prepared
+   */
+  private cachedAudioUrl(message: string): string | undefined {
+    const hash = this.audioCache?.lookup(message, this.config.ttsVoice);
+    return hash ? this.audioCache!.url(hash) : undefined;
+  }
+
+  /**
+   * TwiML verb that speaks a message: <Play> of cached audio, else <Say> in a voice for the language
+   * @param ssml - Spoken instead of the plain message by Polly voices (alice doesn't take SSML)
+   */
+  private speechXml(message: string, language: string = this.defaultLanguage, ssml?: string): string {
+    const audioUrl = this.cachedAudioUrl(message);
+    if (audioUrl) {
+      return `<Play>${this.escapeXml(audioUrl)}</Play>`;
+    }
+    // alice speaks en-US unless told otherwise
+    const voice = sayVoice(language);
+    const languageAttr = language === DEFAULT_LANGUAGE ? "" : ` language="${language}"`;
+    const body = ssml && voice.startsWith("Polly.") ? ssml : this.escapeXml(message);
+    return `<Say voice="${voice}"${languageAttr}>${body}</Say>`;
+  }
+
   /**
    * Text to Speech using OpenAI
    */
@@ -538,20 +1131,59 @@ export class PhoneCallManager {
     return Buffer.from(arrayBuffer);
   }
 
+  /**
+   * Text to Speech using OpenAI, streamed as it is generated
+   * Yields 16-bit little-endian PCM at 24kHz for media streams.
+   */
+  async *streamSpeech(text: string): AsyncIterable<Uint8Array> {
+    const response = await this.openai.audio.speech.create({
+      model: "tts-1",
+      voice: this.config.ttsVoice as any,
+      input: text,
+      response_format: "pcm",
+    });
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      yield new Uint8Array(await response.arrayBuffer());
+      return;
+    }
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield value;
+    }
+  }
+
   /**
    * Speech to Text using OpenAI Whisper
+   * @param filename - Tells Whisper the audio format (default: MP3)
+   * @param language - Language of the speech (default: config.language)
+   */
+  async speechToText(audioBuffer: Buffer, filename: string = "audio.mp3", language: string = this.defaultLanguage): Promise<string> {
+    return (await this.transcribe(audioBuffer, filename, language)).text;
+  }
+
+  /**
+   * Speech to Text using OpenAI Whisper, detecting the language when none is given
+   * @param filename - Tells Whisper the audio format (default: MP3)
    */
-  async speechToText(audioBuffer: Buffer): Promise<string> {
+  async transcribe(audioBuffer: Buffer, filename: string = "audio.mp3", language?: string): Promise<Transcription> {
     // Create a File-like object from the buffer
-    const file = new File([audioBuffer], "audio.mp3", { type: "audio/mpeg" });
+    const type = filename.endsWith(".wav") ? "audio/wav" : "audio/mpeg";
+    const file = new File([audioBuffer], filename, { type });
 
     const response = await this.openai.audio.transcriptions.create({
       model: "whisper-1",
       file,
-      language: "en",
+      response_format: "verbose_json",
+      ...(language ? { language: whisperLanguage(language) } : {}),
     });
-
-    return response.text;
+    const transcription: Transcription = { text: response.text, confidence: whisperConfidence(response.segments) };
+    if (!language) {
+      transcription.language = languageFromWhisper(response.language);
+    }
+    return transcription;
   }
 
   /**
@@ -566,3 +1198,15 @@ export class PhoneCallManager {
       .replace(/'/g, "&apos;");
   }
 }
+
+/**
+ * Whisper's confidence in a transcript: the mean of its segments' average log-probability, as a probability
+ * @returns undefined when Whisper reported no segments
+ */
+function whisperConfidence(segments?: Array<{ avg_logprob: number }>): number | undefined {
+  if (!segments?.length) {
+    return undefined;
+  }
+  const logprob = segments.reduce((sum, segment) => sum + segment.avg_logprob, 0) / segments.length;
+  return Math.min(1, Math.exp(logprob));
+}
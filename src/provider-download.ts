@@ -0,0 +1,86 @@
+/**
+ * Provider Downloads
+ * Fetching files a phone provider names in its webhooks: message media and
+ * call recordings. Twilio serves them behind the account's credentials, and
+ * the webhook that named them may not be signed, so the credentials go only
+ * to Twilio's API host over https, and not on to the CDN it redirects to.
+ * Telnyx URLs are signed and fetched as they are. Downloads are capped in size.
+ */
+
+/** Largest file we download (Twilio caps MMS at 5 MB; WhatsApp documents can be far larger, and Whisper takes 25 MB) */
+export const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
+/** Hosts Twilio serves media and recordings from; the account's credentials are sent nowhere else */
+const TWILIO_MEDIA_HOSTS = new Set(["api.twilio.com"]);
+
+export interface ProviderDownloadConfig {
+  phoneProvider: "telnyx" | "twilio";
+  phoneAccountSid: string;
+  phoneAuthToken: string;
+}
+
+/**
+ * Download a file the provider named
+ * @param label - What is being downloaded, for error messages ("Media", "Recording")
+ */
+export async function downloadFromProvider(url: string, config: ProviderDownloadConfig, label: string): Promise<Buffer> {
+  const target = new URL(url);
+  if (target.protocol !== "https:") {
+    throw new Error(`${label} download refused: ${target.protocol} URL`);
+  }
+
+  let response: Response;
+  if (config.phoneProvider === "twilio") {
+    if (!TWILIO_MEDIA_HOSTS.has(target.hostname)) {
+      throw new Error(`${label} download refused: ${target.hostname} is not a Twilio media host`);
+    }
+    // Twilio redirects to its CDN; only the request to Twilio carries the credentials
+    response = await fetch(target, {
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${config.phoneAccountSid}:${config.phoneAuthToken}`).toString("base64")}`,
+      },
+      redirect: "manual",
+    });
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      response = await fetch(new URL(location, target));
+    }
+  } else {
+    response = await fetch(target);
+  }
+
+  if (!response.ok) {
+    throw new Error(`${label} download failed: ${response.status}`);
+  }
+  return readCapped(response, label);
+}
+
+/**
+ * Read a download, giving up once it is larger than MAX_MEDIA_BYTES
+ */
+async function readCapped(response: Response, label: string): Promise<Buffer> {
+  const length = parseInt(response.headers.get("content-length") || "0");
+  if (length > MAX_MEDIA_BYTES) {
+    throw new Error(`${label} too large: ${length} bytes (limit ${MAX_MEDIA_BYTES})`);
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.length;
+    if (size > MAX_MEDIA_BYTES) {
+      await reader.cancel();
+      throw new Error(`${label} too large: over ${MAX_MEDIA_BYTES} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
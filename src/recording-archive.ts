@@ -0,0 +1,144 @@
+/**
+ * Recording Archive
+ * Local copies of call recordings. When a provider reports a finished
+ * recording, the audio is downloaded into the archive, transcribed with
+ * Whisper, and the transcript attached to the conversation
+ * (metadata.recordings). Audio older than the retention window is deleted;
+ * transcripts stay with the conversation.
+ */
+
+import { existsSync, mkdirSync, readdirSync, rmdirSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { ConversationManager } from "./conversation-manager.js";
+import type { RecordingWebhookData } from "./phone-call.js";
+
+export interface CallRecording {
+  /** Provider's recording ID */
+  id: string;
+  /** When the recording was archived (ISO 8601) */
+  recordedAt: string;
+  durationSeconds?: number;
+  /** Archived audio, until retention deletes it */
+  file?: string;
+  transcript?: string;
+  /** Why the recording couldn't be archived or transcribed */
+  error?: string;
+}
+
+export interface RecordingArchiveOptions {
+  /** Where recordings are kept, one directory per conversation */
+  dir: string;
+  /** How long audio is kept; 0 keeps it forever (default: 30 days) */
+  retentionMs?: number;
+}
+
+export interface RecordingArchiveHandlers {
+  /** Fetch a finished recording's audio from the provider */
+  download: (recording: RecordingWebhookData) => Promise<Buffer>;
+  /** Transcribe a recording (MP3) of a conversation */
+  transcribe: (audio: Buffer, conversationId: string) => Promise<string>;
+}
+
+export class RecordingArchive {
+  private conversationManager: ConversationManager;
+  private handlers: RecordingArchiveHandlers;
+  private dir: string;
+  private retentionMs: number;
+
+  constructor(conversationManager: ConversationManager, handlers: RecordingArchiveHandlers, options: RecordingArchiveOptions) {
+    this.conversationManager = conversationManager;
+    this.handlers = handlers;
+    this.dir = options.dir;
+    this.retentionMs = options.retentionMs ?? 2592000000;
+    mkdirSync(this.dir, { recursive: true });
+  }
+
+  /**
+   * Download, store and transcribe a finished recording, and attach it to its conversation
+   * Failures are recorded on the recording rather than thrown.
+   */
+  async archive(conversationId: string, recording: RecordingWebhookData): Promise<CallRecording> {
+    const entry: CallRecording = {
+      id: recording.recordingId,
+      recordedAt: new Date().toISOString(),
+      durationSeconds: recording.durationSeconds,
+    };
+
+    if (recording.status !== "completed") {
+      entry.error = "Recording failed at the provider";
+    } else {
+      try {
+        const audio = await this.handlers.download(recording);
+        entry.file = this.save(conversationId, recording.recordingId, audio);
+        entry.transcript = await this.handlers.transcribe(audio, conversationId);
+        console.error(`[Recording] Archived ${recording.recordingId} for ${conversationId.slice(0, 8)}`);
+      } catch (error) {
+        console.error(`[Recording] Failed to archive ${recording.recordingId}:`, error);
+        entry.error = String(error);
+      }
+    }
+
+    // Webhooks can be retried, so replace any earlier entry for the same recording
+    const recordings = (this.conversationManager.getConversation(conversationId)?.metadata?.recordings ?? [])
+      .filter((existing) => existing.id !== entry.id);
+    this.conversationManager.updateMetadata(conversationId, { recordings: [...recordings, entry] });
+    return entry;
+  }
+
+  /**
+   * A conversation's recordings, oldest first, with audio that retention deleted left out
+   */
+  list(conversationId: string): CallRecording[] {
+    const recordings = this.conversationManager.getConversation(conversationId)?.metadata?.recordings ?? [];
+    return recordings.map((recording) =>
+      recording.file && !existsSync(recording.file) ? { ...recording, file: undefined } : recording
+    );
+  }
+
+  /**
+   * Delete archived audio older than the retention window
+   * @returns How many files were deleted
+   */
+  prune(now: number = Date.now()): number {
+    if (this.retentionMs <= 0) {
+      return 0;
+    }
+
+    let deleted = 0;
+    for (const conversationDir of readdirSync(this.dir)) {
+      const path = join(this.dir, conversationDir);
+      if (!statSync(path).isDirectory()) continue;
+
+      for (const file of readdirSync(path)) {
+        const filePath = join(path, file);
+        if (now - statSync(filePath).mtimeMs > this.retentionMs) {
+          unlinkSync(filePath);
+          deleted++;
+        }
+      }
+      if (readdirSync(path).length === 0) {
+        rmdirSync(path);
+      }
+    }
+
+    if (deleted > 0) {
+      console.error(`[Recording] Retention removed ${deleted} recording(s)`);
+    }
+    return deleted;
+  }
+
+  private save(conversationId: string, recordingId: string, audio: Buffer): string {
+    const dir = join(this.dir, safeName(conversationId));
+    mkdirSync(dir, { recursive: true });
+    const file = join(dir, `${safeName(recordingId)}.mp3`);
+    writeFileSync(file, audio);
+    return file;
+  }
+}
+
+/**
+ * Provider IDs as file names (no path separators or dots)
+ */
+function safeName(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, "_");
+}
@@ -0,0 +1,362 @@
+/**
+ * Scheduler
+ * Calls and messages that go out later: once at a given time ("call me at
+ * 6pm with the test results") or repeatedly on a cron schedule ("every
+ * weekday at 9"). Jobs are kept in a JSON file so they survive restarts;
+ * jobs that came due while the server was down run as soon as it starts.
+ * Cron schedules use the server's local time.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+export type ScheduledChannel = "voice" | "sms" | "whatsapp";
+
+export const SCHEDULED_CHANNELS: readonly ScheduledChannel[] = ["voice", "sms", "whatsapp"];
+
+export function isScheduledChannel(value: string): value is ScheduledChannel {
+  return (SCHEDULED_CHANNELS as readonly string[]).includes(value);
+}
+
+export interface ScheduledJob {
+  id: string;
+  channel: ScheduledChannel;
+  /** Contact name the job goes to */
+  recipient: string;
+  /** Spoken when the call is answered, or sent as the message */
+  message: string;
+  /** Language to hold a call in (default: the contact's) */
+  language?: string;
+  /** Five-field cron expression for repeating jobs; one-off jobs have none */
+  cron?: string;
+  /** When the job runs next (ISO 8601) */
+  nextRunAt: string;
+  createdAt: string;
+  /** Times the job has run */
+  runs: number;
+  lastRunAt?: string;
+  /** Why the last run failed, if it did */
+  lastError?: string;
+}
+
+export interface ScheduleRequest {
+  channel: ScheduledChannel;
+  recipient: string;
+  message: string;
+  language?: string;
+  /** Run once at this time */
+  at?: Date;
+  /** Run on this cron schedule */
+  cron?: string;
+}
+
+export interface SchedulerOptions {
+  /** JSON file jobs are kept in; empty keeps them in memory only */
+  path: string;
+}
+
+export interface SchedulerHandlers {
+  /** Place a scheduled call */
+  call: (job: ScheduledJob) => Promise<unknown>;
+  /** Send a scheduled message */
+  send: (channel: "sms" | "whatsapp", job: ScheduledJob) => Promise<unknown>;
+}
+
+/** Longest delay setTimeout takes; later jobs wake up and wait again */
+const MAX_TIMER_MS = 2147483647;
+
+/** How far ahead to look for a cron expression's next run before giving up (e.g. "0 0 30 2 *") */
+const CRON_SEARCH_YEARS = 5;
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+};
+
+/** minute, hour, day of month, month, day of week */
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Day of month and day of week were both restricted: either one matching is enough */
+  eitherDay: boolean;
+}
+
+/**
+ * Parse one cron field ("*", "5", "1-5", "*\/15", "0,30") into the values it allows
+ */
+function parseCronField(field: string, spec: (typeof CRON_FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron ${spec.name}: ${field}`);
+    }
+    let from = spec.min;
+    let to = spec.max;
+    if (match[1] !== "*") {
+      const [start, end] = match[1].split("-").map(Number);
+      from = start;
+      // "5/15" steps from 5 to the end of the range
+      to = end ?? (match[2] ? spec.max : start);
+    }
+    const step = match[2] ? Number(match[2]) : 1;
+    if (from < spec.min || to > spec.max || from > to || step < 1) {
+      throw new Error(`Invalid cron ${spec.name}: ${field}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month day-of-week)
+ * Supports *, lists, ranges, steps and the @hourly/@daily/@weekly/@monthly/@yearly shorthands.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (CRON_MACROS[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression: ${expression} (expected minute hour day month weekday)`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+  // Sunday is 0 or 7
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return { minutes, hours, days, months, weekdays, eitherDay: fields[2] !== "*" && fields[4] !== "*" };
+}
+
+/**
+ * The first time after `after` that a cron expression matches, in local time
+ */
+export function nextCronRun(expression: string, after: Date): Date {
+  const cron = parseCron(expression);
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + CRON_SEARCH_YEARS);
+
+  while (next <= limit) {
+    if (!cron.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+      continue;
+    }
+    const dayMatches = cron.days.has(next.getDate());
+    const weekdayMatches = cron.weekdays.has(next.getDay());
+    if (cron.eitherDay ? !dayMatches && !weekdayMatches : !dayMatches || !weekdayMatches) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+  throw new Error(`Cron expression never runs: ${expression}`);
+}
+
+export class Scheduler {
+  private handlers: SchedulerHandlers;
+  private path: string;
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(handlers: SchedulerHandlers, options: SchedulerOptions) {
+    this.handlers = handlers;
+    this.path = options.path;
+  }
+
+  /**
+   * Load saved jobs and start their timers; overdue jobs run straight away
+   * A file that can't be read is moved aside (to .corrupt) and the schedule starts empty.
+   */
+  start(): void {
+    if (!this.path || !existsSync(this.path)) {
+      return;
+    }
+
+    let jobs: ScheduledJob[];
+    try {
+      const saved = JSON.parse(readFileSync(this.path, "utf8")) as { jobs?: ScheduledJob[] } | null;
+      jobs = saved?.jobs ?? [];
+      if (!Array.isArray(jobs)) {
+        throw new Error("jobs is not a list");
+      }
+    } catch (error) {
+      const aside = `${this.path}.corrupt`;
+      console.error(`[Scheduler] Could not read ${this.path}, moved it to ${aside} and starting with no jobs:`, error);
+      try {
+        renameSync(this.path, aside);
+      } catch (renameError) {
+        console.error(`[Scheduler] Failed to move ${this.path} aside:`, renameError);
+      }
+      return;
+    }
+
+    for (const job of jobs) {
+      this.jobs.set(job.id, job);
+      this.arm(job);
+    }
+    console.error(`[Scheduler] Loaded ${this.jobs.size} scheduled job(s) from ${this.path}`);
+  }
+
+  /**
+   * Stop all timers (jobs stay saved)
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Schedule a call or message, once (`at`) or on a cron schedule
+   */
+  schedule(request: ScheduleRequest, now: Date = new Date()): ScheduledJob {
+    if (!request.message) {
+      throw new Error("Message is required");
+    }
+    if (!request.at === !request.cron) {
+      throw new Error("Give either a time to run at or a cron schedule");
+    }
+    if (request.at && isNaN(request.at.getTime())) {
+      throw new Error("Invalid time to run at");
+    }
+    if (request.at && request.at <= now) {
+      throw new Error(`${request.at.toISOString()} is in the past`);
+    }
+
+    const job: ScheduledJob = {
+      id: crypto.randomUUID(),
+      channel: request.channel,
+      recipient: request.recipient,
+      message: request.message,
+      language: request.language,
+      cron: request.cron,
+      nextRunAt: (request.at ?? nextCronRun(request.cron!, now)).toISOString(),
+      createdAt: now.toISOString(),
+      runs: 0,
+    };
+    this.jobs.set(job.id, job);
+    this.save();
+    this.arm(job);
+
+    console.error(
+      `[Scheduler] Scheduled ${job.channel} to ${job.recipient} ${job.cron ? `on "${job.cron}", first` : "at"} ${job.nextRunAt}`
+    );
+    return job;
+  }
+
+  /**
+   * Jobs still to run, soonest first
+   */
+  list(): ScheduledJob[] {
+    return [...this.jobs.values()].sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt));
+  }
+
+  get(jobId: string): ScheduledJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Cancel a job
+   * @returns false if there is no such job
+   */
+  cancel(jobId: string): boolean {
+    const timer = this.timers.get(jobId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(jobId);
+    }
+    if (!this.jobs.delete(jobId)) {
+      return false;
+    }
+    this.save();
+    console.error(`[Scheduler] Cancelled ${jobId}`);
+    return true;
+  }
+
+  /**
+   * Start a job's timer; jobs further out than setTimeout allows wake up and re-arm
+   */
+  private arm(job: ScheduledJob): void {
+    const delay = Math.max(0, new Date(job.nextRunAt).getTime() - Date.now());
+    this.timers.set(
+      job.id,
+      setTimeout(() => {
+        this.timers.delete(job.id);
+        if (delay > MAX_TIMER_MS) {
+          this.arm(job);
+          return;
+        }
+        this.run(job).catch((error) => {
+          console.error(`[Scheduler] Job ${job.id} failed:`, error);
+        });
+      }, Math.min(delay, MAX_TIMER_MS))
+    );
+  }
+
+  private async run(job: ScheduledJob): Promise<void> {
+    const startedAt = new Date();
+    job.runs++;
+    job.lastRunAt = startedAt.toISOString();
+
+    try {
+      await (job.channel === "voice" ? this.handlers.call(job) : this.handlers.send(job.channel, job));
+      job.lastError = undefined;
+      console.error(`[Scheduler] Ran ${job.channel} to ${job.recipient} (${job.id.slice(0, 8)})`);
+    } catch (error) {
+      job.lastError = String(error);
+      console.error(`[Scheduler] ${job.channel} to ${job.recipient} failed (${job.id.slice(0, 8)}): ${error}`);
+    }
+
+    // Cancelled while it was running
+    if (!this.jobs.has(job.id)) {
+      return;
+    }
+    if (job.cron) {
+      job.nextRunAt = nextCronRun(job.cron, startedAt).toISOString();
+      this.arm(job);
+    } else {
+      this.jobs.delete(job.id);
+    }
+    this.save();
+  }
+
+  /**
+   * Write the jobs out, replacing the file in one step so a crash can't leave half of it
+   */
+  private save(): void {
+    if (!this.path) {
+      return;
+    }
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.tmp`;
+    writeFileSync(temp, JSON.stringify({ jobs: [...this.jobs.values()] }, null, 2));
+    renameSync(temp, this.path);
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Session Manager
+ * Groups every conversation with the same person across Voice, SMS and WhatsApp
+ * into one session with a shared timeline and the task being worked on, so a
+ * follow-up on one channel sees what happened on the others.
+ */
+
+import { normalizeNumber } from "./contacts.js";
+import {
+  ConversationDirection,
+  type ChannelType,
+  type Conversation,
+  type ConversationManager,
+} from "./conversation-manager.js";
+import type { TaskContext, TaskExecutor } from "./task-executor.js";
+
+export interface SessionTask {
+  conversationId: string;
+  task: string;
+  workingDir: string;
+  status: "running" | "completed" | "failed";
+  startedAt: Date;
+  completionSummary?: string;
+}
+
+export interface Session {
+  id: string;
+  /** Normalized phone number of the person this session is with */
+  counterpart: string;
+  /** Conversations in the session, oldest first */
+  conversationIds: string[];
+  startedAt: Date;
+  lastActivityAt: Date;
+  /** Most recent task spawned from any conversation in the session */
+  task?: SessionTask;
+}
+
+export interface TimelineEntry {
+  conversationId: string;
+  channel: ChannelType;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+}
+
+export interface SessionManagerOptions {
+  /** Start a new session when the person has been quiet this long (default: 4 hours) */
+  timeoutMs?: number;
+  /** Timeline entries included in task context handed to spawned sessions (default: 30) */
+  contextEntries?: number;
+}
+
+/**
+ * Phone number of the other party (the sender for inbound, the recipient for outbound)
+ */
+export function conversationCounterpart(conversation: Conversation): string | undefined {
+  const number = conversation.direction === ConversationDirection.INBOUND
+    ? conversation.metadata?.from
+    : conversation.metadata?.to;
+  return number ? normalizeNumber(number) || undefined : undefined;
+}
+
+/**
+ * Render timeline entries as plain text for prompts
+ */
+export function formatTimeline(entries: TimelineEntry[]): string {
+  return entries
+    .map((e) => `[${e.timestamp.toISOString()} ${e.channel}] ${e.role === "user" ? "User" : "Assistant"}: ${e.content}`)
+    .join("\n");
+}
+
+export class SessionManager {
+  private sessions: Map<string, Session> = new Map();
+  private currentByCounterpart: Map<string, string> = new Map();
+  private byConversation: Map<string, string> = new Map();
+  private conversationManager: ConversationManager;
+  private taskExecutor?: Pick<TaskExecutor, "events" | "getExecution">;
+  private timeoutMs: number;
+  private contextEntries: number;
+
+  constructor(conversationManager: ConversationManager, options: SessionManagerOptions = {}) {
+    this.conversationManager = conversationManager;
+    this.timeoutMs = options.timeoutMs ?? 14400000;
+    this.contextEntries = options.contextEntries ?? 30;
+
+    // Conversations restored from the store join sessions like new ones
+    for (const conversation of conversationManager.getActiveConversations()) {
+      this.attach(conversation);
+    }
+
+    conversationManager.events.on("conversation.created", ({ conversation }) => {
+      this.attach(conversation);
+    });
+    conversationManager.events.on("message.added", ({ conversationId, message }) => {
+      const session = this.getSessionForConversation(conversationId);
+      if (session) {
+        session.lastActivityAt = message.timestamp;
+      }
+    });
+    conversationManager.events.on("state.changed", ({ conversationId, reason }) => {
+      // "New topic" means the person wants a clean slate on every channel
+      const session = this.getSessionForConversation(conversationId);
+      if (reason === "new_topic" && session) {
+        this.currentByCounterpart.delete(session.counterpart);
+        console.error(`[Session] Closed session ${session.id.slice(0, 8)} (new topic)`);
+      }
+    });
+  }
+
+  /**
+   * Follow task lifecycle so each session knows what is being worked on
+   */
+  trackTasks(taskExecutor: Pick<TaskExecutor, "events" | "getExecution">): void {
+    this.taskExecutor = taskExecutor;
+
+    taskExecutor.events.on("task.spawned", ({ conversationId, task, workingDir }) => {
+      const session = this.getSessionForConversation(conversationId);
+      if (!session) return;
+      session.task = { conversationId, task, workingDir, status: "running", startedAt: new Date() };
+      session.lastActivityAt = new Date();
+    });
+    taskExecutor.events.on("task.exited", ({ conversationId, status }) => {
+      const session = this.getSessionForConversation(conversationId);
+      if (session?.task?.conversationId !== conversationId) return;
+      session.task.status = status;
+      session.task.completionSummary =
+        taskExecutor.getExecution(conversationId)?.completionSummary ?? session.task.completionSummary;
+    });
+  }
+
+  getSession(id: string): Session | undefined {
+    return this.sessions.get(id);
+  }
+
+  getSessionForConversation(conversationId: string): Session | undefined {
+    const sessionId = this.byConversation.get(conversationId);
+    return sessionId ? this.sessions.get(sessionId) : undefined;
+  }
+
+  /**
+   * The current session with a person, if they have been active recently
+   */
+  findByNumber(phone: string): Session | undefined {
+    const sessionId = this.currentByCounterpart.get(normalizeNumber(phone));
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    return session && !this.isExpired(session, Date.now()) ? session : undefined;
+  }
+
+  /**
+   * The session's task, if it is still running
+   */
+  getActiveTask(sessionId: string): SessionTask | undefined {
+    const task = this.sessions.get(sessionId)?.task;
+    return task?.status === "running" ? task : undefined;
+  }
+
+  /**
+   * Messages from every conversation in the session, oldest first
+   */
+  getTimeline(sessionId: string): TimelineEntry[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) return [];
+
+    const entries: TimelineEntry[] = [];
+    for (const conversationId of session.conversationIds) {
+      const conversation = this.conversationManager.getConversation(conversationId);
+      if (!conversation) continue;
+      for (const message of conversation.messages) {
+        entries.push({
+          conversationId,
+          channel: conversation.channel,
+          role: message.role,
+          content: message.content,
+          timestamp: message.timestamp,
+        });
+      }
+    }
+    return entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Task context for a follow-up in any conversation of a session
+   * Carries the session's latest task plus the recent cross-channel timeline.
+   */
+  getTaskContext(conversationId: string): TaskContext | undefined {
+    const session = this.getSessionForConversation(conversationId);
+    const task = session?.task;
+    if (!session || !task) return undefined;
+
+    const summary = this.taskExecutor?.getExecution(task.conversationId)?.completionSummary
+      ?? task.completionSummary;
+    const timeline = this.getTimeline(session.id).slice(-this.contextEntries);
+
+    return {
+      originalTask: task.task,
+      completionSummary: summary || (task.status === "running" ? "Task in progress" : "No summary recorded"),
+      workingDir: task.workingDir,
+      conversationId: task.conversationId,
+      transcript: timeline.length > 0 ? formatTimeline(timeline) : undefined,
+    };
+  }
+
+  /**
+   * Forget sessions with no activity for longer than maxAgeMs (call periodically)
+   */
+  cleanupOld(maxAgeMs: number = 86400000): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions.entries()) {
+      if (now - session.lastActivityAt.getTime() > maxAgeMs && session.task?.status !== "running") {
+        this.sessions.delete(id);
+        for (const conversationId of session.conversationIds) {
+          this.byConversation.delete(conversationId);
+        }
+        if (this.currentByCounterpart.get(session.counterpart) === id) {
+          this.currentByCounterpart.delete(session.counterpart);
+        }
+      }
+    }
+  }
+
+  private isExpired(session: Session, now: number): boolean {
+    return now - session.lastActivityAt.getTime() > this.timeoutMs;
+  }
+
+  /**
+   * Add a conversation to the person's current session, starting one if needed
+   */
+  private attach(conversation: Conversation): void {
+    const counterpart = conversationCounterpart(conversation);
+    if (!counterpart || this.byConversation.has(conversation.id)) return;
+
+    const now = new Date();
+    let session = this.findByNumber(counterpart);
+    if (!session) {
+      session = {
+        id: crypto.randomUUID(),
+        counterpart,
+        conversationIds: [],
+        startedAt: now,
+        lastActivityAt: now,
+      };
+      this.sessions.set(session.id, session);
+      this.currentByCounterpart.set(counterpart, session.id);
+      console.error(`[Session] Started session ${session.id.slice(0, 8)} with ${counterpart}`);
+    }
+
+    session.conversationIds.push(conversation.id);
+    session.lastActivityAt = now;
+    this.byConversation.set(conversation.id, session.id);
+  }
+}
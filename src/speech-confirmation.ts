@@ -0,0 +1,87 @@
+/**
+ * Speech Confirmation
+ * Callers' speech is only acted on when the provider is reasonably sure what
+ * was said. Below the confidence threshold we read the transcript back and
+ * wait for a yes, a no, or the caller saying it again, before it is treated
+ * as a new task or as an answer to a pending question.
+ */
+
+import { phrasesFor } from "./language.js";
+
+export interface SpeechConfirmationOptions {
+  /** Transcripts below this confidence (0-1) are read back; 0 turns confirmation off (default: 0.5) */
+  threshold?: number;
+}
+
+/** What the caller said, once we're sure of it */
+export interface ConfirmedSpeech {
+  transcript: string;
+  confidence?: number;
+  /** The caller talked over our prompt while saying it (barge-in) */
+  interrupted: boolean;
+}
+
+/** Say this and listen for the caller's reply instead of acting */
+export interface SpeechPrompt {
+  prompt: string;
+}
+
+/**
+ * Lowercase words without punctuation, for matching yes and no replies
+ */
+function normalizeReply(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s']/gu, "").replace(/\s+/g, " ").trim();
+}
+
+export class SpeechConfirmation {
+  private threshold: number;
+  /** Low-confidence transcripts waiting for the caller's yes or no, by conversation */
+  private pending: Map<string, ConfirmedSpeech> = new Map();
+
+  constructor(options: SpeechConfirmationOptions = {}) {
+    this.threshold = options.threshold ?? 0.5;
+  }
+
+  /**
+   * Decide what to do with something the caller said
+   * @returns The speech to act on, or a prompt to speak while we wait for confirmation
+   */
+  check(
+    conversationId: string,
+    speech: ConfirmedSpeech,
+    language?: string
+  ): ConfirmedSpeech | SpeechPrompt {
+    const phrases = phrasesFor(language);
+    const pending = this.pending.get(conversationId);
+
+    if (pending) {
+      this.pending.delete(conversationId);
+      const reply = normalizeReply(speech.transcript);
+      if (phrases.yes.includes(reply)) {
+        console.error(`[Confirm] ${conversationId.slice(0, 8)} confirmed "${pending.transcript}"`);
+        return pending;
+      }
+      if (phrases.no.includes(reply)) {
+        return { prompt: phrases.sayAgain };
+      }
+      // Anything else is the caller saying it again
+    }
+
+    if (this.threshold > 0 && speech.confidence !== undefined && speech.confidence < this.threshold) {
+      console.error(
+        `[Confirm] Reading back "${speech.transcript}" to ${conversationId.slice(0, 8)} (confidence ${speech.confidence})`
+      );
+      this.pending.set(conversationId, speech);
+      return { prompt: phrases.confirmHeard(speech.transcript) };
+    }
+
+    return speech;
+  }
+
+  /**
+   * Forget a read-back the caller never answered (e.g. they hung up)
+   */
+  clear(conversationId: string): void {
+    this.pending.delete(conversationId);
+  }
+}
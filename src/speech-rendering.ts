@@ -0,0 +1,210 @@
+/**
+ * Speech Rendering
+ * Claude writes for a screen: markdown, code blocks, file paths and URLs.
+ * Before text is spoken on a call it is rendered for the ear: markdown is
+ * stripped, code blocks are left out with a note of their size, paths and
+ * identifiers are read as words, and URLs are collected to be sent by
+ * message instead of read out. An SSML version adds pauses and emphasis for
+ * voices that take it.
+ */
+
+import { phrasesFor } from "./language.js";
+
+export interface RenderedSpeech {
+  /** Plain text to speak */
+  text: string;
+  /** The same speech as SSML elements (no <speak> wrapper), for voices that support it */
+  ssml: string;
+  /** URLs left out of the speech */
+  links: string[];
+}
+
+export interface RenderOptions {
+  /** Language of the call, for the notes we add (default: en-US) */
+  language?: string;
+  /** Links are sent to the caller on WhatsApp; otherwise the speech only says one was left out */
+  sendsLinks?: boolean;
+}
+
+// Markers for SSML that survive until the text is escaped
+const EMPHASIS_START = "\u0001";
+const EMPHASIS_END = "\u0002";
+const SHORT_PAUSE = "\u0003";
+const LONG_PAUSE = "\u0004";
+const REMOVED_LINK = "\u0005";
+
+const FILE_EXTENSIONS = "ts|tsx|js|jsx|mjs|cjs|json|md|py|go|rs|rb|java|kt|swift|c|h|cpp|cs|yaml|yml|toml|sh|css|scss|html|sql|txt|lock|env";
+/** Markdown links and bare URLs */
+const LINK_PATTERN = /\[([^\]]+)\]\(([^)\s]+)[^)]*\)|\bhttps?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/g;
+const PATH_PATTERN = new RegExp(
+  `(?:~|\\.{1,2})?\\/?(?:[\\w@.-]+\\/)+[\\w@.-]+|\\b[\\w-]+\\.(?:${FILE_EXTENSIONS})\\b`,
+  "g"
+);
+
+/**
+ * Read a path as words, keeping the last two parts of long ones
+ * ("src/phone-call.ts" -> "src slash phone call dot ts")
+ */
+export function pronouncePath(path: string): string {
+  const parts = path.replace(/^~/, "home/").split("/").filter((part) => part && part !== ".");
+  return parts
+    .slice(-2)
+    .map((part) => part.replace(/\./g, " dot ").replace(/[-_]+/g, " ").replace(/\s+/g, " ").trim())
+    .join(" slash ");
+}
+
+/**
+ * Read an identifier as words ("speakToCall" -> "speak to call", "user_id" -> "user id")
+ */
+export function pronounceIdentifier(identifier: string): string {
+  return identifier
+    .replace(/\(\)$/, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .replace(/[-_]+/g, " ")
+    .replace(/\./g, " dot ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Whether a token is a file path rather than a word with a slash ("and/or")
+ */
+function isPath(token: string): boolean {
+  if (new RegExp(`\\.(?:${FILE_EXTENSIONS})$`).test(token)) {
+    return true;
+  }
+  return /^(?:~|\.{1,2})?\//.test(token) || (token.match(/\//g) ?? []).length >= 2;
+}
+
+/**
+ * Inline code: paths and identifiers read as words, anything else as written
+ */
+function pronounceCode(code: string): string {
+  const trimmed = code.trim();
+  if (isPath(trimmed)) {
+    return pronouncePath(trimmed);
+  }
+  if (/^[\w$.-]+(?:\(\))?$/.test(trimmed)) {
+    return pronounceIdentifier(trimmed);
+  }
+  return trimmed;
+}
+
+/**
+ * End a spoken line with a full stop unless it already has punctuation
+ */
+function endSentence(line: string): string {
+  return /[.!?:;,…]$/.test(line) ? line : `${line}.`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Render assistant text for speaking on a call
+ */
+export function renderForSpeech(text: string, options: RenderOptions = {}): RenderedSpeech {
+  const phrases = phrasesFor(options.language);
+  const links: string[] = [];
+
+  // Code blocks are left out, noting their size
+  let body = text.replace(/```[^\n]*\n([\s\S]*?)(?:```|$)/g, (_match, code: string) => {
+    const lines = code.split("\n").filter((line) => line.trim()).length;
+    return `\n\n${phrases.codeElided(lines)}\n\n`;
+  });
+
+  // Links: images are dropped, link text is kept and the URL saved
+  body = body.replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, "$1");
+  body = body.replace(LINK_PATTERN, (match, label: string | undefined, url: string | undefined) => {
+    links.push(url ?? match);
+    return label ?? REMOVED_LINK;
+  });
+
+  // Inline code, then bare paths
+  body = body.replace(/`([^`\n]+)`/g, (_match, code: string) => pronounceCode(code));
+  body = body.replace(PATH_PATTERN, (token) => (isPath(token) ? pronouncePath(token) : token));
+
+  // Emphasis and other inline markup
+  body = body
+    .replace(/(\*\*|__)(?=\S)([^\n]*?\S)\1/g, `${EMPHASIS_START}$2${EMPHASIS_END}`)
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, "$1$2")
+    .replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1$2")
+    .replace(/~~([^~\n]+)~~/g, "$1");
+
+  // Block markup: one spoken sentence per line, with pauses between blocks
+  const spoken: string[] = [];
+  for (const rawLine of body.split("\n")) {
+    let line = rawLine.trim();
+    if (!line) {
+      const last = spoken[spoken.length - 1];
+      if (last === SHORT_PAUSE) {
+        spoken[spoken.length - 1] = LONG_PAUSE;
+      } else if (last !== undefined && last !== LONG_PAUSE) {
+        spoken.push(LONG_PAUSE);
+      }
+      continue;
+    }
+    if (/^(?:-{3,}|\*{3,}|_{3,})$/.test(line) || /^\|?[\s:|-]+\|[\s:|-]*$/.test(line)) {
+      continue;  // Rules and table separators
+    }
+
+    let pause = false;
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (heading) {
+      line = heading[1];
+      pause = true;
+    } else if (listItem) {
+      line = listItem[1];
+      pause = true;
+    }
+    line = line.replace(/^>\s?/, "");
+    if (line.includes("|")) {
+      line = line.split("|").map((cell) => cell.trim()).filter(Boolean).join(", ");
+    }
+    // Tidy up around links taken out ("ready: <url>." -> "ready.")
+    line = line.replace(new RegExp(`[,;:]?\\s*${REMOVED_LINK}`, "g"), "");
+    line = line.replace(/\s+/g, " ").replace(/\s+([.,;:!?])/g, "$1").trim();
+    if (!line || /^[.,;:!?]+$/.test(line)) {
+      continue;
+    }
+
+    spoken.push(pause ? endSentence(line) : line);
+    if (pause) {
+      spoken.push(SHORT_PAUSE);
+    }
+  }
+  while (spoken[spoken.length - 1] === SHORT_PAUSE || spoken[spoken.length - 1] === LONG_PAUSE) {
+    spoken.pop();
+  }
+
+  if (links.length > 0) {
+    spoken.push(options.sendsLinks ? phrases.linksSent(links.length) : phrases.linksOmitted(links.length));
+  }
+
+  // Every sentence but the last ends with a full stop, so it isn't run into the next
+  const marked = spoken
+    .map((part, i) => (i < spoken.length - 1 && part !== SHORT_PAUSE && part !== LONG_PAUSE ? endSentence(part) : part))
+    .join(" ");
+  return {
+    text: marked
+      .split(EMPHASIS_START).join("")
+      .split(EMPHASIS_END).join("")
+      .split(` ${SHORT_PAUSE} `).join(" ")
+      .split(` ${LONG_PAUSE} `).join(" "),
+    ssml: escapeXml(marked)
+      .split(EMPHASIS_START).join("<emphasis>")
+      .split(EMPHASIS_END).join("</emphasis>")
+      .split(` ${SHORT_PAUSE} `).join(' <break time="300ms"/> ')
+      .split(` ${LONG_PAUSE} `).join(' <break time="600ms"/> '),
+    links,
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * SQLite Conversation Store
+ * Persists conversations and messages with bun:sqlite so threads survive restarts
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type { ConversationStore } from "./conversation-store.js";
+import {
+  searchTerms,
+  type ChannelType,
+  type Conversation,
+  type ConversationDirection,
+  type ConversationFilter,
+  type ConversationState,
+  type Message,
+} from "./conversation-manager.js";
+
+interface ConversationRow {
+  id: string;
+  provider_conversation_id: string;
+  channel: string;
+  direction: string;
+  state: string;
+  started_at: number;
+  ended_at: number | null;
+  metadata: string | null;
+}
+
+interface MessageRow {
+  role: string;
+  content: string;
+  timestamp: number;
+  extra: string | null;
+}
+
+export class SqliteConversationStore implements ConversationStore {
+  private db: Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec("PRAGMA foreign_keys = ON");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        provider_conversation_id TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        direction TEXT NOT NULL,
+        state TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER,
+        metadata TEXT
+      )
+    `);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS messages (
+        conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+        seq INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        extra TEXT,
+        PRIMARY KEY (conversation_id, seq)
+      )
+    `);
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_conversations_state ON conversations(state)");
+
+    console.error(`[ConversationStore] SQLite store opened at ${path}`);
+  }
+
+  loadActive(): Conversation[] {
+    const rows = this.db
+      .query("SELECT * FROM conversations WHERE state != 'ended' ORDER BY started_at")
+      .all() as ConversationRow[];
+    return rows.map((row) => this.hydrate(row));
+  }
+
+  get(id: string): Conversation | undefined {
+    const row = this.db
+      .query("SELECT * FROM conversations WHERE id = ?")
+      .get(id) as ConversationRow | null;
+    return row ? this.hydrate(row) : undefined;
+  }
+
+  find(filter: ConversationFilter): Conversation[] {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.channel !== undefined) {
+      clauses.push("channel = ?");
+      params.push(filter.channel);
+    }
+    if (filter.state !== undefined) {
+      clauses.push("state = ?");
+      params.push(filter.state);
+    }
+    if (filter.direction !== undefined) {
+      clauses.push("direction = ?");
+      params.push(filter.direction);
+    }
+    if (filter.since) {
+      clauses.push("started_at >= ?");
+      params.push(filter.since.getTime());
+    }
+    if (filter.until) {
+      clauses.push("started_at <= ?");
+      params.push(filter.until.getTime());
+    }
+    for (const term of searchTerms(filter.text)) {
+      clauses.push(
+        "EXISTS (SELECT 1 FROM messages m WHERE m.conversation_id = conversations.id AND m.content LIKE ? ESCAPE '\\')"
+      );
+      params.push(`%${term.replace(/[\\%_]/g, "\\$&")}%`);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const rows = this.db
+      .query(`SELECT * FROM conversations ${where} ORDER BY started_at DESC`)
+      .all(...params) as ConversationRow[];
+    return rows.map((row) => this.hydrate(row));
+  }
+
+  saveConversation(conversation: Conversation): void {
+    this.db
+      .query(`
+        INSERT INTO conversations
+          (id, provider_conversation_id, channel, direction, state, started_at, ended_at, metadata)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          provider_conversation_id = excluded.provider_conversation_id,
+          state = excluded.state,
+          ended_at = excluded.ended_at,
+          metadata = excluded.metadata
+      `)
+      .run(
+        conversation.id,
+        conversation.providerConversationId,
+        conversation.channel,
+        conversation.direction,
+        conversation.state,
+        conversation.startedAt.getTime(),
+        conversation.endedAt ? conversation.endedAt.getTime() : null,
+        conversation.metadata ? JSON.stringify(conversation.metadata) : null
+      );
+  }
+
+  saveMessage(conversationId: string, index: number, message: Message): void {
+    const { role, content, timestamp, ...extra } = message;
+    this.db
+      .query(`
+        INSERT OR REPLACE INTO messages (conversation_id, seq, role, content, timestamp, extra)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        conversationId,
+        index,
+        role,
+        content,
+        timestamp.getTime(),
+        Object.keys(extra).length > 0 ? JSON.stringify(extra) : null
+      );
+  }
+
+  deleteEndedBefore(cutoff: Date): number {
+    const result = this.db
+      .query("DELETE FROM conversations WHERE state = 'ended' AND ended_at IS NOT NULL AND ended_at < ?")
+      .run(cutoff.getTime());
+    return result.changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private hydrateMessage(row: MessageRow): Message {
+    const extra = row.extra ? JSON.parse(row.extra) : {};
+    // JSON turns Dates into strings; restore them on delivery receipts
+    if (Array.isArray(extra.deliveryStatus)) {
+      extra.deliveryStatus = extra.deliveryStatus.map((update: any) => ({
+        ...update,
+        timestamp: new Date(update.timestamp),
+      }));
+    }
+    return {
+      ...extra,
+      role: row.role as Message["role"],
+      content: row.content,
+      timestamp: new Date(row.timestamp),
+    };
+  }
+
+  private hydrate(row: ConversationRow): Conversation {
+    const messages = this.db
+      .query("SELECT role, content, timestamp, extra FROM messages WHERE conversation_id = ? ORDER BY seq")
+      .all(row.id) as MessageRow[];
+
+    return {
+      id: row.id,
+      providerConversationId: row.provider_conversation_id,
+      channel: row.channel as ChannelType,
+      direction: row.direction as ConversationDirection,
+      state: row.state as ConversationState,
+      messages: messages.map((m) => this.hydrateMessage(m)),
+      startedAt: new Date(row.started_at),
+      endedAt: row.ended_at !== null ? new Date(row.ended_at) : undefined,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+    };
+  }
+}
@@ -4,6 +4,9 @@
  */
 
 import { spawn, type ChildProcess } from "child_process";
+import { EventBus, type TaskEvents } from "./events.js";
+import { isEnglish, languageName } from "./language.js";
+import { describeAttachments, type MessageAttachment } from "./attachments.js";
 
 export interface TaskExecution {
   conversationId: string;
@@ -13,17 +16,27 @@ export interface TaskExecution {
   startedAt: Date;
   completionSummary?: string;  // What was accomplished
   workingDir: string;          // Where files were created
+  progress?: string;           // Latest progress update from the session
+  progressAt?: Date;
+  output: string[];            // Most recent stdout lines
+  outputAt?: Date;
 }
 
+/** Lines of process output kept on each execution */
+const OUTPUT_LINES = 20;
+
 export interface TaskContext {
   originalTask: string;
   completionSummary: string;
   workingDir: string;
   completedAt?: number;        // Timestamp for cross-channel lookup
   conversationId?: string;     // Original conversation ID
+  transcript?: string;         // Recent messages across the person's channels
 }
 
 export class TaskExecutor {
+  /** Process lifecycle events (spawned, exited) */
+  readonly events = new EventBus<TaskEvents>();
   private executions: Map<string, TaskExecution> = new Map();
   private apiBaseUrl: string;
   // Map callback conversation IDs to original conversation IDs for context
@@ -104,13 +117,16 @@ export class TaskExecutor {
    * Execute a task by spawning a Claude Code session
    * @param context Optional context from a previous task (for follow-ups on callbacks)
    * @param channel Communication channel - affects how Claude responds
+   * @param attachments Files the user sent with the request (screenshots, documents)
    */
   async executeTask(
     conversationId: string,
     initialTask: string,
     workingDir: string,
     context?: TaskContext,
-    channel: "voice" | "whatsapp" | "sms" = "voice"
+    channel: "voice" | "whatsapp" | "sms" = "voice",
+    language?: string,
+    attachments: MessageAttachment[] = []
   ): Promise<void> {
     // Build context section if we have prior task info
     let contextSection = "";
@@ -123,7 +139,10 @@ This is a FOLLOW-UP from a previous task${context.conversationId ? ` (conversati
 **Original Request**: "${context.originalTask}"
 **What Was Done**: "${context.completionSummary}"
 **Working Directory**: ${context.workingDir}
-
+${context.transcript ? `
+**Conversation So Far** (all channels, oldest first):
+${context.transcript}
+` : ""}
 The user is asking a follow-up question about what was just created.
 You should continue working in the same directory and build on what was already created.
 `;
@@ -141,9 +160,10 @@ Use the WhatsApp endpoint to respond - do NOT use voice endpoints.
 \`\`\`bash
 curl -s -X POST ${this.apiBaseUrl}/api/whatsapp \\
   -H "Content-Type: application/json" \\
-  -d '{"message": "Your message here"}'
+  -d '{"message": "Your message here", "conversationId": "${conversationId}"}'
 \`\`\`
 
+Always include the conversationId so the reply reaches the person who sent the task.
 DO NOT use /api/ask or /api/say (those are for voice calls).
 When done, send a WhatsApp message with the result instead of calling /api/complete.
 `
@@ -158,9 +178,10 @@ Use the SMS endpoint to respond - do NOT use voice endpoints.
 \`\`\`bash
 curl -s -X POST ${this.apiBaseUrl}/api/sms \\
   -H "Content-Type: application/json" \\
-  -d '{"message": "Your message here"}'
+  -d '{"message": "Your message here", "conversationId": "${conversationId}"}'
 \`\`\`
 
+Always include the conversationId so the reply reaches the person who sent the task.
 DO NOT use /api/ask or /api/say (those are for voice calls).
 When done, send an SMS with the result instead of calling /api/complete.
 `
@@ -203,14 +224,14 @@ curl -s ${this.apiBaseUrl}/api/status/${conversationId}
 \`\`\`bash
 curl -s -X POST ${this.apiBaseUrl}/api/sms \\
   -H "Content-Type: application/json" \\
-  -d '{"message": "Here is the URL: https://example.com"}'
+  -d '{"message": "Here is the URL: https://example.com", "conversationId": "${conversationId}"}'
 \`\`\`
 
 ### Send WhatsApp to user:
 \`\`\`bash
 curl -s -X POST ${this.apiBaseUrl}/api/whatsapp \\
   -H "Content-Type: application/json" \\
-  -d '{"message": "Here is the URL: https://example.com"}'
+  -d '{"message": "Here is the URL: https://example.com", "conversationId": "${conversationId}"}'
 \`\`\`
 
 ### Wait for WhatsApp message (blocking - keeps session alive):
@@ -237,12 +258,42 @@ done
 \`\`\`
 `;
 
+    const schedulingEndpoints = `
+### Schedule a call or message for later:
+\`\`\`bash
+curl -s -X POST ${this.apiBaseUrl}/api/schedule \\
+  -H "Content-Type: application/json" \\
+  -d '{"channel": "voice", "message": "The test run finished: all green", "at": "2026-10-19T18:00:00+02:00", "conversationId": "${conversationId}"}'
+\`\`\`
+Channel is voice, sms or whatsapp. Use "delayMs" instead of "at" to run after a delay, or "cron": "0 9 * * 1-5" to repeat (server local time).
+List scheduled jobs with GET ${this.apiBaseUrl}/api/schedule, cancel one with DELETE ${this.apiBaseUrl}/api/schedule/<id>.
+`;
+
+    // Everything sent to the user is spoken or delivered as written, so it must be in their language
+    const languageSection = language && !isEnglish(language)
+      ? `
+## Language: ${languageName(language)}
+
+The user speaks ${languageName(language)}. Write every message you send them (questions, updates, summaries) in ${languageName(language)}.
+`
+      : "";
+
+    // Screenshots and documents sent with the message, already saved to disk
+    const attachmentsSection = attachments.length > 0
+      ? `
+## Attachments
+
+The user sent ${attachments.length === 1 ? "a file" : `${attachments.length} files`} with their message. Read ${attachments.length === 1 ? "it" : "them"} (images included) before you start; a screenshot is usually of the error or screen they're asking about:
+${describeAttachments(attachments)}
+`
+      : "";
+
     const prompt = `
 You received a ${channel === "voice" ? "phone call" : channel.toUpperCase() + " message"} from a user. Their request was:
 "${initialTask}"
-${contextSection}
+${attachmentsSection}${languageSection}${contextSection}
 ${channelInstructions}
-${channel === "voice" ? messagingEndpoints : ""}
+${channel === "voice" ? messagingEndpoints : ""}${schedulingEndpoints}
 ## Important Instructions
 
 1. ${channel === "voice" ? "**Clarify first**: If the request is unclear, use /api/ask to get clarification" : "**Work autonomously**: Execute the task directly"}
@@ -278,8 +329,7 @@ Start now. ${context ? "This is a follow-up request - use your context from the
 
     console.error(`[TaskExecutor] Starting task for ${conversationId}: ${initialTask.slice(0, 50)}...`);
 
-    const execution = this.spawnClaude(conversationId, prompt, workingDir);
-    execution.task = initialTask;
+    this.spawnClaude(conversationId, prompt, workingDir, undefined, undefined, initialTask);
   }
 
   /**
@@ -287,6 +337,7 @@ Start now. ${context ? "This is a follow-up request - use your context from the
    * Reusable by both executeTask() and WhatsAppChatManager.
    * @param sessionId Optional stable session ID passed as --session-id to claude CLI
    * @param onClose Optional callback invoked when the process exits
+   * @param task Short task description recorded on the execution (the prompt can be long)
    */
   spawnClaude(
     conversationId: string,
@@ -294,6 +345,7 @@ Start now. ${context ? "This is a follow-up request - use your context from the
     workingDir: string,
     sessionId?: string,
     onClose?: (code: number | null) => void,
+    task: string = "",
   ): TaskExecution {
     // Prevent spawned Claude from loading user's MCP servers (which would
     // spawn recursive better-call-claude instances, steal Baileys connections,
@@ -322,13 +374,15 @@ Start now. ${context ? "This is a follow-up request - use your context from the
 
     const execution: TaskExecution = {
       conversationId,
-      task: "",
+      task,
       process: claude,
       status: "running",
       startedAt: new Date(),
       workingDir,
+      output: [],
     };
     this.executions.set(conversationId, execution);
+    this.events.emit("task.spawned", { conversationId, task, workingDir, pid: claude.pid });
 
     // Capture output to temp files for debugging spawn issues (skip in tests)
     const isTest = typeof process !== "undefined" && !!process.env.BUN_TEST;
@@ -342,6 +396,7 @@ Start now. ${context ? "This is a follow-up request - use your context from the
       const output = data.toString().trim();
       if (output) {
         console.error(`[Claude:${conversationId.slice(0, 8)}] ${output}`);
+        this.recordOutput(execution, output);
         if (logFile) { try { require("fs").appendFileSync(logFile, `[stdout] ${output}\n`); } catch {} }
       }
     });
@@ -349,6 +404,7 @@ Start now. ${context ? "This is a follow-up request - use your context from the
     claude.stderr?.on("data", (data) => {
       const output = data.toString().trim();
       if (output) {
+        // Not kept for hold narration: stderr carries warnings and stack traces, not progress
         console.error(`[Claude:${conversationId.slice(0, 8)}:err] ${output}`);
         if (logFile) { try { require("fs").appendFileSync(logFile, `[stderr] ${output}\n`); } catch {} }
       }
@@ -358,6 +414,7 @@ Start now. ${context ? "This is a follow-up request - use your context from the
       execution.status = code === 0 ? "completed" : "failed";
       console.error(`[TaskExecutor] Claude session ${conversationId.slice(0, 8)} exited with code ${code}`);
       if (logFile) { try { require("fs").appendFileSync(logFile, `[close] exit code ${code}\n`); } catch {} }
+      this.events.emit("task.exited", { conversationId, code, status: execution.status });
       onClose?.(code);
     });
 
@@ -369,6 +426,26 @@ Start now. ${context ? "This is a follow-up request - use your context from the
     return execution;
   }
 
+  /**
+   * Keep the latest lines of stdout (for hold narration)
+   */
+  private recordOutput(execution: TaskExecution, output: string): void {
+    const lines = output.split("\n").map((line) => line.trim()).filter(Boolean);
+    execution.output = [...execution.output, ...lines].slice(-OUTPUT_LINES);
+    execution.outputAt = new Date();
+  }
+
+  /**
+   * Record a progress update the session gave the user
+   */
+  recordProgress(conversationId: string, progress: string): void {
+    const execution = this.executions.get(conversationId);
+    if (execution) {
+      execution.progress = progress;
+      execution.progressAt = new Date();
+    }
+  }
+
   /**
    * Get execution status for a conversation
    */
@@ -0,0 +1,133 @@
+/**
+ * Telnyx Call Flow
+ * Telnyx calls are driven with Call Control commands instead of TwiML, so
+ * each call's progress is tracked here: answer inbound calls, speak the
+ * greeting (or an outbound call's message) once answered, transcribe the
+ * caller, and hand each finished utterance to the same handler Twilio's
+ * gather webhook uses. Calls with media streams don't go through here.
+ */
+
+import type { PhoneCallManager, TelnyxCallEvent } from "./phone-call.js";
+
+/**
+ * answering: we answered an inbound call and are waiting for call.answered
+ * ringing: an outbound call hasn't been picked up yet
+ * listening: the greeting is playing or done, and we're waiting for the caller
+ * working: the caller's request was handed off; Claude speaks via the API
+ */
+export type TelnyxCallState = "answering" | "ringing" | "listening" | "working";
+
+/** What came of a caller's turn (see handleCallerSpeech in index.ts) */
+export type CallerTurn = "answered" | "spawned" | "follow_up";
+
+export interface TelnyxCallFlowHandlers {
+  /** Handle something the caller said */
+  speech: (conversationId: string, transcript: string, confidence: number | undefined, interrupted: boolean) => CallerTurn;
+  /** Spoken when a turn starts a task */
+  acknowledgement: (conversationId: string) => string;
+}
+
+type CallControl = Pick<PhoneCallManager, "answerCall" | "speakToCall" | "startListening" | "takeInterruption">;
+
+interface TelnyxCall {
+  state: TelnyxCallState;
+  /** Spoken once the call is answered */
+  greeting: string;
+}
+
+export class TelnyxCallFlow {
+  private phoneCallManager: CallControl;
+  private handlers: TelnyxCallFlowHandlers;
+  /** Calls by call_control_id */
+  private calls: Map<string, TelnyxCall> = new Map();
+
+  constructor(phoneCallManager: CallControl, handlers: TelnyxCallFlowHandlers) {
+    this.phoneCallManager = phoneCallManager;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Answer an inbound call; the greeting is spoken on call.answered
+   * @param webhookUrl - Where Telnyx sends the call's events from now on
+   */
+  async answer(callControlId: string, greeting: string, webhookUrl: string): Promise<void> {
+    this.calls.set(callControlId, { state: "answering", greeting });
+    try {
+      await this.phoneCallManager.answerCall(callControlId, webhookUrl);
+    } catch (error) {
+      this.calls.delete(callControlId);
+      throw error;
+    }
+  }
+
+  /**
+   * Track an outbound call; its message is spoken on call.answered
+   */
+  dial(callControlId: string, message: string): void {
+    this.calls.set(callControlId, { state: "ringing", greeting: message });
+  }
+
+  /**
+   * Where a call is in the flow (undefined for calls we aren't driving)
+   */
+  state(callControlId: string): TelnyxCallState | undefined {
+    return this.calls.get(callControlId)?.state;
+  }
+
+  /**
+   * Move a call along on a Call Control event
+   * @returns false if the call isn't ours or the event doesn't apply to its state
+   */
+  async handleEvent(conversationId: string, event: TelnyxCallEvent): Promise<boolean> {
+    const call = this.calls.get(event.providerCallId);
+    if (!call) {
+      return false;
+    }
+
+    switch (event.type) {
+      case "answered":
+        if (call.state !== "answering" && call.state !== "ringing") {
+          return false;
+        }
+        // From here on transcription is the only way we hear the caller's speech;
+        // prompts that wait for a reply only gather keys (see speakToTelnyxCall)
+        call.state = "listening";
+        await this.phoneCallManager.startListening(event.providerCallId);
+        await this.phoneCallManager.speakToCall(event.providerCallId, call.greeting, true);
+        return true;
+
+      case "transcript":
+      case "gather_ended":
+        if ((call.state !== "listening" && call.state !== "working") || !event.transcript) {
+          return false;
+        }
+        await this.takeTurn(conversationId, event.providerCallId, call, event.transcript, event.confidence);
+        return true;
+
+      case "hangup":
+        this.calls.delete(event.providerCallId);
+        return true;
+
+      default:
+        return false;
+    }
+  }
+
+  private async takeTurn(
+    conversationId: string,
+    callControlId: string,
+    call: TelnyxCall,
+    transcript: string,
+    confidence?: number
+  ): Promise<void> {
+    console.error(`[TelnyxFlow] Transcript: "${transcript}"`);
+    const interrupted = this.phoneCallManager.takeInterruption(callControlId);
+    const turn = this.handlers.speech(conversationId, transcript, confidence, interrupted);
+    call.state = "working";
+
+    // Tell the caller we're starting; otherwise Claude will speak via the API
+    if (turn === "spawned") {
+      await this.phoneCallManager.speakToCall(callControlId, this.handlers.acknowledgement(conversationId), false);
+    }
+  }
+}
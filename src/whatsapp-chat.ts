@@ -70,7 +70,15 @@ export class WhatsAppChatManager {
    * Clears history, generates a new session ID, kills any active process.
    */
   resetForVoiceCall(): void {
-    console.error(`[WhatsAppChat] Resetting for voice call (old session: ${this.sessionId.slice(0, 8)})`);
+    this.resetSession("voice call");
+  }
+
+  /**
+   * Start a fresh chat session (e.g. when the WhatsApp conversation was auto-closed).
+   * Clears history and pending messages, generates a new session ID.
+   */
+  resetSession(reason: string): void {
+    console.error(`[WhatsAppChat] Resetting for ${reason} (old session: ${this.sessionId.slice(0, 8)})`);
     this.history = [];
     this.pendingMessages = [];
     this.voiceContext = null;
@@ -6,6 +6,8 @@ import {
   ConversationState,
 } from "../../src/conversation-manager";
 import type { InboundMessageData } from "../../src/messaging";
+import { SessionManager } from "../../src/session-manager";
+import { EventBus, type TaskEvents } from "../../src/events";
 
 /**
  * Integration tests for handleInboundWhatsApp priority routing logic.
@@ -20,6 +22,7 @@ function createMockTaskExecutor() {
     getTaskContext: mock(() => undefined as any),
     recordCompletion: mock(() => {}),
     spawnClaude: mock(() => ({ conversationId: "spawn-1", task: "", process: {}, status: "running" as const, startedAt: new Date(), workingDir: "/tmp" })),
+    events: new EventBus<TaskEvents>(),
   };
 }
 
@@ -51,6 +54,8 @@ function createInboundHandler(deps: {
   whatsappChatManager: ReturnType<typeof createMockChatManager> | null;
 }) {
   const { conversationManager, phoneAPI, taskExecutor, whatsappChatManager } = deps;
+  const sessionManager = new SessionManager(conversationManager);
+  sessionManager.trackTasks(taskExecutor);
 
   return function handleInboundWhatsApp(message: InboundMessageData): void {
     // Find or create conversation
@@ -82,7 +87,7 @@ function createInboundHandler(deps: {
         if (whatsappChatManager) {
           whatsappChatManager.handleMessage(message.content);
         } else {
-          const voiceContext = taskExecutor.getLatestTaskContext();
+          const voiceContext = sessionManager.getTaskContext(conversation.id);
           taskExecutor.executeTask(
             conversation.id,
             message.content,
@@ -255,17 +260,16 @@ describe("handleInboundWhatsApp routing", () => {
       expect(call[4]).toBe("whatsapp");
     });
 
-    it("uses latest voice context when available (no ChatManager)", () => {
-      taskExecutor.getLatestTaskContext.mockReturnValue({
-        originalTask: "build app",
-        completionSummary: "Built a React app",
-        workingDir: "/tmp/project",
-        conversationId: "voice-conv-1",
-      });
-
+    it("uses the sender's voice session context when available (no ChatManager)", () => {
+      conversationManager.createConversation(
+        "voice-conv-1", ChannelType.VOICE, ConversationDirection.INBOUND, "CA1", { from: "+15551234567" }
+      );
+      conversationManager.addMessage("voice-conv-1", "user", "build app");
       handler = createInboundHandler({
         conversationManager, phoneAPI, taskExecutor, whatsappChatManager: null,
       });
+      taskExecutor.events.emit("task.spawned", { conversationId: "voice-conv-1", task: "build app", workingDir: "/tmp/project" });
+      taskExecutor.getExecution.mockReturnValue({ status: "completed", completionSummary: "Built a React app" } as any);
 
       handler(makeMessage("continue the work"));
 
@@ -273,11 +277,28 @@ describe("handleInboundWhatsApp routing", () => {
       expect(call[2]).toBe("/tmp/project"); // workingDir from voice context
       expect(call[3]).toBeDefined(); // context passed
       expect(call[3].originalTask).toBe("build app");
+      expect(call[3].completionSummary).toBe("Built a React app");
+      expect(call[3].transcript).toContain("voice] User: build app");
+      expect(call[3].transcript).toContain("whatsapp] User: continue the work");
     });
 
-    it("uses process.cwd() when no voice context", () => {
-      taskExecutor.getLatestTaskContext.mockReturnValue(undefined);
+    it("ignores task context from other people", () => {
+      conversationManager.createConversation(
+        "voice-conv-2", ChannelType.VOICE, ConversationDirection.INBOUND, "CA2", { from: "+15550001111" }
+      );
+      handler = createInboundHandler({
+        conversationManager, phoneAPI, taskExecutor, whatsappChatManager: null,
+      });
+      taskExecutor.events.emit("task.spawned", { conversationId: "voice-conv-2", task: "their task", workingDir: "/tmp/theirs" });
+
+      handler(makeMessage("my own request"));
+
+      const call = taskExecutor.executeTask.mock.calls[0];
+      expect(call[2]).toBe(process.cwd());
+      expect(call[3]).toBeUndefined();
+    });
 
+    it("uses process.cwd() when no voice context", () => {
       handler = createInboundHandler({
         conversationManager, phoneAPI, taskExecutor, whatsappChatManager: null,
       });
@@ -5,6 +5,7 @@ import {
   ConversationDirection,
   ConversationState,
 } from "../../src/conversation-manager";
+import { InboundQueue } from "../../src/inbound-queue";
 
 /**
  * Integration tests for MCP tool handlers.
@@ -15,30 +16,32 @@ import {
 // Simplified tool handler that mirrors index.ts logic
 function createToolHandler(deps: {
   conversationManager: ConversationManager;
+  inboundQueue: InboundQueue;
   phoneCallManager: any;
   messagingManager: any;
   config: { userPhoneNumber: string; phoneProvider: string; transcriptTimeoutMs: number };
   publicUrl: string;
 }) {
-  const { conversationManager, phoneCallManager, messagingManager, config } = deps;
+  const { conversationManager, inboundQueue, phoneCallManager, messagingManager, config } = deps;
 
   return async function handleTool(name: string, args: Record<string, any> = {}): Promise<any> {
     switch (name) {
       case "receive_inbound_call": {
         const timeoutMs = args.timeout_ms || 5000;
-        const pending = conversationManager.getPendingInbound(ChannelType.VOICE);
-        if (pending) {
-          const lastMessage = pending.messages[pending.messages.length - 1];
-          return { success: true, conversation_id: pending.id, channel: "voice", user_message: lastMessage?.content || "" };
-        }
-        const conv = await conversationManager.waitForInbound(timeoutMs, ChannelType.VOICE);
-        if (conv) {
-          const lastMessage = conv.messages[conv.messages.length - 1];
-          return { success: true, conversation_id: conv.id, channel: "voice", user_message: lastMessage?.content || "" };
+        const claim = await inboundQueue.waitForClaim(timeoutMs, [ChannelType.VOICE], undefined, args.visibility_timeout_ms);
+        if (claim) {
+          return { success: true, conversation_id: claim.conversationId, channel: claim.channel, user_message: claim.content, claim_token: claim.token };
         }
         return { success: false, error: "No incoming call received within timeout" };
       }
 
+      case "ack_inbound":
+      case "release_inbound": {
+        const done = name === "ack_inbound" ? inboundQueue.ack(args.claim_token) : inboundQueue.release(args.claim_token);
+        if (!done) throw new Error(`Claim ${args.claim_token} not found or expired`);
+        return { success: true, claim_token: args.claim_token, status: name === "ack_inbound" ? "acked" : "released" };
+      }
+
       case "send_sms": {
         const messageId = await messagingManager.sendSMS(config.userPhoneNumber, args.message);
         const conversationId = crypto.randomUUID();
@@ -116,6 +119,7 @@ describe("MCP Tool Handlers", () => {
 
     handleTool = createToolHandler({
       conversationManager,
+      inboundQueue: new InboundQueue(conversationManager),
       phoneCallManager: {},
       messagingManager,
       config: { userPhoneNumber: "+15551234567", phoneProvider: "twilio", transcriptTimeoutMs: 180000 },
@@ -151,6 +155,22 @@ describe("MCP Tool Handlers", () => {
       expect(result.success).toBe(true);
       expect(result.user_message).toBe("late arrival");
     });
+
+    it("does not hand the same call to a second session until released", async () => {
+      conversationManager.createConversation("c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1");
+      conversationManager.addMessage("c1", "user", "build a website");
+
+      const first = await handleTool("receive_inbound_call", { timeout_ms: 50 });
+      expect(first.claim_token).toBeString();
+      expect((await handleTool("receive_inbound_call", { timeout_ms: 50 })).success).toBe(false);
+
+      await handleTool("release_inbound", { claim_token: first.claim_token });
+      const second = await handleTool("receive_inbound_call", { timeout_ms: 50 });
+      expect(second.conversation_id).toBe("c1");
+
+      await handleTool("ack_inbound", { claim_token: second.claim_token });
+      await expect(handleTool("ack_inbound", { claim_token: second.claim_token })).rejects.toThrow("not found or expired");
+    });
   });
 
   describe("send_sms", () => {
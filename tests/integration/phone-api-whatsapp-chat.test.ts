@@ -100,7 +100,7 @@ describe("PhoneAPI + WhatsAppChatManager integration", () => {
       const data = await res.json() as any;
       expect(data.success).toBe(true);
 
-      expect(messagingManager.sendWhatsApp).toHaveBeenCalledWith("+15551234567", "Hello from Claude");
+      expect(messagingManager.sendWhatsApp).toHaveBeenCalledWith("+15551234567", "Hello from Claude", undefined);
       expect(chatManager.recordAssistantMessage).toHaveBeenCalledWith("Hello from Claude");
     });
 
@@ -269,7 +269,7 @@ describe("PhoneAPI + WhatsAppChatManager integration", () => {
       const data = await res.json() as any;
       expect(data.success).toBe(true);
       expect(data.messageId).toBe("SM_TEST");
-      expect(messagingManager.sendSMS).toHaveBeenCalledWith("+15551234567", "SMS test");
+      expect(messagingManager.sendSMS).toHaveBeenCalledWith("+15551234567", "SMS test", undefined);
     });
   });
 });
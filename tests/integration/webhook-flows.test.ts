@@ -6,10 +6,17 @@ import {
   ConversationDirection,
   ConversationState,
 } from "../../src/conversation-manager";
+import { createContactRegistry, type ContactRegistry } from "../../src/contacts";
+import { PhoneCallManager } from "../../src/phone-call";
+import { TelnyxCallFlow } from "../../src/telnyx-call-flow";
+import { CallEvents, type CallEventHandlers } from "../../src/call-events";
+import { CallbackEscalation } from "../../src/callback-escalation";
+import { CallerAuth } from "../../src/caller-auth";
+import { SpeechConfirmation } from "../../src/speech-confirmation";
 
 /**
  * Integration tests for webhook flows.
- * Tests full Twilio webhook → conversation manager → response flows
+ * Tests full Twilio and Telnyx webhook → conversation manager → response flows
  * with mocked external services.
  */
 
@@ -45,6 +52,8 @@ function createMockPhoneCallManager() {
       `<Response><Say>${message}</Say><Gather action="${gatherUrl}"/></Response>`,
     generateGatherTwiML: (message: string, url: string) =>
       `<Response><Say>${message}</Say><Gather action="${url}"/></Response>`,
+    generateHangupTwiML: (message: string) =>
+      `<Response><Say>${message}</Say><Hangup/></Response>`,
     generateHoldTwiML: (message: string, url: string, wait: number) =>
       `<Response>${message ? `<Say>${message}</Say>` : ""}<Pause length="${wait}"/><Redirect>${url}</Redirect></Response>`,
     speakToCall: mock(() => Promise.resolve()),
@@ -79,9 +88,14 @@ describe("Webhook Flows (Twilio)", () => {
   let messagingManager: ReturnType<typeof createMockMessagingManager>;
   let mockTaskExecutor: any;
   let mockPhoneAPI: any;
+  let contacts: ContactRegistry;
 
   beforeEach(() => {
     conversationManager = new ConversationManager();
+    contacts = createContactRegistry(
+      [{ name: "alice", phoneNumber: "+13335551234" }],
+      "+11111111111"
+    );
     phoneCallManager = createMockPhoneCallManager();
     messagingManager = createMockMessagingManager();
     mockTaskExecutor = {
@@ -119,6 +133,9 @@ describe("Webhook Flows (Twilio)", () => {
       const callData = phoneCallManager.parseInboundWebhook("twilio", body);
 
       if (callData.type === "call.initiated") {
+        if (!contacts.isAllowed(callData.from)) {
+          return c.text(phoneCallManager.generateHangupTwiML("Sorry, this number is not authorized."), 200, { "Content-Type": "text/xml" });
+        }
         const existingConversation = conversationManager.getConversationByProviderId(callData.providerCallId);
         if (existingConversation) {
           return c.text(phoneCallManager.generateAnswerTwiML("Hello!", `/webhook/twilio/gather/${existingConversation.id}`), 200, { "Content-Type": "text/xml" });
@@ -158,6 +175,7 @@ describe("Webhook Flows (Twilio)", () => {
       const body = (c as any).parsedBody;
       const message = messagingManager.parseInboundMessage("twilio", body);
       if (message && message.type === "sms") {
+        if (!contacts.isAllowed(message.from)) return c.text("OK", 200);
         const conversation = conversationManager.findOrCreateConversation(ChannelType.SMS, message.messageId, message.from, message.to);
         conversationManager.addMessage(conversation.id, "user", message.content);
       }
@@ -169,6 +187,7 @@ describe("Webhook Flows (Twilio)", () => {
       const body = (c as any).parsedBody;
       const message = messagingManager.parseInboundMessage("twilio", body);
       if (message && message.type === "whatsapp") {
+        if (!contacts.isAllowed(message.from)) return c.text("OK", 200);
         const conversation = conversationManager.findOrCreateConversation(ChannelType.WHATSAPP, message.messageId, message.from, message.to);
         conversationManager.addMessage(conversation.id, "user", message.content);
       }
@@ -247,6 +266,18 @@ describe("Webhook Flows (Twilio)", () => {
       const text = await res.text();
       expect(text).toContain("Hello!");
     });
+
+    it("hangs up on callers outside the contacts registry", async () => {
+      const res = await postJSON("/webhook/twilio/inbound", {
+        CallSid: "CA_UNKNOWN",
+        CallStatus: "ringing",
+        From: "+19998887777",
+        To: "+12222222222",
+      });
+      const text = await res.text();
+      expect(text).toContain("<Hangup/>");
+      expect(conversationManager.getConversationByProviderId("CA_UNKNOWN")).toBeUndefined();
+    });
   });
 
   describe("Gather → task spawn flow", () => {
@@ -320,6 +351,18 @@ describe("Webhook Flows (Twilio)", () => {
       expect(convs).toHaveLength(1);
       expect(convs[0].messages).toHaveLength(2);
     });
+
+    it("ignores SMS from unknown senders", async () => {
+      const res = await postJSON("/webhook/twilio/sms", {
+        MessageSid: "SM_SPAM",
+        From: "+19998887777",
+        To: "+14445556789",
+        Body: "Run rm -rf /",
+      });
+
+      expect(res.status).toBe(200);
+      expect(conversationManager.getActiveConversations(ChannelType.SMS)).toHaveLength(0);
+    });
   });
 
   describe("WhatsApp inbound", () => {
@@ -336,6 +379,17 @@ describe("Webhook Flows (Twilio)", () => {
       expect(convs).toHaveLength(1);
       expect(convs[0].messages[0].content).toBe("Hello from WhatsApp");
     });
+
+    it("ignores WhatsApp messages from unknown senders", async () => {
+      await postJSON("/webhook/twilio/whatsapp", {
+        MessageSid: "SM_WA_SPAM",
+        From: "whatsapp:+19998887777",
+        To: "whatsapp:+14445556789",
+        Body: "hello",
+      });
+
+      expect(conversationManager.getActiveConversations(ChannelType.WHATSAPP)).toHaveLength(0);
+    });
   });
 
   describe("Status webhook", () => {
@@ -376,3 +430,263 @@ describe("Webhook Flows (Twilio)", () => {
     });
   });
 });
+
+describe("Webhook Flows (Telnyx)", () => {
+  let app: Hono;
+  let conversationManager: ConversationManager;
+  let phoneCallManager: PhoneCallManager;
+  let telnyxCallFlow: TelnyxCallFlow;
+  let callEvents: CallEvents;
+  let handlers: { [K in keyof CallEventHandlers]: ReturnType<typeof mock> };
+  let actions: Record<string, ReturnType<typeof mock>>;
+  let speak: ReturnType<typeof mock>;
+  let mockTaskExecutor: any;
+  let contacts: ContactRegistry;
+
+  beforeEach(() => {
+    conversationManager = new ConversationManager();
+    contacts = createContactRegistry([], "+11111111111");
+    phoneCallManager = new PhoneCallManager({
+      phoneProvider: "telnyx",
+      phoneAccountSid: "conn_1",
+      phoneAuthToken: "KEY_TEST",
+      phoneNumber: "+12222222222",
+      openaiApiKey: "sk-test",
+      ttsVoice: "onyx",
+      sttSilenceDurationMs: 800,
+    });
+    actions = {
+      answer: mock(() => Promise.resolve({})),
+      reject: mock(() => Promise.resolve({})),
+      startTranscription: mock(() => Promise.resolve({})),
+      gather: mock(() => Promise.resolve({})),
+    };
+    speak = mock(() => Promise.resolve({}));
+    (phoneCallManager as any).telnyx = {
+      calls: {
+        create: mock(() => Promise.resolve({ data: { call_control_id: "v3:out" } })),
+        speak,
+        gather_using_speak: mock(() => Promise.resolve({})),
+        actions,
+      },
+    };
+    mockTaskExecutor = {
+      isRunning: mock(() => false),
+      executeTask: mock(() => Promise.resolve()),
+    };
+
+    telnyxCallFlow = new TelnyxCallFlow(phoneCallManager, {
+      speech: (conversationId, transcript) => {
+        conversationManager.addMessage(conversationId, "user", transcript);
+        if (mockTaskExecutor.isRunning(conversationId)) return "follow_up";
+        mockTaskExecutor.executeTask(conversationId, transcript, "/tmp");
+        return "spawned";
+      },
+      acknowledgement: () => "Got it. Let me think about that...",
+    });
+    phoneCallManager.setTelnyxCallFlow(telnyxCallFlow);
+
+    handlers = {
+      recording: mock(() => false),
+      speech: mock(() => "spawned"),
+      keypress: mock(() => Promise.resolve()),
+      language: mock(() => "en-US"),
+      voicemail: mock(() => Promise.resolve()),
+      callOutcome: mock(() => Promise.resolve()),
+      ended: mock(() => {}),
+    };
+    callEvents = new CallEvents(
+      phoneCallManager,
+      conversationManager,
+      new CallerAuth(conversationManager, { secretHash: "" }),
+      new SpeechConfirmation(),
+      handlers as unknown as CallEventHandlers
+    );
+    callEvents.setTelnyxCallFlow(telnyxCallFlow);
+
+    app = new Hono();
+
+    // Voice inbound (connection webhook)
+    app.post("/webhook/:provider/inbound", async (c) => {
+      const body = await c.req.json();
+      const callData = phoneCallManager.parseInboundWebhook("telnyx", body);
+
+      if (callData.type === "call.initiated") {
+        if (!contacts.isAllowed(callData.from)) {
+          await phoneCallManager.rejectCall(callData.providerCallId);
+          return c.text("OK", 200);
+        }
+        const conversationId = crypto.randomUUID();
+        conversationManager.createConversation(conversationId, ChannelType.VOICE, ConversationDirection.INBOUND, callData.providerCallId, { from: callData.from, to: callData.to });
+        await telnyxCallFlow.answer(callData.providerCallId, "Hello!", `/webhook/telnyx/status/${conversationId}`);
+      }
+      return c.text("OK", 200);
+    });
+
+    // Status and in-call events (the call's webhook_url)
+    app.post("/webhook/:provider/status/:conversationId", async (c) => {
+      await callEvents.handleStatus("telnyx", c.req.param("conversationId"), await c.req.json());
+      return c.text("OK", 200);
+    });
+  });
+
+  function telnyxEvent(event_type: string, payload: Record<string, unknown>) {
+    return { data: { event_type, payload } };
+  }
+
+  async function postJSON(path: string, body: any) {
+    return app.request(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe("Inbound voice call flow", () => {
+    it("answers the call and greets the caller once connected", async () => {
+      const res = await postJSON("/webhook/telnyx/inbound", telnyxEvent("call.initiated", {
+        call_control_id: "v3:in", from: "+11111111111", to: "+12222222222",
+      }));
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe("OK");
+
+      const conv = conversationManager.getConversationByProviderId("v3:in")!;
+      expect(actions.answer).toHaveBeenCalledWith("v3:in", { webhook_url: `/webhook/telnyx/status/${conv.id}` });
+      expect(speak).not.toHaveBeenCalled();
+
+      await postJSON(`/webhook/telnyx/status/${conv.id}`, telnyxEvent("call.answered", { call_control_id: "v3:in" }));
+      expect(actions.startTranscription).toHaveBeenCalled();
+      expect((speak.mock.calls[0] as any[])[0]).toMatchObject({ call_control_id: "v3:in", payload: "Hello!" });
+      expect(conversationManager.getConversation(conv.id)!.state).toBe(ConversationState.ACTIVE);
+
+      // Transcription hears the caller's speech; the greeting only gathers keys
+      expect(actions.gather).toHaveBeenCalledWith("v3:in", expect.objectContaining({ minimum_digits: 1 }));
+      expect((phoneCallManager as any).telnyx.calls.gather_using_speak).not.toHaveBeenCalled();
+    });
+
+    it("keeps the call going through Call Control events that aren't status changes", async () => {
+      await postJSON("/webhook/telnyx/inbound", telnyxEvent("call.initiated", {
+        call_control_id: "v3:in", from: "+11111111111", to: "+12222222222",
+      }));
+      const conv = conversationManager.getConversationByProviderId("v3:in")!;
+      await postJSON(`/webhook/telnyx/status/${conv.id}`, telnyxEvent("call.answered", { call_control_id: "v3:in" }));
+
+      for (const event of ["call.speak.started", "call.playback.started", "call.transcription.started"]) {
+        const res = await postJSON(`/webhook/telnyx/status/${conv.id}`, telnyxEvent(event, { call_control_id: "v3:in" }));
+        expect(res.status).toBe(200);
+      }
+      expect(conversationManager.getConversation(conv.id)!.state).toBe(ConversationState.ACTIVE);
+      expect(handlers.callOutcome).toHaveBeenCalledTimes(1);
+      expect(handlers.callOutcome).toHaveBeenCalledWith(conv.id, "answered");
+      expect(handlers.ended).not.toHaveBeenCalled();
+    });
+
+    it("rejects callers outside the contacts registry", async () => {
+      await postJSON("/webhook/telnyx/inbound", telnyxEvent("call.initiated", {
+        call_control_id: "v3:spam", from: "+19998887777", to: "+12222222222",
+      }));
+      expect(actions.reject).toHaveBeenCalledWith("v3:spam", { cause: "CALL_REJECTED" });
+      expect(actions.answer).not.toHaveBeenCalled();
+      expect(conversationManager.getConversationByProviderId("v3:spam")).toBeUndefined();
+    });
+  });
+
+  describe("Transcription → task spawn flow", () => {
+    async function answeredCall(): Promise<string> {
+      await postJSON("/webhook/telnyx/inbound", telnyxEvent("call.initiated", {
+        call_control_id: "v3:in", from: "+11111111111", to: "+12222222222",
+      }));
+      const convId = conversationManager.getConversationByProviderId("v3:in")!.id;
+      await postJSON(`/webhook/telnyx/status/${convId}`, telnyxEvent("call.answered", { call_control_id: "v3:in" }));
+      return convId;
+    }
+
+    it("spawns a task on the caller's first final transcript", async () => {
+      const convId = await answeredCall();
+
+      // Interim results are only barge-in signals
+      await postJSON(`/webhook/telnyx/status/${convId}`, telnyxEvent("call.transcription", {
+        call_control_id: "v3:in", transcription_data: { transcript: "create a", is_final: false },
+      }));
+      expect(mockTaskExecutor.executeTask).not.toHaveBeenCalled();
+
+      await postJSON(`/webhook/telnyx/status/${convId}`, telnyxEvent("call.transcription", {
+        call_control_id: "v3:in", transcription_data: { transcript: "create a todo app", is_final: true, confidence: 0.9 },
+      }));
+      expect(mockTaskExecutor.executeTask).toHaveBeenCalledWith(convId, "create a todo app", "/tmp");
+      expect(conversationManager.getConversation(convId)!.messages[0].content).toBe("create a todo app");
+      expect((speak.mock.calls[1] as any[])[0].payload).toContain("Got it");
+      expect(telnyxCallFlow.state("v3:in")).toBe("working");
+    });
+
+    it("routes keypad gathers to the same handler", async () => {
+      const convId = await answeredCall();
+      await postJSON(`/webhook/telnyx/status/${convId}`, telnyxEvent("call.gather.ended", {
+        call_control_id: "v3:in", digits: "42",
+      }));
+      expect(mockTaskExecutor.executeTask).toHaveBeenCalledWith(convId, "42", "/tmp");
+    });
+
+    it("ends the conversation on hangup", async () => {
+      const convId = await answeredCall();
+      await postJSON(`/webhook/telnyx/status/${convId}`, telnyxEvent("call.hangup", {
+        call_control_id: "v3:in", hangup_cause: "normal_clearing",
+      }));
+      expect(conversationManager.getConversation(convId)!.state).toBe(ConversationState.ENDED);
+      expect(telnyxCallFlow.state("v3:in")).toBeUndefined();
+      expect(handlers.callOutcome).toHaveBeenLastCalledWith(convId, "completed");
+      expect(handlers.ended).toHaveBeenCalledWith(convId);
+    });
+  });
+
+  describe("Callback escalation", () => {
+    let escalation: CallbackEscalation;
+    let send: ReturnType<typeof mock>;
+
+    beforeEach(() => {
+      send = mock(() => Promise.resolve());
+      escalation = new CallbackEscalation({ retries: 0, retryDelayMs: 10, fallbacks: ["sms"] }, {
+        call: async (escalation) => {
+          const conversationId = crypto.randomUUID();
+          const callControlId = await phoneCallManager.initiateCall(
+            escalation.phoneNumber, escalation.summary, `/webhook/telnyx/status/${conversationId}`, `/webhook/telnyx/gather/${conversationId}`
+          );
+          conversationManager.createConversation(conversationId, ChannelType.VOICE, ConversationDirection.OUTBOUND, callControlId);
+          return conversationId;
+        },
+        send,
+      });
+      handlers.callOutcome = mock((conversationId: string, outcome: any) => escalation.handleCallOutcome(conversationId, outcome));
+    });
+
+    it("falls back to messaging when a callback rings out, whatever events came before", async () => {
+      const started = await escalation.start("c-original", { name: "alice", phoneNumber: "+11111111111" }, "Deployed");
+      const callbackId = started.steps[0].conversationId!;
+
+      for (const event of ["call.initiated", "call.speak.started", "call.playback.started"]) {
+        await postJSON(`/webhook/telnyx/status/${callbackId}`, telnyxEvent(event, { call_control_id: "v3:out" }));
+      }
+      expect(escalation.get(callbackId)!.state).toBe("calling");
+
+      await postJSON(`/webhook/telnyx/status/${callbackId}`, telnyxEvent("call.hangup", {
+        call_control_id: "v3:out", hangup_cause: "timeout",
+      }));
+      expect(escalation.get(callbackId)).toMatchObject({ state: "delivered", deliveredVia: "sms" });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Outbound voice call flow", () => {
+    it("speaks the initial message once the callee answers", async () => {
+      const convId = crypto.randomUUID();
+      const callControlId = await phoneCallManager.initiateCall(
+        "+11111111111", "Your build is done", `/webhook/telnyx/status/${convId}`, `/webhook/telnyx/gather/${convId}`
+      );
+      conversationManager.createConversation(convId, ChannelType.VOICE, ConversationDirection.OUTBOUND, callControlId);
+      expect(speak).not.toHaveBeenCalled();
+
+      await postJSON(`/webhook/telnyx/status/${convId}`, telnyxEvent("call.answered", { call_control_id: "v3:out" }));
+      expect((speak.mock.calls[0] as any[])[0]).toMatchObject({ call_control_id: "v3:out", payload: "Your build is done" });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AttachmentStore, describeAttachments, extensionFor } from "../../src/attachments";
+
+describe("AttachmentStore", () => {
+  let dir: string;
+  let download: ReturnType<typeof mock>;
+  let store: AttachmentStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bcc-attachments-"));
+    download = mock(() => Promise.resolve(Buffer.from("png-bytes")));
+    store = new AttachmentStore({ download }, { dir });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("downloads media into the conversation's directory", async () => {
+    const [attachment] = await store.save("c1", "MM1", [{ url: "https://api.twilio.com/media/ME0", contentType: "image/png" }]);
+
+    expect(download).toHaveBeenCalledWith("https://api.twilio.com/media/ME0");
+    expect(attachment).toEqual({ contentType: "image/png", file: join(dir, "c1", "MM1-0-attachment.png"), size: 9 });
+    expect(readFileSync(attachment.file!).toString()).toBe("png-bytes");
+  });
+
+  it("saves media it already has, keeping the sender's file name", async () => {
+    const [attachment] = await store.save("c1", "wamid.ABC/1", [
+      { data: Buffer.from("%PDF"), contentType: "application/pdf", fileName: "../crash report.pdf" },
+    ]);
+
+    expect(download).not.toHaveBeenCalled();
+    expect(attachment.fileName).toBe("../crash report.pdf");
+    expect(attachment.file).toBe(join(dir, "c1", "wamid_ABC_1-0-_crash_report.pdf"));
+  });
+
+  it("records failed downloads and keeps the rest", async () => {
+    download.mockImplementationOnce(() => Promise.reject(new Error("Media download failed: 404")));
+    const attachments = await store.save("c1", "MM1", [
+      { url: "https://api.twilio.com/media/ME0", contentType: "image/jpeg" },
+      { url: "https://api.twilio.com/media/ME1", contentType: "image/png" },
+      { contentType: "video/mp4" },
+    ]);
+
+    expect(attachments[0]).toEqual({ contentType: "image/jpeg", error: "Error: Media download failed: 404" });
+    expect(attachments[1].file).toBe(join(dir, "c1", "MM1-1-attachment.png"));
+    expect(attachments[2].error).toContain("No media to download");
+  });
+});
+
+describe("attachments", () => {
+  it("picks file extensions from MIME types", () => {
+    expect(extensionFor("image/jpeg")).toBe("jpg");
+    expect(extensionFor("audio/ogg; codecs=opus")).toBe("ogg");
+    expect(extensionFor("image/tiff")).toBe("tiff");
+    expect(extensionFor("application/vnd.openxmlformats-officedocument.wordprocessingml.document")).toBe("bin");
+  });
+
+  it("lists attachments for a prompt", () => {
+    expect(describeAttachments([
+      { contentType: "image/png", file: "/data/attachments/c1/MM1-0-attachment.png", size: 9 },
+      { contentType: "application/pdf", fileName: "report.pdf", error: "Error: Media download failed: 404" },
+    ])).toBe(
+      "- /data/attachments/c1/MM1-0-attachment.png (image/png)\n" +
+      "- report.pdf: could not be downloaded (Error: Media download failed: 404)"
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AudioCache } from "../../src/audio-cache";
+
+describe("AudioCache", () => {
+  let dir: string;
+  let cache: AudioCache;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bcc-audio-"));
+    cache = new AudioCache(() => "https://example.ts.net", { dir, signingKey: "test-key" });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("addresses audio by text and voice", () => {
+    expect(cache.hashFor("Hello", "onyx")).toMatch(/^[0-9a-f]{64}$/);
+    expect(cache.hashFor("Hello", "onyx")).toBe(cache.hashFor("Hello", "onyx"));
+    expect(cache.hashFor("Hello", "nova")).not.toBe(cache.hashFor("Hello", "onyx"));
+  });
+
+  it("synthesizes a prompt once and serves it from disk afterwards", async () => {
+    const synthesize = mock(async (text: string) => Buffer.from(`mp3:${text}`));
+
+    expect(cache.lookup("Hello", "onyx")).toBeUndefined();
+    const hash = await cache.ensure("Hello", "onyx", synthesize);
+    expect(await cache.ensure("Hello", "onyx", synthesize)).toBe(hash);
+
+    expect(synthesize).toHaveBeenCalledTimes(1);
+    expect(cache.lookup("Hello", "onyx")).toBe(hash);
+    expect(cache.read(hash)!.toString()).toBe("mp3:Hello");
+  });
+
+  it("shares one synthesis between concurrent requests", async () => {
+    const synthesize = mock(async () => Buffer.from("mp3"));
+    const [a, b] = await Promise.all([
+      cache.ensure("Hi", "onyx", synthesize),
+      cache.ensure("Hi", "onyx", synthesize),
+    ]);
+    expect(a).toBe(b);
+    expect(synthesize).toHaveBeenCalledTimes(1);
+  });
+
+  it("caches nothing when synthesis fails", async () => {
+    await expect(cache.ensure("Hi", "onyx", async () => {
+      throw new Error("rate limited");
+    })).rejects.toThrow("rate limited");
+    expect(cache.lookup("Hi", "onyx")).toBeUndefined();
+  });
+
+  it("signs URLs and verifies their signatures", async () => {
+    const hash = await cache.ensure("Hello", "onyx", async () => Buffer.from("mp3"));
+    const url = new URL(cache.url(hash));
+    expect(url.origin + url.pathname).toBe(`https://example.ts.net/audio/${hash}.mp3`);
+
+    expect(cache.verify(hash, url.searchParams.get("sig")!)).toBe(true);
+    expect(cache.verify(hash, "forged")).toBe(false);
+    expect(cache.verify(cache.hashFor("Other", "onyx"), url.searchParams.get("sig")!)).toBe(false);
+
+    const otherServer = new AudioCache(() => "https://example.ts.net", { dir, signingKey: "other-key" });
+    expect(otherServer.verify(hash, url.searchParams.get("sig")!)).toBe(false);
+  });
+
+  it("refuses to read anything but a hash", () => {
+    expect(cache.read("../conversations")).toBeUndefined();
+  });
+});
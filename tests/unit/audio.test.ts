@@ -0,0 +1,123 @@
+import { describe, it, expect } from "bun:test";
+import {
+  VoiceActivityDetector,
+  downsample,
+  mulawDecode,
+  mulawEncode,
+  pcmFromBytes,
+  pcmToWav,
+  rms,
+} from "../../src/audio";
+
+/** 20ms frame of a square wave at the given amplitude (0 = silence) */
+function frame(amplitude: number, samples = 160): Int16Array {
+  return Int16Array.from({ length: samples }, (_, i) => (i % 2 ? amplitude : -amplitude));
+}
+
+describe("audio", () => {
+  describe("mu-law codec", () => {
+    it("round-trips samples within quantization error", () => {
+      const samples = Int16Array.from([0, 100, -100, 1000, -1000, 8000, -8000, 32000, -32000]);
+      const decoded = mulawDecode(mulawEncode(samples));
+      for (let i = 0; i < samples.length; i++) {
+        // mu-law keeps roughly 4 bits of precision per segment
+        expect(Math.abs(decoded[i] - samples[i])).toBeLessThanOrEqual(Math.abs(samples[i]) / 16 + 8);
+      }
+    });
+
+    it("encodes silence as 0xff", () => {
+      expect(mulawEncode(Int16Array.from([0]))[0]).toBe(0xff);
+      expect(mulawDecode(Uint8Array.from([0xff]))[0]).toBe(0);
+    });
+
+    it("clips out-of-range samples instead of wrapping", () => {
+      const decoded = mulawDecode(mulawEncode(Int16Array.from([32767, -32768])));
+      expect(decoded[0]).toBeGreaterThan(30000);
+      expect(decoded[1]).toBeLessThan(-30000);
+    });
+  });
+
+  describe("downsample", () => {
+    it("averages each window", () => {
+      const out = downsample(Int16Array.from([3, 6, 9, 30, 60, 90]), 24000, 8000);
+      expect(Array.from(out)).toEqual([6, 60]);
+    });
+
+    it("returns the input when the rates match", () => {
+      const samples = Int16Array.from([1, 2, 3]);
+      expect(downsample(samples, 8000, 8000)).toBe(samples);
+    });
+
+    it("refuses to upsample", () => {
+      expect(() => downsample(new Int16Array(4), 8000, 16000)).toThrow("Cannot upsample");
+    });
+  });
+
+  it("pcmFromBytes reads little-endian samples", () => {
+    expect(Array.from(pcmFromBytes(Uint8Array.from([0x01, 0x00, 0xff, 0xff, 0x00, 0x80])))).toEqual([1, -1, -32768]);
+  });
+
+  it("pcmToWav writes a mono 16-bit header", () => {
+    const wav = pcmToWav(Int16Array.from([1, -1]), 8000);
+    expect(wav.length).toBe(48);
+    expect(wav.toString("ascii", 0, 4)).toBe("RIFF");
+    expect(wav.toString("ascii", 8, 12)).toBe("WAVE");
+    expect(wav.readUInt16LE(22)).toBe(1);
+    expect(wav.readUInt32LE(24)).toBe(8000);
+    expect(wav.readUInt16LE(34)).toBe(16);
+    expect(wav.readUInt32LE(40)).toBe(4);
+    expect(wav.readInt16LE(46)).toBe(-1);
+  });
+
+  it("rms measures signal level", () => {
+    expect(rms(frame(1000))).toBe(1000);
+    expect(rms(new Int16Array(0))).toBe(0);
+  });
+
+  describe("VoiceActivityDetector", () => {
+    it("returns the utterance after enough silence", () => {
+      const vad = new VoiceActivityDetector({ silenceMs: 100 });
+      for (let i = 0; i < 10; i++) {
+        expect(vad.push(frame(2000))).toBeNull();
+      }
+      expect(vad.isSpeaking()).toBe(true);
+      for (let i = 0; i < 4; i++) {
+        expect(vad.push(frame(0))).toBeNull();
+      }
+
+      const utterance = vad.push(frame(0));
+      // 10 speech frames plus the 5 silent frames that ended it
+      expect(utterance!.length).toBe(15 * 160);
+      expect(vad.isSpeaking()).toBe(false);
+    });
+
+    it("ignores clicks shorter than minSpeechMs", () => {
+      const vad = new VoiceActivityDetector({ minSpeechMs: 100, silenceMs: 40 });
+      vad.push(frame(5000));
+      vad.push(frame(5000));
+      for (let i = 0; i < 10; i++) {
+        expect(vad.push(frame(0))).toBeNull();
+      }
+      expect(vad.isSpeaking()).toBe(false);
+    });
+
+    it("cuts off utterances at maxUtteranceMs", () => {
+      const vad = new VoiceActivityDetector({ maxUtteranceMs: 200 });
+      let utterance: Int16Array | null = null;
+      for (let i = 0; i < 10 && !utterance; i++) {
+        utterance = vad.push(frame(2000));
+      }
+      expect(utterance!.length).toBe(10 * 160);
+    });
+
+    it("flush returns speech in progress", () => {
+      const vad = new VoiceActivityDetector();
+      expect(vad.flush()).toBeNull();
+      for (let i = 0; i < 8; i++) {
+        vad.push(frame(2000));
+      }
+      expect(vad.flush()!.length).toBe(8 * 160);
+      expect(vad.flush()).toBeNull();
+    });
+  });
+});
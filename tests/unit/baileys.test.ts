@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "bun:test";
-import { toJid, fromJid, extractMessageText } from "../../src/baileys";
+import { toJid, fromJid, extractMessageText, extractMessageMedia } from "../../src/baileys";
 import { loadConfig, validateConfig, type AppConfig } from "../../src/config";
 
 describe("baileys", () => {
@@ -81,6 +81,28 @@ describe("baileys", () => {
         })
       ).toBe("plain");
     });
+
+    it("extracts document captions", () => {
+      expect(
+        extractMessageText({
+          documentWithCaptionMessage: { message: { documentMessage: { caption: "stack trace" } } } as any,
+        })
+      ).toBe("stack trace");
+    });
+  });
+
+  describe("extractMessageMedia", () => {
+    it("describes images and documents", () => {
+      expect(extractMessageMedia({ imageMessage: { mimetype: "image/jpeg" } as any })).toEqual({ contentType: "image/jpeg" });
+      expect(
+        extractMessageMedia({ documentMessage: { mimetype: "application/pdf", fileName: "report.pdf" } as any })
+      ).toEqual({ contentType: "application/pdf", fileName: "report.pdf" });
+    });
+
+    it("returns null for text messages", () => {
+      expect(extractMessageMedia({ conversation: "hello" })).toBeNull();
+      expect(extractMessageMedia(null)).toBeNull();
+    });
   });
 });
 
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { CallbackEscalation, type EscalationPolicy } from "../../src/callback-escalation";
+
+const alice = { name: "alice", phoneNumber: "+15550000001" };
+
+describe("CallbackEscalation", () => {
+  let callCount: number;
+  let call: ReturnType<typeof mock>;
+  let send: ReturnType<typeof mock>;
+  let escalation: CallbackEscalation;
+
+  function create(policy: Partial<EscalationPolicy> = {}): CallbackEscalation {
+    return new CallbackEscalation(
+      { retries: 1, retryDelayMs: 10, fallbacks: ["sms", "whatsapp"], ...policy },
+      { call, send }
+    );
+  }
+
+  beforeEach(() => {
+    callCount = 0;
+    call = mock(async () => `cb-${++callCount}`);
+    send = mock(() => Promise.resolve("SM_1"));
+    escalation = create();
+  });
+
+  afterEach(() => {
+    escalation.cancel("c1");
+  });
+
+  it("starts with a callback", async () => {
+    const result = await escalation.start("c1", alice, "Built the app");
+    expect(result).toMatchObject({ state: "calling", calls: 1, recipient: "alice", phoneNumber: "+15550000001" });
+    expect(result.steps[0]).toMatchObject({ action: "call", conversationId: "cb-1" });
+  });
+
+  it("is delivered once a callback is answered", async () => {
+    await escalation.start("c1", alice, "Built the app");
+    expect(await escalation.handleCallOutcome("cb-1", "answered")).toBe(true);
+    expect(escalation.get("c1")).toMatchObject({ state: "delivered", deliveredVia: "call" });
+  });
+
+  it("retries an unanswered callback after the delay", async () => {
+    await escalation.start("c1", alice, "Built the app");
+    await escalation.handleCallOutcome("cb-1", "busy");
+
+    const waiting = escalation.get("c1")!;
+    expect(waiting.state).toBe("waiting");
+    expect(waiting.nextAttemptAt).toBeInstanceOf(Date);
+    expect(call).toHaveBeenCalledTimes(1);
+
+    await Bun.sleep(30);
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(escalation.get("cb-2")).toMatchObject({ state: "calling", calls: 2 });
+  });
+
+  it("falls back to SMS once the retries run out", async () => {
+    escalation = create({ retries: 0 });
+    await escalation.start("c1", alice, "Built the app");
+    await escalation.handleCallOutcome("cb-1", "no-answer");
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect((send.mock.calls[0] as any[])[0]).toBe("sms");
+    expect(escalation.get("c1")).toMatchObject({ state: "delivered", deliveredVia: "sms" });
+  });
+
+  it("tries WhatsApp when SMS fails", async () => {
+    escalation = create({ retries: 0 });
+    send.mockImplementationOnce(() => Promise.reject(new Error("carrier rejected")));
+    await escalation.start("c1", alice, "Built the app");
+    await escalation.handleCallOutcome("cb-1", "failed");
+
+    const result = escalation.get("c1")!;
+    expect(result).toMatchObject({ state: "delivered", deliveredVia: "whatsapp" });
+    expect(result.steps.map((step) => [step.action, step.outcome])).toEqual([
+      ["call", "failed"],
+      ["sms", undefined],
+      ["whatsapp", "sent"],
+    ]);
+    expect(result.steps[1].error).toContain("carrier rejected");
+  });
+
+  it("fails when every step does", async () => {
+    escalation = create({ retries: 0, fallbacks: [] });
+    await escalation.start("c1", alice, "Built the app");
+    await escalation.handleCallOutcome("cb-1", "busy");
+    expect(escalation.get("c1")!.state).toBe("failed");
+  });
+
+  it("escalates when a call cannot be placed", async () => {
+    escalation = create({ retries: 0 });
+    call.mockImplementation(() => Promise.reject(new Error("Twilio call failed")));
+    const result = await escalation.start("c1", alice, "Built the app");
+    expect(result).toMatchObject({ state: "delivered", deliveredVia: "sms" });
+    expect(result.steps[0]).toMatchObject({ action: "call", outcome: "failed" });
+  });
+
+  it("records a voicemail as delivered", async () => {
+    await escalation.start("c1", alice, "Built the app");
+    await escalation.handleCallOutcome("cb-1", "answered");
+    await escalation.handleCallOutcome("cb-1", "voicemail");
+    expect(escalation.get("c1")).toMatchObject({ state: "delivered", deliveredVia: "voicemail" });
+  });
+
+  it("ignores webhooks for earlier calls and other conversations", async () => {
+    await escalation.start("c1", alice, "Built the app");
+    await escalation.handleCallOutcome("cb-1", "busy");
+    await Bun.sleep(30);
+
+    expect(await escalation.handleCallOutcome("cb-1", "completed")).toBe(true);
+    expect(escalation.get("c1")!.state).toBe("calling");
+    expect(await escalation.handleCallOutcome("c1", "busy")).toBe(false);
+    expect(await escalation.handleCallOutcome("unknown", "busy")).toBe(false);
+  });
+
+  it("cancels a scheduled retry", async () => {
+    await escalation.start("c1", alice, "Built the app");
+    await escalation.handleCallOutcome("cb-1", "busy");
+    escalation.cancel("c1");
+    await Bun.sleep(30);
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { CallerAuth, normalizeSecret } from "../../src/caller-auth";
+import {
+  ConversationManager,
+  ChannelType,
+  ConversationDirection,
+} from "../../src/conversation-manager";
+
+// bcrypt at the lowest cost keeps the tests fast
+const hash = (secret: string) => Bun.password.hashSync(secret, { algorithm: "bcrypt", cost: 4 });
+
+describe("normalizeSecret", () => {
+  it("ignores case, punctuation and spacing in passphrases", () => {
+    expect(normalizeSecret("  Open, Sesame! ")).toBe("open sesame");
+  });
+
+  it("joins spoken PIN digits", () => {
+    expect(normalizeSecret("1 2 3 4.")).toBe("1234");
+    expect(normalizeSecret("1234")).toBe("1234");
+  });
+});
+
+describe("CallerAuth", () => {
+  let conversationManager: ConversationManager;
+  let auth: CallerAuth;
+
+  beforeEach(() => {
+    conversationManager = new ConversationManager();
+    conversationManager.createConversation(
+      "c1", ChannelType.VOICE, ConversationDirection.INBOUND, "CA1", { from: "+15551234567" }
+    );
+    auth = new CallerAuth(conversationManager, { secretHash: hash("1234"), maxAttempts: 2, lockoutMs: 60000 });
+  });
+
+  it("lets everyone through without a secret", () => {
+    const open = new CallerAuth(conversationManager, { secretHash: "" });
+    expect(open.required).toBe(false);
+    expect(open.isVerified("c1")).toBe(true);
+  });
+
+  it("only checks inbound calls", () => {
+    conversationManager.createConversation("c2", ChannelType.VOICE, ConversationDirection.OUTBOUND, "CA2", { to: "+15551234567" });
+    expect(auth.isVerified("c1")).toBe(false);
+    expect(auth.isVerified("c2")).toBe(true);
+  });
+
+  it("verifies the caller on the right secret", async () => {
+    const result = await auth.attempt("c1", "1 2 3 4", "en-US");
+    expect(result).toEqual({ verified: true, message: "Thanks, you're verified. What would you like me to work on?", next: "gather" });
+    expect(auth.isVerified("c1")).toBe(true);
+    expect(conversationManager.getConversation("c1")?.metadata?.authenticated).toBe(true);
+  });
+
+  it("verifies spoken passphrases", async () => {
+    const passphrase = new CallerAuth(conversationManager, { secretHash: hash("open sesame") });
+    expect((await passphrase.attempt("c1", "Open sesame.")).verified).toBe(true);
+  });
+
+  it("asks again, then locks the number out, emitting a security event for each failure", async () => {
+    const failed = mock(() => {});
+    conversationManager.events.on("security.auth_failed", failed);
+
+    expect(await auth.attempt("c1", "0000")).toMatchObject({ verified: false, next: "gather" });
+    expect(auth.isLocked("+15551234567")).toBe(false);
+
+    expect(await auth.attempt("c1", "1111", "es-ES")).toEqual({
+      verified: false,
+      message: "Demasiados intentos fallidos. Adiós.",
+      next: "hangup",
+    });
+    expect(auth.isLocked("+15551234567")).toBe(true);
+    expect(failed).toHaveBeenCalledTimes(2);
+    expect(failed).toHaveBeenLastCalledWith({ conversationId: "c1", from: "+15551234567", failures: 2, locked: true });
+
+    // Even the right secret is refused while locked out
+    expect((await auth.attempt("c1", "1234")).verified).toBe(false);
+    expect(auth.isVerified("c1")).toBe(false);
+  });
+
+  it("lifts the lockout once it expires", async () => {
+    await auth.attempt("c1", "0000");
+    await auth.attempt("c1", "0000");
+    expect(auth.isLocked("+15551234567", Date.now() + 60001)).toBe(false);
+    expect((await auth.attempt("c1", "1234")).verified).toBe(true);
+  });
+
+  it("forgets failures after a success", async () => {
+    await auth.attempt("c1", "0000");
+    await auth.attempt("c1", "1234");
+    conversationManager.createConversation("c2", ChannelType.VOICE, ConversationDirection.INBOUND, "CA2", { from: "+15551234567" });
+    expect(await auth.attempt("c2", "0000")).toMatchObject({ next: "gather" });
+  });
+
+  it("collects a PIN keyed in one digit at a time until #", async () => {
+    expect(auth.press("c1", "1")).toBeNull();
+    expect(auth.press("c1", "2")).toBeNull();
+    expect(auth.press("c1", "3")).toBeNull();
+    expect(auth.press("c1", "4")).toBeNull();
+    expect((await auth.press("c1", "#"))?.verified).toBe(true);
+  });
+});
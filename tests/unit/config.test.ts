@@ -21,6 +21,36 @@ describe("config", () => {
     "BETTERCALLCLAUDE_WHATSAPP_PROVIDER",
     "BETTERCALLCLAUDE_WHATSAPP_CHAT_HISTORY_SIZE",
     "BETTERCALLCLAUDE_BAILEYS_AUTH_DIR",
+    "BETTERCALLCLAUDE_CONVERSATION_STORE",
+    "BETTERCALLCLAUDE_CONVERSATION_DB_PATH",
+    "BETTERCALLCLAUDE_CONVERSATION_RETENTION_MS",
+    "BETTERCALLCLAUDE_CONTACTS",
+    "BETTERCALLCLAUDE_CONTACTS_FILE",
+    "BETTERCALLCLAUDE_SMS_IDLE_TIMEOUT_MS",
+    "BETTERCALLCLAUDE_WHATSAPP_IDLE_TIMEOUT_MS",
+    "BETTERCALLCLAUDE_NEW_TOPIC_KEYWORDS",
+    "BETTERCALLCLAUDE_SESSION_TIMEOUT_MS",
+    "BETTERCALLCLAUDE_INBOUND_VISIBILITY_TIMEOUT_MS",
+    "BETTERCALLCLAUDE_VOICE_MODE",
+    "BETTERCALLCLAUDE_TTS_PLAYBACK",
+    "BETTERCALLCLAUDE_AUDIO_CACHE_DIR",
+    "BETTERCALLCLAUDE_CALLBACK_RETRIES",
+    "BETTERCALLCLAUDE_CALLBACK_RETRY_DELAY_MS",
+    "BETTERCALLCLAUDE_CALLBACK_FALLBACKS",
+    "BETTERCALLCLAUDE_HOLD_NARRATION_INTERVAL_MS",
+    "BETTERCALLCLAUDE_HOLD_MUSIC_URL",
+    "BETTERCALLCLAUDE_HOLD_EARCON_URL",
+    "BETTERCALLCLAUDE_LANGUAGE",
+    "BETTERCALLCLAUDE_DETECT_LANGUAGE",
+    "BETTERCALLCLAUDE_RECORD_CALLS",
+    "BETTERCALLCLAUDE_RECORDING_DIR",
+    "BETTERCALLCLAUDE_RECORDING_RETENTION_MS",
+    "BETTERCALLCLAUDE_CALLER_SECRET_HASH",
+    "BETTERCALLCLAUDE_AUTH_MAX_ATTEMPTS",
+    "BETTERCALLCLAUDE_AUTH_LOCKOUT_MS",
+    "BETTERCALLCLAUDE_CONFIDENCE_THRESHOLD",
+    "BETTERCALLCLAUDE_SCHEDULE_PATH",
+    "BETTERCALLCLAUDE_ATTACHMENT_DIR",
   ];
 
   beforeEach(() => {
@@ -101,6 +131,190 @@ describe("config", () => {
     });
   });
 
+  describe("conversation store", () => {
+    it("defaults to in-memory storage", () => {
+      const config = loadConfig();
+      expect(config.conversationStore).toBe("memory");
+      expect(config.conversationDbPath).toBe("data/conversations.db");
+      expect(config.conversationRetentionMs).toBe(2592000000);
+    });
+
+    it("reads sqlite settings from env vars", () => {
+      process.env.BETTERCALLCLAUDE_CONVERSATION_STORE = "sqlite";
+      process.env.BETTERCALLCLAUDE_CONVERSATION_DB_PATH = "/tmp/bcc.db";
+      process.env.BETTERCALLCLAUDE_CONVERSATION_RETENTION_MS = "0";
+      const config = loadConfig();
+      expect(config.conversationStore).toBe("sqlite");
+      expect(config.conversationDbPath).toBe("/tmp/bcc.db");
+      expect(config.conversationRetentionMs).toBe(0);
+    });
+  });
+
+  describe("messaging thread lifecycle", () => {
+    it("defaults to one-hour idle timeouts and built-in keywords", () => {
+      const config = loadConfig();
+      expect(config.smsIdleTimeoutMs).toBe(3600000);
+      expect(config.whatsappIdleTimeoutMs).toBe(3600000);
+      expect(config.newTopicKeywords).toEqual(["new topic", "/new"]);
+    });
+
+    it("reads timeouts and keywords from env vars", () => {
+      process.env.BETTERCALLCLAUDE_SMS_IDLE_TIMEOUT_MS = "0";
+      process.env.BETTERCALLCLAUDE_WHATSAPP_IDLE_TIMEOUT_MS = "600000";
+      process.env.BETTERCALLCLAUDE_NEW_TOPIC_KEYWORDS = " Reset , fresh start,";
+      const config = loadConfig();
+      expect(config.smsIdleTimeoutMs).toBe(0);
+      expect(config.whatsappIdleTimeoutMs).toBe(600000);
+      expect(config.newTopicKeywords).toEqual(["reset", "fresh start"]);
+    });
+
+    it("allows disabling keywords with an empty value", () => {
+      process.env.BETTERCALLCLAUDE_NEW_TOPIC_KEYWORDS = "";
+      expect(loadConfig().newTopicKeywords).toEqual([]);
+    });
+
+    it("reads the cross-channel session timeout", () => {
+      expect(loadConfig().sessionTimeoutMs).toBe(14400000);
+      process.env.BETTERCALLCLAUDE_SESSION_TIMEOUT_MS = "60000";
+      expect(loadConfig().sessionTimeoutMs).toBe(60000);
+    });
+
+    it("defaults to Gather voice mode and accepts stream", () => {
+      expect(loadConfig().voiceMode).toBe("gather");
+      process.env.BETTERCALLCLAUDE_VOICE_MODE = "stream";
+      expect(loadConfig().voiceMode).toBe("stream");
+      process.env.BETTERCALLCLAUDE_VOICE_MODE = "bogus";
+      expect(loadConfig().voiceMode).toBe("gather");
+    });
+
+    it("leaves TTS playback off unless enabled", () => {
+      expect(loadConfig().ttsPlayback).toBe(false);
+      expect(loadConfig().audioCacheDir).toBe("data/audio");
+      process.env.BETTERCALLCLAUDE_TTS_PLAYBACK = "true";
+      process.env.BETTERCALLCLAUDE_AUDIO_CACHE_DIR = "/tmp/audio";
+      expect(loadConfig().ttsPlayback).toBe(true);
+      expect(loadConfig().audioCacheDir).toBe("/tmp/audio");
+    });
+
+    it("reads the callback escalation policy", () => {
+      expect(loadConfig().callbackEscalation).toEqual({ retries: 2, retryDelayMs: 120000, fallbacks: ["sms", "whatsapp"] });
+      process.env.BETTERCALLCLAUDE_CALLBACK_RETRIES = "0";
+      process.env.BETTERCALLCLAUDE_CALLBACK_RETRY_DELAY_MS = "30000";
+      process.env.BETTERCALLCLAUDE_CALLBACK_FALLBACKS = "WhatsApp";
+      expect(loadConfig().callbackEscalation).toEqual({ retries: 0, retryDelayMs: 30000, fallbacks: ["whatsapp"] });
+      process.env.BETTERCALLCLAUDE_CALLBACK_FALLBACKS = "";
+      expect(loadConfig().callbackEscalation.fallbacks).toEqual([]);
+      process.env.BETTERCALLCLAUDE_CALLBACK_FALLBACKS = "sms,email";
+      expect(() => loadConfig()).toThrow("Invalid BETTERCALLCLAUDE_CALLBACK_FALLBACKS channel: email");
+    });
+
+    it("narrates holds every 30 seconds without music by default", () => {
+      expect(loadConfig().holdNarrationIntervalMs).toBe(30000);
+      expect(loadConfig().holdMusicUrl).toBe("");
+      expect(loadConfig().holdEarconUrl).toBe("");
+      process.env.BETTERCALLCLAUDE_HOLD_NARRATION_INTERVAL_MS = "0";
+      process.env.BETTERCALLCLAUDE_HOLD_MUSIC_URL = "https://example.com/music.mp3";
+      expect(loadConfig().holdNarrationIntervalMs).toBe(0);
+      expect(loadConfig().holdMusicUrl).toBe("https://example.com/music.mp3");
+    });
+
+    it("speaks US English without language detection by default", () => {
+      expect(loadConfig().language).toBe("en-US");
+      expect(loadConfig().detectLanguage).toBe(false);
+      process.env.BETTERCALLCLAUDE_LANGUAGE = "es";
+      process.env.BETTERCALLCLAUDE_DETECT_LANGUAGE = "true";
+      expect(loadConfig().language).toBe("es-ES");
+      expect(loadConfig().detectLanguage).toBe(true);
+      process.env.BETTERCALLCLAUDE_LANGUAGE = "spanish please";
+      expect(() => loadConfig()).toThrow("Invalid language");
+    });
+
+    it("doesn't record calls by default, and keeps recordings for 30 days", () => {
+      expect(loadConfig().recordCalls).toBe(false);
+      expect(loadConfig().recordingDir).toBe("data/recordings");
+      expect(loadConfig().recordingRetentionMs).toBe(2592000000);
+      process.env.BETTERCALLCLAUDE_RECORD_CALLS = "true";
+      process.env.BETTERCALLCLAUDE_RECORDING_DIR = "/tmp/recordings";
+      process.env.BETTERCALLCLAUDE_RECORDING_RETENTION_MS = "0";
+      expect(loadConfig().recordCalls).toBe(true);
+      expect(loadConfig().recordingDir).toBe("/tmp/recordings");
+      expect(loadConfig().recordingRetentionMs).toBe(0);
+    });
+
+    it("doesn't authenticate callers by default, and locks out after 3 failures", () => {
+      expect(loadConfig().callerSecretHash).toBe("");
+      expect(loadConfig().authMaxAttempts).toBe(3);
+      expect(loadConfig().authLockoutMs).toBe(900000);
+      process.env.BETTERCALLCLAUDE_CALLER_SECRET_HASH = "$argon2id$v=19$m=65536,t=2,p=1$salt$hash";
+      process.env.BETTERCALLCLAUDE_AUTH_MAX_ATTEMPTS = "5";
+      expect(loadConfig().callerSecretHash).toStartWith("$argon2id$");
+      expect(loadConfig().authMaxAttempts).toBe(5);
+      // A plain PIN must not end up in the environment
+      process.env.BETTERCALLCLAUDE_CALLER_SECRET_HASH = "1234";
+      expect(() => loadConfig()).toThrow("Invalid BETTERCALLCLAUDE_CALLER_SECRET_HASH");
+    });
+
+    it("reads back transcripts below 0.5 confidence by default", () => {
+      expect(loadConfig().confidenceThreshold).toBe(0.5);
+      process.env.BETTERCALLCLAUDE_CONFIDENCE_THRESHOLD = "0";
+      expect(loadConfig().confidenceThreshold).toBe(0);
+    });
+
+    it("keeps scheduled jobs in data/schedule.json by default", () => {
+      expect(loadConfig().schedulePath).toBe("data/schedule.json");
+      process.env.BETTERCALLCLAUDE_SCHEDULE_PATH = "/tmp/schedule.json";
+      expect(loadConfig().schedulePath).toBe("/tmp/schedule.json");
+    });
+
+    it("keeps inbound attachments in data/attachments by default", () => {
+      expect(loadConfig().attachmentDir).toBe("data/attachments");
+      process.env.BETTERCALLCLAUDE_ATTACHMENT_DIR = "/tmp/attachments";
+      expect(loadConfig().attachmentDir).toBe("/tmp/attachments");
+    });
+
+    it("reads the inbound queue visibility timeout", () => {
+      expect(loadConfig().inboundVisibilityTimeoutMs).toBe(300000);
+      process.env.BETTERCALLCLAUDE_INBOUND_VISIBILITY_TIMEOUT_MS = "30000";
+      expect(loadConfig().inboundVisibilityTimeoutMs).toBe(30000);
+    });
+  });
+
+  describe("contacts", () => {
+    it("defaults to no extra contacts", () => {
+      expect(loadConfig().contacts).toEqual([]);
+    });
+
+    it("reads inline contacts JSON", () => {
+      process.env.BETTERCALLCLAUDE_CONTACTS = JSON.stringify([{ name: "alice", phoneNumber: "+15551234567" }]);
+      const config = loadConfig();
+      expect(config.contacts).toHaveLength(1);
+      expect(config.contacts[0].name).toBe("alice");
+    });
+
+    it("accepts contacts in place of userPhoneNumber", () => {
+      process.env.BETTERCALLCLAUDE_CONTACTS = JSON.stringify([{ name: "alice", phoneNumber: "+15551234567" }]);
+      const config: AppConfig = {
+        ...loadConfig(),
+        phoneAccountSid: "AC_TEST",
+        phoneAuthToken: "token",
+        phoneNumber: "+1555",
+        openaiApiKey: "sk-test",
+      };
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    it("requires userPhoneNumber or contacts", () => {
+      const config: AppConfig = {
+        ...loadConfig(),
+        phoneAccountSid: "AC_TEST",
+        phoneAuthToken: "token",
+        phoneNumber: "+1555",
+        openaiApiKey: "sk-test",
+      };
+      expect(() => validateConfig(config)).toThrow("BETTERCALLCLAUDE_USER_PHONE_NUMBER");
+    });
+  });
+
   describe("Baileys-only validation", () => {
     it("accepts minimal config with just userPhoneNumber and whatsappProvider", () => {
       process.env.BETTERCALLCLAUDE_WHATSAPP_PROVIDER = "baileys";
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "bun:test";
+import {
+  ContactRegistry,
+  createContactRegistry,
+  normalizeNumber,
+  parseContacts,
+} from "../../src/contacts";
+
+describe("contacts", () => {
+  describe("normalizeNumber", () => {
+    it("strips formatting and whatsapp prefix", () => {
+      expect(normalizeNumber("+1 (555) 123-4567")).toBe("15551234567");
+      expect(normalizeNumber("whatsapp:+15551234567")).toBe("15551234567");
+    });
+
+    it("adds US country code to bare 10-digit numbers", () => {
+      expect(normalizeNumber("5551234567")).toBe("15551234567");
+    });
+  });
+
+  describe("parseContacts", () => {
+    it("parses a JSON array of contacts", () => {
+      const contacts = parseContacts(JSON.stringify([
+        { name: "alice", displayName: "Alice", phoneNumber: "+15551234567", preferredChannel: "whatsapp", workingDir: "/srv/alice" },
+      ]));
+      expect(contacts).toHaveLength(1);
+      expect(contacts[0].preferredChannel).toBe("whatsapp");
+      expect(contacts[0].workingDir).toBe("/srv/alice");
+    });
+
+    it("rejects entries without a name or number", () => {
+      expect(() => parseContacts(JSON.stringify([{ name: "bob" }]))).toThrow("missing");
+    });
+
+    it("rejects unknown preferred channels", () => {
+      expect(() => parseContacts(JSON.stringify([
+        { name: "bob", phoneNumber: "+1", preferredChannel: "fax" },
+      ]))).toThrow("invalid preferredChannel");
+    });
+
+    it("normalizes contact languages", () => {
+      const contacts = parseContacts(JSON.stringify([{ name: "ana", phoneNumber: "+1", language: "pt-br" }]));
+      expect(contacts[0].language).toBe("pt-BR");
+      expect(() => parseContacts(JSON.stringify([
+        { name: "bob", phoneNumber: "+1", language: "klingon!" },
+      ]))).toThrow('Contact "bob" has invalid language');
+    });
+
+    it("rejects non-array JSON", () => {
+      expect(() => parseContacts("{}")).toThrow("JSON array");
+    });
+  });
+
+  describe("ContactRegistry", () => {
+    const registry = new ContactRegistry([
+      { name: "alice", phoneNumber: "+15551234567" },
+      { name: "bob", phoneNumber: "+15557654321", preferredChannel: "sms" },
+    ]);
+
+    it("finds contacts by number regardless of formatting", () => {
+      expect(registry.findByNumber("whatsapp:+1 555 765 4321")?.name).toBe("bob");
+      expect(registry.isAllowed("+19999999999")).toBe(false);
+      expect(registry.isAllowed("")).toBe(false);
+    });
+
+    it("resolves recipients by name or number", () => {
+      expect(registry.resolve("BOB").phoneNumber).toBe("+15557654321");
+      expect(registry.resolve("+15551234567").name).toBe("alice");
+    });
+
+    it("falls back to the first contact when no recipient is given", () => {
+      expect(registry.resolve().name).toBe("alice");
+    });
+
+    it("throws for unknown recipients", () => {
+      expect(() => registry.resolve("mallory")).toThrow("Unknown recipient");
+    });
+  });
+
+  describe("createContactRegistry", () => {
+    it("adds the legacy user number as the default contact", () => {
+      const registry = createContactRegistry([{ name: "bob", phoneNumber: "+15557654321" }], "+15551234567");
+      expect(registry.getDefault()?.name).toBe("user");
+      expect(registry.list()).toHaveLength(2);
+    });
+
+    it("promotes a listed contact matching the user number", () => {
+      const registry = createContactRegistry([
+        { name: "bob", phoneNumber: "+15557654321" },
+        { name: "alice", phoneNumber: "+1 555 123 4567" },
+      ], "+15551234567");
+      expect(registry.getDefault()?.name).toBe("alice");
+      expect(registry.list()).toHaveLength(2);
+    });
+  });
+});
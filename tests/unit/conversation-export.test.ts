@@ -0,0 +1,113 @@
+import { describe, it, expect } from "bun:test";
+import {
+  ChannelType,
+  ConversationDirection,
+  ConversationState,
+  type Conversation,
+} from "../../src/conversation-manager";
+import { exportConversation, isExportFormat } from "../../src/conversation-export";
+
+const START = Date.parse("2026-03-01T10:00:00.000Z");
+
+function makeConversation(overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    id: "11112222-3333-4444-5555-666677778888",
+    providerConversationId: "CA123",
+    channel: ChannelType.VOICE,
+    direction: ConversationDirection.INBOUND,
+    state: ConversationState.ENDED,
+    startedAt: new Date(START),
+    endedAt: new Date(START + 125000),
+    metadata: { from: "+15551234567", to: "+15550000000" },
+    messages: [
+      { role: "assistant", content: "Hello! What would you like me to work on?", timestamp: new Date(START + 1000) },
+      { role: "user", content: "Fix the <flaky> test & push", timestamp: new Date(START + 3000) },
+      { role: "assistant", content: "Done.", timestamp: new Date(START + 120000) },
+    ],
+    ...overrides,
+  };
+}
+
+const task = {
+  originalTask: "Fix the flaky test",
+  completionSummary: "Stabilized login.test.ts and pushed to main",
+  workingDir: "/tmp/repo",
+};
+
+describe("exportConversation", () => {
+  it("validates formats", () => {
+    expect(isExportFormat("md")).toBe(true);
+    expect(isExportFormat("vtt")).toBe(true);
+    expect(isExportFormat("pdf")).toBe(false);
+  });
+
+  it("renders Markdown with header, task and transcript", () => {
+    const md = exportConversation(makeConversation(), "md", task);
+
+    expect(md).toStartWith("# voice conversation 11112222\n");
+    expect(md).toContain("- **Channel:** voice");
+    expect(md).toContain("- **Direction:** inbound");
+    expect(md).toContain("- **From:** +15551234567");
+    expect(md).toContain("- **Duration:** 2m 5s");
+    expect(md).toContain("## Task");
+    expect(md).toContain("- **Result:** Stabilized login.test.ts and pushed to main");
+    expect(md).toContain("**User** _2026-03-01T10:00:03.000Z_\n> Fix the <flaky> test & push");
+  });
+
+  it("omits the task section when there is no linked task", () => {
+    expect(exportConversation(makeConversation(), "md")).not.toContain("## Task");
+  });
+
+  it("renders plain text", () => {
+    const txt = exportConversation(makeConversation(), "txt", task);
+
+    expect(txt).toContain("Channel: voice\n");
+    expect(txt).toContain("Task: Fix the flaky test\n");
+    expect(txt).toContain("[2026-03-01T10:00:03.000Z] User: Fix the <flaky> test & push\n");
+  });
+
+  it("marks messages the caller cut off", () => {
+    const conversation = makeConversation();
+    conversation.messages[0].interrupted = true;
+
+    expect(exportConversation(conversation, "md")).toContain("**Assistant** _2026-03-01T10:00:01.000Z_ _(cut off)_");
+    expect(exportConversation(conversation, "txt")).toContain("Assistant: Hello! What would you like me to work on? [cut off]\n");
+    expect(JSON.parse(exportConversation(conversation, "json")).messages[0].interrupted).toBe(true);
+  });
+
+  it("renders JSON with offsets and task", () => {
+    const data = JSON.parse(exportConversation(makeConversation(), "json", task));
+
+    expect(data.channel).toBe("voice");
+    expect(data.direction).toBe("inbound");
+    expect(data.duration_seconds).toBe(125);
+    expect(data.task).toEqual({
+      request: "Fix the flaky test",
+      summary: "Stabilized login.test.ts and pushed to main",
+      working_dir: "/tmp/repo",
+    });
+    expect(data.messages.map((m: any) => m.offset_seconds)).toEqual([1, 3, 120]);
+    expect(data.messages[1].content).toBe("Fix the <flaky> test & push");
+  });
+
+  it("renders WebVTT cues relative to startedAt", () => {
+    const vtt = exportConversation(makeConversation(), "vtt", task);
+
+    expect(vtt).toStartWith("WEBVTT\n\nNOTE voice inbound conversation");
+    expect(vtt).toContain("Result: Stabilized login.test.ts and pushed to main");
+    // First cue ends at the next message
+    expect(vtt).toContain("1\n00:00:01.000 --> 00:00:03.000\n<v Assistant>Hello! What would you like me to work on?");
+    // Long gaps are not covered by the cue (6 words at ~150 wpm)
+    expect(vtt).toContain("2\n00:00:03.000 --> 00:00:05.400\n<v User>Fix the &lt;flaky&gt; test &amp; push");
+    expect(vtt).toContain("3\n00:02:00.000 --> 00:02:02.000\n<v Assistant>Done.");
+  });
+
+  it("keeps multi-paragraph messages in one VTT cue", () => {
+    const conversation = makeConversation({
+      messages: [{ role: "user", content: "first\n\nsecond", timestamp: new Date(START) }],
+    });
+    const vtt = exportConversation(conversation, "vtt");
+
+    expect(vtt).toContain("<v User>first\nsecond\n");
+  });
+});
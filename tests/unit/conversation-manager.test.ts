@@ -4,6 +4,7 @@ import {
   ChannelType,
   ConversationDirection,
   ConversationState,
+  startsNewTopic,
 } from "../../src/conversation-manager";
 
 describe("ConversationManager", () => {
@@ -110,6 +111,115 @@ describe("ConversationManager", () => {
     it("silently ignores unknown conversation", () => {
       manager.addMessage("nope", "user", "hello");
     });
+
+    it("records provider message ID and speech confidence", () => {
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.INBOUND, "p1");
+      manager.addMessage("c1", "user", "hello", { providerMessageId: "SM1" });
+      manager.addMessage("c1", "user", "yes", { confidence: 0.42 });
+      const [first, second] = manager.getConversation("c1")!.messages;
+      expect(first.providerMessageId).toBe("SM1");
+      expect(first.confidence).toBeUndefined();
+      expect(second.confidence).toBe(0.42);
+      expect(second.providerMessageId).toBeUndefined();
+    });
+  });
+
+  describe("updateDeliveryStatus", () => {
+    beforeEach(() => {
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "SM1");
+      manager.addMessage("c1", "assistant", "deployed", { providerMessageId: "SM1" });
+    });
+
+    it("appends receipts to the matching message", () => {
+      manager.updateDeliveryStatus("c1", "SM1", { status: "sent" });
+      const message = manager.updateDeliveryStatus("c1", "SM1", {
+        status: "failed",
+        errorCode: "30003",
+        errorMessage: "Unreachable",
+      });
+      expect(message!.deliveryStatus!.map((u) => u.status)).toEqual(["sent", "failed"]);
+      expect(message!.deliveryStatus![1]).toMatchObject({ errorCode: "30003", errorMessage: "Unreachable" });
+      expect(message!.deliveryStatus![1].timestamp).toBeInstanceOf(Date);
+    });
+
+    it("ignores repeated receipts for the same status", () => {
+      manager.updateDeliveryStatus("c1", "SM1", { status: "delivered" });
+      manager.updateDeliveryStatus("c1", "SM1", { status: "delivered" });
+      expect(manager.getConversation("c1")!.messages[0].deliveryStatus).toHaveLength(1);
+    });
+
+    it("falls back to searching other conversations", () => {
+      manager.createConversation("c2", ChannelType.SMS, ConversationDirection.INBOUND, "SM9");
+      expect(manager.updateDeliveryStatus("c2", "SM1", { status: "read" })).toBeDefined();
+      expect(manager.getConversation("c1")!.messages[0].deliveryStatus![0].status).toBe("read");
+    });
+
+    it("emits message.updated", () => {
+      const updates: string[] = [];
+      manager.events.on("message.updated", ({ conversationId, message }) => {
+        updates.push(`${conversationId}:${message.deliveryStatus!.at(-1)!.status}`);
+      });
+      manager.updateDeliveryStatus(undefined, "SM1", { status: "delivered" });
+      expect(updates).toEqual(["c1:delivered"]);
+    });
+
+    it("returns undefined when no message matches", () => {
+      expect(manager.updateDeliveryStatus("c1", "SM404", { status: "sent" })).toBeUndefined();
+      expect(manager.updateDeliveryStatus("c1", "", { status: "sent" })).toBeUndefined();
+    });
+  });
+
+  describe("markInterrupted", () => {
+    beforeEach(() => {
+      manager.createConversation("c1", ChannelType.VOICE, ConversationDirection.INBOUND, "CA1");
+      manager.addMessage("c1", "user", "what did you change?");
+      manager.addMessage("c1", "assistant", "I refactored the auth module and then");
+    });
+
+    it("flags the last assistant message", () => {
+      const message = manager.markInterrupted("c1");
+      expect(message!.content).toBe("I refactored the auth module and then");
+      expect(manager.getConversation("c1")!.messages[1].interrupted).toBe(true);
+      expect(manager.getConversation("c1")!.messages[0].interrupted).toBeUndefined();
+    });
+
+    it("emits message.updated once", () => {
+      let updates = 0;
+      manager.events.on("message.updated", () => updates++);
+      manager.markInterrupted("c1");
+      manager.markInterrupted("c1");
+      expect(updates).toBe(1);
+    });
+
+    it("returns undefined without an assistant message", () => {
+      manager.createConversation("c2", ChannelType.VOICE, ConversationDirection.INBOUND, "CA2");
+      expect(manager.markInterrupted("c2")).toBeUndefined();
+      expect(manager.markInterrupted("missing")).toBeUndefined();
+    });
+  });
+
+  describe("updateMetadata", () => {
+    it("merges fields into the metadata", () => {
+      manager.createConversation("c1", ChannelType.VOICE, ConversationDirection.INBOUND, "CA1", { from: "+1555" });
+      manager.updateMetadata("c1", { continueOn: "whatsapp" });
+      expect(manager.getConversation("c1")!.metadata).toMatchObject({ from: "+1555", continueOn: "whatsapp" });
+    });
+
+    it("ignores unknown conversations", () => {
+      expect(() => manager.updateMetadata("missing", { continueOn: "whatsapp" })).not.toThrow();
+    });
+  });
+
+  describe("keypresses", () => {
+    it("do not count as replies", async () => {
+      manager.createConversation("c1", ChannelType.VOICE, ConversationDirection.INBOUND, "CA1");
+      manager.addMessage("c1", "assistant", "question?");
+
+      const reply = manager.waitForResponse("c1", 100);
+      manager.addMessage("c1", "user", "Pressed 1 (status)", { keypress: "1" });
+      expect(manager.getConversation("c1")!.messages.at(-1)!.keypress).toBe("1");
+      expect(await reply).toBeNull();
+    });
   });
 
   describe("waiters", () => {
@@ -143,6 +253,60 @@ describe("ConversationManager", () => {
       expect(result).toBeNull();
     });
 
+    it("waitForResponse delivers a reply to every waiter", async () => {
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "m1");
+      manager.addMessage("c1", "assistant", "question");
+
+      const first = manager.waitForResponse("c1", 5000);
+      const second = manager.waitForResponse("c1", 5000);
+      expect(manager.getResponseWaiterCount("c1")).toBe(2);
+
+      manager.addMessage("c1", "user", "answer");
+      expect(await Promise.all([first, second])).toEqual(["answer", "answer"]);
+      expect(manager.getResponseWaiterCount("c1")).toBe(0);
+    });
+
+    it("waitForResponse stops waiting when aborted", async () => {
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "m1");
+      manager.addMessage("c1", "assistant", "question");
+
+      const controller = new AbortController();
+      const cancelled = manager.waitForResponse("c1", 5000, controller.signal);
+      const other = manager.waitForResponse("c1", 5000);
+
+      controller.abort();
+      expect(await cancelled).toBeNull();
+      expect(manager.getResponseWaiterCount("c1")).toBe(1);
+
+      manager.addMessage("c1", "user", "answer");
+      expect(await other).toBe("answer");
+    });
+
+    it("waitForResponse returns null for an already aborted signal", async () => {
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "m1");
+      manager.addMessage("c1", "assistant", "question");
+      const result = await manager.waitForResponse("c1", 5000, AbortSignal.abort());
+      expect(result).toBeNull();
+      expect(manager.getResponseWaiterCount("c1")).toBe(0);
+    });
+
+    it("waitForResponse waiters added while resolving wait for the next reply", async () => {
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "m1");
+      manager.addMessage("c1", "assistant", "question");
+
+      let later: Promise<string | null> | undefined;
+      const first = manager.waitForResponse("c1", 5000).then((reply) => {
+        manager.addMessage("c1", "assistant", "follow-up");
+        later = manager.waitForResponse("c1", 5000);
+        return reply;
+      });
+
+      manager.addMessage("c1", "user", "one");
+      expect(await first).toBe("one");
+      manager.addMessage("c1", "user", "two");
+      expect(await later!).toBe("two");
+    });
+
     it("waitForInbound resolves when inbound message arrives", async () => {
       const promise = manager.waitForInbound(5000, ChannelType.SMS);
       setTimeout(() => {
@@ -159,6 +323,19 @@ describe("ConversationManager", () => {
       expect(result).toBeNull();
     });
 
+    it("waitForInbound stops waiting when aborted", async () => {
+      const controller = new AbortController();
+      const promise = manager.waitForInbound(5000, ChannelType.SMS, controller.signal);
+      controller.abort();
+      expect(await promise).toBeNull();
+
+      // The cancelled waiter no longer claims inbound conversations
+      const next = manager.waitForInbound(5000, ChannelType.SMS);
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.INBOUND, "m1");
+      manager.addMessage("c1", "user", "hello");
+      expect((await next)!.id).toBe("c1");
+    });
+
     it("getPendingInbound returns pending conversation", () => {
       manager.createConversation("c1", ChannelType.SMS, ConversationDirection.INBOUND, "m1");
       manager.addMessage("c1", "user", "hello");
@@ -186,6 +363,188 @@ describe("ConversationManager", () => {
     });
   });
 
+  describe("idle timeouts and new topics", () => {
+    let threaded: ConversationManager;
+
+    beforeEach(() => {
+      threaded = new ConversationManager({
+        idleTimeoutMs: { [ChannelType.SMS]: 60000 },
+        newTopicKeywords: ["new topic", "/new"],
+      });
+    });
+
+    function ageConversation(id: string, ms: number) {
+      const conv = threaded.getConversation(id)!;
+      conv.startedAt = new Date(conv.startedAt.getTime() - ms);
+      for (const message of conv.messages) {
+        message.timestamp = new Date(message.timestamp.getTime() - ms);
+      }
+    }
+
+    it("starts a fresh conversation after the channel's idle timeout", () => {
+      const first = threaded.findOrCreateConversation(ChannelType.SMS, "m1", "+1000", "+2000", "hi");
+      threaded.addMessage(first.id, "user", "hi");
+      ageConversation(first.id, 120000);
+
+      const second = threaded.findOrCreateConversation(ChannelType.SMS, "m2", "+1000", "+2000", "days later");
+
+      expect(second.id).not.toBe(first.id);
+      expect(threaded.getConversation(first.id)!.state).toBe(ConversationState.ENDED);
+    });
+
+    it("keeps the thread while it is within the timeout", () => {
+      const first = threaded.findOrCreateConversation(ChannelType.SMS, "m1", "+1000", "+2000");
+      threaded.addMessage(first.id, "user", "hi");
+      ageConversation(first.id, 30000);
+
+      expect(threaded.findOrCreateConversation(ChannelType.SMS, "m2", "+1000", "+2000").id).toBe(first.id);
+    });
+
+    it("never times out channels without a configured timeout", () => {
+      const first = threaded.findOrCreateConversation(ChannelType.WHATSAPP, "m1", "+1000", "+2000");
+      ageConversation(first.id, 86400000);
+
+      expect(threaded.findOrCreateConversation(ChannelType.WHATSAPP, "m2", "+1000", "+2000").id).toBe(first.id);
+    });
+
+    it("starts a fresh conversation on a new topic keyword", () => {
+      const first = threaded.findOrCreateConversation(ChannelType.SMS, "m1", "+1000", "+2000", "deploy staging");
+      const second = threaded.findOrCreateConversation(
+        ChannelType.SMS, "m2", "+1000", "+2000", "New topic: fix the flaky test"
+      );
+
+      expect(second.id).not.toBe(first.id);
+      expect(threaded.getConversation(first.id)!.state).toBe(ConversationState.ENDED);
+    });
+
+    it("closeIdle ends idle messaging conversations and emits the reason", () => {
+      const events: any[] = [];
+      threaded.events.on("state.changed", (e) => events.push(e));
+      const idle = threaded.findOrCreateConversation(ChannelType.SMS, "m1", "+1000", "+2000");
+      const fresh = threaded.findOrCreateConversation(ChannelType.SMS, "m2", "+3000", "+2000");
+      ageConversation(idle.id, 120000);
+
+      expect(threaded.closeIdle()).toEqual([idle.id]);
+      expect(threaded.getConversation(fresh.id)!.state).toBe(ConversationState.ACTIVE);
+      expect(events).toEqual([{
+        conversationId: idle.id,
+        channel: ChannelType.SMS,
+        previousState: ConversationState.ACTIVE,
+        state: ConversationState.ENDED,
+        reason: "idle_timeout",
+      }]);
+    });
+
+    it("ignores voice conversations", () => {
+      threaded = new ConversationManager({ idleTimeoutMs: { [ChannelType.SMS]: 1 } });
+      threaded.createConversation("v1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1");
+      ageConversation("v1", 120000);
+
+      expect(threaded.closeIdle()).toEqual([]);
+    });
+  });
+
+  describe("startsNewTopic", () => {
+    const keywords = ["new topic", "/new"];
+
+    it("matches keywords at the start of a message, case-insensitively", () => {
+      expect(startsNewTopic("new topic", keywords)).toBe(true);
+      expect(startsNewTopic("  New Topic: deploy", keywords)).toBe(true);
+      expect(startsNewTopic("/new run the tests", keywords)).toBe(true);
+    });
+
+    it("does not match keywords mid-message or as a word prefix", () => {
+      expect(startsNewTopic("this is a new topic", keywords)).toBe(false);
+      expect(startsNewTopic("/newer build", keywords)).toBe(false);
+      expect(startsNewTopic("anything", [])).toBe(false);
+    });
+  });
+
+  describe("events", () => {
+    it("emits conversation.created", () => {
+      const created: string[] = [];
+      manager.events.on("conversation.created", (e) => created.push(e.conversation.id));
+
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.INBOUND, "m1");
+
+      expect(created).toEqual(["c1"]);
+    });
+
+    it("emits message.added with the stored message", () => {
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "m1");
+      const added: any[] = [];
+      manager.events.on("message.added", (e) => added.push(e));
+
+      manager.addMessage("c1", "assistant", "hello");
+
+      expect(added).toHaveLength(1);
+      expect(added[0].conversationId).toBe("c1");
+      expect(added[0].channel).toBe(ChannelType.SMS);
+      expect(added[0].message).toBe(manager.getConversation("c1")!.messages[0]);
+    });
+
+    it("emits state.changed for explicit updates and inbound replies", () => {
+      manager.createConversation("c1", ChannelType.WHATSAPP, ConversationDirection.INBOUND, "m1");
+      const changes: string[] = [];
+      manager.events.on("state.changed", (e) => changes.push(`${e.previousState}->${e.state}`));
+
+      manager.addMessage("c1", "user", "hi");
+      manager.addMessage("c1", "user", "again");
+      manager.updateState("c1", ConversationState.ENDED);
+
+      expect(changes).toEqual([
+        "active->pending_response",
+        "pending_response->ended",
+      ]);
+    });
+  });
+
+  describe("findConversations", () => {
+    beforeEach(() => {
+      manager.createConversation(
+        "sms-1", ChannelType.SMS, ConversationDirection.INBOUND, "m1", { from: "+15551230001", to: "+15550000000" }
+      );
+      manager.addMessage("sms-1", "user", "Deploy the staging branch");
+      manager.createConversation(
+        "wa-1", ChannelType.WHATSAPP, ConversationDirection.OUTBOUND, "m2", { to: "+15551230002" }
+      );
+      manager.addMessage("wa-1", "assistant", "Tests are failing on main");
+      manager.createConversation(
+        "voice-1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15551230001" }
+      );
+      manager.addMessage("voice-1", "user", "deploy production please");
+      manager.updateState("voice-1", ConversationState.ENDED);
+    });
+
+    it("returns every conversation without a filter, newest first", () => {
+      const ids = manager.findConversations().map((c) => c.id);
+      expect(ids).toHaveLength(3);
+      expect(new Set(ids)).toEqual(new Set(["sms-1", "wa-1", "voice-1"]));
+    });
+
+    it("filters by channel, state and direction", () => {
+      expect(manager.findConversations({ channel: ChannelType.WHATSAPP }).map((c) => c.id)).toEqual(["wa-1"]);
+      expect(manager.findConversations({ state: ConversationState.ENDED }).map((c) => c.id)).toEqual(["voice-1"]);
+      expect(manager.findConversations({ direction: ConversationDirection.OUTBOUND }).map((c) => c.id)).toEqual(["wa-1"]);
+    });
+
+    it("filters by counterpart number in any format", () => {
+      const ids = manager.findConversations({ counterpart: "(555) 123-0001" }).map((c) => c.id).sort();
+      expect(ids).toEqual(["sms-1", "voice-1"]);
+    });
+
+    it("filters by date range", () => {
+      expect(manager.findConversations({ since: new Date(Date.now() + 60000) })).toHaveLength(0);
+      expect(manager.findConversations({ until: new Date(Date.now() + 60000) })).toHaveLength(3);
+    });
+
+    it("requires every search term to appear", () => {
+      expect(manager.findConversations({ text: "DEPLOY" }).map((c) => c.id).sort()).toEqual(["sms-1", "voice-1"]);
+      expect(manager.findConversations({ text: "deploy staging" }).map((c) => c.id)).toEqual(["sms-1"]);
+      expect(manager.findConversations({ text: "deploy tests" })).toHaveLength(0);
+    });
+  });
+
   describe("cleanupOld", () => {
     it("removes old ended conversations", () => {
       manager.createConversation("c1", ChannelType.SMS, ConversationDirection.INBOUND, "m1");
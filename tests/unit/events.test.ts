@@ -0,0 +1,62 @@
+import { describe, it, expect } from "bun:test";
+import { EventBus } from "../../src/events";
+
+interface TestEvents {
+  ping: { n: number };
+  pong: { text: string };
+}
+
+describe("EventBus", () => {
+  it("delivers events to listeners of that type only", () => {
+    const bus = new EventBus<TestEvents>();
+    const pings: number[] = [];
+    const pongs: string[] = [];
+    bus.on("ping", (e) => pings.push(e.n));
+    bus.on("pong", (e) => pongs.push(e.text));
+
+    bus.emit("ping", { n: 1 });
+    bus.emit("pong", { text: "a" });
+
+    expect(pings).toEqual([1]);
+    expect(pongs).toEqual(["a"]);
+  });
+
+  it("delivers every event to onAny listeners", () => {
+    const bus = new EventBus<TestEvents>();
+    const seen: string[] = [];
+    bus.onAny((type) => seen.push(String(type)));
+
+    bus.emit("ping", { n: 1 });
+    bus.emit("pong", { text: "a" });
+
+    expect(seen).toEqual(["ping", "pong"]);
+  });
+
+  it("unsubscribes with the returned function", () => {
+    const bus = new EventBus<TestEvents>();
+    const pings: number[] = [];
+    const off = bus.on("ping", (e) => pings.push(e.n));
+    const offAny = bus.onAny(() => pings.push(-1));
+    expect(bus.listenerCount()).toBe(2);
+
+    off();
+    offAny();
+    bus.emit("ping", { n: 1 });
+
+    expect(pings).toEqual([]);
+    expect(bus.listenerCount()).toBe(0);
+  });
+
+  it("keeps delivering when a listener throws", () => {
+    const bus = new EventBus<TestEvents>();
+    const pings: number[] = [];
+    bus.on("ping", () => {
+      throw new Error("boom");
+    });
+    bus.on("ping", (e) => pings.push(e.n));
+
+    bus.emit("ping", { n: 2 });
+
+    expect(pings).toEqual([2]);
+  });
+});
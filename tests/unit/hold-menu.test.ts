@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { HoldMenu } from "../../src/hold-menu";
+import { phrasesFor } from "../../src/language";
+import {
+  ConversationManager,
+  ChannelType,
+  ConversationDirection,
+} from "../../src/conversation-manager";
+
+function createMockTaskExecutor() {
+  return {
+    getExecution: mock((_id: string) => undefined as any),
+    isRunning: mock((_id: string) => true),
+    killTask: mock((_id: string) => true),
+  } as any;
+}
+
+describe("HoldMenu", () => {
+  let conversationManager: ConversationManager;
+  let taskExecutor: ReturnType<typeof createMockTaskExecutor>;
+  let sendWhatsApp: ReturnType<typeof mock>;
+  let menu: HoldMenu;
+
+  beforeEach(() => {
+    conversationManager = new ConversationManager();
+    conversationManager.createConversation(
+      "c1", ChannelType.VOICE, ConversationDirection.INBOUND, "CA1", { from: "+15551234567" }
+    );
+    conversationManager.addMessage("c1", "user", "deploy the app");
+    conversationManager.addMessage("c1", "assistant", "Building the image now");
+    taskExecutor = createMockTaskExecutor();
+    sendWhatsApp = mock(() => Promise.resolve("SM_1"));
+    menu = new HoldMenu(conversationManager, taskExecutor, { sendWhatsApp });
+  });
+
+  it("reads the latest progress on 1", async () => {
+    taskExecutor.getExecution.mockReturnValue({
+      status: "running",
+      startedAt: new Date(Date.now() - 3 * 60000),
+      progress: "Tests are passing",
+    });
+
+    const result = await menu.press("c1", "1");
+    expect(result).toEqual({
+      action: "status",
+      message: "Still working, 3 minutes in. Latest update: Tests are passing",
+      next: "hold",
+    });
+  });
+
+  it("says when there are no updates yet", async () => {
+    taskExecutor.getExecution.mockReturnValue({ status: "running", startedAt: new Date() });
+    expect((await menu.press("c1", "1")).message).toBe("Still working, less than a minute in. No updates yet.");
+  });
+
+  it("cancels the task on 2 and listens for a new request", async () => {
+    const result = await menu.press("c1", "2");
+    expect(taskExecutor.killTask).toHaveBeenCalledWith("c1");
+    expect(result.next).toBe("gather");
+  });
+
+  it("stays on hold when there is nothing to cancel", async () => {
+    taskExecutor.killTask.mockReturnValue(false);
+    expect((await menu.press("c1", "2")).next).toBe("hold");
+  });
+
+  it("repeats the last thing said on 3", async () => {
+    const result = await menu.press("c1", "3");
+    expect(result).toEqual({ action: "repeat", message: "Building the image now", next: "hold" });
+  });
+
+  it("moves the call to WhatsApp on 9", async () => {
+    const result = await menu.press("c1", "9");
+    expect(result.next).toBe("hangup");
+    expect((sendWhatsApp.mock.calls[0] as any[])[0]).toBe("+15551234567");
+    expect(conversationManager.getConversation("c1")!.metadata?.continueOn).toBe("whatsapp");
+  });
+
+  it("stays on hold when WhatsApp fails", async () => {
+    sendWhatsApp.mockImplementation(() => Promise.reject(new Error("not connected")));
+    const result = await menu.press("c1", "9");
+    expect(result.next).toBe("hold");
+    expect(conversationManager.getConversation("c1")!.metadata?.continueOn).toBeUndefined();
+  });
+
+  it("offers no WhatsApp handoff without a sender", async () => {
+    menu = new HoldMenu(conversationManager, taskExecutor);
+    expect((await menu.press("c1", "9")).next).toBe("hold");
+  });
+
+  it("repeats the menu for unknown keys without logging them", async () => {
+    const result = await menu.press("c1", "7");
+    expect(result).toEqual({ message: phrasesFor().holdMenu, next: "hold" });
+    expect(conversationManager.getConversation("c1")!.messages).toHaveLength(2);
+  });
+
+  it("answers in the caller's language", async () => {
+    taskExecutor.getExecution.mockReturnValue({ status: "running", startedAt: new Date(Date.now() - 60000) });
+    expect((await menu.press("c1", "1", "es-ES")).message).toBe("Sigo trabajando, llevo 1 minuto. Aún no hay novedades.");
+    expect((await menu.press("c1", "7", "de-DE")).message).toBe(phrasesFor("de-DE").holdMenu);
+
+    const result = await menu.press("c1", "9", "fr-FR");
+    expect(result.message).toBe("D'accord, continuons sur WhatsApp. Au revoir !");
+    expect((sendWhatsApp.mock.calls[0] as any[])[1]).toStartWith("Je poursuis notre appel ici.");
+  });
+
+  it("logs menu keys into the conversation", async () => {
+    await menu.press("c1", "1");
+    const last = conversationManager.getConversation("c1")!.messages.at(-1)!;
+    expect(last).toMatchObject({ role: "user", content: "Pressed 1 (status)", keypress: "1" });
+  });
+});
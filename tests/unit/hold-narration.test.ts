@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { HoldNarrator, speakableOutput } from "../../src/hold-narration";
+
+function createExecution(overrides: Record<string, unknown> = {}) {
+  return {
+    status: "running",
+    startedAt: new Date(Date.now() - 2 * 60000),
+    output: [] as string[],
+    ...overrides,
+  };
+}
+
+describe("hold narration", () => {
+  describe("speakableOutput", () => {
+    it("strips terminal colors, Markdown and links", () => {
+      expect(speakableOutput("\x1b[32m## Running `bun test`\x1b[0m")).toBe("Running bun test");
+      expect(speakableOutput("Deployed to https://app.example.com/x")).toBe("Deployed to a link");
+    });
+
+    it("skips lines with nothing to say", () => {
+      expect(speakableOutput("----")).toBeUndefined();
+      expect(speakableOutput("{ }")).toBeUndefined();
+    });
+
+    it("cuts long lines at a word", () => {
+      const line = speakableOutput("word ".repeat(50))!;
+      expect(line.length).toBeLessThanOrEqual(123);
+      expect(line).toEndWith("word...");
+    });
+  });
+
+  describe("HoldNarrator", () => {
+    let execution: ReturnType<typeof createExecution>;
+    let taskExecutor: any;
+    let narrator: HoldNarrator;
+
+    beforeEach(() => {
+      execution = createExecution();
+      taskExecutor = { getExecution: mock(() => execution) };
+      narrator = new HoldNarrator(taskExecutor, { intervalMs: 30000 });
+    });
+
+    it("reads the latest speakable output line", () => {
+      execution.output = ["Reading src/index.ts", "Running the test suite", "---"];
+      expect(narrator.next("c1")).toBe("Still working, 2 minutes in. Running the test suite");
+    });
+
+    it("waits for the interval between updates", () => {
+      expect(narrator.next("c1")).toBe("Still working, 2 minutes in.");
+      expect(narrator.next("c1")).toBeUndefined();
+    });
+
+    it("does not repeat an output line it already read", () => {
+      execution.output = ["Running the test suite"];
+      narrator = new HoldNarrator(taskExecutor, { intervalMs: 1 });
+      expect(narrator.next("c1")).toContain("Running the test suite");
+      Bun.sleepSync(5);
+      expect(narrator.next("c1")).toBe("Still working, 2 minutes in.");
+    });
+
+    it("stays quiet right after the task started or the session spoke", () => {
+      execution.startedAt = new Date();
+      expect(narrator.next("c1")).toBeUndefined();
+
+      execution = createExecution({ progressAt: new Date() });
+      expect(narrator.next("c1")).toBeUndefined();
+    });
+
+    it("says nothing when the task is not running or narration is off", () => {
+      execution.status = "completed";
+      expect(narrator.next("c1")).toBeUndefined();
+
+      execution.status = "running";
+      expect(new HoldNarrator(taskExecutor, { intervalMs: 0 }).next("c1")).toBeUndefined();
+    });
+
+    it("narrates in the caller's language", () => {
+      execution.output = ["Ejecutando las pruebas"];
+      expect(narrator.next("c1", "it-IT")).toBe("Ci sto ancora lavorando, da 2 minuti. Ejecutando las pruebas");
+    });
+
+    it("checks back as often as it narrates, within 5 to 30 seconds", () => {
+      expect(new HoldNarrator(taskExecutor, { intervalMs: 15000 }).waitSeconds).toBe(15);
+      expect(new HoldNarrator(taskExecutor, { intervalMs: 1000 }).waitSeconds).toBe(5);
+      expect(new HoldNarrator(taskExecutor, { intervalMs: 120000 }).waitSeconds).toBe(30);
+      expect(new HoldNarrator(taskExecutor, { intervalMs: 0 }).waitSeconds).toBe(30);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { InboundQueue } from "../../src/inbound-queue";
+import {
+  ConversationManager,
+  ChannelType,
+  ConversationDirection,
+  ConversationState,
+} from "../../src/conversation-manager";
+
+describe("InboundQueue", () => {
+  let manager: ConversationManager;
+  let queue: InboundQueue;
+
+  function inbound(id: string, channel: ChannelType, content: string) {
+    if (!manager.getConversation(id)) {
+      manager.createConversation(id, channel, ConversationDirection.INBOUND, `p-${id}`);
+    }
+    manager.addMessage(id, "user", content);
+  }
+
+  beforeEach(() => {
+    manager = new ConversationManager();
+    queue = new InboundQueue(manager, { visibilityTimeoutMs: 1000 });
+  });
+
+  describe("claim", () => {
+    it("hands out messages oldest first", () => {
+      inbound("c1", ChannelType.SMS, "first");
+      inbound("c2", ChannelType.WHATSAPP, "second");
+
+      expect(queue.claim()!.content).toBe("first");
+      expect(queue.claim()!.content).toBe("second");
+      expect(queue.claim()).toBeUndefined();
+    });
+
+    it("hands out the files sent with a message", () => {
+      manager.createConversation("c1", ChannelType.WHATSAPP, ConversationDirection.INBOUND, "p-c1");
+      const attachments = [{ contentType: "image/png", file: "/data/attachments/c1/wamid-0-attachment.png", size: 3 }];
+      manager.addMessage("c1", "user", "what's this error?", { attachments });
+
+      expect(queue.claim()!.attachments).toEqual(attachments);
+    });
+
+    it("never gives the same message to two sessions", () => {
+      inbound("c1", ChannelType.SMS, "deploy");
+
+      const first = queue.claim([ChannelType.SMS]);
+      const second = queue.claim([ChannelType.SMS]);
+      expect(first!.conversationId).toBe("c1");
+      expect(first!.token).toBeString();
+      expect(second).toBeUndefined();
+    });
+
+    it("filters by channel", () => {
+      inbound("c1", ChannelType.VOICE, "call");
+      inbound("c2", ChannelType.SMS, "text");
+
+      const claim = queue.claim([ChannelType.SMS, ChannelType.WHATSAPP]);
+      expect(claim!.conversationId).toBe("c2");
+      expect(queue.claim([ChannelType.WHATSAPP])).toBeUndefined();
+      expect(queue.claim([ChannelType.VOICE])!.content).toBe("call");
+    });
+
+    it("holds later messages of a conversation until the earlier one is acked", () => {
+      inbound("c1", ChannelType.SMS, "fix the bug");
+      inbound("c1", ChannelType.SMS, "in auth.ts");
+
+      const first = queue.claim()!;
+      expect(queue.claim()).toBeUndefined();
+
+      expect(queue.ack(first.token)).toBe(true);
+      expect(queue.claim()!.content).toBe("in auth.ts");
+    });
+
+    it("ignores outbound conversations", () => {
+      manager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "p1");
+      manager.addMessage("c1", "user", "reply to our text");
+      expect(queue.size()).toBe(0);
+    });
+  });
+
+  describe("ack and release", () => {
+    it("acked messages are never delivered again", () => {
+      inbound("c1", ChannelType.SMS, "hello");
+      const claim = queue.claim()!;
+
+      expect(queue.ack(claim.token)).toBe(true);
+      expect(queue.ack(claim.token)).toBe(false);
+      expect(queue.size()).toBe(0);
+    });
+
+    it("released messages go back to the front of the queue", () => {
+      inbound("c1", ChannelType.SMS, "first");
+      inbound("c2", ChannelType.SMS, "second");
+
+      const claim = queue.claim()!;
+      expect(queue.release(claim.token)).toBe(true);
+
+      const again = queue.claim()!;
+      expect(again.content).toBe("first");
+      expect(again.deliveryCount).toBe(2);
+      expect(again.token).not.toBe(claim.token);
+      expect(queue.release(claim.token)).toBe(false);
+    });
+
+    it("a reply acks the claimed message", () => {
+      inbound("c1", ChannelType.WHATSAPP, "status?");
+      queue.claim();
+
+      manager.addMessage("c1", "assistant", "all green");
+      expect(queue.size()).toBe(0);
+    });
+
+    it("a reply acks messages nobody claimed", () => {
+      // Spawned sessions answer the message they were started for without claiming it
+      inbound("c1", ChannelType.WHATSAPP, "status?");
+      inbound("c2", ChannelType.SMS, "deploy");
+      manager.addMessage("c1", "assistant", "all green");
+
+      expect(queue.claim()!.content).toBe("deploy");
+      expect(queue.claim()).toBeUndefined();
+    });
+
+    it("a reply leaves messages that arrive after it queued", () => {
+      inbound("c1", ChannelType.WHATSAPP, "status?");
+      manager.addMessage("c1", "assistant", "all green");
+      inbound("c1", ChannelType.WHATSAPP, "and staging?");
+
+      expect(queue.claim()!.content).toBe("and staging?");
+    });
+
+    it("drops messages of ended conversations", () => {
+      inbound("c1", ChannelType.SMS, "hello");
+      const claim = queue.claim()!;
+      manager.updateState("c1", ConversationState.ENDED);
+
+      expect(queue.size()).toBe(0);
+      expect(queue.ack(claim.token)).toBe(false);
+    });
+  });
+
+  describe("visibility timeout", () => {
+    it("makes an unacked claim visible again", async () => {
+      inbound("c1", ChannelType.SMS, "hello");
+      const claim = queue.claim(undefined, 20)!;
+      expect(claim.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(queue.claim()).toBeUndefined();
+
+      await new Promise((r) => setTimeout(r, 40));
+      expect(queue.ack(claim.token)).toBe(false);
+      expect(queue.claim()!.deliveryCount).toBe(2);
+    });
+
+    it("hands an expired claim to a waiting session", async () => {
+      inbound("c1", ChannelType.SMS, "hello");
+      queue.claim(undefined, 20);
+
+      const claim = await queue.waitForClaim(1000);
+      expect(claim!.content).toBe("hello");
+      expect(claim!.deliveryCount).toBe(2);
+    });
+  });
+
+  describe("waitForClaim", () => {
+    it("resolves when a message arrives", async () => {
+      const promise = queue.waitForClaim(1000, [ChannelType.SMS]);
+      setTimeout(() => inbound("c1", ChannelType.SMS, "incoming"), 10);
+      const claim = await promise;
+      expect(claim!.conversationId).toBe("c1");
+    });
+
+    it("gives each waiting session a different message", async () => {
+      const first = queue.waitForClaim(1000);
+      const second = queue.waitForClaim(1000);
+      inbound("c1", ChannelType.SMS, "one");
+      inbound("c2", ChannelType.SMS, "two");
+
+      const claims = await Promise.all([first, second]);
+      expect(claims.map((c) => c!.content)).toEqual(["one", "two"]);
+    });
+
+    it("returns null on timeout", async () => {
+      expect(await queue.waitForClaim(20)).toBeNull();
+    });
+
+    it("stops waiting when aborted", async () => {
+      const controller = new AbortController();
+      const promise = queue.waitForClaim(1000, undefined, controller.signal);
+      controller.abort();
+      expect(await promise).toBeNull();
+
+      // The message is left for the next session
+      inbound("c1", ChannelType.SMS, "hello");
+      expect(queue.claim()!.deliveryCount).toBe(1);
+    });
+  });
+
+  it("queues pending conversations restored at startup", () => {
+    inbound("c1", ChannelType.WHATSAPP, "still waiting");
+    const restored = new InboundQueue(manager);
+    expect(restored.claim()!.content).toBe("still waiting");
+  });
+});
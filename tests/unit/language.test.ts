@@ -0,0 +1,72 @@
+import { describe, it, expect } from "bun:test";
+import {
+  isEnglish,
+  sayVoice,
+  languageFromWhisper,
+  languageName,
+  normalizeLanguage,
+  phrasesFor,
+  whisperLanguage,
+} from "../../src/language";
+
+describe("language", () => {
+  describe("normalizeLanguage", () => {
+    it("adds a default region to bare languages", () => {
+      expect(normalizeLanguage("es")).toBe("es-ES");
+      expect(normalizeLanguage("PT")).toBe("pt-BR");
+      expect(normalizeLanguage("eo")).toBe("eo");
+    });
+
+    it("canonicalizes case and separators", () => {
+      expect(normalizeLanguage("en_gb")).toBe("en-GB");
+      expect(normalizeLanguage(" fr-ca ")).toBe("fr-CA");
+      expect(normalizeLanguage("es-419")).toBe("es-419");
+    });
+
+    it("rejects strings that are not language tags", () => {
+      expect(() => normalizeLanguage("Spanish please")).toThrow("Invalid language");
+      expect(() => normalizeLanguage("")).toThrow("Invalid language");
+    });
+  });
+
+  it("maps tags to Whisper codes and back", () => {
+    expect(whisperLanguage("es-MX")).toBe("es");
+    expect(languageFromWhisper("spanish")).toBe("es-ES");
+    expect(languageFromWhisper("German")).toBe("de-DE");
+    expect(languageFromWhisper("norwegian")).toBe("nb-NO");
+    expect(languageFromWhisper("fr")).toBe("fr-FR");
+    expect(languageFromWhisper("klingon")).toBeUndefined();
+  });
+
+  it("names languages in English", () => {
+    expect(languageName("fr-FR")).toBe("French");
+    expect(isEnglish("en-AU")).toBe(true);
+    expect(isEnglish("es-ES")).toBe(false);
+  });
+
+  it("picks a Twilio voice that speaks the language", () => {
+    expect(sayVoice("es-MX")).toBe("alice");
+    expect(sayVoice("tr-TR")).toBe("Polly.Filiz");
+    expect(sayVoice("xx-YY")).toBe("alice");
+  });
+
+  describe("phrasesFor", () => {
+    it("translates call prompts", () => {
+      expect(phrasesFor("es-MX").greeting("Ana")).toBe("¡Hola Ana! Soy Claude. ¿En qué quieres que trabaje?");
+      expect(phrasesFor("de-DE").finished("Fertig")).toContain("Fertig");
+    });
+
+    it("translates every phrase", () => {
+      const keys = Object.keys(phrasesFor("en-US")).sort();
+      for (const tag of ["es-ES", "fr-FR", "de-DE", "it-IT", "pt-BR"]) {
+        expect(Object.keys(phrasesFor(tag)).sort()).toEqual(keys);
+        expect(phrasesFor(tag).holdMenu).not.toBe(phrasesFor("en-US").holdMenu);
+      }
+    });
+
+    it("falls back to English", () => {
+      expect(phrasesFor("ja-JP").didNotCatch).toBe("I didn't catch that. Could you please repeat?");
+      expect(phrasesFor().greeting()).toBe("Hello! This is Claude. What would you like me to work on?");
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import {
+  MediaStreamManager,
+  TTS_SAMPLE_RATE,
+  formatMediaFrame,
+  parseMediaFrame,
+  type MediaProvider,
+  type MediaStreamConnection,
+  type MediaStreamEvents,
+} from "../../src/media-stream";
+import { mulawEncode } from "../../src/audio";
+
+/**
+ * Plays the provider's side of a media stream WebSocket
+ * Sends caller audio in 20ms mu-law frames and collects what the server sends,
+ * echoing marks back the way Twilio and Telnyx do once audio has played.
+ */
+class FakeProviderSocket {
+  sent: any[] = [];
+  closed = false;
+  echoMarks = true;
+  connection!: MediaStreamConnection;
+
+  constructor(private provider: MediaProvider) {}
+
+  send(data: string): void {
+    const msg = JSON.parse(data);
+    this.sent.push(msg);
+    if (msg.event === "mark" && this.echoMarks) {
+      queueMicrotask(() => this.receive({ event: "mark", mark: msg.mark }));
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  receive(msg: object): void {
+    this.connection.receive(JSON.stringify(msg));
+  }
+
+  start(callId: string): void {
+    this.receive(
+      this.provider === "twilio"
+        ? { event: "start", streamSid: "MZ1", start: { streamSid: "MZ1", callSid: callId } }
+        : { event: "start", stream_id: "st1", start: { call_control_id: callId } }
+    );
+  }
+
+  /** Send `frames` 20ms frames of a tone (amplitude > 0) or silence */
+  audio(amplitude: number, frames: number): void {
+    const samples = Int16Array.from({ length: 160 }, (_, i) => (i % 2 ? amplitude : -amplitude));
+    const payload = Buffer.from(mulawEncode(samples)).toString("base64");
+    for (let i = 0; i < frames; i++) {
+      this.receive(
+        this.provider === "twilio"
+          ? { event: "media", streamSid: "MZ1", media: { track: "inbound", payload } }
+          : { event: "media", stream_id: "st1", media: { track: "inbound", payload } }
+      );
+    }
+  }
+
+  media(): any[] {
+    return this.sent.filter((m) => m.event === "media");
+  }
+}
+
+describe("media stream", () => {
+  describe("parseMediaFrame", () => {
+    it("parses a Twilio start", () => {
+      const frame = parseMediaFrame("twilio", JSON.stringify({ event: "start", streamSid: "MZ1", start: { callSid: "CA1" } }));
+      expect(frame).toEqual({ event: "start", streamId: "MZ1", providerCallId: "CA1" });
+    });
+
+    it("parses a Telnyx start", () => {
+      const frame = parseMediaFrame("telnyx", JSON.stringify({ event: "start", stream_id: "st1", start: { call_control_id: "v3:abc" } }));
+      expect(frame).toEqual({ event: "start", streamId: "st1", providerCallId: "v3:abc" });
+    });
+
+    it("decodes media payloads", () => {
+      const frame = parseMediaFrame("twilio", JSON.stringify({ event: "media", media: { payload: "AQID" } }));
+      expect(frame).toEqual({ event: "media", audio: Uint8Array.from([1, 2, 3]) });
+    });
+
+    it("ignores our own audio echoed on the outbound track", () => {
+      const frame = parseMediaFrame("telnyx", JSON.stringify({ event: "media", media: { track: "outbound", payload: "AQID" } }));
+      expect(frame.event).toBe("other");
+    });
+
+    it("parses marks, keypresses and stop", () => {
+      expect(parseMediaFrame("twilio", JSON.stringify({ event: "mark", mark: { name: "speech-1" } }))).toEqual({ event: "mark", name: "speech-1" });
+      expect(parseMediaFrame("twilio", JSON.stringify({ event: "dtmf", dtmf: { digit: "5" } }))).toEqual({ event: "dtmf", digit: "5" });
+      expect(parseMediaFrame("telnyx", JSON.stringify({ event: "stop" }))).toEqual({ event: "stop" });
+    });
+
+    it("treats garbage as other", () => {
+      expect(parseMediaFrame("twilio", "not json").event).toBe("other");
+      expect(parseMediaFrame("twilio", JSON.stringify({ event: "connected" })).event).toBe("other");
+    });
+  });
+
+  describe("formatMediaFrame", () => {
+    it("addresses Twilio messages to the stream", () => {
+      const msg = JSON.parse(formatMediaFrame("twilio", "MZ1", { event: "media", audio: Uint8Array.from([1, 2, 3]) }));
+      expect(msg).toEqual({ event: "media", streamSid: "MZ1", media: { payload: "AQID" } });
+    });
+
+    it("leaves the stream implicit for Telnyx", () => {
+      expect(JSON.parse(formatMediaFrame("telnyx", "st1", { event: "mark", name: "m" }))).toEqual({ event: "mark", mark: { name: "m" } });
+      expect(JSON.parse(formatMediaFrame("telnyx", "st1", { event: "clear" }))).toEqual({ event: "clear" });
+    });
+  });
+
+  describe("MediaStreamManager", () => {
+    let manager: MediaStreamManager;
+    let transcribed: Buffer[];
+    let synthesized: string[];
+
+    /** 100ms of TTS audio, delivered in odd-sized chunks to exercise the carries */
+    async function* fakeSpeech(text: string): AsyncIterable<Uint8Array> {
+      synthesized.push(text);
+      const pcm = new Uint8Array((TTS_SAMPLE_RATE / 10) * 2);
+      for (let offset = 0; offset < pcm.length; offset += 333) {
+        yield pcm.subarray(offset, offset + 333);
+      }
+    }
+
+    function connect(provider: MediaProvider, conversationId = "c1", greeting?: string): FakeProviderSocket {
+      const url = manager.streamUrl(provider, conversationId, greeting);
+      const token = url.split("/").pop()!;
+      const socket = new FakeProviderSocket(provider);
+      socket.connection = manager.connect(provider, conversationId, token, socket)!;
+      return socket;
+    }
+
+    beforeEach(() => {
+      transcribed = [];
+      synthesized = [];
+      manager = new MediaStreamManager(() => "https://example.ts.net", {
+        transcribe: async (wav) => {
+          transcribed.push(wav);
+          return { text: "run the tests", confidence: 0.9 };
+        },
+        synthesize: fakeSpeech,
+        vad: { silenceMs: 100 },
+      });
+    });
+
+    it("hands out one-time WebSocket URLs", () => {
+      const url = manager.streamUrl("twilio", "c1");
+      expect(url).toStartWith("wss://example.ts.net/media/twilio/c1/");
+      const token = url.split("/").pop()!;
+
+      expect(manager.isGranted("twilio", "c1", token)).toBe(true);
+      expect(manager.isGranted("telnyx", "c1", token)).toBe(false);
+      expect(manager.isGranted("twilio", "c2", token)).toBe(false);
+
+      expect(manager.connect("twilio", "c1", token, new FakeProviderSocket("twilio"))).toBeDefined();
+      expect(manager.connect("twilio", "c1", token, new FakeProviderSocket("twilio"))).toBeUndefined();
+    });
+
+    for (const provider of ["twilio", "telnyx"] as const) {
+      it(`transcribes ${provider} caller utterances`, async () => {
+        const utterances: MediaStreamEvents["utterance"][] = [];
+        manager.events.on("utterance", (e) => utterances.push(e));
+        const started: string[] = [];
+        manager.events.on("stream.started", (e) => started.push(e.providerCallId));
+
+        const socket = connect(provider);
+        socket.start("CALL1");
+        expect(started).toEqual(["CALL1"]);
+        expect(manager.isStreaming("CALL1")).toBe(true);
+
+        socket.audio(3000, 20);
+        socket.audio(0, 10);
+        await Bun.sleep(0);
+
+        expect(transcribed).toHaveLength(1);
+        expect(transcribed[0].toString("ascii", 0, 4)).toBe("RIFF");
+        expect(utterances).toEqual([{ conversationId: "c1", providerCallId: "CALL1", transcript: "run the tests", confidence: 0.9, interrupted: false }]);
+      });
+    }
+
+    it("transcribes what the caller said right before the stream stopped", async () => {
+      const utterances: string[] = [];
+      manager.events.on("utterance", (e) => utterances.push(e.transcript));
+      const stopped: string[] = [];
+      manager.events.on("stream.stopped", (e) => stopped.push(e.providerCallId));
+
+      const socket = connect("twilio");
+      socket.start("CA1");
+      socket.audio(3000, 20);
+      socket.receive({ event: "stop" });
+      await Bun.sleep(0);
+
+      expect(utterances).toEqual(["run the tests"]);
+      expect(stopped).toEqual(["CA1"]);
+      expect(manager.isStreaming("CA1")).toBe(false);
+    });
+
+    it("emits keypresses", () => {
+      const digits: string[] = [];
+      manager.events.on("dtmf", (e) => digits.push(e.digit));
+      const socket = connect("twilio");
+      socket.start("CA1");
+      socket.receive({ event: "dtmf", dtmf: { digit: "1" } });
+      expect(digits).toEqual(["1"]);
+    });
+
+    it("streams speech as 20ms mu-law frames and waits for the mark", async () => {
+      const socket = connect("twilio");
+      socket.start("CA1");
+
+      await manager.speak("CA1", "Working on it");
+
+      expect(synthesized).toEqual(["Working on it"]);
+      // 100ms of audio at 8kHz is five 160-byte frames
+      const media = socket.media();
+      expect(media).toHaveLength(5);
+      for (const msg of media) {
+        expect(msg.streamSid).toBe("MZ1");
+        expect(Buffer.from(msg.media.payload, "base64").length).toBe(160);
+      }
+      expect(socket.sent[socket.sent.length - 1]).toEqual({ event: "mark", streamSid: "MZ1", mark: { name: "speech-1" } });
+    });
+
+    it("queues speech so turns never overlap", async () => {
+      const socket = connect("telnyx");
+      socket.start("v3:1");
+
+      await Promise.all([manager.speak("v3:1", "first"), manager.speak("v3:1", "second")]);
+
+      const events = socket.sent.map((m) => (m.event === "mark" ? m.mark.name : m.event));
+      expect(events).toEqual([...Array(5).fill("media"), "speech-1", ...Array(5).fill("media"), "speech-2"]);
+    });
+
+    it("stops speaking when the caller talks over it", async () => {
+      const utterances: MediaStreamEvents["utterance"][] = [];
+      manager.events.on("utterance", (e) => utterances.push(e));
+      const socket = connect("twilio");
+      socket.echoMarks = false;
+      socket.start("CA1");
+
+      const playing = manager.speak("CA1", "a very long completion summary");
+      await Bun.sleep(0);
+      socket.audio(3000, 10);
+      await playing;
+
+      expect(socket.sent.map((m) => m.event)).toContain("clear");
+
+      socket.audio(0, 10);
+      await Bun.sleep(0);
+      expect(utterances.map((u) => u.interrupted)).toEqual([true]);
+    });
+
+    it("speaks the greeting as soon as the stream starts", async () => {
+      const socket = connect("twilio", "c1", "Hello! This is Claude.");
+      expect(synthesized).toEqual([]);
+      socket.start("CA1");
+      await Bun.sleep(0);
+      expect(synthesized).toEqual(["Hello! This is Claude."]);
+    });
+
+    it("stops waiting for playback when the socket closes", async () => {
+      const socket = connect("twilio");
+      socket.echoMarks = false;
+      socket.start("CA1");
+
+      const playing = manager.speak("CA1", "long answer");
+      await Bun.sleep(0);
+      socket.connection.close();
+      await playing;
+
+      expect(manager.isStreaming("CA1")).toBe(false);
+      await expect(manager.speak("CA1", "anyone there?")).rejects.toThrow("No media stream for call CA1");
+    });
+  });
+});
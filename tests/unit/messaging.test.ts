@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, mock } from "bun:test";
 import { MessagingManager } from "../../src/messaging";
+import { MAX_MEDIA_BYTES } from "../../src/provider-download";
 
 describe("MessagingManager", () => {
   const baseConfig = {
@@ -47,6 +48,24 @@ describe("MessagingManager", () => {
       const result = manager.parseInboundMessage("twilio", { MessageSid: "SM789" });
       expect(result).toBeNull();
     });
+
+    it("parses MMS media, with or without a Body", () => {
+      const result = manager.parseInboundMessage("twilio", {
+        MessageSid: "MM123",
+        From: "whatsapp:+11234567890",
+        To: "whatsapp:+10987654321",
+        NumMedia: "2",
+        MediaUrl0: "https://api.twilio.com/media/ME0",
+        MediaContentType0: "image/png",
+        MediaUrl1: "https://api.twilio.com/media/ME1",
+        MediaContentType1: "application/pdf",
+      });
+      expect(result!.content).toBe("");
+      expect(result!.media).toEqual([
+        { url: "https://api.twilio.com/media/ME0", contentType: "image/png" },
+        { url: "https://api.twilio.com/media/ME1", contentType: "application/pdf" },
+      ]);
+    });
   });
 
   describe("parseInboundMessage - Telnyx", () => {
@@ -83,6 +102,24 @@ describe("MessagingManager", () => {
       expect(result!.type).toBe("whatsapp");
     });
 
+    it("parses media", () => {
+      const result = manager.parseInboundMessage("telnyx", {
+        data: {
+          event_type: "message.received",
+          payload: {
+            id: "msg-3",
+            from: { phone_number: "+1111" },
+            to: [{ phone_number: "+2222" }],
+            text: "see screenshot",
+            type: "MMS",
+            media: [{ url: "https://media.telnyx.com/abc.jpg", content_type: "image/jpeg" }],
+          },
+        },
+      });
+      expect(result!.content).toBe("see screenshot");
+      expect(result!.media).toEqual([{ url: "https://media.telnyx.com/abc.jpg", contentType: "image/jpeg" }]);
+    });
+
     it("returns null for non-message.received event", () => {
       const result = manager.parseInboundMessage("telnyx", {
         data: { event_type: "message.sent", payload: {} },
@@ -144,6 +181,25 @@ describe("MessagingManager", () => {
       }
     });
 
+    it("asks Twilio for delivery receipts when given a status callback", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() =>
+        Promise.resolve(new Response(JSON.stringify({ sid: "SM_NEW" }), { status: 200 }))
+      );
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await manager.sendSMS("+19995551234", "Test", "https://example.com/webhook/twilio/message-status/c1");
+        const body = mockFetch.mock.calls[0][1].body.toString();
+        expect(body).toContain(`StatusCallback=${encodeURIComponent("https://example.com/webhook/twilio/message-status/c1")}`);
+
+        await manager.sendSMS("+19995551234", "Test");
+        expect(mockFetch.mock.calls[1][1].body.toString()).not.toContain("StatusCallback");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
     it("throws on Twilio SMS error", async () => {
       const originalFetch = globalThis.fetch;
       globalThis.fetch = mock(() =>
@@ -158,6 +214,99 @@ describe("MessagingManager", () => {
     });
   });
 
+  describe("downloadMedia", () => {
+    it("downloads Twilio media with the account's credentials", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("png-bytes", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        const data = await manager.downloadMedia("https://api.twilio.com/media/ME0");
+        expect(data.toString()).toBe("png-bytes");
+        expect(mockFetch.mock.calls[0][1].headers.Authorization).toStartWith("Basic ");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("sends credentials only to Twilio, not to the CDN it redirects to", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock((url: URL) =>
+        Promise.resolve(url.hostname === "api.twilio.com"
+          ? new Response(null, { status: 307, headers: { Location: "https://s3.amazonaws.com/media/ME0" } })
+          : new Response("png-bytes", { status: 200 }))
+      );
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        const data = await manager.downloadMedia("https://api.twilio.com/media/ME0");
+        expect(data.toString()).toBe("png-bytes");
+        expect(mockFetch.mock.calls[1][0].toString()).toBe("https://s3.amazonaws.com/media/ME0");
+        expect((mockFetch.mock.calls[1] as any[])[1]).toBeUndefined();
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("refuses media URLs that aren't Twilio's", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await expect(manager.downloadMedia("https://attacker.example/collect")).rejects.toThrow("not a Twilio media host");
+        await expect(manager.downloadMedia("http://api.twilio.com/media/ME0")).rejects.toThrow("http: URL");
+        expect(mockFetch).not.toHaveBeenCalled();
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("refuses media over the size limit", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mock(() =>
+        Promise.resolve(new Response("", { status: 200, headers: { "Content-Length": String(MAX_MEDIA_BYTES + 1) } }))
+      ) as any;
+
+      try {
+        await expect(manager.downloadMedia("https://api.twilio.com/media/ME0")).rejects.toThrow("Media too large");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("stops reading media that turns out larger than the limit", async () => {
+      const originalFetch = globalThis.fetch;
+      const chunk = new Uint8Array(1024 * 1024);
+      let sent = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          sent++;
+          controller.enqueue(chunk);
+        },
+      });
+      globalThis.fetch = mock(() => Promise.resolve(new Response(body, { status: 200 }))) as any;
+
+      try {
+        await expect(manager.downloadMedia("https://api.twilio.com/media/ME0")).rejects.toThrow("Media too large");
+        expect(sent * chunk.length).toBeLessThanOrEqual(MAX_MEDIA_BYTES + 2 * chunk.length);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("throws when the download fails", async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = mock(() => Promise.resolve(new Response("", { status: 404 }))) as any;
+
+      try {
+        await expect(manager.downloadMedia("https://api.twilio.com/media/ME0")).rejects.toThrow("Media download failed: 404");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+
   describe("sendWhatsApp - Twilio", () => {
     it("sends WhatsApp via Twilio API with whatsapp: prefix", async () => {
       const originalFetch = globalThis.fetch;
@@ -178,6 +327,23 @@ describe("MessagingManager", () => {
       }
     });
 
+    it("sets webhook_url on Telnyx messages when given a status callback", async () => {
+      const mgr = new MessagingManager({ ...baseConfig, phoneProvider: "telnyx", phoneAccountSid: "conn" });
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() =>
+        Promise.resolve(new Response(JSON.stringify({ data: { id: "tx-1" } }), { status: 200 }))
+      );
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await mgr.sendWhatsApp("+19995551234", "test", "https://example.com/webhook/telnyx/message-status/c1");
+        const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+        expect(body.webhook_url).toBe("https://example.com/webhook/telnyx/message-status/c1");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
     it("uses phoneNumber when whatsappNumber not set", async () => {
       const mgr = new MessagingManager({ ...baseConfig, whatsappNumber: undefined });
       const originalFetch = globalThis.fetch;
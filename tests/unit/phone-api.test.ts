@@ -1,12 +1,15 @@
-import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
 import { Hono } from "hono";
-import { createPhoneAPI } from "../../src/phone-api";
+import { createPhoneAPI, voicemailSummary } from "../../src/phone-api";
 import {
   ConversationManager,
   ChannelType,
   ConversationDirection,
   ConversationState,
 } from "../../src/conversation-manager";
+import { createContactRegistry } from "../../src/contacts";
+import { EventBus } from "../../src/events";
+import { Scheduler } from "../../src/scheduler";
 
 // Mock PhoneCallManager
 function createMockPhoneCallManager() {
@@ -14,6 +17,7 @@ function createMockPhoneCallManager() {
     speakToCall: mock(() => Promise.resolve()),
     initiateCall: mock(() => Promise.resolve("CA_NEW")),
     endCall: mock(() => Promise.resolve()),
+    leaveVoicemail: mock(() => Promise.resolve()),
     generateAnswerTwiML: mock(() => "<Response/>"),
     generateGatherTwiML: mock(() => "<Response/>"),
     generateHoldTwiML: mock(() => "<Response/>"),
@@ -33,12 +37,14 @@ function createMockMessagingManager() {
 function createMockTaskExecutor() {
   return {
     recordCompletion: mock(() => {}),
+    recordProgress: mock(() => {}),
     linkCallback: mock(() => {}),
     getExecution: mock(() => undefined),
     getTaskContext: mock(() => undefined),
     getLatestTaskContext: mock(() => undefined),
     executeTask: mock(() => Promise.resolve()),
     killTask: mock(() => false),
+    events: new EventBus(),
   } as any;
 }
 
@@ -106,6 +112,18 @@ describe("Phone API", () => {
       expect(phoneCallManager.speakToCall).toHaveBeenCalled();
     });
 
+    it("records the update as task progress and in the transcript", async () => {
+      conversationManager.createConversation("c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1");
+      conversationManager.updateState("c1", ConversationState.ACTIVE);
+
+      await request("POST", "/api/say/c1", { message: "Tests are passing" });
+      expect(taskExecutor.recordProgress).toHaveBeenCalledWith("c1", "Tests are passing");
+      expect(conversationManager.getConversation("c1")!.messages.at(-1)).toMatchObject({
+        role: "assistant",
+        content: "Tests are passing",
+      });
+    });
+
     it("returns delivered=false for ended conversation", async () => {
       conversationManager.createConversation("c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1");
       conversationManager.updateState("c1", ConversationState.ENDED);
@@ -124,6 +142,27 @@ describe("Phone API", () => {
       expect(data.messageId).toBe("SM_123");
       expect(messagingManager.sendSMS).toHaveBeenCalled();
     });
+
+    it("records replies on an SMS conversation for delivery tracking", async () => {
+      conversationManager.createConversation(
+        "s1", ChannelType.SMS, ConversationDirection.INBOUND, "m1", { from: "+15551234567" }
+      );
+
+      await request("POST", "/api/sms", { message: "Deployed", conversationId: "s1" });
+      expect((messagingManager.sendSMS.mock.calls[0] as any[])[2]).toBe(
+        "https://example.com/webhook/twilio/message-status/s1"
+      );
+      const last = conversationManager.getConversation("s1")!.messages.at(-1)!;
+      expect(last).toMatchObject({ role: "assistant", content: "Deployed", providerMessageId: "SM_123" });
+    });
+
+    it("does not record messages on a conversation from another channel", async () => {
+      conversationManager.createConversation("v1", ChannelType.VOICE, ConversationDirection.INBOUND, "CA1");
+
+      await request("POST", "/api/sms", { message: "Link", conversationId: "v1" });
+      expect((messagingManager.sendSMS.mock.calls[0] as any[])[2]).toBeUndefined();
+      expect(conversationManager.getConversation("v1")!.messages).toHaveLength(0);
+    });
   });
 
   describe("POST /api/whatsapp", () => {
@@ -155,6 +194,496 @@ describe("Phone API", () => {
       const data = await res.json();
       expect(data.delivered).toBe("callback");
       expect(phoneCallManager.initiateCall).toHaveBeenCalled();
+      expect(conversationManager.getConversation(data.newConversationId)?.metadata?.summary).toBe(
+        "I finished the task you requested. Done"
+      );
+    });
+  });
+
+  describe("callback escalation", () => {
+    beforeEach(() => {
+      phoneAPI = createPhoneAPI(
+        phoneCallManager,
+        conversationManager,
+        {
+          phoneProvider: "twilio",
+          userPhoneNumber: "+15551234567",
+          escalation: { retries: 0, retryDelayMs: 10, fallbacks: ["sms"] },
+        },
+        () => "https://example.com",
+        taskExecutor,
+        messagingManager
+      );
+      app = new Hono();
+      app.route("/api", phoneAPI.api);
+
+      conversationManager.createConversation("c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1");
+      conversationManager.updateState("c1", ConversationState.ENDED);
+    });
+
+    it("texts the summary when the callback goes unanswered", async () => {
+      const data = await (await request("POST", "/api/complete/c1", { summary: "Done" })).json();
+      expect(data.escalation).toBe("calling");
+
+      expect(await phoneAPI.handleCallOutcome(data.newConversationId, "no-answer")).toBe(true);
+      expect((messagingManager.sendSMS.mock.calls[0] as any[])).toEqual([
+        "+15551234567",
+        "Claude finished the task you requested. Done",
+      ]);
+    });
+
+    it("reports the escalation and its policy in /api/status", async () => {
+      const data = await (await request("POST", "/api/complete/c1", { summary: "Done" })).json();
+      await phoneAPI.handleCallOutcome(data.newConversationId, "busy");
+
+      for (const id of ["c1", data.newConversationId]) {
+        const status = await (await request("GET", `/api/status/${id}`)).json();
+        expect(status.escalation).toMatchObject({
+          state: "delivered",
+          deliveredVia: "sms",
+          calls: 1,
+          policy: { retries: 0, retryDelayMs: 10, fallbacks: ["sms"] },
+        });
+        expect(status.escalation.steps.map((step: any) => step.action)).toEqual(["call", "sms"]);
+      }
+    });
+
+    it("delivers by message when the callback cannot be placed", async () => {
+      phoneCallManager.initiateCall.mockImplementation(() => Promise.reject(new Error("Twilio call failed")));
+      const data = await (await request("POST", "/api/complete/c1", { summary: "Done" })).json();
+      expect(data.delivered).toBe("sms");
+    });
+
+    it("reports a pending retry when the callback cannot be placed yet", async () => {
+      phoneAPI = createPhoneAPI(
+        phoneCallManager,
+        conversationManager,
+        {
+          phoneProvider: "twilio",
+          userPhoneNumber: "+15551234567",
+          escalation: { retries: 1, retryDelayMs: 600000, fallbacks: ["sms"] },
+        },
+        () => "https://example.com",
+        taskExecutor,
+        messagingManager
+      );
+      app = new Hono();
+      app.route("/api", phoneAPI.api);
+      phoneCallManager.initiateCall.mockImplementation(() => Promise.reject(new Error("Twilio call failed")));
+
+      const data = await (await request("POST", "/api/complete/c1", { summary: "Done" })).json();
+      expect(data).toMatchObject({
+        delivered: "pending",
+        originalConversationId: "c1",
+        escalation: "waiting",
+        error: "Error: Twilio call failed",
+      });
+      expect(data.newConversationId).toBeUndefined();
+      expect(data.nextAttemptAt).toBeDefined();
+      expect(messagingManager.sendSMS).not.toHaveBeenCalled();
+    });
+
+    it("fails when nothing gets through", async () => {
+      phoneCallManager.initiateCall.mockImplementation(() => Promise.reject(new Error("Twilio call failed")));
+      messagingManager.sendSMS.mockImplementation(() => Promise.reject(new Error("SMS failed")));
+      const res = await request("POST", "/api/complete/c1", { summary: "Done" });
+      expect(res.status).toBe(500);
+      expect((await res.json()).delivered).toBe("failed");
+    });
+
+    it("leaves other conversations alone", async () => {
+      expect(await phoneAPI.handleCallOutcome("c1", "busy")).toBe(false);
+      const status = await (await request("GET", "/api/status/c1")).json();
+      expect(status.escalation).toBeUndefined();
+    });
+  });
+
+  describe("contacts routing", () => {
+    beforeEach(() => {
+      phoneAPI = createPhoneAPI(
+        phoneCallManager,
+        conversationManager,
+        {
+          phoneProvider: "twilio",
+          userPhoneNumber: "+15551234567",
+          contacts: createContactRegistry([
+            { name: "alice", phoneNumber: "+15550000001" },
+            { name: "bob", phoneNumber: "+15550000002", preferredChannel: "whatsapp" },
+            { name: "ana", phoneNumber: "+15550000003", language: "es-ES" },
+          ], "+15551234567"),
+        },
+        () => "https://example.com",
+        taskExecutor,
+        messagingManager
+      );
+      app = new Hono();
+      app.route("/api", phoneAPI.api);
+    });
+
+    it("calls back whoever started the task", async () => {
+      conversationManager.createConversation(
+        "c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15550000001" }
+      );
+      conversationManager.updateState("c1", ConversationState.ENDED);
+
+      const res = await request("POST", "/api/complete/c1", { summary: "Done" });
+      const data = await res.json();
+      expect(data.delivered).toBe("callback");
+      expect(data.recipient).toBe("alice");
+      expect((phoneCallManager.initiateCall.mock.calls[0] as any[])[0]).toBe("+15550000001");
+      expect(conversationManager.getConversation(data.newConversationId)?.metadata?.to).toBe("+15550000001");
+    });
+
+    it("messages contacts who prefer messaging instead of calling", async () => {
+      conversationManager.createConversation(
+        "c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15550000002" }
+      );
+      conversationManager.updateState("c1", ConversationState.ENDED);
+
+      const res = await request("POST", "/api/complete/c1", { summary: "Done" });
+      const data = await res.json();
+      expect(data.delivered).toBe("whatsapp");
+      expect((messagingManager.sendWhatsApp.mock.calls[0] as any[])[0]).toBe("+15550000002");
+      expect(phoneCallManager.initiateCall).not.toHaveBeenCalled();
+    });
+
+    it("continues on WhatsApp when the caller moved the call there", async () => {
+      conversationManager.createConversation(
+        "c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15550000001", continueOn: "whatsapp" }
+      );
+      conversationManager.updateState("c1", ConversationState.ENDED);
+
+      const res = await request("POST", "/api/complete/c1", { summary: "Done" });
+      const data = await res.json();
+      expect(data.delivered).toBe("whatsapp");
+      expect((messagingManager.sendWhatsApp.mock.calls[0] as any[])[0]).toBe("+15550000001");
+      expect(phoneCallManager.initiateCall).not.toHaveBeenCalled();
+    });
+
+    it("sends SMS to the conversation's sender", async () => {
+      conversationManager.createConversation(
+        "c2", ChannelType.SMS, ConversationDirection.INBOUND, "m1", { from: "+15550000001" }
+      );
+
+      await request("POST", "/api/sms", { message: "Done", conversationId: "c2" });
+      expect((messagingManager.sendSMS.mock.calls[0] as any[])[0]).toBe("+15550000001");
+    });
+
+    it("sends to an explicit recipient by name", async () => {
+      await request("POST", "/api/whatsapp", { message: "Hi", recipient: "bob" });
+      expect((messagingManager.sendWhatsApp.mock.calls[0] as any[])[0]).toBe("+15550000002");
+    });
+
+    it("calls back in the contact's language", async () => {
+      conversationManager.createConversation(
+        "c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15550000003" }
+      );
+      conversationManager.updateState("c1", ConversationState.ENDED);
+
+      const data = await (await request("POST", "/api/complete/c1", { summary: "Listo" })).json();
+      const [, greeting, , , , language] = phoneCallManager.initiateCall.mock.calls[0] as any[];
+      expect(greeting).toContain("He terminado la tarea que pediste. Listo.");
+      expect(language).toBe("es-ES");
+      expect(conversationManager.getConversation(data.newConversationId)?.metadata?.language).toBe("es-ES");
+    });
+
+    it("messages the summary in the contact's language", async () => {
+      conversationManager.createConversation(
+        "c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15550000003", continueOn: "whatsapp" }
+      );
+      conversationManager.updateState("c1", ConversationState.ENDED);
+
+      await request("POST", "/api/complete/c1", { summary: "Listo." });
+      expect((messagingManager.sendWhatsApp.mock.calls[0] as any[])[1]).toBe("Claude ha terminado la tarea que pediste. Listo.");
+    });
+
+    it("calls in a requested language", async () => {
+      await request("POST", "/api/call", { message: "Bonjour", recipient: "alice", language: "fr" });
+      expect((phoneCallManager.initiateCall.mock.calls[0] as any[])[5]).toBe("fr-FR");
+
+      const res = await request("POST", "/api/call", { message: "Hi", recipient: "alice", language: "not a language" });
+      expect(res.status).toBe(400);
+    });
+
+    it("rejects recipients outside the registry", async () => {
+      const res = await request("POST", "/api/call", { message: "Hi", recipient: "+19998887777" });
+      expect(res.status).toBe(400);
+      expect(phoneCallManager.initiateCall).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("/api/schedule", () => {
+    let scheduler: Scheduler;
+
+    beforeEach(() => {
+      scheduler = new Scheduler({ call: mock(() => Promise.resolve()), send: mock(() => Promise.resolve()) }, { path: "" });
+      phoneAPI = createPhoneAPI(
+        phoneCallManager,
+        conversationManager,
+        {
+          phoneProvider: "twilio",
+          userPhoneNumber: "+15551234567",
+          contacts: createContactRegistry([{ name: "alice", phoneNumber: "+15550000001" }], "+15551234567"),
+          scheduler,
+        },
+        () => "https://example.com",
+        taskExecutor,
+        messagingManager
+      );
+      app = new Hono();
+      app.route("/api", phoneAPI.api);
+    });
+
+    afterEach(() => {
+      scheduler.stop();
+    });
+
+    it("schedules a call for the resolved contact", async () => {
+      const at = new Date(Date.now() + 3600000).toISOString();
+      const res = await request("POST", "/api/schedule", { message: "Tests passed", at, recipient: "+15550000001" });
+      const data = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(data.job).toMatchObject({ channel: "voice", recipient: "alice", message: "Tests passed", nextRunAt: at });
+      expect(scheduler.list()).toHaveLength(1);
+    });
+
+    it("schedules repeating messages", async () => {
+      const res = await request("POST", "/api/schedule", { channel: "whatsapp", message: "Standup", cron: "0 9 * * 1-5" });
+      const data = await res.json();
+      expect(data.job).toMatchObject({ channel: "whatsapp", recipient: "user", cron: "0 9 * * 1-5" });
+    });
+
+    it("schedules for whoever is on the conversation", async () => {
+      conversationManager.createConversation(
+        "c1", ChannelType.WHATSAPP, ConversationDirection.INBOUND, "wa1", { from: "+15550000001" }
+      );
+      const res = await request("POST", "/api/schedule", { channel: "whatsapp", message: "Reminder", delayMs: 60000, conversationId: "c1" });
+      expect((await res.json()).job.recipient).toBe("alice");
+    });
+
+    it("rejects jobs it can't schedule", async () => {
+      expect((await request("POST", "/api/schedule", { channel: "fax", message: "Hi", delayMs: 60000 })).status).toBe(400);
+      expect((await request("POST", "/api/schedule", { message: "Hi", delayMs: 60000, recipient: "mallory" })).status).toBe(400);
+      const res = await request("POST", "/api/schedule", { message: "Hi", at: "2020-01-01T00:00:00Z" });
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("in the past");
+    });
+
+    it("lists and cancels scheduled jobs", async () => {
+      const { job } = await (await request("POST", "/api/schedule", { message: "Hi", delayMs: 60000 })).json();
+
+      expect((await (await request("GET", "/api/schedule")).json()).jobs).toEqual([job]);
+      expect((await request("DELETE", `/api/schedule/${job.id}`)).status).toBe(200);
+      expect((await request("DELETE", `/api/schedule/${job.id}`)).status).toBe(404);
+      expect((await (await request("GET", "/api/schedule")).json()).jobs).toEqual([]);
+    });
+  });
+
+  describe("GET /api/conversations/:conversationId/export", () => {
+    beforeEach(() => {
+      conversationManager.createConversation(
+        "c1", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15551234567" }
+      );
+      conversationManager.addMessage("c1", "user", "run the tests");
+    });
+
+    it("exports Markdown by default with the linked task summary", async () => {
+      taskExecutor.getTaskContext.mockReturnValue({
+        originalTask: "run the tests",
+        completionSummary: "All 42 tests pass",
+        workingDir: "/tmp/repo",
+      });
+
+      const res = await request("GET", "/api/conversations/c1/export");
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Content-Type")).toContain("text/markdown");
+      const body = await res.text();
+      expect(body).toContain("> run the tests");
+      expect(body).toContain("All 42 tests pass");
+      expect(taskExecutor.getTaskContext).toHaveBeenCalledWith("c1");
+    });
+
+    it("exports WebVTT", async () => {
+      const res = await request("GET", "/api/conversations/c1/export?format=vtt");
+
+      expect(res.headers.get("Content-Type")).toContain("text/vtt");
+      expect(await res.text()).toStartWith("WEBVTT");
+    });
+
+    it("rejects unknown formats", async () => {
+      const res = await request("GET", "/api/conversations/c1/export?format=pdf");
+      expect(res.status).toBe(400);
+    });
+
+    it("returns 404 for unknown conversations", async () => {
+      const res = await request("GET", "/api/conversations/nope/export?format=json");
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/events", () => {
+    beforeEach(() => {
+      phoneAPI = createPhoneAPI(
+        phoneCallManager,
+        conversationManager,
+        { phoneProvider: "twilio", userPhoneNumber: "+15551234567", eventsToken: "s3cret" },
+        () => "https://example.com",
+        taskExecutor,
+        messagingManager
+      );
+      app = new Hono();
+      app.route("/api", phoneAPI.api);
+    });
+
+    function openStream(path: string, headers: Record<string, string> = { Authorization: "Bearer s3cret" }) {
+      return app.request(path, { headers });
+    }
+
+    async function readUntil(reader: ReadableStreamDefaultReader<Uint8Array>, text: string) {
+      const decoder = new TextDecoder();
+      let received = "";
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        received += decoder.decode(value);
+      }
+      return received;
+    }
+
+    it("streams conversation events as SSE", async () => {
+      const res = await openStream("/api/events");
+      expect(res.headers.get("Content-Type")).toContain("text/event-stream");
+      const reader = res.body!.getReader();
+      await readUntil(reader, "event: ready");
+
+      conversationManager.createConversation("c1", ChannelType.SMS, ConversationDirection.INBOUND, "m1");
+      conversationManager.addMessage("c1", "user", "deploy it");
+      const received = await readUntil(reader, "event: state.changed");
+
+      expect(received).toContain("event: conversation.created");
+      expect(received).toContain("event: message.added");
+      expect(received).toContain('"content":"deploy it"');
+      await reader.cancel();
+    });
+
+    it("filters by type and conversation", async () => {
+      conversationManager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "m1");
+      conversationManager.createConversation("c2", ChannelType.SMS, ConversationDirection.OUTBOUND, "m2");
+      const res = await openStream("/api/events?types=message.added&conversationId=c2");
+      const reader = res.body!.getReader();
+      await readUntil(reader, "event: ready");
+
+      conversationManager.addMessage("c1", "assistant", "not this one");
+      conversationManager.updateState("c2", ConversationState.ENDED);
+      conversationManager.addMessage("c2", "assistant", "this one");
+      const received = await readUntil(reader, "this one");
+
+      expect(received).not.toContain("not this one");
+      expect(received).not.toContain("state.changed");
+      await reader.cancel();
+    });
+
+    it("turns away requests without the token", async () => {
+      expect((await openStream("/api/events", {})).status).toBe(401);
+      expect((await openStream("/api/events", { Authorization: "Bearer wrong!" })).status).toBe(401);
+      expect((await openStream("/api/events", { Authorization: "s3cret" })).status).toBe(401);
+      expect(conversationManager.events.listenerCount()).toBe(0);
+    });
+
+    it("serves only local requests when no token is set", async () => {
+      let address: string | undefined = "100.64.0.7";
+      phoneAPI = createPhoneAPI(
+        phoneCallManager,
+        conversationManager,
+        { phoneProvider: "twilio", userPhoneNumber: "+15551234567", remoteAddress: () => address },
+        () => "https://example.com",
+        taskExecutor,
+        messagingManager
+      );
+      app = new Hono();
+      app.route("/api", phoneAPI.api);
+
+      expect((await openStream("/api/events", {})).status).toBe(401);
+      // Tunnel traffic arrives from localhost, with forwarding headers
+      address = "127.0.0.1";
+      expect((await openStream("/api/events", { "X-Forwarded-For": "203.0.113.9" })).status).toBe(401);
+
+      const res = await openStream("/api/events", {});
+      expect(res.status).toBe(200);
+      await res.body!.cancel();
+    });
+
+    it("unsubscribes when the client disconnects", async () => {
+      const res = await openStream("/api/events");
+      const reader = res.body!.getReader();
+      await readUntil(reader, "event: ready");
+      expect(conversationManager.events.listenerCount()).toBe(1);
+
+      await reader.cancel();
+      await new Promise((r) => setTimeout(r, 0));
+
+      expect(conversationManager.events.listenerCount()).toBe(0);
+    });
+  });
+
+  describe("leaveVoicemail", () => {
+    beforeEach(() => {
+      conversationManager.createConversation(
+        "cb1", ChannelType.VOICE, ConversationDirection.OUTBOUND, "", { to: "+15551234567", summary: "I finished the task you requested. Built the app." }
+      );
+    });
+
+    it("leaves a short voicemail and texts the full summary", async () => {
+      await phoneAPI.leaveVoicemail("cb1", "CA_VM");
+
+      const [callId, message] = phoneCallManager.leaveVoicemail.mock.calls[0] as any[];
+      expect(callId).toBe("CA_VM");
+      expect(message).toBe("Hi, this is Claude. I finished the task you requested. Built the app. I've sent the details by text message.");
+      expect((messagingManager.sendSMS.mock.calls[0] as any[])).toEqual([
+        "+15551234567",
+        "Claude called and reached your voicemail. I finished the task you requested. Built the app.",
+      ]);
+    });
+
+    it("records that the call hit voicemail", async () => {
+      await phoneAPI.leaveVoicemail("cb1", "CA_VM");
+      const conversation = conversationManager.getConversation("cb1")!;
+      expect(conversation.metadata?.voicemail).toBe(true);
+      expect(conversation.messages.at(-1)).toMatchObject({ role: "assistant", content: expect.stringContaining("Hi, this is Claude.") });
+    });
+
+    it("leaves the voicemail in the conversation's language", async () => {
+      conversationManager.createConversation(
+        "cb2", ChannelType.VOICE, ConversationDirection.OUTBOUND, "", { to: "+15551234567", summary: "Terminei a tarefa que você pediu. Pronto.", language: "pt-BR" }
+      );
+      await phoneAPI.leaveVoicemail("cb2", "CA_VM");
+
+      expect((phoneCallManager.leaveVoicemail.mock.calls[0] as any[])[1]).toBe(
+        "Olá, aqui é o Claude. Terminei a tarefa que você pediu. Pronto. Te mandei os detalhes por SMS."
+      );
+      expect((messagingManager.sendSMS.mock.calls[0] as any[])[1]).toStartWith("O Claude ligou e caiu na sua caixa postal.");
+    });
+
+    it("leaves only one voicemail per call", async () => {
+      await phoneAPI.leaveVoicemail("cb1", "CA_VM");
+      await phoneAPI.leaveVoicemail("cb1", "CA_VM");
+      expect(phoneCallManager.leaveVoicemail).toHaveBeenCalledTimes(1);
+      expect(messagingManager.sendSMS).toHaveBeenCalledTimes(1);
+    });
+
+    it("still sends the summary when the voicemail fails", async () => {
+      phoneCallManager.leaveVoicemail.mockImplementation(() => Promise.reject(new Error("call gone")));
+      await phoneAPI.leaveVoicemail("cb1", "CA_VM");
+      expect(phoneCallManager.endCall).toHaveBeenCalledWith("CA_VM");
+      expect(messagingManager.sendSMS).toHaveBeenCalledTimes(1);
+    });
+
+    it("shortens long summaries for the voicemail", () => {
+      const summary = voicemailSummary("word ".repeat(100));
+      expect(summary.length).toBeLessThanOrEqual(203);
+      expect(summary).toEndWith("word...");
     });
   });
 
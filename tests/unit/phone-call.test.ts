@@ -1,5 +1,10 @@
-import { describe, it, expect, beforeEach, mock } from "bun:test";
-import { PhoneCallManager } from "../../src/phone-call";
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PhoneCallManager, GATHER_HINT, describeCallWebhook } from "../../src/phone-call";
+import { AudioCache } from "../../src/audio-cache";
+import { MAX_MEDIA_BYTES } from "../../src/provider-download";
 
 // We test TwiML generation (pure) and Twilio API calls (mock fetch)
 describe("PhoneCallManager", () => {
@@ -30,6 +35,14 @@ describe("PhoneCallManager", () => {
       expect(twiml).toContain('input="speech dtmf"');
     });
 
+    it("nests the prompt inside a barge-in Gather", () => {
+      const twiml = manager.generateGatherTwiML("A long summary", "https://example.com/cb");
+      expect(twiml).toMatch(/<Gather [^>]*bargeIn="true">\s*<Say voice="alice">A long summary<\/Say>\s*<\/Gather>/);
+
+      const answer = manager.generateAnswerTwiML("Hello!", "https://example.com/gather");
+      expect(answer).toMatch(/<Gather [^>]*bargeIn="true">\s*<Say voice="alice">Hello!<\/Say>/);
+    });
+
     it("generateGatherTwiML includes message and action", () => {
       const twiml = manager.generateGatherTwiML("Please speak", "https://example.com/cb");
       expect(twiml).toContain("Please speak");
@@ -45,6 +58,29 @@ describe("PhoneCallManager", () => {
       expect(twiml).toContain("https://example.com/hold");
     });
 
+    it("generateHoldTwiML with a menu URL listens for a key instead of pausing", () => {
+      const twiml = manager.generateHoldTwiML("Please wait", "https://example.com/hold", 15, "https://example.com/hold-menu");
+      expect(twiml).toContain('<Gather input="dtmf" numDigits="1" action="https://example.com/hold-menu" timeout="15"');
+      expect(twiml).not.toContain("<Pause");
+      expect(twiml).toContain("<Redirect>https://example.com/hold</Redirect>");
+    });
+
+    it("generateHoldTwiML plays hold music and an earcon before updates", () => {
+      const music = new PhoneCallManager({
+        ...baseConfig,
+        holdMusicUrl: "https://example.com/music.mp3",
+        holdEarconUrl: "https://example.com/chime.mp3",
+      });
+      const twiml = music.generateHoldTwiML("Still working", "https://example.com/hold", 30, "https://example.com/hold-menu");
+      expect(twiml.indexOf("<Play>https://example.com/chime.mp3</Play>")).toBeLessThan(twiml.indexOf("Still working"));
+      expect(twiml).toContain('timeout="1"><Play>https://example.com/music.mp3</Play></Gather>');
+
+      const quiet = music.generateHoldTwiML("", "https://example.com/hold", 30);
+      expect(quiet).not.toContain("chime.mp3");
+      expect(quiet).toContain("<Play>https://example.com/music.mp3</Play>");
+      expect(quiet).not.toContain("<Pause");
+    });
+
     it("generateHoldTwiML without message omits Say", () => {
       const twiml = manager.generateHoldTwiML("", "https://example.com/hold", 30);
       expect(twiml).not.toContain("<Say");
@@ -70,6 +106,32 @@ describe("PhoneCallManager", () => {
       expect(twiml).toContain('<Pause length="10"');
     });
 
+    it("generateStreamTwiML connects the call to the media stream", () => {
+      const twiml = manager.generateStreamTwiML("wss://example.com/media/twilio/c1/t?x=1&y=2");
+      expect(twiml).toContain("<Connect>");
+      expect(twiml).toContain('<Stream url="wss://example.com/media/twilio/c1/t?x=1&amp;y=2"');
+      expect(twiml).not.toContain("<Gather");
+    });
+
+    it("speaks and listens in the call's language", () => {
+      const twiml = manager.generateAnswerTwiML("¡Hola!", "https://example.com/gather", "es-ES");
+      expect(twiml).toContain('language="es-ES" bargeIn="true"');
+      expect(twiml).toContain('<Say voice="alice" language="es-ES">¡Hola!</Say>');
+      expect(twiml).toContain("Pulsa la tecla de almohadilla");
+
+      manager.setCallLanguage("CA_1", "fr-FR");
+      expect(manager.callLanguage("CA_1")).toBe("fr-FR");
+      expect(manager.callLanguage("CA_2")).toBe("en-US");
+      expect(manager.generateSayTwiML("Hello")).toContain('<Say voice="alice">Hello</Say>');
+      expect(manager.generateSayTwiML("Merhaba", "tr-TR")).toContain('<Say voice="Polly.Filiz" language="tr-TR">');
+    });
+
+    it("defaults to the configured language", () => {
+      const german = new PhoneCallManager({ ...baseConfig, language: "de-DE" });
+      expect(german.generateGatherTwiML("Hallo", "https://example.com/cb")).toContain('language="de-DE"');
+      expect(german.generateHangupTwiML("Tschüss")).toContain('<Say voice="alice" language="de-DE">');
+    });
+
     it("escapes XML special characters", () => {
       const twiml = manager.generateSayTwiML('Hello & "world" <tag>');
       expect(twiml).toContain("&amp;");
@@ -79,6 +141,94 @@ describe("PhoneCallManager", () => {
     });
   });
 
+  describe("TTS playback", () => {
+    let dir: string;
+    let cache: AudioCache;
+    let textToSpeech: ReturnType<typeof mock>;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "bcc-tts-"));
+      cache = new AudioCache(() => "https://example.ts.net", { dir });
+      manager.setAudioCache(cache);
+      textToSpeech = mock(async (text: string) => Buffer.from(`mp3:${text}`));
+      manager.textToSpeech = textToSpeech as any;
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("plays prepared prompts in the configured voice", async () => {
+      await manager.prepareSpeech("Please wait");
+      const twiml = manager.generateHoldTwiML("Please wait", "https://example.com/hold", 15);
+
+      const hash = cache.lookup("Please wait", "onyx")!;
+      expect(twiml).toContain(`<Play>https://example.ts.net/audio/${hash}.mp3?sig=`);
+      expect(twiml).not.toContain("<Say");
+    });
+
+    it("uses Play for the answer prompt and its hint", async () => {
+      await manager.prepareSpeech("Hello!", GATHER_HINT);
+      const twiml = manager.generateAnswerTwiML("Hello!", "https://example.com/gather");
+      expect(twiml.match(/<Play>/g)).toHaveLength(2);
+      expect(twiml).toContain("<Gather");
+    });
+
+    it("falls back to alice for prompts that were not prepared", () => {
+      expect(manager.generateSayTwiML("Just saying")).toContain('<Say voice="alice">Just saying</Say>');
+    });
+
+    it("falls back to alice when TTS fails", async () => {
+      manager.textToSpeech = mock(async () => {
+        throw new Error("OpenAI down");
+      }) as any;
+      await manager.prepareSpeech("Please speak");
+      expect(manager.generateGatherTwiML("Please speak", "https://example.com/cb")).toContain('<Say voice="alice">Please speak</Say>');
+    });
+
+    it("speakToCall synthesizes before injecting TwiML", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("{}", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await manager.speakToCall("CA_123", "Working on it", false);
+        expect(textToSpeech).toHaveBeenCalledWith("Working on it");
+        const twiml = new URLSearchParams(mockFetch.mock.calls[0][1].body.toString()).get("Twiml")!;
+        expect(twiml).toContain("<Play>");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+
+  describe("transcription", () => {
+    let create: ReturnType<typeof mock>;
+
+    beforeEach(() => {
+      create = mock(async (params: any) =>
+        params.response_format === "verbose_json" ? { text: "hola", language: "spanish" } : { text: "hola" }
+      );
+      (manager as any).openai = { audio: { transcriptions: { create } } };
+    });
+
+    it("tells Whisper the call's language", async () => {
+      expect(await manager.speechToText(Buffer.from("wav"), "audio.wav", "es-ES")).toBe("hola");
+      expect((create.mock.calls[0] as any[])[0].language).toBe("es");
+    });
+
+    it("scores transcripts from Whisper's segment log-probabilities", async () => {
+      create.mockImplementation(async () => ({ text: "hola", segments: [{ avg_logprob: -0.1 }, { avg_logprob: -0.3 }] }));
+      const { confidence } = await manager.transcribe(Buffer.from("wav"), "audio.wav", "es-ES");
+      expect(confidence).toBeCloseTo(Math.exp(-0.2));
+    });
+
+    it("detects the language when none is given", async () => {
+      expect(await manager.transcribe(Buffer.from("wav"), "audio.wav")).toEqual({ text: "hola", language: "es-ES" });
+      expect((create.mock.calls[0] as any[])[0].language).toBeUndefined();
+    });
+  });
+
   describe("parseInboundWebhook - Twilio", () => {
     it("parses ringing status as call.initiated", () => {
       const result = manager.parseInboundWebhook("twilio", {
@@ -159,6 +309,150 @@ describe("PhoneCallManager", () => {
     });
   });
 
+  describe("barge-in", () => {
+    let originalFetch: typeof fetch;
+
+    beforeEach(() => {
+      originalFetch = globalThis.fetch;
+      globalThis.fetch = mock(() => Promise.resolve(new Response("{}", { status: 200 }))) as any;
+    });
+
+    afterEach(() => {
+      globalThis.fetch = originalFetch;
+    });
+
+    it("flags a reply that arrives while the prompt is still playing", async () => {
+      await manager.speakToCall("CA_123", "Here is a long summary of everything I changed today", true, "https://example.com/gather");
+      expect(manager.takeInterruption("CA_123")).toBe(true);
+      // Consumed by the turn it belonged to
+      expect(manager.takeInterruption("CA_123")).toBe(false);
+    });
+
+    it("does not flag replies to prompts without a gather", async () => {
+      await manager.speakToCall("CA_123", "Working on it", false);
+      expect(manager.takeInterruption("CA_123")).toBe(false);
+    });
+
+    it("does not flag a reply after the prompt finished", async () => {
+      await manager.speakToCall("CA_123", "Done", true, "https://example.com/gather");
+      manager.speechEnded("CA_123");
+      expect(manager.takeInterruption("CA_123")).toBe(false);
+    });
+
+    it("stops a Telnyx prompt when the caller talks over it", async () => {
+      const telnyx = new PhoneCallManager({ ...baseConfig, phoneProvider: "telnyx" });
+      const stopPlayback = mock(() => Promise.resolve({}));
+      (telnyx as any).telnyx = {
+        calls: {
+          speak: mock(() => Promise.resolve({})),
+          gather_using_speak: mock(() => Promise.resolve({})),
+          actions: { stopPlayback },
+        },
+      };
+
+      await telnyx.speakToCall("v3:abc", "Here is a long summary of everything I changed", true);
+      expect(await telnyx.stopSpeaking("v3:abc")).toBe(true);
+      expect(stopPlayback).toHaveBeenCalledWith("v3:abc", { stop: "all" });
+
+      // Telnyx reports the stopped prompt as ended; the interruption still counts
+      expect(await telnyx.stopSpeaking("v3:abc")).toBe(false);
+      telnyx.speechEnded("v3:abc");
+      expect(telnyx.takeInterruption("v3:abc")).toBe(true);
+    });
+
+    it("answers, rejects and transcribes Telnyx calls", async () => {
+      const telnyx = new PhoneCallManager({ ...baseConfig, phoneProvider: "telnyx" });
+      const actions = {
+        answer: mock(() => Promise.resolve({})),
+        reject: mock(() => Promise.resolve({})),
+        startTranscription: mock(() => Promise.resolve({})),
+      };
+      (telnyx as any).telnyx = { calls: { actions } };
+
+      await telnyx.answerCall("v3:abc", "https://example.com/webhook/telnyx/status/c1");
+      expect(actions.answer).toHaveBeenCalledWith("v3:abc", { webhook_url: "https://example.com/webhook/telnyx/status/c1" });
+
+      await telnyx.rejectCall("v3:bad");
+      expect(actions.reject).toHaveBeenCalledWith("v3:bad", { cause: "CALL_REJECTED" });
+
+      telnyx.setCallLanguage("v3:abc", "es-ES");
+      await telnyx.startListening("v3:abc");
+      expect((actions.startTranscription.mock.calls[0] as any[])[1]).toMatchObject({
+        transcription_engine_config: { language: "es", interim_results: true },
+        transcription_tracks: "inbound",
+      });
+    });
+
+    it("hands outbound Telnyx calls to the call flow", async () => {
+      const telnyx = new PhoneCallManager({ ...baseConfig, phoneProvider: "telnyx" });
+      (telnyx as any).telnyx = {
+        calls: { create: mock(() => Promise.resolve({ data: { call_control_id: "v3:out" } })) },
+      };
+      const dial = mock(() => {});
+      telnyx.setTelnyxCallFlow({ dial } as any);
+
+      await telnyx.initiateCall("+19995551234", "Your build is done", "https://example.com/status", "https://example.com/gather");
+      expect(dial).toHaveBeenCalledWith("v3:out", "Your build is done");
+
+      // Streamed calls speak for themselves
+      await telnyx.initiateCall("+19995551234", "Hi", "https://example.com/status", "https://example.com/gather", "wss://example.com/media");
+      expect(dial).toHaveBeenCalledTimes(1);
+    });
+
+    it("hangs up a Telnyx voicemail once it has been spoken", async () => {
+      const telnyx = new PhoneCallManager({ ...baseConfig, phoneProvider: "telnyx" });
+      const hangup = mock(() => Promise.resolve({}));
+      (telnyx as any).telnyx = { calls: { speak: mock(() => Promise.resolve({})), hangup } };
+
+      await telnyx.leaveVoicemail("v3:abc", "Hi, this is Claude.");
+      expect(hangup).not.toHaveBeenCalled();
+
+      await telnyx.speechEnded("v3:abc");
+      expect(hangup).toHaveBeenCalledWith({ call_control_id: "v3:abc" });
+      await telnyx.speechEnded("v3:abc");
+      expect(hangup).toHaveBeenCalledTimes(1);
+    });
+
+    it("has nothing to stop when no prompt is playing", async () => {
+      expect(await manager.stopSpeaking("CA_999")).toBe(false);
+    });
+
+    it("classifies Telnyx call events", () => {
+      const event = (event_type: string) => ({ data: { event_type, payload: { call_control_id: "v3:abc" } } });
+      expect(manager.parseTelnyxCallEvent(event("call.dtmf.received"))).toEqual({ type: "caller_input", providerCallId: "v3:abc" });
+      expect(manager.parseTelnyxCallEvent(event("call.transcription")).type).toBe("caller_input");
+      expect(manager.parseTelnyxCallEvent(event("call.gather.ended")).type).toBe("gather_ended");
+      expect(manager.parseTelnyxCallEvent(event("call.speak.ended")).type).toBe("speech_ended");
+      expect(manager.parseTelnyxCallEvent(event("call.answered")).type).toBe("answered");
+      expect(manager.parseTelnyxCallEvent(event("call.hangup")).type).toBe("hangup");
+      expect(manager.parseTelnyxCallEvent(event("call.bridged")).type).toBe("other");
+    });
+
+    it("treats final Telnyx transcriptions as the caller's turn", () => {
+      const transcription = (is_final: boolean) => ({
+        data: {
+          event_type: "call.transcription",
+          payload: { call_control_id: "v3:abc", transcription_data: { transcript: " fix the build ", is_final, confidence: 0.93 } },
+        },
+      });
+      expect(manager.parseTelnyxCallEvent(transcription(false)).type).toBe("caller_input");
+      expect(manager.parseTelnyxCallEvent(transcription(true))).toEqual({
+        type: "transcript",
+        providerCallId: "v3:abc",
+        transcript: "fix the build",
+        confidence: 0.93,
+      });
+
+      const gather = { data: { event_type: "call.gather.ended", payload: { call_control_id: "v3:abc", digits: "42" } } };
+      expect(manager.parseTelnyxCallEvent(gather)).toMatchObject({ type: "gather_ended", transcript: "42" });
+    });
+
+    it("carries the key pressed in Telnyx DTMF events", () => {
+      const body = { data: { event_type: "call.dtmf.received", payload: { call_control_id: "v3:abc", digit: "1" } } };
+      expect(manager.parseTelnyxCallEvent(body)).toEqual({ type: "caller_input", providerCallId: "v3:abc", digit: "1" });
+    });
+  });
+
   describe("parseStatusWebhook", () => {
     it("parses Twilio statuses", () => {
       expect(manager.parseStatusWebhook("twilio", { CallStatus: "ringing" }).state).toBe("ringing");
@@ -172,6 +466,253 @@ describe("PhoneCallManager", () => {
       expect(manager.parseStatusWebhook("telnyx", { data: { event_type: "call.answered" } }).state).toBe("answered");
       expect(manager.parseStatusWebhook("telnyx", { data: { event_type: "call.hangup" } }).state).toBe("completed");
     });
+
+    it("reads why a Telnyx call never connected", () => {
+      const hangup = (hangup_cause: string) => ({ data: { event_type: "call.hangup", payload: { hangup_cause } } });
+      expect(manager.parseStatusWebhook("telnyx", hangup("user_busy")).state).toBe("busy");
+      expect(manager.parseStatusWebhook("telnyx", hangup("timeout")).state).toBe("no-answer");
+      expect(manager.parseStatusWebhook("telnyx", hangup("not_found")).state).toBe("failed");
+      expect(manager.parseStatusWebhook("telnyx", hangup("normal_clearing")).state).toBe("completed");
+    });
+
+    it("leaves the state alone for events that aren't status changes", () => {
+      const event = (event_type: string) => ({ data: { event_type, payload: { call_control_id: "v3:abc" } } });
+      expect(manager.parseStatusWebhook("telnyx", event("call.speak.started")).state).toBe("unknown");
+      expect(manager.parseStatusWebhook("telnyx", event("call.playback.started")).state).toBe("unknown");
+      expect(manager.parseStatusWebhook("telnyx", event("call.transcription.started")).state).toBe("unknown");
+      expect(manager.parseStatusWebhook("twilio", {}).state).toBe("unknown");
+      expect(manager.parseStatusWebhook("twilio", { CallStatus: "canceled" }).state).toBe("failed");
+    });
+
+    it("parses Twilio answering machine detection", () => {
+      expect(manager.parseStatusWebhook("twilio", { CallSid: "CA1", AnsweredBy: "machine_end_beep" })).toEqual({
+        state: "answered",
+        answeredBy: "machine",
+        greetingEnded: true,
+        providerCallId: "CA1",
+      });
+      expect(manager.parseStatusWebhook("twilio", { CallSid: "CA1", AnsweredBy: "human" }).answeredBy).toBe("human");
+      expect(manager.parseStatusWebhook("twilio", { CallSid: "CA1", AnsweredBy: "unknown" }).answeredBy).toBe("unknown");
+      // The final status callback also carries AnsweredBy; the call is still over
+      expect(manager.parseStatusWebhook("twilio", { CallStatus: "completed", AnsweredBy: "machine_end_beep" }).state).toBe("completed");
+    });
+
+    it("parses Telnyx answering machine detection", () => {
+      const event = (event_type: string, result: string) => ({
+        data: { event_type, payload: { call_control_id: "v3:abc", result } },
+      });
+      expect(manager.parseStatusWebhook("telnyx", event("call.machine.detection.ended", "human"))).toEqual({
+        state: "answered",
+        answeredBy: "human",
+        greetingEnded: false,
+        providerCallId: "v3:abc",
+      });
+      // A machine is reported first, and the beep after its greeting second
+      expect(manager.parseStatusWebhook("telnyx", event("call.machine.detection.ended", "machine"))).toMatchObject({
+        answeredBy: "machine",
+        greetingEnded: false,
+      });
+      expect(manager.parseStatusWebhook("telnyx", event("call.machine.greeting.ended", "beep_detected"))).toMatchObject({
+        state: "answered",
+        answeredBy: "machine",
+        greetingEnded: true,
+      });
+    });
+  });
+
+  describe("speech rendering", () => {
+    it("speaks markdown without the markup", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("{}", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await manager.speakToCall("CA_123", "**Done.** I updated `speakToCall`:\n```ts\nconst a = 1;\n```", false);
+        const twiml = new URLSearchParams(mockFetch.mock.calls[0][1].body.toString()).get("Twiml")!;
+        expect(twiml).toContain("Done. I updated speak to call: I&apos;ve left out a code snippet of 1 line.");
+        expect(twiml).not.toContain("`");
+        expect(twiml).not.toContain("<emphasis>");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("speaks SSML with Polly voices", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("{}", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        manager.setCallLanguage("CA_123", "tr-TR");
+        await manager.speakToCall("CA_123", "**Tamam**", false);
+        const twiml = new URLSearchParams(mockFetch.mock.calls[0][1].body.toString()).get("Twiml")!;
+        expect(twiml).toContain('<Say voice="Polly.Filiz" language="tr-TR"><emphasis>Tamam</emphasis></Say>');
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("speaks SSML on Telnyx", async () => {
+      const telnyx = new PhoneCallManager({ ...baseConfig, phoneProvider: "telnyx" });
+      const speak = mock(() => Promise.resolve({}));
+      (telnyx as any).telnyx = { calls: { speak } };
+
+      await telnyx.speakToCall("v3:abc", "# Done\nAll **green**", false);
+      expect((speak.mock.calls[0] as any[])[0]).toMatchObject({
+        payload: '<speak>Done. <break time="300ms"/> All <emphasis>green</emphasis></speak>',
+        payload_type: "ssml",
+      });
+    });
+
+    it("sends links to the caller instead of reading them out", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("{}", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+      const sendLinks = mock(() => Promise.resolve());
+      manager.setLinkSender(sendLinks);
+
+      try {
+        await manager.speakToCall("CA_123", "The PR is up: https://github.com/acme/app/pull/42", false);
+        expect(sendLinks).toHaveBeenCalledWith("CA_123", ["https://github.com/acme/app/pull/42"]);
+        const twiml = new URLSearchParams(mockFetch.mock.calls[0][1].body.toString()).get("Twiml")!;
+        expect(twiml).toContain("The PR is up. I&apos;ve sent the link to WhatsApp.");
+        expect(twiml).not.toContain("github.com");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+
+  describe("call recording", () => {
+    it("parses Twilio recording callbacks", () => {
+      expect(manager.parseRecordingWebhook("twilio", {
+        CallSid: "CA1",
+        RecordingSid: "RE1",
+        RecordingUrl: "https://api.twilio.com/Recordings/RE1",
+        RecordingStatus: "completed",
+        RecordingDuration: "42",
+      })).toEqual({
+        recordingId: "RE1",
+        url: "https://api.twilio.com/Recordings/RE1",
+        durationSeconds: 42,
+        status: "completed",
+      });
+      expect(manager.parseRecordingWebhook("twilio", { RecordingSid: "RE2", RecordingStatus: "absent" })?.status).toBe("failed");
+      // Ordinary status callbacks aren't recordings
+      expect(manager.parseRecordingWebhook("twilio", { CallSid: "CA1", CallStatus: "completed" })).toBeNull();
+    });
+
+    it("parses Telnyx recording events", () => {
+      const saved = {
+        data: {
+          event_type: "call.recording.saved",
+          payload: {
+            call_control_id: "v3:abc",
+            recording_id: "rec-1",
+            recording_urls: { mp3: "https://s3.example.com/rec-1.mp3" },
+            recording_started_at: "2025-01-01T10:00:00Z",
+            recording_ended_at: "2025-01-01T10:01:30Z",
+          },
+        },
+      };
+      expect(manager.parseRecordingWebhook("telnyx", saved)).toEqual({
+        recordingId: "rec-1",
+        url: "https://s3.example.com/rec-1.mp3",
+        durationSeconds: 90,
+        status: "completed",
+      });
+      const error = { data: { event_type: "call.recording.error", payload: { call_leg_id: "leg-1" } } };
+      expect(manager.parseRecordingWebhook("telnyx", error)).toMatchObject({ recordingId: "leg-1", status: "failed" });
+      expect(manager.parseRecordingWebhook("telnyx", { data: { event_type: "call.hangup" } })).toBeNull();
+    });
+
+    it("records the rest of inbound Twilio calls when given a callback URL", () => {
+      const answer = manager.generateAnswerTwiML("Hello!", "https://example.com/gather", "en-US", "https://example.com/status?a=1&b=2");
+      expect(answer).toContain('<Recording recordingStatusCallback="https://example.com/status?a=1&amp;b=2"');
+      expect(answer.indexOf("<Start>")).toBeLessThan(answer.indexOf("<Gather"));
+      expect(manager.generateStreamTwiML("wss://example.com/media", "https://example.com/status")).toContain("<Recording");
+      expect(manager.generateAnswerTwiML("Hello!", "https://example.com/gather")).not.toContain("<Recording");
+    });
+
+    it("records outbound Twilio calls when recording is on", async () => {
+      const recording = new PhoneCallManager({ ...baseConfig, recordCalls: true });
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() =>
+        Promise.resolve(new Response(JSON.stringify({ sid: "CA_NEW" }), { status: 200 }))
+      );
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await recording.initiateCall("+19995551234", "Hello user", "https://example.com/status", "https://example.com/gather");
+        const params = new URLSearchParams(mockFetch.mock.calls[0][1].body.toString());
+        expect(params.get("Record")).toBe("true");
+        expect(params.get("RecordingStatusCallback")).toBe("https://example.com/status");
+
+        await manager.initiateCall("+19995551234", "Hello user", "https://example.com/status", "https://example.com/gather");
+        expect(new URLSearchParams(mockFetch.mock.calls[1][1].body.toString()).has("Record")).toBe(false);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("records Telnyx calls from the answer when recording is on", async () => {
+      const telnyx = new PhoneCallManager({ ...baseConfig, phoneProvider: "telnyx", recordCalls: true });
+      const actions = { answer: mock(() => Promise.resolve({})) };
+      (telnyx as any).telnyx = { calls: { actions } };
+
+      await telnyx.answerCall("v3:abc", "https://example.com/status");
+      expect(actions.answer).toHaveBeenCalledWith("v3:abc", {
+        webhook_url: "https://example.com/status",
+        record: "record-from-answer",
+        record_format: "mp3",
+      });
+    });
+
+    it("downloads Twilio recordings as MP3 with the account's credentials", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("mp3-bytes", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        const audio = await manager.downloadRecording({
+          recordingId: "RE1",
+          url: "https://api.twilio.com/Recordings/RE1",
+          status: "completed",
+        });
+        expect(audio.toString()).toBe("mp3-bytes");
+        const [url, opts] = mockFetch.mock.calls[0] as [URL, any];
+        expect(url.toString()).toBe("https://api.twilio.com/Recordings/RE1.mp3");
+        expect(opts.headers.Authorization).toStartWith("Basic ");
+        expect(opts.redirect).toBe("manual");
+
+        mockFetch.mockImplementationOnce(() => Promise.resolve(new Response("gone", { status: 404 })));
+        await expect(manager.downloadRecording({ recordingId: "RE2", url: "https://api.twilio.com/Recordings/RE2", status: "completed" }))
+          .rejects.toThrow("Recording download failed: 404");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("refuses recording URLs that aren't Twilio's, and oversized recordings", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() =>
+        Promise.resolve(new Response("", { status: 200, headers: { "Content-Length": String(MAX_MEDIA_BYTES + 1) } }))
+      );
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await expect(manager.downloadRecording({ recordingId: "RE1", url: "https://evil.example/RE1", status: "completed" }))
+          .rejects.toThrow("Recording download refused: evil.example is not a Twilio media host");
+        await expect(manager.downloadRecording({ recordingId: "RE1", url: "http://api.twilio.com/RE1", status: "completed" }))
+          .rejects.toThrow("Recording download refused: http: URL");
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        await expect(manager.downloadRecording({ recordingId: "RE1", url: "https://api.twilio.com/RE1", status: "completed" }))
+          .rejects.toThrow("Recording too large");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
   });
 
   describe("Twilio API calls", () => {
@@ -199,6 +740,64 @@ describe("PhoneCallManager", () => {
       }
     });
 
+    it("initiateCall streams audio when given a stream URL", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() =>
+        Promise.resolve(new Response(JSON.stringify({ sid: "CA_NEW" }), { status: 200 }))
+      );
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await manager.initiateCall(
+          "+19995551234",
+          "Hello user",
+          "https://example.com/status",
+          "https://example.com/gather",
+          "wss://example.com/media/twilio/c1/token"
+        );
+        const twiml = new URLSearchParams(mockFetch.mock.calls[0][1].body.toString()).get("Twiml")!;
+        expect(twiml).toContain('<Stream url="wss://example.com/media/twilio/c1/token"');
+        expect(twiml).not.toContain("<Gather");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("initiateCall asks Twilio to detect answering machines", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() =>
+        Promise.resolve(new Response(JSON.stringify({ sid: "CA_NEW" }), { status: 200 }))
+      );
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await manager.initiateCall("+19995551234", "Hello user", "https://example.com/status", "https://example.com/gather");
+        const params = new URLSearchParams(mockFetch.mock.calls[0][1].body.toString());
+        expect(params.get("MachineDetection")).toBe("DetectMessageEnd");
+        expect(params.get("AsyncAmd")).toBe("true");
+        expect(params.get("AsyncAmdStatusCallback")).toBe("https://example.com/status");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    it("leaveVoicemail speaks the message and hangs up", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("{}", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+
+      try {
+        await manager.leaveVoicemail("CA_123", "Hi, this is Claude.");
+        const [url, opts] = mockFetch.mock.calls[0] as [string, any];
+        expect(url).toContain("CA_123.json");
+        const twiml = new URLSearchParams(opts.body.toString()).get("Twiml")!;
+        expect(twiml).toContain("Hi, this is Claude.");
+        expect(twiml).toContain("<Hangup/>");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
     it("initiateCall throws on Twilio error", async () => {
       const originalFetch = globalThis.fetch;
       globalThis.fetch = mock(() =>
@@ -244,5 +843,39 @@ describe("PhoneCallManager", () => {
         globalThis.fetch = originalFetch;
       }
     });
+
+    it("speakToCall speaks through the media stream of a streaming call", async () => {
+      const originalFetch = globalThis.fetch;
+      const mockFetch = mock(() => Promise.resolve(new Response("{}", { status: 200 })));
+      globalThis.fetch = mockFetch as any;
+      const speak = mock(() => Promise.resolve());
+      manager.setMediaStreams({ isStreaming: (id: string) => id === "CA_123", speak } as any);
+
+      try {
+        await manager.speakToCall("CA_123", "Working on it", true, "https://example.com/gather");
+        expect(speak).toHaveBeenCalledWith("CA_123", "Working on it");
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        await manager.speakToCall("CA_456", "Not streaming", false);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+  });
+});
+
+describe("describeCallWebhook", () => {
+  it("logs the event and call without what the caller said or keyed in", () => {
+    const transcription = {
+      data: {
+        event_type: "call.transcription",
+        payload: { call_control_id: "v3:abc", transcription_data: { transcript: "open sesame", is_final: true } },
+      },
+    };
+    expect(describeCallWebhook(transcription)).toBe("call.transcription (v3:abc)");
+    expect(describeCallWebhook({ data: { event_type: "call.gather.ended", payload: { call_control_id: "v3:abc", digits: "4321" } } }))
+      .not.toContain("4321");
+    expect(describeCallWebhook({ CallSid: "CA1", CallStatus: "ringing", Digits: "4321" })).toBe("ringing (CA1)");
   });
 });
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RecordingArchive } from "../../src/recording-archive";
+import {
+  ConversationManager,
+  ChannelType,
+  ConversationDirection,
+} from "../../src/conversation-manager";
+
+describe("RecordingArchive", () => {
+  let dir: string;
+  let conversationManager: ConversationManager;
+  let download: ReturnType<typeof mock>;
+  let transcribe: ReturnType<typeof mock>;
+  let archive: RecordingArchive;
+
+  const completed = { recordingId: "RE1", url: "https://example.com/RE1", durationSeconds: 42, status: "completed" as const };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bcc-recordings-"));
+    conversationManager = new ConversationManager();
+    conversationManager.createConversation("c1", ChannelType.VOICE, ConversationDirection.INBOUND, "CA1");
+    download = mock(() => Promise.resolve(Buffer.from("mp3-bytes")));
+    transcribe = mock(() => Promise.resolve("Hi, can you check the deploy?"));
+    archive = new RecordingArchive(conversationManager, { download, transcribe }, { dir, retentionMs: 60000 });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("downloads, transcribes and attaches a recording to its conversation", async () => {
+    const recording = await archive.archive("c1", completed);
+
+    expect(recording).toMatchObject({ id: "RE1", durationSeconds: 42, transcript: "Hi, can you check the deploy?" });
+    expect(readFileSync(recording.file!).toString()).toBe("mp3-bytes");
+    expect(recording.file).toBe(join(dir, "c1", "RE1.mp3"));
+    expect(transcribe).toHaveBeenCalledWith(Buffer.from("mp3-bytes"), "c1");
+    expect(conversationManager.getConversation("c1")?.metadata?.recordings).toEqual([recording]);
+  });
+
+  it("replaces a recording whose webhook is delivered again", async () => {
+    await archive.archive("c1", completed);
+    await archive.archive("c1", completed);
+    await archive.archive("c1", { ...completed, recordingId: "RE2" });
+    expect(archive.list("c1").map((recording) => recording.id)).toEqual(["RE1", "RE2"]);
+  });
+
+  it("records failures instead of throwing", async () => {
+    transcribe.mockImplementationOnce(() => Promise.reject(new Error("Whisper unavailable")));
+    const recording = await archive.archive("c1", completed);
+    expect(recording.error).toContain("Whisper unavailable");
+    expect(recording.file).toBeDefined();
+
+    const failed = await archive.archive("c1", { ...completed, recordingId: "RE2", status: "failed" });
+    expect(failed.error).toBe("Recording failed at the provider");
+    expect(download).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps provider IDs inside the archive", async () => {
+    const recording = await archive.archive("c1", { ...completed, recordingId: "../../etc/passwd" });
+    expect(recording.file).toBe(join(dir, "c1", "______etc_passwd.mp3"));
+  });
+
+  it("deletes audio past retention but keeps the transcript", async () => {
+    const recording = await archive.archive("c1", completed);
+    expect(archive.prune()).toBe(0);
+
+    const old = (Date.now() - 120000) / 1000;
+    utimesSync(recording.file!, old, old);
+    expect(archive.prune()).toBe(1);
+    expect(existsSync(join(dir, "c1"))).toBe(false);
+
+    const [kept] = archive.list("c1");
+    expect(kept.file).toBeUndefined();
+    expect(kept.transcript).toBe("Hi, can you check the deploy?");
+  });
+
+  it("keeps audio forever with a retention of 0", async () => {
+    const forever = new RecordingArchive(conversationManager, { download, transcribe }, { dir, retentionMs: 0 });
+    const recording = await forever.archive("c1", completed);
+    const old = (Date.now() - 120000) / 1000;
+    utimesSync(recording.file!, old, old);
+    expect(forever.prune()).toBe(0);
+    expect(existsSync(recording.file!)).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Scheduler, nextCronRun, parseCron, type ScheduledJob } from "../../src/scheduler";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("cron", () => {
+  it("finds the next run in local time", () => {
+    // Friday 16 October 2026, 10:07
+    const friday = new Date(2026, 9, 16, 10, 7);
+    expect(nextCronRun("0 9 * * 1-5", friday)).toEqual(new Date(2026, 9, 19, 9, 0));
+    expect(nextCronRun("*/15 * * * *", friday)).toEqual(new Date(2026, 9, 16, 10, 15));
+    expect(nextCronRun("0 18 * * *", friday)).toEqual(new Date(2026, 9, 16, 18, 0));
+    expect(nextCronRun("@daily", friday)).toEqual(new Date(2026, 9, 17, 0, 0));
+    expect(nextCronRun("30 8 31 * *", new Date(2026, 9, 31, 9, 0))).toEqual(new Date(2026, 11, 31, 8, 30));
+  });
+
+  it("runs on either day when both day of month and weekday are given", () => {
+    // The 1st of the month or any Monday
+    expect(nextCronRun("0 0 1 * 1", new Date(2026, 9, 20, 12, 0))).toEqual(new Date(2026, 9, 26, 0, 0));
+    expect(parseCron("0 0 * * 7").weekdays).toEqual(new Set([0]));
+  });
+
+  it("rejects expressions it can't run", () => {
+    expect(() => parseCron("* * *")).toThrow("Invalid cron expression");
+    expect(() => parseCron("61 * * * *")).toThrow("Invalid cron minute");
+    expect(() => parseCron("0 9 * * mon")).toThrow("Invalid cron day of week");
+    expect(() => nextCronRun("0 0 30 2 *", new Date())).toThrow("never runs");
+  });
+});
+
+describe("Scheduler", () => {
+  let dir: string;
+  let path: string;
+  let call: ReturnType<typeof mock>;
+  let send: ReturnType<typeof mock>;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bcc-schedule-"));
+    path = join(dir, "data", "schedule.json");
+    call = mock(() => Promise.resolve());
+    send = mock(() => Promise.resolve());
+    scheduler = new Scheduler({ call, send }, { path });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("places a one-off call at its time and forgets it", async () => {
+    const job = scheduler.schedule({
+      channel: "voice",
+      recipient: "alice",
+      message: "Your tests passed",
+      at: new Date(Date.now() + 20),
+    });
+    expect(scheduler.list()).toEqual([job]);
+    expect(call).not.toHaveBeenCalled();
+
+    await sleep(60);
+    expect(call).toHaveBeenCalledTimes(1);
+    expect((call.mock.calls[0] as any[])[0]).toMatchObject({ recipient: "alice", message: "Your tests passed", runs: 1 });
+    expect(scheduler.list()).toEqual([]);
+    expect(JSON.parse(readFileSync(path, "utf8")).jobs).toEqual([]);
+  });
+
+  it("sends scheduled messages on their channel", async () => {
+    scheduler.schedule({ channel: "whatsapp", recipient: "alice", message: "Standup in 5", at: new Date(Date.now() + 10) });
+    await sleep(50);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect((send.mock.calls[0] as any[])[0]).toBe("whatsapp");
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it("keeps jobs across restarts", () => {
+    const now = new Date(2026, 9, 19, 12, 0);
+    const job = scheduler.schedule({ channel: "sms", recipient: "alice", message: "Daily report", cron: "0 9 * * *" }, now);
+    expect(job.nextRunAt).toBe(new Date(2026, 9, 20, 9, 0).toISOString());
+    scheduler.stop();
+
+    const restarted = new Scheduler({ call, send }, { path });
+    restarted.start();
+    expect(restarted.list()).toEqual([job]);
+    restarted.stop();
+  });
+
+  it("moves an unreadable schedule aside and starts empty", () => {
+    mkdirSync(join(dir, "data"));
+    writeFileSync(path, '{"jobs": [{"id": "j1", "chan');
+
+    expect(() => scheduler.start()).not.toThrow();
+    expect(scheduler.list()).toEqual([]);
+    expect(existsSync(path)).toBe(false);
+    expect(readFileSync(`${path}.corrupt`, "utf8")).toContain('"j1"');
+
+    scheduler.schedule({ channel: "sms", recipient: "alice", message: "Hi", at: new Date(Date.now() + 60000) });
+    expect(JSON.parse(readFileSync(path, "utf8")).jobs).toHaveLength(1);
+  });
+
+  it("runs jobs that came due while it was down, and repeats cron jobs", async () => {
+    const overdue: ScheduledJob = {
+      id: "job-1",
+      channel: "voice",
+      recipient: "alice",
+      message: "Morning check-in",
+      cron: "* * * * *",
+      nextRunAt: new Date(Date.now() - 3600000).toISOString(),
+      createdAt: new Date(Date.now() - 7200000).toISOString(),
+      runs: 0,
+    };
+    mkdirSync(join(dir, "data"));
+    writeFileSync(path, JSON.stringify({ jobs: [overdue] }));
+
+    scheduler.start();
+    await sleep(20);
+    expect(call).toHaveBeenCalledTimes(1);
+    const [job] = scheduler.list();
+    expect(job).toMatchObject({ id: "job-1", runs: 1 });
+    expect(new Date(job.nextRunAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("records failures and keeps repeating jobs", async () => {
+    call.mockImplementationOnce(() => Promise.reject(new Error("Line busy")));
+    mkdirSync(join(dir, "data"));
+    writeFileSync(path, JSON.stringify({
+      jobs: [{
+        id: "job-1",
+        channel: "voice",
+        recipient: "alice",
+        message: "Check-in",
+        cron: "0 9 * * *",
+        nextRunAt: new Date(Date.now() - 1000).toISOString(),
+        createdAt: new Date().toISOString(),
+        runs: 0,
+      }],
+    }));
+
+    scheduler.start();
+    await sleep(20);
+    expect(scheduler.get("job-1")?.lastError).toContain("Line busy");
+  });
+
+  it("cancels jobs", async () => {
+    const job = scheduler.schedule({ channel: "voice", recipient: "alice", message: "Hi", at: new Date(Date.now() + 20) });
+    expect(scheduler.cancel(job.id)).toBe(true);
+    expect(scheduler.cancel(job.id)).toBe(false);
+
+    await sleep(50);
+    expect(call).not.toHaveBeenCalled();
+    expect(JSON.parse(readFileSync(path, "utf8")).jobs).toEqual([]);
+  });
+
+  it("rejects jobs it can't run", () => {
+    const request = { channel: "voice" as const, recipient: "alice", message: "Hi" };
+    expect(() => scheduler.schedule(request)).toThrow("either a time to run at or a cron schedule");
+    expect(() => scheduler.schedule({ ...request, at: new Date(Date.now() + 60000), cron: "@daily" })).toThrow("either");
+    expect(() => scheduler.schedule({ ...request, at: new Date(Date.now() - 60000) })).toThrow("is in the past");
+    expect(() => scheduler.schedule({ ...request, at: new Date("tomorrow") })).toThrow("Invalid time");
+    expect(() => scheduler.schedule({ ...request, cron: "every day" })).toThrow("Invalid cron");
+    expect(() => scheduler.schedule({ ...request, message: "", cron: "@daily" })).toThrow("Message is required");
+    expect(scheduler.list()).toEqual([]);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it("keeps jobs in memory only without a path", () => {
+    const inMemory = new Scheduler({ call, send }, { path: "" });
+    inMemory.schedule({ channel: "sms", recipient: "alice", message: "Hi", cron: "@hourly" });
+    expect(inMemory.list()).toHaveLength(1);
+    expect(existsSync(path)).toBe(false);
+    inMemory.stop();
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import {
+  ConversationManager,
+  ChannelType,
+  ConversationDirection,
+  ConversationState,
+} from "../../src/conversation-manager";
+import { SessionManager, conversationCounterpart } from "../../src/session-manager";
+import { EventBus, type TaskEvents } from "../../src/events";
+
+function createTaskExecutorStub() {
+  return {
+    events: new EventBus<TaskEvents>(),
+    getExecution: mock((_id: string) => undefined as any),
+  };
+}
+
+describe("SessionManager", () => {
+  let conversationManager: ConversationManager;
+  let sessions: SessionManager;
+  let tasks: ReturnType<typeof createTaskExecutorStub>;
+
+  beforeEach(() => {
+    conversationManager = new ConversationManager({ newTopicKeywords: ["new topic"] });
+    sessions = new SessionManager(conversationManager, { timeoutMs: 60000 });
+    tasks = createTaskExecutorStub();
+    sessions.trackTasks(tasks);
+  });
+
+  it("groups a person's conversations across channels", () => {
+    conversationManager.createConversation(
+      "call", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15551234567", to: "+15550000000" }
+    );
+    conversationManager.createConversation(
+      "wa", ChannelType.WHATSAPP, ConversationDirection.OUTBOUND, "m1", { to: "whatsapp:+15551234567" }
+    );
+    conversationManager.createConversation(
+      "other", ChannelType.SMS, ConversationDirection.INBOUND, "m2", { from: "+15559999999" }
+    );
+
+    const session = sessions.getSessionForConversation("call")!;
+    expect(session.conversationIds).toEqual(["call", "wa"]);
+    expect(sessions.getSessionForConversation("wa")).toBe(session);
+    expect(sessions.getSessionForConversation("other")).not.toBe(session);
+    expect(sessions.findByNumber("5551234567")).toBe(session);
+  });
+
+  it("merges messages from every channel into one timeline", () => {
+    conversationManager.createConversation(
+      "call", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15551234567" }
+    );
+    conversationManager.addMessage("call", "user", "build a todo app");
+    conversationManager.addMessage("call", "assistant", "on it");
+    const wa = conversationManager.findOrCreateConversation(ChannelType.WHATSAPP, "m1", "+15551234567", "+1");
+    conversationManager.addMessage(wa.id, "user", "add dark mode");
+
+    const session = sessions.getSessionForConversation("call")!;
+    const timeline = sessions.getTimeline(session.id);
+
+    expect(timeline.map((e) => `${e.channel}:${e.content}`)).toEqual([
+      "voice:build a todo app",
+      "voice:on it",
+      "whatsapp:add dark mode",
+    ]);
+  });
+
+  it("tracks the active task and hands its context to follow-ups on other channels", () => {
+    conversationManager.createConversation(
+      "call", ChannelType.VOICE, ConversationDirection.INBOUND, "p1", { from: "+15551234567" }
+    );
+    conversationManager.addMessage("call", "user", "build a todo app");
+    tasks.events.emit("task.spawned", { conversationId: "call", task: "build a todo app", workingDir: "/tmp/todo" });
+
+    const session = sessions.getSessionForConversation("call")!;
+    expect(sessions.getActiveTask(session.id)?.task).toBe("build a todo app");
+
+    tasks.getExecution.mockReturnValue({ completionSummary: "Created ./todo" });
+    tasks.events.emit("task.exited", { conversationId: "call", code: 0, status: "completed" });
+    expect(sessions.getActiveTask(session.id)).toBeUndefined();
+
+    const wa = conversationManager.findOrCreateConversation(ChannelType.WHATSAPP, "m1", "+15551234567", "+1");
+    conversationManager.addMessage(wa.id, "user", "add dark mode");
+    tasks.getExecution.mockReturnValue(undefined);
+
+    const context = sessions.getTaskContext(wa.id)!;
+    expect(context.originalTask).toBe("build a todo app");
+    expect(context.completionSummary).toBe("Created ./todo");
+    expect(context.workingDir).toBe("/tmp/todo");
+    expect(context.conversationId).toBe("call");
+    expect(context.transcript).toContain("voice] User: build a todo app");
+    expect(context.transcript).toContain("whatsapp] User: add dark mode");
+  });
+
+  it("has no task context for a person without a task", () => {
+    const wa = conversationManager.findOrCreateConversation(ChannelType.WHATSAPP, "m1", "+15551234567", "+1");
+    expect(sessions.getTaskContext(wa.id)).toBeUndefined();
+    expect(sessions.getTaskContext("unknown")).toBeUndefined();
+  });
+
+  it("starts a new session after the timeout", () => {
+    conversationManager.createConversation(
+      "old", ChannelType.SMS, ConversationDirection.INBOUND, "m1", { from: "+15551234567" }
+    );
+    const first = sessions.getSessionForConversation("old")!;
+    first.lastActivityAt = new Date(Date.now() - 120000);
+
+    conversationManager.createConversation(
+      "new", ChannelType.SMS, ConversationDirection.INBOUND, "m2", { from: "+15551234567" }
+    );
+
+    expect(sessions.getSessionForConversation("new")!.id).not.toBe(first.id);
+  });
+
+  it("starts a new session on a new topic", () => {
+    const first = conversationManager.findOrCreateConversation(ChannelType.SMS, "m1", "+15551234567", "+1");
+    tasks.events.emit("task.spawned", { conversationId: first.id, task: "old work", workingDir: "/tmp/old" });
+
+    const second = conversationManager.findOrCreateConversation(
+      ChannelType.SMS, "m2", "+15551234567", "+1", "new topic: something else"
+    );
+
+    expect(conversationManager.getConversation(first.id)!.state).toBe(ConversationState.ENDED);
+    expect(sessions.getSessionForConversation(second.id)!.id).not.toBe(sessions.getSessionForConversation(first.id)!.id);
+    expect(sessions.getTaskContext(second.id)).toBeUndefined();
+  });
+
+  it("joins conversations restored from the store", () => {
+    conversationManager.createConversation(
+      "restored", ChannelType.SMS, ConversationDirection.INBOUND, "m1", { from: "+15551234567" }
+    );
+    const restarted = new SessionManager(conversationManager);
+    expect(restarted.getSessionForConversation("restored")).toBeDefined();
+  });
+
+  it("cleanupOld forgets idle sessions", () => {
+    conversationManager.createConversation(
+      "c1", ChannelType.SMS, ConversationDirection.INBOUND, "m1", { from: "+15551234567" }
+    );
+    const session = sessions.getSessionForConversation("c1")!;
+    session.lastActivityAt = new Date(Date.now() - 7200000);
+
+    sessions.cleanupOld(3600000);
+
+    expect(sessions.getSession(session.id)).toBeUndefined();
+    expect(sessions.getSessionForConversation("c1")).toBeUndefined();
+  });
+
+  describe("conversationCounterpart", () => {
+    it("uses the sender for inbound and the recipient for outbound", () => {
+      const inbound = conversationManager.createConversation(
+        "in", ChannelType.SMS, ConversationDirection.INBOUND, "m1", { from: "+15551234567", to: "+15550000000" }
+      );
+      const outbound = conversationManager.createConversation(
+        "out", ChannelType.SMS, ConversationDirection.OUTBOUND, "m2", { from: "+15550000000", to: "+15557654321" }
+      );
+      const anonymous = conversationManager.createCall("anon", ConversationDirection.OUTBOUND, "p1");
+
+      expect(conversationCounterpart(inbound)).toBe("15551234567");
+      expect(conversationCounterpart(outbound)).toBe("15557654321");
+      expect(conversationCounterpart(anonymous)).toBeUndefined();
+    });
+  });
+});
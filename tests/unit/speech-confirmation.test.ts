@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from "bun:test";
+import { SpeechConfirmation } from "../../src/speech-confirmation";
+
+describe("SpeechConfirmation", () => {
+  let confirmation: SpeechConfirmation;
+
+  const heard = (transcript: string, confidence?: number) => ({ transcript, confidence, interrupted: false });
+
+  beforeEach(() => {
+    confirmation = new SpeechConfirmation({ threshold: 0.6 });
+  });
+
+  it("acts on confident and unscored speech straight away", () => {
+    expect(confirmation.check("c1", heard("deploy staging", 0.9))).toEqual(heard("deploy staging", 0.9));
+    // Keypad entries and Whisper transcripts carry no confidence
+    expect(confirmation.check("c1", heard("42"))).toEqual(heard("42"));
+  });
+
+  it("reads back low-confidence speech and acts on it once confirmed", () => {
+    const original = { transcript: "deploy the staging branch", confidence: 0.3, interrupted: true };
+    expect(confirmation.check("c1", original)).toEqual({
+      prompt: "I heard: deploy the staging branch. Is that right? Say yes, or say it again.",
+    });
+    expect(confirmation.check("c1", heard("Yes.", 0.4))).toEqual(original);
+
+    // The confirmation is used up
+    expect(confirmation.check("c1", heard("yes", 0.9))).toEqual(heard("yes", 0.9));
+  });
+
+  it("asks the caller to say it again on no", () => {
+    confirmation.check("c1", heard("deploy the staging branch", 0.3));
+    expect(confirmation.check("c1", heard("No", 0.9))).toEqual({ prompt: "Sorry about that. Please say it again." });
+    expect(confirmation.check("c1", heard("deploy the staging branch", 0.95))).toEqual(heard("deploy the staging branch", 0.95));
+  });
+
+  it("treats any other reply as the caller saying it again", () => {
+    confirmation.check("c1", heard("deploy the staging branch", 0.3));
+    expect(confirmation.check("c1", heard("redeploy staging", 0.8))).toEqual(heard("redeploy staging", 0.8));
+
+    confirmation.check("c1", heard("deploy the staging branch", 0.3));
+    expect(confirmation.check("c1", heard("deploy staging please", 0.2))).toEqual({
+      prompt: "I heard: deploy staging please. Is that right? Say yes, or say it again.",
+    });
+  });
+
+  it("reads back and understands replies in the call's language", () => {
+    expect(confirmation.check("c1", heard("despliega staging", 0.3), "es-ES")).toEqual({
+      prompt: "He entendido: despliega staging. ¿Es correcto? Di sí, o repítelo.",
+    });
+    expect(confirmation.check("c1", heard("Sí", 0.5), "es-ES")).toMatchObject({ transcript: "despliega staging" });
+  });
+
+  it("keeps conversations apart and forgets cleared ones", () => {
+    confirmation.check("c1", heard("deploy", 0.3));
+    expect(confirmation.check("c2", heard("yes", 0.9))).toEqual(heard("yes", 0.9));
+    confirmation.clear("c1");
+    expect(confirmation.check("c1", heard("yes", 0.9))).toEqual(heard("yes", 0.9));
+  });
+
+  it("never reads back with a threshold of 0", () => {
+    const off = new SpeechConfirmation({ threshold: 0 });
+    expect(off.check("c1", heard("deploy", 0.1))).toEqual(heard("deploy", 0.1));
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "bun:test";
+import { renderForSpeech, pronounceIdentifier, pronouncePath } from "../../src/speech-rendering";
+
+describe("speech rendering", () => {
+  it("leaves plain prompts as they are", () => {
+    const prompt = "Got it. Let me think about that... While you wait, press 1 for status, or 9 to continue on WhatsApp.";
+    expect(renderForSpeech(prompt)).toEqual({ text: prompt, ssml: prompt, links: [] });
+  });
+
+  it("strips markdown, with pauses and emphasis in the SSML", () => {
+    const speech = renderForSpeech("## Summary\n\n- Fixed the **login** bug\n- Added tests\n\nAll _green_ now");
+    expect(speech.text).toBe("Summary. Fixed the login bug. Added tests. All green now");
+    expect(speech.ssml).toBe(
+      'Summary. <break time="600ms"/> Fixed the <emphasis>login</emphasis> bug. <break time="300ms"/> ' +
+      'Added tests. <break time="600ms"/> All green now'
+    );
+  });
+
+  it("leaves out code blocks, saying how long they were", () => {
+    const speech = renderForSpeech("I changed it to:\n```ts\nconst a = 1;\n\nconst b = 2;\n```\nThat's all.");
+    expect(speech.text).toBe("I changed it to: I've left out a code snippet of 2 lines. That's all.");
+    expect(speech.text).not.toContain("const");
+  });
+
+  it("reads paths and identifiers as words", () => {
+    expect(pronouncePath("src/phone-call.ts")).toBe("src slash phone call dot ts");
+    expect(pronouncePath("/home/me/project/src/utils/format_date.ts")).toBe("utils slash format date dot ts");
+    expect(pronounceIdentifier("speakToCall()")).toBe("speak to call");
+    expect(pronounceIdentifier("PhoneCallManager")).toBe("phone call manager");
+    expect(pronounceIdentifier("MAX_RETRIES")).toBe("max retries");
+
+    const speech = renderForSpeech("I updated `renderForSpeech` in src/speech-rendering.ts and package.json, and/or the docs.");
+    expect(speech.text).toBe(
+      "I updated render for speech in src slash speech rendering dot ts and package dot json, and/or the docs."
+    );
+  });
+
+  it("takes links out of the speech", () => {
+    const speech = renderForSpeech(
+      "The PR is ready: https://github.com/acme/app/pull/42. See [the docs](https://docs.example.com/setup).",
+      { sendsLinks: true }
+    );
+    expect(speech.links).toEqual(["https://github.com/acme/app/pull/42", "https://docs.example.com/setup"]);
+    expect(speech.text).toBe("The PR is ready. See the docs. I've sent the links to WhatsApp.");
+    expect(renderForSpeech("Open https://example.com").text).toBe("Open. I've left out a link.");
+  });
+
+  it("reads tables row by row", () => {
+    const speech = renderForSpeech("| Test | Result |\n|------|--------|\n| unit | pass |");
+    expect(speech.text).toBe("Test, Result. unit, pass");
+  });
+
+  it("escapes the SSML", () => {
+    expect(renderForSpeech("Use a < b & **c**").ssml).toBe("Use a &lt; b &amp; <emphasis>c</emphasis>");
+  });
+
+  it("adds its notes in the call's language", () => {
+    const speech = renderForSpeech("Mira https://example.com", { language: "es-ES", sendsLinks: true });
+    expect(speech.text).toBe("Mira. Te he enviado el enlace por WhatsApp.");
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SqliteConversationStore } from "../../src/sqlite-conversation-store";
+import {
+  ConversationManager,
+  ChannelType,
+  ConversationDirection,
+  ConversationState,
+} from "../../src/conversation-manager";
+
+describe("SqliteConversationStore", () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bcc-store-"));
+    dbPath = join(dir, "conversations.db");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists conversations and messages across manager restarts", () => {
+    const first = new ConversationManager({ store: new SqliteConversationStore(dbPath) });
+    first.createConversation(
+      "c1", ChannelType.WHATSAPP, ConversationDirection.INBOUND, "m1", { from: "+1000", to: "+2000" }
+    );
+    first.addMessage("c1", "user", "deploy staging");
+    first.addMessage("c1", "assistant", "on it");
+    first.close();
+
+    const second = new ConversationManager({ store: new SqliteConversationStore(dbPath) });
+    const conv = second.getConversation("c1");
+    expect(conv).toBeDefined();
+    expect(conv!.channel).toBe(ChannelType.WHATSAPP);
+    expect(conv!.direction).toBe(ConversationDirection.INBOUND);
+    expect(conv!.state).toBe(ConversationState.PENDING_RESPONSE);
+    expect(conv!.metadata).toEqual({ from: "+1000", to: "+2000" });
+    expect(conv!.messages.map((m) => m.content)).toEqual(["deploy staging", "on it"]);
+    expect(conv!.messages[0].timestamp).toBeInstanceOf(Date);
+    second.close();
+  });
+
+  it("reloads only open conversations at startup", () => {
+    const store = new SqliteConversationStore(dbPath);
+    const manager = new ConversationManager({ store });
+    manager.createConversation("open", ChannelType.SMS, ConversationDirection.INBOUND, "m1");
+    manager.createConversation("done", ChannelType.SMS, ConversationDirection.INBOUND, "m2");
+    manager.updateState("done", ConversationState.ENDED);
+
+    const loaded = store.loadActive().map((c) => c.id);
+    expect(loaded).toEqual(["open"]);
+    store.close();
+  });
+
+  it("keeps evicted conversations readable from the store", () => {
+    const manager = new ConversationManager({ store: new SqliteConversationStore(dbPath) });
+    manager.createConversation("c1", ChannelType.SMS, ConversationDirection.INBOUND, "m1");
+    manager.addMessage("c1", "user", "hello");
+    manager.updateState("c1", ConversationState.ENDED);
+
+    manager.cleanupOld(-1);
+
+    const conv = manager.getConversation("c1");
+    expect(conv).toBeDefined();
+    expect(conv!.endedAt).toBeInstanceOf(Date);
+    expect(conv!.messages).toHaveLength(1);
+    manager.close();
+  });
+
+  it("deletes ended conversations outside the retention window", () => {
+    const store = new SqliteConversationStore(dbPath);
+    const manager = new ConversationManager({ store, retentionMs: 1000 });
+    manager.createConversation("old", ChannelType.SMS, ConversationDirection.INBOUND, "m1");
+    manager.addMessage("old", "user", "hello");
+    manager.updateState("old", ConversationState.ENDED);
+    const conv = manager.getConversation("old")!;
+    conv.endedAt = new Date(Date.now() - 5000);
+    store.saveConversation(conv);
+
+    manager.createConversation("live", ChannelType.SMS, ConversationDirection.INBOUND, "m2");
+
+    manager.cleanupOld(0);
+
+    expect(store.get("old")).toBeUndefined();
+    expect(manager.getConversation("old")).toBeUndefined();
+    expect(store.get("live")).toBeDefined();
+    store.close();
+  });
+
+  it("finds evicted conversations by filter and message text", () => {
+    const manager = new ConversationManager({ store: new SqliteConversationStore(dbPath) });
+    manager.createConversation("c1", ChannelType.SMS, ConversationDirection.INBOUND, "m1", { from: "+1000" });
+    manager.addMessage("c1", "user", "the 100% coverage report");
+    manager.updateState("c1", ConversationState.ENDED);
+    manager.createConversation("c2", ChannelType.WHATSAPP, ConversationDirection.INBOUND, "m2");
+    manager.addMessage("c2", "user", "coverage looks fine");
+    manager.cleanupOld(-1);
+
+    expect(manager.findConversations({ text: "coverage" }).map((c) => c.id).sort()).toEqual(["c1", "c2"]);
+    expect(manager.findConversations({ text: "100%" }).map((c) => c.id)).toEqual(["c1"]);
+    expect(manager.findConversations({ channel: ChannelType.SMS, state: ConversationState.ENDED }).map((c) => c.id)).toEqual(["c1"]);
+    expect(manager.findConversations({ text: "10_" })).toHaveLength(0);
+    manager.close();
+  });
+
+  it("round-trips extra message fields", () => {
+    const store = new SqliteConversationStore(":memory:");
+    store.saveConversation({
+      id: "c1",
+      providerConversationId: "p1",
+      channel: ChannelType.VOICE,
+      direction: ConversationDirection.OUTBOUND,
+      state: ConversationState.ACTIVE,
+      messages: [],
+      startedAt: new Date(1000),
+    });
+    store.saveMessage("c1", 0, {
+      role: "user",
+      content: "yes",
+      timestamp: new Date(2000),
+      confidence: 0.9,
+    } as any);
+
+    const conv = store.get("c1")!;
+    expect(conv.metadata).toBeUndefined();
+    expect(conv.endedAt).toBeUndefined();
+    expect((conv.messages[0] as any).confidence).toBe(0.9);
+    expect(conv.messages[0].timestamp.getTime()).toBe(2000);
+    store.close();
+  });
+
+  it("restores delivery receipt timestamps", () => {
+    const manager = new ConversationManager({ store: new SqliteConversationStore(dbPath) });
+    manager.createConversation("c1", ChannelType.SMS, ConversationDirection.OUTBOUND, "SM1");
+    manager.addMessage("c1", "assistant", "done", { providerMessageId: "SM1" });
+    manager.updateDeliveryStatus("c1", "SM1", { status: "delivered" });
+    manager.close();
+
+    const store = new SqliteConversationStore(dbPath);
+    const message = store.get("c1")!.messages[0];
+    expect(message.providerMessageId).toBe("SM1");
+    expect(message.deliveryStatus![0].status).toBe("delivered");
+    expect(message.deliveryStatus![0].timestamp).toBeInstanceOf(Date);
+    store.close();
+  });
+});
@@ -98,4 +98,45 @@ describe("TaskExecutor.spawnClaude", () => {
     // Should have spawned a process
     expect(childProcess.spawn).toHaveBeenCalled();
   });
+
+  it("asks Claude to write to the user in their language", async () => {
+    await executor.executeTask("conv-8", "construye una app", "/tmp/work", undefined, "voice", "es-ES");
+    const args = (childProcess.spawn as any).mock.calls[0][1] as string[];
+    expect(args[args.length - 1]).toContain("The user speaks Spanish");
+
+    await executor.executeTask("conv-9", "build an app", "/tmp/work", undefined, "voice", "en-GB");
+    const english = (childProcess.spawn as any).mock.calls[1][1] as string[];
+    expect(english[english.length - 1]).not.toContain("## Language");
+  });
+
+  it("tells Claude how to schedule calls and messages on every channel", async () => {
+    await executor.executeTask("conv-10", "remind me at 9", "/tmp/work", undefined, "whatsapp");
+    const args = (childProcess.spawn as any).mock.calls[0][1] as string[];
+    expect(args[args.length - 1]).toContain("https://example.com/api/schedule");
+    expect(args[args.length - 1]).toContain('"conversationId": "conv-10"');
+  });
+
+  it("points Claude at the files sent with the request", async () => {
+    await executor.executeTask("conv-11", "why does this fail?", "/tmp/work", undefined, "whatsapp", undefined, [
+      { contentType: "image/png", file: "/data/attachments/conv-11/wamid-0-attachment.png", size: 2048 },
+    ]);
+    const args = (childProcess.spawn as any).mock.calls[0][1] as string[];
+    expect(args[args.length - 1]).toContain("## Attachments");
+    expect(args[args.length - 1]).toContain("- /data/attachments/conv-11/wamid-0-attachment.png (image/png)");
+  });
+
+  it("emits task.spawned and task.exited", async () => {
+    const spawned: any[] = [];
+    const exited: any[] = [];
+    executor.events.on("task.spawned", (e) => spawned.push(e));
+    executor.events.on("task.exited", (e) => exited.push(e));
+
+    await executor.executeTask("conv-7", "run the tests", "/tmp/work");
+    expect(spawned).toEqual([
+      { conversationId: "conv-7", task: "run the tests", workingDir: "/tmp/work", pid: 12345 },
+    ]);
+
+    mockProc.emit("close", 1);
+    expect(exited).toEqual([{ conversationId: "conv-7", code: 1, status: "failed" }]);
+  });
 });
@@ -102,6 +102,61 @@ describe("TaskExecutor", () => {
     });
   });
 
+  describe("recordProgress", () => {
+    it("keeps the latest progress update on the execution", async () => {
+      const mockProc = createMockProcess();
+      const spawnMock = spyOn(childProcess, "spawn").mockReturnValue(mockProc as any);
+
+      try {
+        await executor.executeTask("conv-p", "long task", "/tmp");
+        executor.recordProgress("conv-p", "Cloned the repo");
+        executor.recordProgress("conv-p", "Tests are passing");
+        expect(executor.getExecution("conv-p")!.progress).toBe("Tests are passing");
+        expect(executor.getExecution("conv-p")!.progressAt).toBeInstanceOf(Date);
+      } finally {
+        spawnMock.mockRestore();
+      }
+    });
+  });
+
+  describe("output capture", () => {
+    it("keeps the latest output lines from stdout", async () => {
+      const mockProc = createMockProcess();
+      const spawnMock = spyOn(childProcess, "spawn").mockReturnValue(mockProc as any);
+
+      try {
+        await executor.executeTask("conv-o", "long task", "/tmp");
+        mockProc.stdout.emit("data", Buffer.from("Reading files\n\nRunning tests\n"));
+        mockProc.stderr.emit("data", Buffer.from("warning: slow test"));
+        for (let i = 0; i < 30; i++) {
+          mockProc.stdout.emit("data", Buffer.from(`line ${i}`));
+        }
+
+        const execution = executor.getExecution("conv-o")!;
+        expect(execution.output).toHaveLength(20);
+        expect(execution.output.at(-1)).toBe("line 29");
+        expect(execution.outputAt).toBeInstanceOf(Date);
+      } finally {
+        spawnMock.mockRestore();
+      }
+    });
+
+    it("leaves stderr out of the output it keeps", async () => {
+      const mockProc = createMockProcess();
+      const spawnMock = spyOn(childProcess, "spawn").mockReturnValue(mockProc as any);
+
+      try {
+        await executor.executeTask("conv-e", "long task", "/tmp");
+        mockProc.stdout.emit("data", Buffer.from("Running tests"));
+        mockProc.stderr.emit("data", Buffer.from("Error: ENOENT /home/alice/.secrets\n    at Object.open"));
+
+        expect(executor.getExecution("conv-e")!.output).toEqual(["Running tests"]);
+      } finally {
+        spawnMock.mockRestore();
+      }
+    });
+  });
+
   describe("context management", () => {
     it("getTaskContext returns undefined when no execution", () => {
       expect(executor.getTaskContext("nope")).toBeUndefined();
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { TelnyxCallFlow, type CallerTurn } from "../../src/telnyx-call-flow";
+
+describe("TelnyxCallFlow", () => {
+  let phoneCallManager: any;
+  let speech: ReturnType<typeof mock>;
+  let flow: TelnyxCallFlow;
+
+  beforeEach(() => {
+    phoneCallManager = {
+      answerCall: mock(() => Promise.resolve()),
+      speakToCall: mock(() => Promise.resolve()),
+      startListening: mock(() => Promise.resolve()),
+      takeInterruption: mock(() => false),
+    };
+    speech = mock((): CallerTurn => "spawned");
+    flow = new TelnyxCallFlow(phoneCallManager, {
+      speech,
+      acknowledgement: () => "Got it.",
+    });
+  });
+
+  it("answers inbound calls and greets them once answered", async () => {
+    await flow.answer("v3:in", "Hello!", "https://example.com/webhook/telnyx/status/c1");
+    expect(phoneCallManager.answerCall).toHaveBeenCalledWith("v3:in", "https://example.com/webhook/telnyx/status/c1");
+    expect(flow.state("v3:in")).toBe("answering");
+    expect(phoneCallManager.speakToCall).not.toHaveBeenCalled();
+
+    expect(await flow.handleEvent("c1", { type: "answered", providerCallId: "v3:in" })).toBe(true);
+    expect(phoneCallManager.startListening).toHaveBeenCalledWith("v3:in");
+    expect(phoneCallManager.speakToCall).toHaveBeenCalledWith("v3:in", "Hello!", true);
+    expect(flow.state("v3:in")).toBe("listening");
+  });
+
+  it("forgets calls it could not answer", async () => {
+    phoneCallManager.answerCall.mockImplementationOnce(() => Promise.reject(new Error("call gone")));
+    await expect(flow.answer("v3:in", "Hello!", "https://example.com/status")).rejects.toThrow("call gone");
+    expect(flow.state("v3:in")).toBeUndefined();
+  });
+
+  it("speaks an outbound call's message when it is answered", async () => {
+    flow.dial("v3:out", "Your build is done");
+    expect(flow.state("v3:out")).toBe("ringing");
+
+    await flow.handleEvent("c2", { type: "answered", providerCallId: "v3:out" });
+    expect(phoneCallManager.speakToCall).toHaveBeenCalledWith("v3:out", "Your build is done", true);
+
+    // A repeated answered event doesn't greet twice
+    expect(await flow.handleEvent("c2", { type: "answered", providerCallId: "v3:out" })).toBe(false);
+    expect(phoneCallManager.speakToCall).toHaveBeenCalledTimes(1);
+  });
+
+  it("hands transcripts to the speech handler and acknowledges new tasks", async () => {
+    flow.dial("v3:out", "Hi");
+    await flow.handleEvent("c2", { type: "answered", providerCallId: "v3:out" });
+    phoneCallManager.takeInterruption.mockImplementationOnce(() => true);
+
+    await flow.handleEvent("c2", { type: "transcript", providerCallId: "v3:out", transcript: "fix the tests", confidence: 0.9 });
+    expect(speech).toHaveBeenCalledWith("c2", "fix the tests", 0.9, true);
+    expect(phoneCallManager.speakToCall).toHaveBeenLastCalledWith("v3:out", "Got it.", false);
+    expect(flow.state("v3:out")).toBe("working");
+
+    // Later turns (answers to questions, follow-ups) aren't acknowledged
+    speech.mockImplementationOnce((): CallerTurn => "answered");
+    await flow.handleEvent("c2", { type: "gather_ended", providerCallId: "v3:out", transcript: "yes" });
+    expect(speech).toHaveBeenCalledTimes(2);
+    expect(phoneCallManager.speakToCall).toHaveBeenCalledTimes(2);
+  });
+
+  it("ignores transcripts before the call is answered, and empty ones", async () => {
+    flow.dial("v3:out", "Hi");
+    expect(await flow.handleEvent("c2", { type: "transcript", providerCallId: "v3:out", transcript: "hello?" })).toBe(false);
+
+    await flow.handleEvent("c2", { type: "answered", providerCallId: "v3:out" });
+    expect(await flow.handleEvent("c2", { type: "gather_ended", providerCallId: "v3:out" })).toBe(false);
+    expect(speech).not.toHaveBeenCalled();
+  });
+
+  it("forgets calls that hang up", async () => {
+    flow.dial("v3:out", "Hi");
+    expect(await flow.handleEvent("c2", { type: "hangup", providerCallId: "v3:out" })).toBe(true);
+    expect(flow.state("v3:out")).toBeUndefined();
+    expect(await flow.handleEvent("c2", { type: "answered", providerCallId: "v3:out" })).toBe(false);
+  });
+});